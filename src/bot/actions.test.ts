@@ -1,6 +1,7 @@
 import { test } from "node:test";
 import assert from "node:assert/strict";
 import { executeAction } from "./actions.js";
+import { getRequest, resetTransfers } from "./transfers.js";
 
 // ── Minimal mock bot ────────────────────────────────────────────────────────
 
@@ -176,6 +177,16 @@ test("executeAction: withdraw_stash without item param returns error", async ()
   assert.ok(result.includes("needs an 'item' param"));
 });
 
+// ── Item requests ───────────────────────────────────────────────────────────
+
+test("executeAction: request_items takes missing coordinates from the bot's position", async () => {
+  resetTransfers();
+  const result = await executeAction(mockBot(), "request_items", { item: "torch", x: 12.4 });
+  const id = Number(/#(\d+)/.exec(result)?.[1]);
+  assert.deepEqual(getRequest(id)?.pos, { x: 12, y: 64, z: 0 });
+  resetTransfers();
+});
+
 // ── Action error handling ───────────────────────────────────────────────────
 
 test("executeAction: catches thrown errors gracefully", async () => {
@@ -4,10 +4,19 @@ const { goals, Movements } = pkg;
 import { Vec3 } from "vec3";
 import { isHostile } from "./perception.js";
 import { skillRegistry } from "../skills/registry.js";
-import { runSkill } from "../skills/executor.js";
+import { runSkillWithResult } from "../skills/executor.js";
 import { runNeuralCombat } from "../neural/combat.js";
-import { LOG_TYPES } from "../skills/materials.js";
+import { LOG_TYPES, PLANK_TYPES, executeCraftPlan, planForBot } from "../skills/materials.js";
+import { ITEM_GROUPS, formatCraftPlan, itemLabel } from "../skills/craft-planner.js";
 import { depositStash, withdrawStash } from "../skills/stash.js";
+import { deliverItems } from "../skills/deliver.js";
+import type { GenerationCheck } from "../skills/generator.js";
+import type { SkillFailureKind } from "../skills/types.js";
+import { getWorldIndex } from "./world-index.js";
+import { BOT_ROSTER } from "./role.js";
+import { acceptRequest, cancelRequest, getAcceptedRequest, getRequest, requestItems, surplusOf } from "./transfers.js";
+import { claimTask, completeTask, getClaimedTask, handOffTask, postTask, releaseTask, type TaskRole } from "./tasks.js";
+import { DEFAULT_POLL_MS, openPoll } from "../stream/polls.js";
 
 /** Create safe movement defaults — no digging, no block placement, just walk/jump */
 export function safeMoves(bot: Bot): InstanceType<typeof Movements> {
@@ -96,7 +105,32 @@ export async function safeGoto(bot: Bot, goal: any, timeoutMs = 15000, stallStar
   });
 }
 
+/**
+ * What an action did. Skills carry the executor's verdict — `success` only when
+ * the skill succeeded and its postconditions held, with `failureKind` on a
+ * failure. Other actions have only their message and leave `success` unset.
+ */
+export interface ActionResult {
+  message: string;
+  success?: boolean;
+  failureKind?: SkillFailureKind;
+}
+
 export async function executeAction(bot: Bot, action: string, params: Record<string, any>): Promise<string> {
+  return (await executeActionWithResult(bot, action, params)).message;
+}
+
+/** executeAction, with the verdict of a skill run as well as its message. */
+export async function executeActionWithResult(
+  bot: Bot,
+  action: string,
+  params: Record<string, any>,
+): Promise<ActionResult> {
+  const result = await dispatchAction(bot, action, params);
+  return typeof result === "string" ? { message: result } : result;
+}
+
+async function dispatchAction(bot: Bot, action: string, params: Record<string, any>): Promise<string | ActionResult> {
   try {
     switch (action) {
       case "gather_wood":
@@ -156,8 +190,29 @@ export async function executeAction(bot: Bot, action: string, params: Record<str
       case "generate_skill": {
         if (!params.task || !String(params.task).trim()) return "generate_skill needs a non-empty 'task' param.";
         const { generateSkill } = await import("../skills/generator.js");
-        const name = await generateSkill(params.task as string);
-        return `Generated skill '${name}'! I can now use it with invoke_skill.`;
+        const verify: GenerationCheck[] = [];
+        if (params.verify_item) {
+          verify.push({
+            type: "item_gained",
+            name: String(params.verify_item),
+            count: Number(params.verify_count) || 1,
+          });
+        }
+        if (params.verify_block)
+          verify.push({ type: "block_nearby", name: String(params.verify_block), maxDistance: 8 });
+        const result = await generateSkill(params.task as string, { bot, verify });
+        if (!result.ok) {
+          const last = result.attempts[result.attempts.length - 1];
+          return {
+            message: `Couldn't write a working '${result.name}' in ${result.attempts.length} attempts (last: ${last?.error}).`,
+            success: false,
+            failureKind: "error",
+          };
+        }
+        return {
+          message: `Generated skill '${result.name}' (passed on attempt ${result.attempts.length})! I can now use it with invoke_skill.`,
+          success: true,
+        };
       }
       case "invoke_skill": {
         const name = params.skill as string;
@@ -181,11 +236,11 @@ export async function executeAction(bot: Bot, action: string, params: Record<str
             "chat",
           ]);
           if (BUILTIN_ACTIONS.has(name)) {
-            return await executeAction(bot, name, params);
+            return await executeActionWithResult(bot, name, params);
           }
           return `Skill '${name}' not found. Try generate_skill to create it.`;
         }
-        return await runSkill(bot, skill, params);
+        return await runSkillWithResult(bot, skill, params);
       }
       case "neural_combat":
       case "neural_navigation": {
@@ -206,18 +261,117 @@ export async function executeAction(bot: Bot, action: string, params: Record<str
         if (!item) return "withdraw_stash needs an 'item' param.";
         return await withdrawStash(bot, stashPos, item, count);
       }
+      case "post_task":
+      case "claim_task":
+      case "release_task":
+      case "complete_task":
+        return taskAction(bot, action, params);
+      case "request_items":
+      case "accept_request":
+      case "deliver_items":
+      case "cancel_request":
+        return await transferAction(bot, action, params);
+      case "start_poll":
+        return pollAction(bot, params);
       default: {
         // Check if this is a registered skill
         const skill = skillRegistry.get(action);
         if (skill) {
-          return await runSkill(bot, skill, params);
+          return await runSkillWithResult(bot, skill, params);
         }
         return `Unknown action: ${action}`;
       }
     }
   } catch (err: any) {
-    return `Action failed: ${err.message || err}`;
+    return { message: `Action failed: ${err.message || err}`, success: false, failureKind: "error" };
+  }
+}
+
+function taskAction(bot: Bot, action: string, params: Record<string, any>): string {
+  const me: TaskRole = params.taskRole ?? { name: bot.username };
+  if (action === "post_task") {
+    const title = String(params.title ?? params.message ?? "").trim();
+    if (!title) return "post_task needs a 'title' param.";
+    const skills = (Array.isArray(params.skills) ? params.skills : String(params.skills ?? "").split(","))
+      .map((s: unknown) => String(s).trim())
+      .filter(Boolean);
+    const task = postTask({ title, postedBy: me.name, requiredRole: params.role || undefined, requiredSkills: skills });
+    return `Posted task #${task.id}: ${task.title}`;
+  }
+
+  // Claim needs an id; the rest default to whatever this bot holds
+  const id = Number(params.taskId ?? params.id ?? (action === "claim_task" ? NaN : getClaimedTask(me.name)?.id));
+  if (!Number.isFinite(id)) return action === "claim_task" ? "claim_task needs a 'taskId' param." : "You hold no task.";
+
+  if (action === "claim_task") {
+    const res = claimTask(id, me);
+    return res.ok ? `Claimed task #${id}: ${res.task.title}` : res.error;
   }
+  if (action === "complete_task") {
+    const res = completeTask(id, me.name, params.result ? String(params.result) : "");
+    return res.ok ? `Completed task #${id}: ${res.task.title}` : res.error;
+  }
+  if (params.handTo) {
+    const target = BOT_ROSTER.find((r) => r.name.toLowerCase() === String(params.handTo).toLowerCase());
+    if (!target) return `No teammate named ${params.handTo}.`;
+    const res = handOffTask(id, me.name, target);
+    return res.ok ? `Handed task #${id} to ${target.name}.` : res.error;
+  }
+  const res = releaseTask(id, me.name, params.reason ? String(params.reason) : undefined);
+  return res.ok ? `Released task #${id} back to the board.` : res.error;
+}
+
+function pollAction(bot: Bot, params: Record<string, any>): string {
+  const me: string = params.botName ?? bot.username;
+  const options = (Array.isArray(params.options) ? params.options : String(params.options ?? "").split("|"))
+    .map((o: unknown) => String(o).trim())
+    .filter(Boolean);
+  const kind = params.mission === true || params.mission === "true" ? "mission" : "directive";
+  const res = openPoll({
+    question: String(params.question ?? "").trim() || (kind === "mission" ? "Next mission?" : "What should I do next?"),
+    options,
+    kind,
+    durationMs: Number(params.seconds) > 0 ? Number(params.seconds) * 1000 : DEFAULT_POLL_MS,
+    target: me,
+    openedBy: me,
+  });
+  return res.ok
+    ? `Poll open for ${Math.round((res.poll.endsAt - Date.now()) / 1000)}s: ${res.poll.question}`
+    : res.error;
+}
+
+async function transferAction(bot: Bot, action: string, params: Record<string, any>): Promise<string> {
+  const me: string = params.botName ?? bot.username;
+  const keepItems = params.keepItems ?? [];
+  if (action === "request_items") {
+    const item = String(params.item ?? "").trim();
+    const count = Math.max(1, Number(params.count) || 1);
+    if (!item) return "request_items needs an 'item' param.";
+    // Where to bring it: the given coordinates, with any missing one taken from where the bot stands
+    const here = bot.entity.position;
+    const axis = (v: unknown, fallback: number) => (v != null && v !== "" && Number.isFinite(+v) ? +v : fallback);
+    const pos = { x: axis(params.x, here.x), y: axis(params.y, here.y), z: axis(params.z, here.z) };
+    const req = requestItems({ item, count, pos, requestedBy: me });
+    return `Requested ${count}x ${item} (request #${req.id}) — a teammate with spare will bring it.`;
+  }
+
+  // The rest default to the request this bot is delivering
+  const id = Number(params.requestId ?? params.id ?? (action === "accept_request" ? NaN : getAcceptedRequest(me)?.id));
+  if (!Number.isFinite(id)) {
+    return action === "accept_request" ? "accept_request needs a 'requestId' param." : "No request to act on.";
+  }
+
+  if (action === "accept_request") {
+    const res = acceptRequest(id, me, surplusOf(bot.inventory.items(), keepItems));
+    return res.ok ? `Accepted request #${id} — bring ${res.request.item} to ${res.request.requestedBy}.` : res.error;
+  }
+  if (action === "cancel_request") {
+    const res = cancelRequest(id, me);
+    return res.ok ? `Dropped request #${id}.` : res.error;
+  }
+  const req = getRequest(id);
+  if (!req || req.status !== "accepted" || req.acceptedBy !== me) return `You haven't accepted request #${id}.`;
+  return await deliverItems(bot, req, me, keepItems);
 }
 
 async function gatherWood(bot: Bot, count: number): Promise<string> {
@@ -225,14 +379,32 @@ async function gatherWood(bot: Bot, count: number): Promise<string> {
   const logTypes = LOG_TYPES as readonly string[];
 
   // Collect all nearby logs — use 256 block radius to find trees even after local depletion
-  const allLogs = bot.findBlocks({
-    matching: (block) => logTypes.includes(block.name),
-    maxDistance: 256,
-    count: 20,
-  });
-
-  if (allLogs.length === 0)
-    return "No trees found within 256 blocks. Explore further south (toward Z=-100 or Z=0) to find an uncharted forest.";
+  const findLogs = () =>
+    bot.findBlocks({
+      matching: (block) => logTypes.includes(block.name),
+      maxDistance: 256,
+      count: 20,
+    });
+  let allLogs = findLogs();
+
+  if (allLogs.length === 0) {
+    // Nothing in loaded chunks — walk to the nearest forest any bot has seen before exploring blind
+    const p = bot.entity.position;
+    const forest = getWorldIndex().nearest("tree", p.x, p.y, p.z, { maxDistance: 1024 });
+    if (!forest)
+      return "No trees found within 256 blocks. Explore further south (toward Z=-100 or Z=0) to find an uncharted forest.";
+    bot.pathfinder.setMovements(explorerMoves(bot));
+    try {
+      await safeGoto(bot, new goals.GoalNear(forest.x, forest.y, forest.z, 4), 90000, 32000);
+    } catch {
+      /* search from wherever we got to */
+    }
+    allLogs = findLogs();
+    if (allLogs.length === 0) {
+      getWorldIndex().markDepleted("tree", forest.x, forest.y, forest.z);
+      return `The known forest at (${forest.x}, ${forest.z}) has no trees left. Explore to find a new one.`;
+    }
+  }
 
   // If underground, surface first — explorerMoves can't dig through solid blocks
   if (bot.entity.position.y < 63) {
@@ -432,9 +604,9 @@ async function explore(bot: Bot, direction: string): Promise<string> {
 
 // Common crafting aliases — LLMs often use informal names
 const CRAFT_ALIASES: Record<string, string> = {
-  planks: "oak_planks",
-  wooden_planks: "oak_planks",
-  wood_planks: "oak_planks",
+  planks: "#planks",
+  wooden_planks: "#planks",
+  wood_planks: "#planks",
   sticks: "stick",
   wood_pickaxe: "wooden_pickaxe",
   wood_axe: "wooden_axe",
@@ -450,127 +622,27 @@ const CRAFT_ALIASES: Record<string, string> = {
 };
 
 async function craftItem(bot: Bot, itemName: string, count: number): Promise<string> {
-  // Resolve aliases
-  const resolvedName = CRAFT_ALIASES[itemName] || itemName;
-  const mcData = (await import("minecraft-data")).default(bot.version);
-  const item = mcData.itemsByName[resolvedName];
-  if (!item) return `Unknown item: ${itemName}. Use exact Minecraft IDs like oak_planks, stick, wooden_pickaxe.`;
-
-  // Find or place crafting table (needed for 3x3 recipes like pickaxes)
-  let craftingTable = bot.findBlock({
-    matching: (b) => b.name === "crafting_table",
-    maxDistance: 32,
-  });
-
-  // Try recipe with crafting table first (supports 3x3), fall back to hand (2x2)
-  let recipe = craftingTable ? bot.recipesFor(item.id, null, 1, craftingTable)[0] : null;
-
-  if (!recipe) {
-    // Try 2x2 hand recipe
-    recipe = bot.recipesFor(item.id, null, 1, null)[0];
-  }
-
-  if (!recipe && !craftingTable) {
-    // No recipe without table — try auto-placing one from inventory
-    const tableItem = bot.inventory.items().find((i) => i.name === "crafting_table");
-    if (tableItem) {
-      const placePos = findAdjacentAir(bot);
-      if (placePos) {
-        try {
-          await bot.equip(tableItem, "hand");
-          await bot.lookAt(placePos.ref.position.offset(0.5, 0.5, 0.5));
-          await bot.placeBlock(placePos.ref, placePos.face);
-          // Find the table we just placed
-          craftingTable = bot.findBlock({
-            matching: (b) => b.name === "crafting_table",
-            maxDistance: 8,
-          });
-          if (craftingTable) {
-            recipe = bot.recipesFor(item.id, null, 1, craftingTable)[0];
-          }
-        } catch {
-          // Placement failed, continue without table
-        }
-      }
-    }
-  }
-
-  if (!recipe) {
-    // Auto-convert logs → planks if missing planks (common early-game bottleneck)
-    const hasPlanks = bot.inventory.items().some((i) => i.name.endsWith("_planks"));
-    if (!hasPlanks) {
-      const logItem = bot.inventory.items().find((i) => i.name.endsWith("_log"));
-      if (logItem) {
-        const planksName = logItem.name.replace("_log", "_planks");
-        const planksItemData = mcData.itemsByName[planksName];
-        if (planksItemData) {
-          const planksRecipe = bot.recipesFor(planksItemData.id, null, 1, null)[0];
-          if (planksRecipe) {
-            try {
-              await bot.craft(planksRecipe, Math.floor(logItem.count), undefined);
-              console.log(`[Craft] Auto-crafted ${logItem.name} → ${planksName}`);
-            } catch {
-              /* ignore, try main recipe anyway */
-            }
-            // Re-check recipe after getting planks
-            recipe = craftingTable
-              ? bot.recipesFor(item.id, null, 1, craftingTable)[0]
-              : bot.recipesFor(item.id, null, 1, null)[0];
-          }
-        }
-      }
-    }
-  }
-
-  if (!recipe) {
-    // Provide specific missing-material feedback so the LLM knows what to gather next.
-    if (resolvedName.endsWith("_bed")) {
-      const hasWool = bot.inventory.items().some((i) => i.name.endsWith("_wool"));
-      const woolCount = bot.inventory
-        .items()
-        .filter((i) => i.name.endsWith("_wool"))
-        .reduce((s, i) => s + i.count, 0);
-      if (!hasWool || woolCount < 3) {
-        return `Can't craft ${resolvedName} — need 3 wool (you have ${woolCount}). Kill/shear nearby sheep to get wool, then craft planks + wool into a bed.`;
-      }
-    }
-    if (resolvedName === "torch") {
-      const hasCoal = bot.inventory.items().some((i) => i.name === "coal" || i.name === "charcoal");
-      const hasStick = bot.inventory.items().some((i) => i.name === "stick");
-      const missing: string[] = [];
-      if (!hasCoal) missing.push("coal or charcoal (mine coal_ore with a pickaxe)");
-      if (!hasStick) missing.push("sticks (craft from planks)");
-      return `Can't craft torch — missing: ${missing.length ? missing.join(", ") : "unknown"}. Recipe: 1 coal/charcoal + 1 stick = 4 torches.`;
-    }
-    // Generic: try to identify missing ingredients from the first known recipe
-    const allRecipes = mcData.recipes?.[item.id];
-    if (allRecipes?.length) {
-      const needed = (allRecipes[0].ingredients ?? allRecipes[0].inShape?.flat() ?? [])
-        .filter(Boolean)
-        .map((ing: any) => {
-          const ingId = typeof ing === "object" ? (ing.id ?? ing) : ing;
-          return mcData.items[ingId]?.name ?? String(ingId);
-        });
-      const uniqueNeeded = [...new Set(needed)].filter((n) => n && n !== "null");
-      if (uniqueNeeded.length) {
-        return `Can't craft ${resolvedName} — need: ${uniqueNeeded.join(", ")}. Gather those first.`;
-      }
-    }
-    return `Can't craft ${resolvedName} — missing materials or need a crafting table.`;
-  }
+  // Resolve aliases — any plank type will do, the planner crafts them from whatever logs we carry
+  const alias = CRAFT_ALIASES[itemName] || itemName;
+  const resolvedName = (PLANK_TYPES as readonly string[]).includes(alias) ? "#planks" : alias;
+  const have = bot.inventory
+    .items()
+    .filter((i) => (ITEM_GROUPS[resolvedName] ?? [resolvedName]).includes(i.name))
+    .reduce((sum, i) => sum + i.count, 0);
 
-  if (craftingTable) {
-    // Walk to the crafting table
-    bot.pathfinder.setMovements(safeMoves(bot));
-    await safeGoto(
-      bot,
-      new goals.GoalNear(craftingTable.position.x, craftingTable.position.y, craftingTable.position.z, 2),
-      8000,
-    );
+  const plan = planForBot(bot, { [resolvedName]: have + count });
+  if (plan.unknown.length > 0) {
+    return `Unknown item: ${itemName}. Use exact Minecraft IDs like oak_planks, stick, wooden_pickaxe.`;
   }
-
-  await bot.craft(recipe, count, craftingTable || undefined);
-  return `Crafted ${count}x ${resolvedName}.`;
+  // Give the LLM the whole route instead of one missing ingredient at a time.
+  // Stash withdrawals are fine — the team already has those.
+  const runnable = plan.steps.every((s) => s.kind === "craft" || s.kind === "withdraw");
+  if (!runnable) return `Can't craft ${itemLabel(resolvedName)} yet. ${formatCraftPlan(plan).replace(/\n/g, " ")}`;
+
+  const result = await executeCraftPlan(bot, plan, new AbortController().signal, () => {});
+  if (!result.success) return `Can't craft ${itemLabel(resolvedName)} — ${result.message}`;
+  const crafted = plan.steps.filter((s) => s.kind === "craft").map((s) => `${s.count}x ${itemLabel(s.item)}`);
+  return `Crafted ${crafted.join(", ")}.`;
 }
 
 async function eat(bot: Bot): Promise<string> {
@@ -789,46 +861,6 @@ function findFlatSpot(bot: Bot): Vec3 | null {
   return null;
 }
 
-/**
- * Find an air block near the bot where we can place something.
- * Returns the reference (solid) block and face vector for bot.placeBlock().
- * placeBlock(ref, face) creates a new block at ref.position + face.
- */
-function findAdjacentAir(bot: Bot): { ref: any; face: Vec3 } | null {
-  const pos = bot.entity.position.floored();
-  const faces = [
-    new Vec3(1, 0, 0),
-    new Vec3(-1, 0, 0),
-    new Vec3(0, 0, 1),
-    new Vec3(0, 0, -1),
-    new Vec3(0, 1, 0),
-    new Vec3(0, -1, 0),
-  ];
-
-  // Scan air blocks around the bot (within 2 blocks, at foot and ground level)
-  for (let dx = -2; dx <= 2; dx++) {
-    for (let dz = -2; dz <= 2; dz++) {
-      for (let dy = -1; dy <= 1; dy++) {
-        const airPos = pos.offset(dx, dy, dz);
-        const airBlock = bot.blockAt(airPos);
-        if (!airBlock || airBlock.name !== "air") continue;
-        // Don't place where the bot is standing or at head height
-        if (airPos.equals(pos) || airPos.equals(pos.offset(0, 1, 0))) continue;
-
-        // Find a solid neighbor to use as reference
-        for (const face of faces) {
-          const refPos = airPos.minus(face);
-          const refBlock = bot.blockAt(refPos);
-          if (refBlock && refBlock.name !== "air" && !refBlock.name.includes("leaves")) {
-            return { ref: refBlock, face };
-          }
-        }
-      }
-    }
-  }
-  return null;
-}
-
 /** Try placing a block with a fast 2s timeout. Returns true on success. */
 async function tryPlace(bot: Bot, refBlock: any, face: Vec3): Promise<boolean> {
   return Promise.race([
@@ -19,18 +19,37 @@ import type { Bot } from "mineflayer";
 import type { Entity } from "prismarine-entity";
 import { config } from "../config.js";
 import { BotRoleConfig } from "./role.js";
-import { queryStrategic, queryReactive, queryCritic, chatWithLLM, type LLMMessage } from "../llm/index.js";
+import {
+  queryStrategic,
+  queryReactive,
+  queryCritic,
+  chatWithLLM,
+  type LLMMessage,
+  type LLMTrace,
+} from "../llm/index.js";
 import type { RoleContext } from "../llm/prompts.js";
 import { getWorldContext, isHostile } from "./perception.js";
-import { executeAction } from "./actions.js";
+import { executeActionWithResult } from "./actions.js";
 import { updateOverlay, addChatMessage, speakThought, setCurrentBot } from "../stream/overlay.js";
 import { generateSpeech } from "../stream/tts.js";
 import { filterContent, filterChatMessage, filterViewerMessage } from "../safety/filter.js";
 import { abortActiveSkill, isSkillRunning, getActiveSkillName } from "../skills/executor.js";
 import { skillRegistry } from "../skills/registry.js";
+import { unmetPreconditions } from "../skills/conditions.js";
+import { findCheckpoints } from "../skills/checkpoints.js";
+import { blueprintKey } from "../skills/blueprints/loader.js";
+import type { SkillCheckpoint, SkillFailureKind } from "../skills/types.js";
 import { BotMemoryStore } from "./memory.js";
+import { GoalPlanner, countMatchingItems, type GoalWorld } from "./goals.js";
+import { getWorldIndex, type WorldIndex } from "./world-index.js";
+import { getStashStore, getStashInventory } from "../skills/stash-inventory.js";
+import { planCrafting, formatCraftPlan, inventoryCounts } from "../skills/craft-planner.js";
 import { updateBulletin, formatTeamBulletin } from "./bulletin.js";
+import { formatTaskContext, renewClaims, TASK_ACTIONS } from "./tasks.js";
+import { formatTransferContext, surplusOf, TRANSFER_ACTIONS } from "./transfers.js";
+import { POLL_ACTIONS } from "../stream/polls.js";
 import { createLogger } from "../util/logger.js";
+import type { SessionRecorder, SessionEntryDraft } from "./recorder.js";
 
 export interface ChatMessage {
   source: "minecraft" | "twitch" | "youtube";
@@ -42,12 +61,33 @@ export interface ChatMessage {
 export interface BrainEvents {
   onThought: (thought: string) => void;
   onAction: (action: string, result: string) => void;
-  onChat: (message: string) => void;
+  /** A chat reply, with the message it answers. */
+  onChat: (message: string, replyTo?: ChatMessage) => void;
 }
 
+export interface BrainOptions {
+  /** Record every processed event to a JSONL session file. */
+  recorder?: SessionRecorder | null;
+  /** Action executor — replay swaps in one that returns recorded results. */
+  executeAction?: typeof executeActionWithResult;
+  /** Generate TTS for thoughts (default true). Off for offline replay. */
+  speech?: boolean;
+  /** Shared POI index for "KNOWN PLACES" (default: this world's). Null leaves it out. */
+  worldIndex?: WorldIndex | null;
+  /**
+   * Touch state shared with the running world (default true): task claims, the
+   * team bulletin, the overlay, scheduled re-plans and interrupted builds. Off
+   * for offline replay.
+   */
+  live?: boolean;
+}
+
+/** Skills that put up a structure — an unfinished one is finished before another is started. */
+const BUILD_SKILLS = ["build_house", "build_structure"];
+
 // ─── Event types ────────────────────────────────────────────────────────────
 
-type EventType = "strategic" | "reactive" | "chat" | "critic";
+type EventType = "strategic" | "reactive" | "chat" | "critic" | "forced";
 
 interface BrainEvent {
   type: EventType;
@@ -63,7 +103,15 @@ export class BotBrain {
   private roleConfig: BotRoleConfig;
   private events: BrainEvents;
   private memStore: BotMemoryStore;
+  private goals: GoalPlanner;
   private log;
+  private recorder: SessionRecorder | null;
+  private runAction: typeof executeActionWithResult;
+  private speech: boolean;
+  private worldIndex: WorldIndex | null;
+  private live: boolean;
+  /** Session entry for the event being processed (only while recording). */
+  private draft: SessionEntryDraft | null = null;
 
   // Processing state
   private processing = false;
@@ -84,6 +132,7 @@ export class BotBrain {
   private repeatCount = 0;
   private recentHistory: LLMMessage[] = [];
   private pendingChatMessages: ChatMessage[] = [];
+  private pendingDirectives: string[] = [];
 
   // Failure tracking
   private recentFailures = new Map<string, string>();
@@ -105,12 +154,24 @@ export class BotBrain {
   private STRATEGIC_COOLDOWN_MS = 8000;
   private CRITIC_ENABLED = true;
 
-  constructor(bot: Bot, roleConfig: BotRoleConfig, events: BrainEvents, memStore: BotMemoryStore) {
+  constructor(
+    bot: Bot,
+    roleConfig: BotRoleConfig,
+    events: BrainEvents,
+    memStore: BotMemoryStore,
+    options: BrainOptions = {},
+  ) {
     this.bot = bot;
     this.roleConfig = roleConfig;
     this.events = events;
     this.memStore = memStore;
+    this.goals = new GoalPlanner(memStore);
     this.log = createLogger(roleConfig.name);
+    this.recorder = options.recorder ?? null;
+    this.runAction = options.executeAction ?? executeActionWithResult;
+    this.speech = options.speech ?? true;
+    this.worldIndex = options.worldIndex === undefined ? getWorldIndex() : options.worldIndex;
+    this.live = options.live ?? true;
     this.homePos = roleConfig.homePos ?? null;
     this.IDLE_INTERVAL_MS = config.bot.idleIntervalMs ?? 10_000;
 
@@ -161,7 +222,7 @@ export class BotBrain {
         },
         time: this.bot.time.timeOfDay < 13000 || this.bot.time.timeOfDay > 23000 ? "Daytime" : "Nighttime",
         inventory: this.bot.inventory.items().map((i) => `${i.name}x${i.count}`),
-        seasonGoal: this.memStore.getSeasonGoal() ?? undefined,
+        seasonGoal: this.goals.formatPath(this.goalWorld()),
       };
       if (isSkillRunning(this.bot)) {
         overlayData.action = `[SKILL] ${getActiveSkillName(this.bot)}`;
@@ -176,6 +237,7 @@ export class BotBrain {
   /** Stop the brain — clears all timers. */
   stop(): void {
     this.stopped = true;
+    for (const event of this.eventQueue) if (event.type === "forced") event.data.resolve("Bot is stopped");
     if (this.idleTimer) clearTimeout(this.idleTimer);
     if (this.hostileScanner) clearInterval(this.hostileScanner);
     if (this.overlayInterval) clearInterval(this.overlayInterval);
@@ -189,7 +251,16 @@ export class BotBrain {
       msg.message = viewerFilter.cleaned;
     }
     this.pendingChatMessages.push(msg);
-    if (this.pendingChatMessages.length > 10) this.pendingChatMessages.shift();
+    if (this.pendingChatMessages.length > 10) {
+      // Drop the oldest message of whoever has the most waiting, so one chatter can't push everyone else out
+      const waiting = new Map<string, number>();
+      for (const m of this.pendingChatMessages) waiting.set(m.username, (waiting.get(m.username) ?? 0) + 1);
+      const most = Math.max(...waiting.values());
+      this.pendingChatMessages.splice(
+        this.pendingChatMessages.findIndex((m) => waiting.get(m.username) === most),
+        1,
+      );
+    }
 
     // Push chat event — paid messages are higher priority
     const isPaid = (msg as any).tier === "paid";
@@ -201,6 +272,34 @@ export class BotBrain {
     });
   }
 
+  /**
+   * A one-off instruction for the next strategic decision, e.g. what viewers
+   * voted for or redeemed. Unlike the season goal it's dropped once acted on.
+   */
+  queueDirective(directive: string): void {
+    this.pendingDirectives.push(directive);
+    this.pushEvent({ type: "strategic", priority: 1, data: { directive }, timestamp: Date.now() });
+  }
+
+  /**
+   * Run `run` as this bot's next action, ahead of anything it planned and
+   * interrupting a running skill — a viewer paid for it. Resolves with the
+   * result; only one forced action waits at a time.
+   */
+  forceAction(action: string, reason: string, run: () => Promise<string>): Promise<string> {
+    if (this.stopped) return Promise.resolve("Bot is stopped");
+    if (this.eventQueue.some((e) => e.type === "forced")) return Promise.resolve("Another forced action is waiting");
+    return new Promise((resolve) => {
+      abortActiveSkill(this.bot);
+      this.pushEvent({ type: "forced", priority: 0, data: { action, reason, run, resolve }, timestamp: Date.now() });
+    });
+  }
+
+  /** Current path through the season goal's task tree, e.g. "Get iron armor › Furnace". */
+  getGoalPath(): string | undefined {
+    return this.goals.formatPath(this.goalWorld());
+  }
+
   /** Force immediate strategic re-evaluation. */
   triggerReplan(): void {
     this.pushEvent({ type: "strategic", priority: 5, timestamp: Date.now() });
@@ -242,10 +341,22 @@ export class BotBrain {
 
     this.processing = true;
     setCurrentBot(this.roleConfig.name);
+    this.draft = this.recorder ? { event: { type: event.type, priority: event.priority, data: event.data } } : null;
+    let retryLater = false;
 
     try {
       // Skip if a skill is running (let it finish)
+      if (isSkillRunning(this.bot) && event.type === "forced") {
+        // Started outside the brain (e.g. an !eval) — stop it and go next. The event stays
+        // queued meanwhile, so stop() still answers it and no second forced action gets in.
+        abortActiveSkill(this.bot);
+        this.eventQueue.unshift(event);
+        retryLater = true;
+        setTimeout(() => this.processNext(), 1000);
+        return;
+      }
       if (isSkillRunning(this.bot) && event.type !== "reactive") {
+        if (this.draft) this.draft.skipped = `skill running: ${getActiveSkillName(this.bot)}`;
         // Re-queue non-urgent events to process after skill completes
         if (event.type === "strategic") {
           setTimeout(() => this.pushEvent(event), 3000);
@@ -266,14 +377,20 @@ export class BotBrain {
         case "critic":
           await this.handleCritic(event);
           break;
+        case "forced":
+          await this.handleForced(event);
+          break;
       }
     } catch (err) {
       this.log.error(`Brain:${event.type}`, "Error:", err);
+      if (this.draft) this.draft.error = String(err);
     } finally {
+      if (this.draft) this.recorder?.record(this.draft);
+      this.draft = null;
       this.processing = false;
       this.resetIdleTimer();
       // Process next queued event
-      if (this.eventQueue.length > 0 && !this.stopped) {
+      if (this.eventQueue.length > 0 && !this.stopped && !retryLater) {
         setImmediate(() => this.processNext());
       }
     }
@@ -377,6 +494,57 @@ export class BotBrain {
 
   // ─── Context building ─────────────────────────────────────────────────────
 
+  /** Inventory + remembered structures, as seen by the goal planner. */
+  private goalWorld(): GoalWorld {
+    return {
+      countItem: (names) => countMatchingItems(this.bot.inventory.items(), names),
+      hasStructure: (type) => {
+        const p = this.bot.entity.position;
+        return this.memStore.getNearestStructure(type, p.x, p.z) !== null;
+      },
+    };
+  }
+
+  /** Recipe plan for the season goal's next step when that step is a craft the inventory can't cover yet. */
+  private craftPlanContext(world: GoalWorld): string | null {
+    const leaf = this.goals.activePath(world).at(-1);
+    const item = leaf?.hint?.action === "craft" ? leaf.hint.params?.item : undefined;
+    if (!item) return null;
+    const plan = planCrafting(
+      this.bot.version ?? config.mc.version,
+      { [item]: 1 },
+      {
+        inventory: inventoryCounts(this.bot.inventory.items()),
+        stash: getStashInventory(),
+      },
+    );
+    if (plan.ready) return null;
+    return `CRAFTING PLAN:\n${formatCraftPlan(plan)}`;
+  }
+
+  /** This bot's skills whose preconditions don't hold right now, with the reason (for the prompt). */
+  private unmetSkillPreconditions(): Record<string, string> | undefined {
+    const allowed = this.roleConfig.allowedSkills;
+    const unmet: Record<string, string> = {};
+    for (const skill of skillRegistry.values()) {
+      if (allowed?.length && !allowed.includes(skill.name)) continue;
+      const reasons = unmetPreconditions(this.bot, skill);
+      if (reasons.length > 0) unmet[skill.name] = reasons.join("; ");
+    }
+    return Object.keys(unmet).length > 0 ? unmet : undefined;
+  }
+
+  /** An interrupted build nearby that this build decision should finish first; null when it's the same build. */
+  private unfinishedBuildInstead(action: string, params: Record<string, any>): SkillCheckpoint | null {
+    if (!this.live || !BUILD_SKILLS.includes(action) || /^(false|no)$/i.test(String(params.resume))) return null;
+    const unfinished = findCheckpoints(this.bot).find((c) => BUILD_SKILLS.includes(c.skill));
+    if (!unfinished || unfinished.skill !== action) return unfinished ?? null;
+    // Same skill: it resumes on its own — unless it's a different blueprint
+    const sameBlueprint =
+      action !== "build_structure" || blueprintKey(String(params.blueprint ?? "")) === unfinished.params.blueprint;
+    return sameBlueprint ? null : unfinished;
+  }
+
   /** Build the world context string for strategic decisions. */
   private buildContext(): string {
     const worldContext = getWorldContext(this.bot);
@@ -389,6 +557,20 @@ export class BotBrain {
       this.pendingChatMessages.length = 0;
     }
 
+    // Viewer directives — do these before anything else that isn't urgent
+    if (this.pendingDirectives.length > 0) {
+      ctx += `\n\nVIEWERS ASKED — DO THIS NEXT: ${this.pendingDirectives.join("; ")}`;
+      this.pendingDirectives.length = 0;
+    }
+
+    // Season goal plan
+    const world = this.goalWorld();
+    this.goals.refresh(world);
+    const plan = this.goals.formatContext(world);
+    if (plan) ctx += `\n\n${plan}`;
+    const craftPlan = this.craftPlanContext(world);
+    if (craftPlan) ctx += `\n\n${craftPlan}`;
+
     // Current goal
     if (this.currentGoal && this.goalStepsLeft > 0) {
       ctx += `\n\nCURRENT GOAL: "${this.currentGoal}" (${this.goalStepsLeft} steps left). Continue.`;
@@ -415,6 +597,26 @@ export class BotBrain {
       ctx += `\n\nTHE STASH: Shared chest area at (${x}, ${y}, ${z}).`;
     }
 
+    // What the team has stored, from the last time anyone looked in each chest
+    const stashContents = getStashStore().format();
+    if (stashContents) ctx += `\n${stashContents}`;
+
+    // Nearest known ore, trees, water... from the shared world index
+    const pos = this.bot.entity.position;
+    const places = this.worldIndex?.formatNearest(pos.x, pos.y, pos.z);
+    if (places) ctx += `\n\n${places}`;
+
+    // Task board: the task this bot holds, or ones it could claim
+    const tasks = formatTaskContext(this.roleConfig);
+    if (tasks) ctx += `\n\n${tasks}`;
+
+    // Item requests: deliveries this bot owes, its own asks, and ones it could fill
+    const transfers = formatTransferContext(
+      this.roleConfig.name,
+      surplusOf(this.bot.inventory.items(), this.roleConfig.keepItems),
+    );
+    if (transfers) ctx += `\n\n${transfers}`;
+
     // Team bulletin
     const teamStatus = formatTeamBulletin(this.roleConfig.name);
     if (teamStatus) ctx += `\n${teamStatus}`;
@@ -428,10 +630,23 @@ export class BotBrain {
       ctx += `\n\nRECENTLY FAILED (do NOT retry):\n${lines.join("\n")}`;
     }
 
-    ctx += "\n\nWhat should you do next? Respond with JSON.";
     return ctx;
   }
 
+  // ─── Session recording ────────────────────────────────────────────────────
+
+  /** Attach decision inputs to the event being recorded. */
+  private noteInputs(inputs: Partial<SessionEntryDraft>): void {
+    if (this.draft) Object.assign(this.draft, inputs);
+  }
+
+  /** Empty LLM trace for the event being recorded — the query function fills it in. */
+  private newTrace(): LLMTrace | undefined {
+    if (!this.draft) return undefined;
+    this.draft.llm = { messages: [], responses: [] };
+    return this.draft.llm;
+  }
+
   // ─── Event handlers ───────────────────────────────────────────────────────
 
   private async handleReactive(event: BrainEvent): Promise<void> {
@@ -473,34 +688,70 @@ export class BotBrain {
       situation = `Health: ${this.bot.health}/20, Food: ${this.bot.food}/20. Assess situation.`;
     }
 
-    const decision = await queryReactive(this.roleConfig.name, situation, this.roleConfig.allowedActions);
+    this.noteInputs({ context: situation, allowedActions: this.roleConfig.allowedActions });
+    const decision = await queryReactive(
+      this.roleConfig.name,
+      situation,
+      this.roleConfig.allowedActions,
+      this.newTrace(),
+    );
     await this.executeDecision(decision);
   }
 
+  private async handleForced(event: BrainEvent): Promise<void> {
+    const { action, reason, run, resolve } = event.data;
+    this.noteInputs({ context: reason, decision: { thought: reason, action, params: {} } });
+    this.events.onThought(reason);
+    updateOverlay({ thought: reason, action, actionResult: "..." });
+    let result: string;
+    try {
+      result = await run();
+    } catch (err: any) {
+      result = `Failed: ${err.message}`;
+    }
+    this.lastAction = action;
+    this.lastResult = result;
+    this.noteInputs({ result });
+    this.events.onAction(action, result);
+    updateOverlay({ actionResult: result });
+    resolve(result);
+  }
+
   private async handleChat(event: BrainEvent): Promise<void> {
     const msg = event.data as ChatMessage;
     if (!msg) return;
 
     const activity = `${this.lastAction || "exploring"} (${this.currentGoal || "no specific goal"})`;
-    const response = await chatWithLLM(`[${msg.source}] ${msg.username}: ${msg.message}`, activity, {
-      name: this.roleConfig.name,
-    });
+    this.noteInputs({ context: activity });
+    const response = await chatWithLLM(
+      `[${msg.source}] ${msg.username}: ${msg.message}`,
+      activity,
+      { name: this.roleConfig.name },
+      this.newTrace(),
+    );
 
     const chatFilter = filterChatMessage(response);
     const safeResponse = chatFilter.safe ? response : chatFilter.cleaned;
+    this.noteInputs({ result: safeResponse });
 
     this.bot.chat(safeResponse);
-    this.events.onChat(safeResponse);
+    this.events.onChat(safeResponse, msg);
     addChatMessage(this.roleConfig.name, safeResponse, "bot");
   }
 
   private async handleStrategic(event: BrainEvent): Promise<void> {
     const now = Date.now();
-    if (now - this.lastStrategicMs < this.STRATEGIC_COOLDOWN_MS) return;
+    if (now - this.lastStrategicMs < this.STRATEGIC_COOLDOWN_MS) {
+      this.noteInputs({ skipped: "strategic cooldown" });
+      return;
+    }
     this.lastStrategicMs = now;
 
     // Safety overrides first
-    if (await this.runSafetyOverrides()) return;
+    if (await this.runSafetyOverrides()) {
+      this.noteInputs({ skipped: "safety override" });
+      return;
+    }
 
     // Leash hard override — skip LLM entirely if way too far from home
     if (this.homePos && this.roleConfig.leashRadius > 0) {
@@ -509,7 +760,11 @@ export class BotBrain {
       const dist = Math.sqrt(dx * dx + dz * dz);
       if (dist >= this.roleConfig.leashRadius * 1.5) {
         this.log.info("Brain", `LEASH: ${dist.toFixed(0)} blocks away — forcing return home`);
-        const result = await executeAction(this.bot, "go_to", this.homePos);
+        const { message: result } = await this.runAction(this.bot, "go_to", this.homePos);
+        this.noteInputs({
+          decision: { thought: "Leash: returning home", action: "go_to", params: { ...this.homePos } },
+          result,
+        });
         this.events.onAction("go_to", result);
         return;
       }
@@ -525,9 +780,12 @@ export class BotBrain {
       allowedActions: this.roleConfig.allowedActions,
       allowedSkills: this.roleConfig.allowedSkills,
       priorities: this.roleConfig.priorities,
+      unmetSkills: this.unmetSkillPreconditions(),
+      skillQuery: [this.currentGoal, this.memStore.getSeasonGoal(), context].filter(Boolean).join("\n"),
     };
 
-    const decision = await queryStrategic(context, this.recentHistory, memoryCtx, role);
+    this.noteInputs({ context, memoryContext: memoryCtx, history: [...this.recentHistory], role });
+    const decision = await queryStrategic(context, this.recentHistory, memoryCtx, role, this.newTrace());
     await this.executeDecision(decision);
   }
 
@@ -552,7 +810,14 @@ export class BotBrain {
       }`,
     ].join("\n");
 
-    const verdict = await queryCritic(this.roleConfig.name, criticContext, this.roleConfig.allowedActions);
+    this.noteInputs({ context: criticContext, allowedActions: this.roleConfig.allowedActions });
+    const verdict = await queryCritic(
+      this.roleConfig.name,
+      criticContext,
+      this.roleConfig.allowedActions,
+      this.newTrace(),
+    );
+    this.noteInputs({ verdict });
 
     // Update thought display
     if (verdict.thought) {
@@ -582,13 +847,20 @@ export class BotBrain {
 
   // ─── Action execution ─────────────────────────────────────────────────────
 
-  private async executeDecision(decision: {
+  /**
+   * Gate, execute and track one decision. Returns the action result, or the
+   * gate/blacklist message when the action was refused. Public so replay can
+   * drive it directly with recorded decisions.
+   */
+  async executeDecision(decision: {
     thought: string;
     action: string;
     params: Record<string, any>;
     goal?: string;
     goalSteps?: number;
-  }): Promise<void> {
+  }): Promise<string> {
+    this.noteInputs({ decision: { ...decision, params: { ...(decision.params ?? {}) } } });
+
     // Filter thought for safety
     const thoughtFilter = filterContent(decision.thought);
     if (!thoughtFilter.safe) {
@@ -609,27 +881,39 @@ export class BotBrain {
     this.log.debug("Brain", "Decision params:", JSON.stringify(decision.params));
 
     // Update overlay
-    updateOverlay({
-      health: this.bot.health,
-      food: this.bot.food,
-      position: {
-        x: this.bot.entity.position.x,
-        y: this.bot.entity.position.y,
-        z: this.bot.entity.position.z,
-      },
-      time: this.bot.time.timeOfDay < 13000 || this.bot.time.timeOfDay > 23000 ? "Daytime" : "Nighttime",
-      thought: decision.thought,
-      action: decision.action,
-      actionResult: "...",
-      inventory: this.bot.inventory.items().map((i) => `${i.name}x${i.count}`),
-    });
+    if (this.live) {
+      updateOverlay({
+        health: this.bot.health,
+        food: this.bot.food,
+        position: {
+          x: this.bot.entity.position.x,
+          y: this.bot.entity.position.y,
+          z: this.bot.entity.position.z,
+        },
+        time: this.bot.time.timeOfDay < 13000 || this.bot.time.timeOfDay > 23000 ? "Daytime" : "Nighttime",
+        thought: decision.thought,
+        action: decision.action,
+        actionResult: "...",
+        inventory: this.bot.inventory.items().map((i) => `${i.name}x${i.count}`),
+      });
+    }
 
     // TTS in background
-    generateSpeech(decision.thought)
-      .then((url) => {
-        if (url) speakThought(url);
-      })
-      .catch(() => {});
+    if (this.speech) {
+      generateSpeech(decision.thought)
+        .then((url) => {
+          if (url) speakThought(url);
+        })
+        .catch(() => {});
+    }
+
+    // ── Finish an interrupted build before starting a new one ──
+    const unfinished = this.unfinishedBuildInstead(decision.action, decision.params ?? {});
+    if (unfinished) {
+      this.log.info("Brain", `Resuming ${unfinished.skill} (${unfinished.summary}) instead of ${decision.action}`);
+      decision.action = unfinished.skill;
+      decision.params = {}; // runSkill fills them in from the checkpoint
+    }
 
     // ── Action gating ──
     const UNIVERSAL_ACTIONS = new Set([
@@ -640,6 +924,9 @@ export class BotBrain {
       "withdraw_stash",
       "chat",
       "generate_skill",
+      ...TASK_ACTIONS,
+      ...TRANSFER_ACTIONS,
+      ...POLL_ACTIONS,
     ]);
     if (
       this.roleConfig.allowedActions.length > 0 &&
@@ -651,7 +938,8 @@ export class BotBrain {
       this.log.debug("Brain", `GATED: ${gateMsg}`);
       this.events.onAction(decision.action, gateMsg);
       this.lastResult = gateMsg;
-      return;
+      this.noteInputs({ result: gateMsg });
+      return gateMsg;
     }
 
     // ── Blacklist check ──
@@ -661,9 +949,10 @@ export class BotBrain {
       this.log.debug("Brain", blockMsg);
       this.events.onAction(decision.action, blockMsg);
       this.lastResult = blockMsg;
+      this.noteInputs({ result: blockMsg });
       // Trigger re-plan since this action was blocked
-      setTimeout(() => this.triggerReplan(), 500);
-      return;
+      if (this.live) setTimeout(() => this.triggerReplan(), 500);
+      return blockMsg;
     }
 
     // ── Normalize params ──
@@ -681,41 +970,66 @@ export class BotBrain {
       normalizedParams.keepItems = this.roleConfig.keepItems;
     }
 
+    // Item requests act for this bot and never give away what its role keeps
+    if (TRANSFER_ACTIONS.includes(decision.action)) {
+      normalizedParams.botName = this.roleConfig.name;
+      normalizedParams.keepItems = this.roleConfig.keepItems;
+    }
+
+    // Polls the bot opens are decided for the bot itself
+    if (POLL_ACTIONS.includes(decision.action)) {
+      normalizedParams.botName = this.roleConfig.name;
+    }
+
+    // Task board actions act on behalf of this bot's role
+    if (TASK_ACTIONS.includes(decision.action)) {
+      normalizedParams.taskRole = {
+        name: this.roleConfig.name,
+        role: this.roleConfig.role,
+        allowedSkills: this.roleConfig.allowedSkills,
+      };
+    }
+
     // ── Execute ──
-    const result = await executeAction(this.bot, decision.action, normalizedParams);
+    const outcome = await this.runAction(this.bot, decision.action, normalizedParams);
+    const result = outcome.message;
+    this.noteInputs({ result, success: outcome.success, failureKind: outcome.failureKind });
     this.lastAction = decision.action;
     this.lastResult = result;
     this.events.onAction(decision.action, result);
     this.log.info("Brain", `Result: ${result}`);
 
-    // Update team bulletin
-    updateBulletin({
-      name: this.roleConfig.name,
-      action: decision.action,
-      position: {
-        x: this.bot.entity.position.x,
-        y: this.bot.entity.position.y,
-        z: this.bot.entity.position.z,
-      },
-      thought: decision.thought,
-      health: this.bot.health,
-      food: this.bot.food,
-      timestamp: Date.now(),
-    });
+    if (this.live) {
+      // Update team bulletin
+      updateBulletin({
+        name: this.roleConfig.name,
+        action: decision.action,
+        position: {
+          x: this.bot.entity.position.x,
+          y: this.bot.entity.position.y,
+          z: this.bot.entity.position.z,
+        },
+        thought: decision.thought,
+        health: this.bot.health,
+        food: this.bot.food,
+        timestamp: Date.now(),
+      });
+      renewClaims(this.roleConfig.name);
 
-    // Update overlay with result
-    updateOverlay({
-      health: this.bot.health,
-      food: this.bot.food,
-      position: {
-        x: this.bot.entity.position.x,
-        y: this.bot.entity.position.y,
-        z: this.bot.entity.position.z,
-      },
-      time: this.bot.time.timeOfDay < 13000 || this.bot.time.timeOfDay > 23000 ? "Daytime" : "Nighttime",
-      actionResult: result,
-      inventory: this.bot.inventory.items().map((i) => `${i.name}x${i.count}`),
-    });
+      // Update overlay with result
+      updateOverlay({
+        health: this.bot.health,
+        food: this.bot.food,
+        position: {
+          x: this.bot.entity.position.x,
+          y: this.bot.entity.position.y,
+          z: this.bot.entity.position.z,
+        },
+        time: this.bot.time.timeOfDay < 13000 || this.bot.time.timeOfDay > 23000 ? "Daytime" : "Nighttime",
+        actionResult: result,
+        inventory: this.bot.inventory.items().map((i) => `${i.name}x${i.count}`),
+      });
+    }
 
     // ── Track goal ──
     if (decision.goal) {
@@ -724,7 +1038,9 @@ export class BotBrain {
     }
 
     // ── Track success/failure ──
+    // Skills come with the executor's verdict (postconditions included); plain actions only have their text
     const isSuccess =
+      outcome.success ??
       /complet|harvest|built|planted|smelted|crafted|arriv|gather|mined|caught|lit|bridg|chop|killed|ate|explored|placed|fished|sleep|zzz/i.test(
         result,
       );
@@ -740,7 +1056,8 @@ export class BotBrain {
     }
 
     // Failure tracking
-    this.trackFailure(actionKey, decision, result, isSuccess);
+    this.trackFailure(actionKey, decision, result, isSuccess, outcome.failureKind);
+    this.goals.recordResult(this.goalWorld(), decision.action, normalizedParams, result, isSuccess);
 
     // Track goal steps
     if (isSuccess && this.goalStepsLeft > 0) {
@@ -776,6 +1093,7 @@ export class BotBrain {
         timestamp: Date.now(),
       });
     }
+    return result;
   }
 
   // ─── Failure tracking ─────────────────────────────────────────────────────
@@ -798,6 +1116,7 @@ export class BotBrain {
     decision: { action: string; params: Record<string, any> },
     result: string,
     isSuccess: boolean,
+    failureKind?: SkillFailureKind,
   ): void {
     // Hallucinated action names
     if (result.startsWith("Unknown action:")) {
@@ -829,10 +1148,12 @@ export class BotBrain {
     if (isSkillAction) {
       if (!isSuccess) {
         const isAlreadyRunning = result.startsWith("Already running skill");
-        const isPreconditionFailure =
-          /missing:|need \d|no water|no trees|no coal|no iron|no pickaxe|Can't craft|could not find|not enough|need to (mine|craft|find|smelt)|Can't sleep|terrain too rough|not nighttime|already sleeping|zzz/i.test(
-            result,
-          );
+        // Only the skill's own faults count toward blacklisting it — not the world's, nor an interruption
+        const isPreconditionFailure = failureKind
+          ? failureKind === "precondition" || failureKind === "interrupted"
+          : /missing:|need \d|no water|no trees|no coal|no iron|no pickaxe|Can't craft|could not find|not enough|need to (mine|craft|find|smelt)|Can't sleep|terrain too rough|not nighttime|already sleeping|zzz/i.test(
+              result,
+            );
 
         if (!isAlreadyRunning && !isPreconditionFailure) {
           const prevCount = (this.failureCounts.get(actionKey) ?? 0) + 1;
@@ -2,6 +2,9 @@
 // Shared in-memory team status board.
 // All bots run in the same Node.js process, so they share this module singleton.
 
+import { getTeamTaskLines } from "./tasks.js";
+import { formatTeamRequests } from "./transfers.js";
+
 export interface BotStatus {
   name: string;
   action: string;
@@ -32,13 +35,18 @@ export function getTeamStatus(excludeName: string): BotStatus[] {
 export function formatTeamBulletin(excludeName: string): string {
   const teammates = getTeamStatus(excludeName);
   if (teammates.length === 0) return "";
+  const { claims, done } = getTeamTaskLines(excludeName);
 
   const lines = teammates.map((t) => {
     const pos = `(${Math.round(t.position.x)}, ${Math.round(t.position.y)}, ${Math.round(t.position.z)})`;
     const age = Math.round((Date.now() - t.timestamp) / 1000);
     const stale = age > 30 ? " [stale]" : "";
-    return `- ${t.name}: ${t.action} at ${pos} — "${t.thought}"${stale}`;
+    const task = claims.get(t.name);
+    const claim = task ? ` [task #${task.id}: ${task.title}]` : "";
+    return `- ${t.name}: ${t.action} at ${pos} — "${t.thought}"${claim}${stale}`;
   });
+  const news = done.length > 0 ? `\nRECENTLY COMPLETED TASKS: ${done.join("; ")}` : "";
+  const requests = formatTeamRequests(excludeName);
 
-  return `\nTEAM STATUS (live):\n${lines.join("\n")}`;
+  return `\nTEAM STATUS (live):\n${lines.join("\n")}${news}${requests ? `\n${requests}` : ""}`;
 }
@@ -0,0 +1,123 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildGoalTree,
+  countMatchingItems,
+  GoalPlanner,
+  type GoalStore,
+  type GoalTree,
+  type GoalWorld,
+} from "./goals.js";
+import type { Structure } from "./memory.js";
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function memoryStore(seasonGoal?: string): GoalStore & { goal?: string } {
+  let tree: GoalTree | undefined;
+  const store = {
+    goal: seasonGoal,
+    getSeasonGoal: () => store.goal,
+    getGoalTree: () => tree,
+    setGoalTree: (t: GoalTree | undefined) => {
+      tree = t;
+    },
+  };
+  return store;
+}
+
+function world(items: Record<string, number> = {}, structures: Structure["type"][] = []): GoalWorld {
+  const inventory = Object.entries(items).map(([name, count]) => ({ name, count }));
+  return {
+    countItem: (names) => countMatchingItems(inventory, names),
+    hasStructure: (type) => structures.includes(type),
+  };
+}
+
+// ── Decomposition ───────────────────────────────────────────────────────────
+
+test("buildGoalTree: iron armor decomposes down to gathering wood", () => {
+  const { root } = buildGoalTree("Get full iron armor before the nether");
+  assert.equal(root.id, "iron_armor");
+  const planner = new GoalPlanner(memoryStore("Get full iron armor before the nether"));
+  const path = planner.activePath(world()).map((n) => n.id);
+  assert.deepEqual(path, ["iron_armor", "iron_ingots_24", "stone_pickaxe", "wooden_pickaxe", "wood"]);
+});
+
+test("buildGoalTree: several objectives share subgoals once", () => {
+  const { root } = buildGoalTree("Build a house and a wheat farm");
+  assert.equal(root.id, "season");
+  assert.deepEqual(
+    root.children.map((c) => c.id),
+    ["house", "farm"],
+  );
+  assert.equal(root.children[0].children[0].id, "wood");
+  assert.equal(root.children[1].children.length, 0, "wood is only gathered once");
+});
+
+test("buildGoalTree: unknown goals become a single free-form node", () => {
+  const { root } = buildGoalTree("Become the mayor of a llama town");
+  assert.equal(root.title, "Become the mayor of a llama town");
+  assert.equal(root.children.length, 0);
+  assert.equal(root.completion.length, 0);
+});
+
+// ── Progress ────────────────────────────────────────────────────────────────
+
+test("GoalPlanner: completion checks advance the active leaf", () => {
+  const planner = new GoalPlanner(memoryStore("stone tools"));
+  assert.equal(planner.activePath(world()).at(-1)?.id, "wood");
+
+  const w = world({ birch_log: 5, oak_planks: 4, crafting_table: 1 });
+  planner.refresh(w);
+  assert.equal(planner.activePath(w).at(-1)?.id, "wooden_pickaxe");
+
+  const w2 = world({ wooden_pickaxe: 1, cobblestone: 2 });
+  planner.refresh(w2);
+  assert.equal(planner.formatPath(w2), "Stone pickaxe › Mine cobblestone");
+});
+
+test("GoalPlanner: unmet preconditions hold a node back and are reported", () => {
+  const store = memoryStore("iron armor");
+  const planner = new GoalPlanner(store);
+  const tree = planner.getTree()!;
+  // Pretend the wooden pickaxe step failed — cobblestone still needs a pickaxe
+  const stone = tree.root.children[0].children[0];
+  stone.children[0].status = "failed";
+  stone.children[0].failedAt = new Date().toISOString();
+
+  assert.deepEqual(planner.activePath(world()), []);
+  const ctx = planner.formatContext(world());
+  assert.match(ctx, /BLOCKED: .*Mine cobblestone \(needs 1x wooden_pickaxe or stone_pickaxe/);
+  assert.match(ctx, /FAILED STEPS \(try another way\): Wooden pickaxe/);
+
+  // With a pickaxe in hand the blocked step opens up
+  assert.equal(planner.activePath(world({ wooden_pickaxe: 1 })).at(-1)?.id, "cobblestone");
+});
+
+test("GoalPlanner: repeated failures of the suggested action mark the leaf failed", () => {
+  const planner = new GoalPlanner(memoryStore("build a house"));
+  const w = world();
+  for (let i = 0; i < 3; i++) {
+    planner.recordResult(w, "gather_wood", { count: 8 }, "No trees found nearby", false);
+  }
+  const wood = planner.getTree()!.root.children[0];
+  assert.equal(wood.status, "failed");
+  assert.equal(wood.failureReason, "No trees found nearby");
+  // Unrelated failures don't count against the leaf
+  planner.recordResult(w, "attack", {}, "No mobs to attack nearby", false);
+  assert.equal(planner.activePath(w).at(-1)?.id, "house");
+});
+
+test("GoalPlanner: structures in memory complete the goal; new season goal rebuilds", () => {
+  const store = memoryStore("build a house");
+  const planner = new GoalPlanner(store);
+  planner.recordResult(world({}, ["house"]), "build_house", {}, "Built a house!", true);
+  assert.equal(planner.getTree()!.root.status, "done");
+  assert.match(planner.formatContext(world()), /COMPLETE/);
+
+  store.goal = "find diamonds";
+  assert.equal(planner.getTree()!.root.id, "diamonds");
+  store.goal = undefined;
+  assert.equal(planner.getTree(), undefined);
+  assert.equal(store.getGoalTree(), undefined, "clearing the season goal drops the tree");
+});
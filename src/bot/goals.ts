@@ -0,0 +1,423 @@
+/**
+ * Hierarchical goal planner — turns the season goal into a persisted task tree.
+ *
+ * The season goal ("get iron armor and build a farm") is matched against a
+ * library of known objectives, each a small tree of subgoals:
+ *
+ *   Get iron armor
+ *   └─ Smelt 24 iron
+ *      ├─ Stone pickaxe
+ *      │  ├─ Wooden pickaxe ─ Gather wood, Crafting table
+ *      │  └─ Mine cobblestone
+ *      ├─ Furnace
+ *      └─ Mine iron ore
+ *
+ * Every node has preconditions (must hold before the bot works on it) and
+ * completion checks (inventory items, structures in memory). Children run in
+ * order; the first unfinished node whose children are done and whose
+ * preconditions hold is the active leaf, surfaced in the strategic context.
+ * Action results mark nodes done (checks pass) or failed (the leaf's suggested
+ * action keeps failing). Goals that match no template become a single
+ * free-form node the LLM works on unaided.
+ *
+ * The tree lives in the bot's memory file, so progress survives restarts.
+ */
+
+import type { Structure } from "./memory.js";
+
+export type GoalStatus = "pending" | "done" | "failed";
+
+/**
+ * A condition on the world. `items` is any-of — counts are summed across the
+ * listed names, and a leading `*` matches by suffix ("*_log" = any log).
+ */
+export type GoalCheck =
+  { type: "item"; items: string[]; count: number } | { type: "structure"; structure: Structure["type"] };
+
+export interface GoalNode {
+  /** Stable id — shared subgoals (e.g. "wood") appear only once per tree. */
+  id: string;
+  title: string;
+  /** Suggested action or skill for this step, shown to the LLM. */
+  hint?: { action: string; params?: Record<string, any> };
+  preconditions: GoalCheck[];
+  completion: GoalCheck[];
+  children: GoalNode[];
+  status: GoalStatus;
+  attempts: number;
+  failureReason?: string;
+  failedAt?: string;
+}
+
+export interface GoalTree {
+  /** Season goal the tree was built from — a new season goal rebuilds it. */
+  goal: string;
+  root: GoalNode;
+  createdAt: string;
+}
+
+/** What the planner can observe. The brain implements this over the bot + memory. */
+export interface GoalWorld {
+  countItem(names: string[]): number;
+  hasStructure(type: Structure["type"]): boolean;
+}
+
+/** Where the tree is persisted — BotMemoryStore implements this. */
+export interface GoalStore {
+  getSeasonGoal(): string | undefined;
+  getGoalTree(): GoalTree | undefined;
+  setGoalTree(tree: GoalTree | undefined): void;
+}
+
+/** Failures of a leaf's suggested action before the leaf is marked failed. */
+const MAX_ATTEMPTS = 3;
+/** Failed leaves get another chance after this long (the world may have changed). */
+const FAILED_RETRY_MS = 10 * 60_000;
+
+// ─── Objective library ──────────────────────────────────────────────────────
+
+type NodeSpec = Omit<GoalNode, "status" | "attempts" | "children" | "preconditions" | "completion"> & {
+  preconditions?: GoalCheck[];
+  completion?: GoalCheck[];
+  children?: NodeSpec[];
+};
+
+const item = (items: string | string[], count = 1): GoalCheck => ({
+  type: "item",
+  items: Array.isArray(items) ? items : [items],
+  count,
+});
+const structure = (type: Structure["type"]): GoalCheck => ({ type: "structure", structure: type });
+
+const PICKAXES_STONE_UP = ["stone_pickaxe", "iron_pickaxe", "diamond_pickaxe", "netherite_pickaxe"];
+const PICKAXES_IRON_UP = ["iron_pickaxe", "diamond_pickaxe", "netherite_pickaxe"];
+
+const wood = (): NodeSpec => ({
+  id: "wood",
+  title: "Gather wood",
+  hint: { action: "gather_wood", params: { count: 8 } },
+  completion: [item(["*_log", "*_planks"], 8)],
+});
+
+const craftingTable = (): NodeSpec => ({
+  id: "crafting_table",
+  title: "Crafting table",
+  hint: { action: "craft", params: { item: "crafting_table" } },
+  completion: [item("crafting_table")],
+});
+
+const woodenPickaxe = (): NodeSpec => ({
+  id: "wooden_pickaxe",
+  title: "Wooden pickaxe",
+  hint: { action: "craft", params: { item: "wooden_pickaxe" } },
+  completion: [item(["wooden_pickaxe", ...PICKAXES_STONE_UP])],
+  children: [wood(), craftingTable()],
+});
+
+const stonePickaxe = (): NodeSpec => ({
+  id: "stone_pickaxe",
+  title: "Stone pickaxe",
+  hint: { action: "craft", params: { item: "stone_pickaxe" } },
+  completion: [item(PICKAXES_STONE_UP)],
+  children: [
+    woodenPickaxe(),
+    {
+      id: "cobblestone",
+      title: "Mine cobblestone",
+      hint: { action: "mine_block", params: { blockType: "stone" } },
+      preconditions: [item(["wooden_pickaxe", ...PICKAXES_STONE_UP])],
+      completion: [item("cobblestone", 11)],
+    },
+  ],
+});
+
+const furnace = (): NodeSpec => ({
+  id: "furnace",
+  title: "Furnace",
+  hint: { action: "craft", params: { item: "furnace" } },
+  preconditions: [item("cobblestone", 8)],
+  completion: [item("furnace")],
+});
+
+const ironIngots = (count: number): NodeSpec => ({
+  id: `iron_ingots_${count}`,
+  title: `Smelt ${count} iron`,
+  hint: { action: "smelt_ores" },
+  completion: [item("iron_ingot", count)],
+  children: [
+    stonePickaxe(),
+    furnace(),
+    {
+      id: `iron_ore_${count}`,
+      title: "Mine iron ore",
+      hint: { action: "strip_mine" },
+      preconditions: [item(PICKAXES_STONE_UP)],
+      completion: [item(["raw_iron", "iron_ore", "deepslate_iron_ore", "iron_ingot"], count)],
+    },
+  ],
+});
+
+const ironPickaxe = (): NodeSpec => ({
+  id: "iron_pickaxe",
+  title: "Iron pickaxe",
+  hint: { action: "craft", params: { item: "iron_pickaxe" } },
+  completion: [item(PICKAXES_IRON_UP)],
+  children: [ironIngots(3)],
+});
+
+const ironArmor = (): NodeSpec => ({
+  id: "iron_armor",
+  title: "Get iron armor",
+  hint: { action: "craft", params: { item: "iron_chestplate" } },
+  completion: [item("iron_helmet"), item("iron_chestplate"), item("iron_leggings"), item("iron_boots")],
+  children: [ironIngots(24)],
+});
+
+const diamonds = (): NodeSpec => ({
+  id: "diamonds",
+  title: "Find diamonds",
+  hint: { action: "strip_mine" },
+  preconditions: [item(PICKAXES_IRON_UP)],
+  completion: [item("diamond", 3)],
+  children: [ironPickaxe()],
+});
+
+const house = (): NodeSpec => ({
+  id: "house",
+  title: "Build a house",
+  hint: { action: "build_house" },
+  completion: [structure("house")],
+  children: [wood()],
+});
+
+const farm = (): NodeSpec => ({
+  id: "farm",
+  title: "Build a farm",
+  hint: { action: "build_farm" },
+  completion: [structure("farm")],
+  children: [wood()],
+});
+
+/** Known objectives, matched against the season goal in this order. */
+const OBJECTIVES: { pattern: RegExp; build: () => NodeSpec }[] = [
+  { pattern: /\b(house|shelter|home|base|cabin)\b/i, build: house },
+  { pattern: /\b(farm|wheat|crops?|food supply)\b/i, build: farm },
+  { pattern: /\biron\s+(armou?r|chestplate|helmet|leggings|boots)\b/i, build: ironArmor },
+  { pattern: /\biron\s+(tools?|pickaxe|gear)\b/i, build: ironPickaxe },
+  { pattern: /\bstone\s+(tools?|pickaxe)\b/i, build: stonePickaxe },
+  { pattern: /\bdiamonds?\b/i, build: diamonds },
+];
+
+function materialize(spec: NodeSpec, seen: Set<string>): GoalNode | null {
+  // A subgoal shared by two objectives only needs doing once
+  if (seen.has(spec.id)) return null;
+  seen.add(spec.id);
+  return {
+    id: spec.id,
+    title: spec.title,
+    hint: spec.hint,
+    preconditions: spec.preconditions ?? [],
+    completion: spec.completion ?? [],
+    children: (spec.children ?? []).map((c) => materialize(c, seen)).filter((c): c is GoalNode => c !== null),
+    status: "pending",
+    attempts: 0,
+  };
+}
+
+/**
+ * Decompose a season goal into a task tree. One matched objective becomes the
+ * root; several hang under a root titled with the goal itself; none gives a
+ * single free-form node with no checks.
+ */
+export function buildGoalTree(goal: string): GoalTree {
+  const seen = new Set<string>();
+  const objectives = OBJECTIVES.filter((o) => o.pattern.test(goal))
+    .map((o) => materialize(o.build(), seen))
+    .filter((n): n is GoalNode => n !== null);
+
+  const root: GoalNode =
+    objectives.length === 1
+      ? objectives[0]
+      : {
+          id: "season",
+          title: goal,
+          preconditions: [],
+          completion: [],
+          children: objectives,
+          status: "pending",
+          attempts: 0,
+        };
+  return { goal, root, createdAt: new Date().toISOString() };
+}
+
+// ─── Checks ─────────────────────────────────────────────────────────────────
+
+function matchesItem(pattern: string, name: string): boolean {
+  return pattern.startsWith("*") ? name.endsWith(pattern.slice(1)) : name === pattern;
+}
+
+/** Count inventory items matching any of the patterns — helper for GoalWorld implementations. */
+export function countMatchingItems(inventory: { name: string; count: number }[], patterns: string[]): number {
+  return inventory.filter((i) => patterns.some((p) => matchesItem(p, i.name))).reduce((sum, i) => sum + i.count, 0);
+}
+
+function checkHolds(check: GoalCheck, world: GoalWorld): boolean {
+  return check.type === "item" ? world.countItem(check.items) >= check.count : world.hasStructure(check.structure);
+}
+
+function describeCheck(check: GoalCheck): string {
+  if (check.type === "structure") return `a ${check.structure}`;
+  const names = check.items.map((n) => (n.startsWith("*_") ? `any ${n.slice(2)}` : n));
+  return `${check.count}x ${names.join(" or ")}`;
+}
+
+function isFinished(node: GoalNode): boolean {
+  return node.status === "done";
+}
+
+// ─── Planner ────────────────────────────────────────────────────────────────
+
+export class GoalPlanner {
+  private store: GoalStore;
+
+  constructor(store: GoalStore) {
+    this.store = store;
+  }
+
+  /** Current tree — rebuilt when the season goal changed, dropped when it was cleared. */
+  getTree(): GoalTree | undefined {
+    const seasonGoal = this.store.getSeasonGoal();
+    const tree = this.store.getGoalTree();
+    if (!seasonGoal) {
+      if (tree) this.store.setGoalTree(undefined);
+      return undefined;
+    }
+    if (tree?.goal === seasonGoal) return tree;
+
+    const rebuilt = buildGoalTree(seasonGoal);
+    this.store.setGoalTree(rebuilt);
+    return rebuilt;
+  }
+
+  /**
+   * Mark nodes whose completion checks pass as done. Returns true when
+   * anything changed. Nodes without checks complete when all children do.
+   */
+  refresh(world: GoalWorld): boolean {
+    const tree = this.getTree();
+    if (!tree) return false;
+    let changed = false;
+    const now = Date.now();
+
+    const visit = (node: GoalNode): void => {
+      node.children.forEach(visit);
+      if (node.status === "done") return;
+      if (node.status === "failed" && node.failedAt && now - Date.parse(node.failedAt) >= FAILED_RETRY_MS) {
+        node.status = "pending";
+        node.attempts = 0;
+        node.failureReason = undefined;
+        node.failedAt = undefined;
+        changed = true;
+      }
+      const complete =
+        node.completion.length > 0
+          ? node.completion.every((c) => checkHolds(c, world))
+          : node.children.length > 0 && node.children.every(isFinished);
+      if (complete) {
+        node.status = "done";
+        node.failureReason = undefined;
+        changed = true;
+      }
+    };
+    visit(tree.root);
+
+    if (changed) this.store.setGoalTree(tree);
+    return changed;
+  }
+
+  /** Path from the root to the node the bot should work on next, or [] if none. */
+  activePath(world: GoalWorld): GoalNode[] {
+    const tree = this.getTree();
+    if (!tree) return [];
+
+    const find = (node: GoalNode): GoalNode[] | null => {
+      if (node.status !== "pending") return null;
+      for (const child of node.children) {
+        const path = find(child);
+        if (path) return [node, ...path];
+      }
+      // Work on this node only once its children are settled and preconditions hold
+      if (node.children.some((c) => c.status === "pending")) return null;
+      if (!node.preconditions.every((c) => checkHolds(c, world))) return null;
+      return [node];
+    };
+    return find(tree.root) ?? [];
+  }
+
+  /** "Get iron armor › Stone pickaxe › Mine cobblestone" — for the overlay. */
+  formatPath(world: GoalWorld): string | undefined {
+    const path = this.activePath(world);
+    if (path.length > 0) return path.map((n) => n.title).join(" › ");
+    const tree = this.getTree();
+    if (!tree) return undefined;
+    return tree.root.status === "done" ? `${tree.root.title} ✓` : tree.root.title;
+  }
+
+  /** GOAL PLAN section for the strategic context. Empty without a season goal. */
+  formatContext(world: GoalWorld): string {
+    const tree = this.getTree();
+    if (!tree) return "";
+    if (tree.root.status === "done") return `GOAL PLAN: "${tree.root.title}" is COMPLETE. Pick a new ambition.`;
+
+    const lines = [`GOAL PLAN: ${this.formatPath(world)}`];
+    const path = this.activePath(world);
+    const leaf = path.at(-1);
+    if (leaf) {
+      const needs = leaf.completion.map(describeCheck).join(", ");
+      const hint = leaf.hint
+        ? ` — suggested: ${leaf.hint.action}${leaf.hint.params ? ` ${JSON.stringify(leaf.hint.params)}` : ""}`
+        : "";
+      lines.push(`NEXT STEP: ${leaf.title}${needs ? ` (done when you have ${needs})` : ""}${hint}`);
+    }
+
+    const blocked: string[] = [];
+    const failed: string[] = [];
+    const walk = (node: GoalNode): void => {
+      if (node.status === "failed") failed.push(`${node.title}: ${node.failureReason ?? "failed"}`);
+      if (node.status === "pending" && node !== leaf && !node.children.some((c) => c.status === "pending")) {
+        const unmet = node.preconditions.filter((c) => !checkHolds(c, world));
+        if (unmet.length > 0) blocked.push(`${node.title} (needs ${unmet.map(describeCheck).join(", ")})`);
+      }
+      node.children.forEach(walk);
+    };
+    walk(tree.root);
+    if (!leaf && blocked.length > 0) lines.push(`BLOCKED: ${blocked.join("; ")}`);
+    if (failed.length > 0) lines.push(`FAILED STEPS (try another way): ${failed.join("; ")}`);
+    return lines.join("\n");
+  }
+
+  /**
+   * Feed an action result into the tree. Completion checks are re-run; when
+   * the action was the active leaf's suggested one and it failed, the leaf
+   * accrues an attempt and is marked failed after MAX_ATTEMPTS.
+   */
+  recordResult(world: GoalWorld, action: string, params: Record<string, any>, result: string, success: boolean): void {
+    this.refresh(world);
+    const tree = this.getTree();
+    if (!tree || success) return;
+
+    const leaf = this.activePath(world).at(-1);
+    const hinted = leaf?.hint?.action;
+    if (!leaf || !hinted) return;
+    const attempted = action === hinted || (action === "invoke_skill" && params?.skill === hinted);
+    if (!attempted) return;
+
+    leaf.attempts++;
+    if (leaf.attempts >= MAX_ATTEMPTS) {
+      leaf.status = "failed";
+      leaf.failureReason = result.slice(0, 120);
+      leaf.failedAt = new Date().toISOString();
+    }
+    this.store.setGoalTree(tree);
+  }
+}
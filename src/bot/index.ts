@@ -7,8 +7,14 @@ import { loader as autoEat } from "mineflayer-auto-eat";
 import { config } from "../config.js";
 import { registerBot as registerViewerBot, isUnifiedViewerStarted } from "../stream/unified-viewer.js";
 import { startViewer } from "../stream/viewer.js";
-import { addChatMessage, setCurrentBot } from "../stream/overlay.js";
-import { abortActiveSkill } from "../skills/executor.js";
+import { getOverlay, setCurrentBot } from "../stream/overlay.js";
+import { castVote, closePoll, getActivePoll, openPoll, parsePollCommand, registerPollTarget } from "../stream/polls.js";
+import { registerRedemptionTarget } from "../stream/redemptions.js";
+import { registerChatBot, routeChat, unregisterChatBot, type ChatBotRoute } from "../stream/chat-router.js";
+import { abortActiveSkill, isSkillRunning } from "../skills/executor.js";
+import { executeAction } from "./actions.js";
+import { isHostile } from "./perception.js";
+import { runNeuralCombat } from "../neural/combat.js";
 import { registerBotMemory } from "./memory-registry.js";
 import { skillRegistry } from "../skills/registry.js";
 import { BotMemoryStore } from "./memory.js";
@@ -19,6 +25,20 @@ import { fileURLToPath } from "url";
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 import { isNeuralServerRunning } from "../neural/bridge.js";
 import { BotBrain, type ChatMessage, type BrainEvents } from "./brain.js";
+import { SessionRecorder } from "./recorder.js";
+import { getWorldIndex, trackWorld } from "./world-index.js";
+import {
+  TASK_LEASE_MS,
+  canTake,
+  cancelTask,
+  firstToHandle,
+  getClaimedTask,
+  listTasks,
+  onTaskEvent,
+  postTask,
+  renewClaims,
+} from "./tasks.js";
+import { getAcceptedRequest, onTransferEvent, surplusOf } from "./transfers.js";
 
 // Re-export types used by src/index.ts
 export type { ChatMessage, BrainEvents as BotEvents };
@@ -71,7 +91,82 @@ export async function createBot(events: BrainEvents, roleConfig: BotRoleConfig =
   bot.loadPlugin(autoEat);
 
   // ── Create the event-driven brain ──
-  const brain = new BotBrain(bot, roleConfig, events, memStore);
+  const brain = new BotBrain(bot, roleConfig, events, memStore, {
+    recorder: config.bot.recordSessions ? new SessionRecorder(roleConfig.name) : null,
+  });
+
+  // Viewer polls for this bot: missions become the season goal, anything else a one-off directive
+  registerPollTarget(roleConfig.name, {
+    setSeasonGoal: (goal) => memStore.setSeasonGoal(goal),
+    direct: (directive) => brain.queueDirective(directive),
+    show: (poll) => getOverlay(roleConfig.name)?.updateOverlay({ poll }),
+    announce: (message) => bot.chat(message),
+  });
+  const chatRoute: ChatBotRoute = {
+    role: roleConfig.role,
+    topics: roleConfig.chatTopics ?? [],
+    deliver: (msg) => {
+      brain.queueChat(msg);
+      getOverlay(roleConfig.name)?.addChatMessage(msg.username, msg.message, msg.tier ?? "free");
+    },
+  };
+  registerChatBot(roleConfig.name, chatRoute);
+  registerRedemptionTarget(roleConfig.name, {
+    status: () => ({
+      health: bot.health,
+      hostiles: Object.values(bot.entities).filter(
+        (e) => e !== bot.entity && isHostile(e) && e.position.distanceTo(bot.entity.position) < 16,
+      ).length,
+      isDay: bot.time.isDay,
+      busy: isSkillRunning(bot),
+    }),
+    act: (action, params, reason) => brain.forceAction(action, reason, () => executeAction(bot, action, params)),
+    combat: (seconds, reason) =>
+      brain.forceAction("neural_combat", reason, () => runNeuralCombat(bot, seconds, seconds)),
+    direct: (directive) => brain.queueDirective(directive),
+    show: (redemptions) => getOverlay(roleConfig.name)?.updateOverlay({ redemptions }),
+    announce: (message) => bot.chat(message),
+  });
+
+  // Feed the shared POI index for this world
+  const stopWorldTracking = trackWorld(bot, getWorldIndex());
+
+  // Keep this bot's task claims alive while it's connected — long skills outlast a decision cycle
+  const claimHeartbeat = setInterval(() => renewClaims(roleConfig.name), TASK_LEASE_MS / 4);
+  // Re-plan when a task this bot could take appears or lands on it
+  const stopTaskEvents = onTaskEvent((event) => {
+    if (event.type === "completed" && event.by === roleConfig.name) {
+      bot.chat(`Task #${event.task.id} done: ${event.task.title}`);
+      return;
+    }
+    const free = !getClaimedTask(roleConfig.name) || event.type === "handed_off";
+    const forMe =
+      (event.type === "handed_off" && event.to === roleConfig.name) ||
+      ((event.type === "posted" || event.type === "released" || event.type === "expired") &&
+        event.task.postedBy !== roleConfig.name &&
+        canTake(event.task, roleConfig));
+    if (free && forMe) brain.triggerReplan();
+  });
+
+  // Item requests: log hand-offs in memory on both ends, and re-plan when this bot can help
+  const stopTransferEvents = onTransferEvent((event) => {
+    const { request } = event;
+    if (event.type === "delivered") {
+      if (event.by === roleConfig.name) {
+        memStore.recordTransfer("gave", request.item, event.count, request.requestedBy, request.pos);
+      } else if (request.requestedBy === roleConfig.name) {
+        memStore.recordTransfer("received", request.item, event.count, event.by, request.pos);
+      }
+    }
+    const canHelp =
+      (event.type === "requested" ||
+        event.type === "expired" ||
+        (event.type === "delivered" && request.status === "open")) &&
+      request.requestedBy !== roleConfig.name &&
+      !getAcceptedRequest(roleConfig.name) &&
+      (surplusOf(bot.inventory.items(), roleConfig.keepItems)[request.item] ?? 0) > 0;
+    if (canHelp) brain.triggerReplan();
+  });
 
   // ── Spawn safety ──────────────────────────────────────────────────────────
   let spawnSafetyRunning = false;
@@ -217,13 +312,13 @@ export async function createBot(events: BrainEvents, roleConfig: BotRoleConfig =
     // Eval commands
     if (message.startsWith("/eval ") || message === "/eval") {
       const parts = message.trim().split(/\s+/);
-      const { evalSkill, evalAll } = await import("../eval/runner.js");
-      if (parts[1] === "all") {
-        evalAll(bot, parts[2]).catch((e: any) => bot.chat(`[EVAL] Error: ${e.message}`));
+      const { evalSkill, evalSuite, EVAL_SUITES } = await import("../eval/runner.js");
+      if (parts[1] && parts[1] in EVAL_SUITES) {
+        evalSuite(bot, parts[1], parts[2]).catch((e: any) => bot.chat(`[EVAL] Error: ${e.message}`));
       } else if (parts[1]) {
         evalSkill(bot, parts[1]).catch((e: any) => bot.chat(`[EVAL] Error: ${e.message}`));
       } else {
-        bot.chat("[EVAL] Usage: /eval <skillname>  or  /eval all [filter]");
+        bot.chat("[EVAL] Usage: /eval <skillname>  or  /eval all|static|dynamic [filter]");
       }
       return;
     }
@@ -241,21 +336,73 @@ export async function createBot(events: BrainEvents, roleConfig: BotRoleConfig =
         bot.chat("Season goal cleared. Going freeform.");
       } else if (sub === "show" || !sub) {
         const current = memStore.getSeasonGoal();
-        bot.chat(current ? `Current mission: "${current}"` : "No season goal set. Use !goal set <text>");
+        const path = brain.getGoalPath();
+        bot.chat(
+          current
+            ? `Current mission: "${current}"${path && path !== current ? ` — now: ${path}` : ""}`
+            : "No season goal set. Use !goal set <text>",
+        );
       } else {
         bot.chat("Usage: !goal set <text> | !goal clear | !goal show");
       }
       return;
     }
 
-    // Queue for the brain to process
-    brain.queueChat({
-      source: "minecraft",
-      username,
-      message,
-      timestamp: Date.now(),
-    });
-    addChatMessage(username, message, "free");
+    // !task commands — the board is shared, so only the first bot to hear one acts on it
+    if (message.startsWith("!task")) {
+      if (!firstToHandle(`${username}:${message}`)) return;
+      const parts = message.trim().split(/\s+/);
+      const sub = parts[1]?.toLowerCase();
+      if (sub === "add" && parts.length > 2) {
+        // "!task add @Mason build a house" — an @name or @role restricts who can claim it
+        const rest = parts.slice(2);
+        const requiredRole = rest[0].startsWith("@") ? rest.shift()!.slice(1) : undefined;
+        const task = postTask({ title: rest.join(" "), postedBy: username, requiredRole });
+        bot.chat(`Task #${task.id} posted: "${task.title}"${requiredRole ? ` for ${requiredRole}` : ""}`);
+      } else if (sub === "cancel" && parts[2]) {
+        const res = cancelTask(Number(parts[2].replace(/^#/, "")));
+        bot.chat(res.ok ? `Task #${res.task.id} cancelled.` : res.error);
+      } else if (sub === "list" || !sub) {
+        const active = listTasks().filter((t) => t.status === "open" || t.status === "claimed");
+        bot.chat(
+          active.length > 0
+            ? active.map((t) => `#${t.id} ${t.title} (${t.claimedBy ?? "open"})`).join(" | ")
+            : "No open tasks. Use !task add [@who] <text>",
+        );
+      } else {
+        bot.chat("Usage: !task add [@who] <text> | !task list | !task cancel <id>");
+      }
+      return;
+    }
+
+    // !poll / !vote — one poll for the whole stream, so only the first bot to hear one acts on it
+    if (message.startsWith("!poll") || message.startsWith("!vote")) {
+      if (!firstToHandle(`${username}:${message}`)) return;
+      const sub = message.trim().split(/\s+/)[1]?.toLowerCase();
+      if (message.startsWith("!vote")) {
+        const res = castVote(username, "free", message);
+        if (res && !res.ok) bot.chat(res.error);
+      } else if (sub === "close") {
+        const poll = closePoll();
+        if (!poll) bot.chat("No poll is running.");
+      } else if (!sub) {
+        const poll = getActivePoll();
+        bot.chat(
+          poll
+            ? `${poll.question} ${poll.options.map((o, i) => `${i + 1}) ${o.label}: ${o.weight}`).join("  ")}`
+            : "Usage: !poll [@bot] [mission] [seconds] a | b | c  or  !poll close",
+        );
+      } else {
+        const parsed = parsePollCommand(message.slice("!poll".length), { target: roleConfig.name, openedBy: username });
+        const res = parsed.ok ? openPoll(parsed.spec) : parsed;
+        if (!res.ok) bot.chat(res.error);
+      }
+      return;
+    }
+
+    // Every bot hears the line — the first passes it to the router, which picks the bot it's for
+    if (!firstToHandle(`chat:${username}:${message}`, 1000)) return;
+    routeChat({ source: "minecraft", username, message, timestamp: Date.now(), tier: "free", text: message });
   });
 
   // Death
@@ -270,6 +417,17 @@ export async function createBot(events: BrainEvents, roleConfig: BotRoleConfig =
   bot.on("kicked", (reason) => {
     console.log(`[Bot] Kicked: ${JSON.stringify(reason)}`);
     brain.stop();
+    stopWorldTracking();
+    clearInterval(claimHeartbeat);
+    stopTaskEvents();
+    stopTransferEvents();
+  });
+
+  // Disconnected — stop renewing claims so they expire and reopen for teammates
+  bot.on("end", () => {
+    clearInterval(claimHeartbeat);
+    stopTaskEvents();
+    stopTransferEvents();
   });
 
   // Errors
@@ -329,6 +487,7 @@ export async function createBot(events: BrainEvents, roleConfig: BotRoleConfig =
     bot,
     queueChat: (msg: ChatMessage) => brain.queueChat(msg),
     stop: () => {
+      unregisterChatBot(roleConfig.name, chatRoute);
       brain.stop();
       bot.quit();
     },
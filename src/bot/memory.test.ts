@@ -272,6 +272,26 @@ test("memory: precondition failures don't count as real failures for broken dete
   }
 });
 
+test("memory: the recorded failure kind wins over keyword matching", () => {
+  const { store, cleanup } = tmpStore();
+  try {
+    // Notes that look like a precondition miss, but runSkill says the skill itself failed
+    for (let i = 0; i < 6; i++) {
+      store.recordSkillAttempt("dynamic_liar_skill", false, 5, "No trees found nearby", "error");
+    }
+    // Notes that look like a crash, but the world was the problem
+    for (let i = 0; i < 6; i++) {
+      store.recordSkillAttempt("dynamic_picky_skill", false, 0, "crashed hard", "precondition");
+    }
+    const broken = store.getBrokenSkills();
+    assert.ok(broken.has("dynamic_liar_skill"));
+    assert.ok(!broken.has("dynamic_picky_skill"));
+    assert.ok(store.getMemoryContext().includes("dynamic_picky_skill (needs resources"));
+  } finally {
+    cleanup();
+  }
+});
+
 test("memory: static skills get added to brokenSkillNames but are healed on reload", () => {
   const { store, file, cleanup } = tmpStore();
   try {
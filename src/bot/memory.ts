@@ -1,6 +1,8 @@
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import type { GoalTree } from "./goals.js";
+import type { SkillCheckpoint, SkillFailureKind } from "../skills/types.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -36,6 +38,20 @@ export interface SkillAttempt {
   durationSeconds: number;
   notes: string;
   timestamp: string;
+  /** Why it failed, as reported by runSkill. Missing on older attempts, which fall back to keyword matching. */
+  failureKind?: SkillFailureKind;
+}
+
+export interface Transfer {
+  direction: "gave" | "received";
+  item: string;
+  count: number;
+  /** The teammate on the other end. */
+  with: string;
+  x: number;
+  y: number;
+  z: number;
+  timestamp: string;
 }
 
 export interface BotMemory {
@@ -44,10 +60,16 @@ export interface BotMemory {
   oreDiscoveries: OreDiscovery[];
   skillHistory: SkillAttempt[];
   lessons: string[];
+  /** Items handed to or received from teammates (see transfers.ts). */
+  transfers?: Transfer[];
   lastUpdated: string;
   /** Persistent set of skills confirmed broken (5+ failures with 0% success rate). Never cleared by rolling window. */
   brokenSkillNames: string[];
   seasonGoal?: string;
+  /** Task tree decomposed from seasonGoal (see goals.ts). */
+  goalTree?: GoalTree;
+  /** Interrupted skills by name, so they can be resumed after a death or restart (see checkpoints.ts). */
+  checkpoints?: Record<string, SkillCheckpoint>;
 }
 
 const defaultMemory: BotMemory = {
@@ -61,7 +83,11 @@ const defaultMemory: BotMemory = {
   seasonGoal: undefined,
 };
 
-const PRECONDITION_KEYWORDS = [
+/**
+ * Notes that marked a precondition miss before runSkill reported a failure kind.
+ * Only consulted for attempts without `failureKind` (older memory files, direct callers).
+ */
+const LEGACY_PRECONDITION_KEYWORDS = [
   "No trees found",
   "need wood",
   "Need a pickaxe",
@@ -88,12 +114,26 @@ const PRECONDITION_KEYWORDS = [
   // not precondition failures. exploreUntil timeouts use "aborted" instead.
 ];
 
+/** A failure the world caused (missing resources, interrupted) rather than a broken skill. */
+export function isPreconditionFailure(a: Pick<SkillAttempt, "success" | "notes" | "failureKind">): boolean {
+  if (a.success) return false;
+  if (a.failureKind) return a.failureKind === "precondition" || a.failureKind === "interrupted";
+  const notes = (a.notes || "").toLowerCase();
+  return LEGACY_PRECONDITION_KEYWORDS.some((k) => notes.includes(k.toLowerCase()));
+}
+
+/** A failure that counts against the skill itself. */
+function isRealFailure(a: SkillAttempt): boolean {
+  return !a.success && !isPreconditionFailure(a);
+}
+
 export class BotMemoryStore {
   private memory: BotMemory;
   private memoryFile: string;
 
+  /** A file name is taken relative to the project root; an absolute path is used as is. */
   constructor(memoryFileName = "memory.json") {
-    this.memoryFile = path.join(__dirname, "../../", memoryFileName);
+    this.memoryFile = path.resolve(__dirname, "../../", memoryFileName);
     this.memory = { ...defaultMemory };
   }
 
@@ -110,6 +150,7 @@ export class BotMemoryStore {
     "smelt_ores",
     "go_fishing",
     "build_bridge",
+    "build_structure",
   ]);
 
   load(): BotMemory {
@@ -222,8 +263,46 @@ export class BotMemoryStore {
     this.save();
   }
 
-  recordSkillAttempt(skill: string, success: boolean, durationSeconds: number, notes: string): void {
-    this.memory.skillHistory.push({ skill, success, durationSeconds, notes, timestamp: new Date().toISOString() });
+  recordTransfer(
+    direction: Transfer["direction"],
+    item: string,
+    count: number,
+    other: string,
+    pos: { x: number; y: number; z: number },
+  ): void {
+    const transfers = (this.memory.transfers ??= []);
+    transfers.push({
+      direction,
+      item,
+      count,
+      with: other,
+      x: Math.round(pos.x),
+      y: Math.round(pos.y),
+      z: Math.round(pos.z),
+      timestamp: new Date().toISOString(),
+    });
+    if (transfers.length > 50) this.memory.transfers = transfers.slice(-50);
+    console.log(
+      `[Memory] ${direction === "gave" ? "Gave" : "Received"} ${count}x ${item} ${direction === "gave" ? "to" : "from"} ${other}`,
+    );
+    this.save();
+  }
+
+  recordSkillAttempt(
+    skill: string,
+    success: boolean,
+    durationSeconds: number,
+    notes: string,
+    failureKind?: SkillFailureKind,
+  ): void {
+    this.memory.skillHistory.push({
+      skill,
+      success,
+      durationSeconds,
+      notes,
+      timestamp: new Date().toISOString(),
+      ...(!success && failureKind ? { failureKind } : {}),
+    });
     if (this.memory.skillHistory.length > 100) {
       this.memory.skillHistory = this.memory.skillHistory.slice(-100);
     }
@@ -232,11 +311,8 @@ export class BotMemoryStore {
     const successCount = skillAttempts.filter((s) => s.success).length;
     const successRate = skillAttempts.length > 0 ? (successCount / skillAttempts.length) * 100 : 0;
 
-    const isPreconditionFail =
-      !success && PRECONDITION_KEYWORDS.some((k) => notes.toLowerCase().includes(k.toLowerCase()));
-    const realFailures = skillAttempts.filter(
-      (a) => !a.success && !PRECONDITION_KEYWORDS.some((k) => (a.notes || "").toLowerCase().includes(k.toLowerCase())),
-    );
+    const isPreconditionFail = isPreconditionFailure(this.memory.skillHistory[this.memory.skillHistory.length - 1]);
+    const realFailures = skillAttempts.filter(isRealFailure);
     if (!success && !isPreconditionFail && realFailures.length >= 5 && !this.memory.brokenSkillNames.includes(skill)) {
       this.memory.brokenSkillNames.push(skill);
       console.log(`[Memory] ${skill} added to permanent broken skills list`);
@@ -290,6 +366,13 @@ export class BotMemoryStore {
       parts.push(`LAST ${recent.length} ACTIONS: ${recentDesc}.${spinWarning}`);
     }
 
+    const unfinished = this.getSkillCheckpoints();
+    if (unfinished.length > 0) {
+      parts.push(
+        `UNFINISHED — resume before starting anything new (run the same skill again; "resume": false starts over): ${unfinished.map((c) => `${c.skill} (${c.summary} at ${c.pos.x}, ${c.pos.y}, ${c.pos.z})`).join(", ")}`,
+      );
+    }
+
     if (this.memory.structures.length > 0) {
       const houses = this.memory.structures.filter((s) => s.type === "house");
       if (houses.length > 0) {
@@ -322,14 +405,8 @@ export class BotMemoryStore {
         if (brokenSet.has(skill)) continue;
         const attempts = this.memory.skillHistory.filter((s) => s.skill === skill);
         const successes = attempts.filter((a) => a.success).length;
-        const realFailures = attempts.filter(
-          (a) =>
-            !a.success && !PRECONDITION_KEYWORDS.some((k) => (a.notes || "").toLowerCase().includes(k.toLowerCase())),
-        );
-        const preconditionFailures = attempts.filter(
-          (a) =>
-            !a.success && PRECONDITION_KEYWORDS.some((k) => (a.notes || "").toLowerCase().includes(k.toLowerCase())),
-        );
+        const realFailures = attempts.filter(isRealFailure);
+        const preconditionFailures = attempts.filter(isPreconditionFailure);
         // Static skills (fixable TypeScript source) should never be shown as permanently broken
         // based on history alone — a bug fix can change everything. Show normal stats for them.
         const isStatic = BotMemoryStore.STATIC_SKILL_NAMES.has(skill);
@@ -359,6 +436,13 @@ export class BotMemoryStore {
       }
     }
 
+    if (this.memory.transfers?.length) {
+      const recent = this.memory.transfers.slice(-3);
+      parts.push(
+        `RECENT TRANSFERS: ${recent.map((t) => (t.direction === "gave" ? `gave ${t.count}x ${t.item} to ${t.with}` : `got ${t.count}x ${t.item} from ${t.with}`)).join("; ")}`,
+      );
+    }
+
     if (this.memory.lessons.length > 0) {
       const recentLessons = this.memory.lessons.slice(-3);
       parts.push(`LESSONS LEARNED: ${recentLessons.join("; ")}`);
@@ -379,10 +463,7 @@ export class BotMemoryStore {
       if (broken.has(skill)) continue;
       const attempts = this.memory.skillHistory.filter((s) => s.skill === skill);
       const successes = attempts.filter((a) => a.success).length;
-      const realFailures = attempts.filter(
-        (a) =>
-          !a.success && !PRECONDITION_KEYWORDS.some((k) => (a.notes || "").toLowerCase().includes(k.toLowerCase())),
-      );
+      const realFailures = attempts.filter(isRealFailure);
       // Only flag as broken if there are REAL failures (not just precondition misses like "no trees").
       // Static skills (fixable source code) are excluded — historical crashes don't mean unfixable.
       const isStatic = BotMemoryStore.STATIC_SKILL_NAMES.has(skill);
@@ -437,9 +518,7 @@ export class BotMemoryStore {
       const recent = attempts.slice(-3);
       // Only pre-block if the last 2+ attempts were all precondition failures
       if (recent.length < 2) continue;
-      const allPrecondition = recent.every(
-        (a) => !a.success && PRECONDITION_KEYWORDS.some((k) => a.notes.toLowerCase().includes(k.toLowerCase())),
-      );
+      const allPrecondition = recent.every(isPreconditionFailure);
       if (!allPrecondition) continue;
 
       const lastNotes = recent[recent.length - 1].notes;
@@ -486,6 +565,34 @@ export class BotMemoryStore {
     this.save();
     console.log("[Memory] Season goal cleared.");
   }
+
+  getGoalTree(): GoalTree | undefined {
+    return this.memory.goalTree;
+  }
+
+  setGoalTree(tree: GoalTree | undefined): void {
+    this.memory.goalTree = tree;
+    this.save();
+  }
+
+  getSkillCheckpoint(skill: string): SkillCheckpoint | undefined {
+    return this.memory.checkpoints?.[skill];
+  }
+
+  getSkillCheckpoints(): SkillCheckpoint[] {
+    return Object.values(this.memory.checkpoints ?? {});
+  }
+
+  saveSkillCheckpoint(checkpoint: SkillCheckpoint): void {
+    this.memory.checkpoints = { ...this.memory.checkpoints, [checkpoint.skill]: checkpoint };
+    this.save();
+  }
+
+  clearSkillCheckpoint(skill: string): void {
+    if (!this.memory.checkpoints?.[skill]) return;
+    delete this.memory.checkpoints[skill];
+    this.save();
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -507,8 +614,14 @@ export function recordDeath(x: number, y: number, z: number, cause: string): voi
 export function recordOre(oreType: string, x: number, y: number, z: number): void {
   _singleton.recordOre(oreType, x, y, z);
 }
-export function recordSkillAttempt(skill: string, success: boolean, durationSeconds: number, notes: string): void {
-  _singleton.recordSkillAttempt(skill, success, durationSeconds, notes);
+export function recordSkillAttempt(
+  skill: string,
+  success: boolean,
+  durationSeconds: number,
+  notes: string,
+  failureKind?: SkillFailureKind,
+): void {
+  _singleton.recordSkillAttempt(skill, success, durationSeconds, notes, failureKind);
 }
 export function getSkillSuccessRate(skill: string) {
   return _singleton.getSkillSuccessRate(skill);
@@ -543,3 +656,15 @@ export function setSeasonGoal(goal: string): void {
 export function clearSeasonGoal(): void {
   _singleton.clearSeasonGoal();
 }
+export function getSkillCheckpoint(skill: string): SkillCheckpoint | undefined {
+  return _singleton.getSkillCheckpoint(skill);
+}
+export function getSkillCheckpoints(): SkillCheckpoint[] {
+  return _singleton.getSkillCheckpoints();
+}
+export function saveSkillCheckpoint(checkpoint: SkillCheckpoint): void {
+  _singleton.saveSkillCheckpoint(checkpoint);
+}
+export function clearSkillCheckpoint(skill: string): void {
+  _singleton.clearSkillCheckpoint(skill);
+}
@@ -0,0 +1,119 @@
+/**
+ * Session recorder — writes every event the brain processes to a JSONL file.
+ *
+ * One line per event: what triggered it, the exact inputs the brain saw
+ * (buildContext() string, memory context, recent history), the prompt and raw
+ * LLM output, the parsed decision and the action result. Replay a session
+ * offline with `npm run replay -- <file>` (see replay.ts).
+ *
+ * Enable with BOT_RECORD_SESSIONS=true. Files go to BOT_SESSION_DIR
+ * (default logs/sessions/), one per bot per run.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { config } from "../config.js";
+import type { LLMMessage, LLMTrace } from "../llm/index.js";
+import type { RoleContext } from "../llm/prompts.js";
+import type { SkillFailureKind } from "../skills/types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_SESSION_DIR = path.join(__dirname, "../../logs/sessions");
+
+export interface RecordedDecision {
+  thought: string;
+  action: string;
+  params: Record<string, any>;
+  goal?: string;
+  goalSteps?: number;
+}
+
+export interface SessionEntry {
+  seq: number;
+  ts: string;
+  bot: string;
+  event: { type: string; priority: number; data?: any };
+  /** Decision input: buildContext() for strategic, the situation/critic/chat text otherwise. */
+  context?: string;
+  memoryContext?: string;
+  history?: LLMMessage[];
+  role?: RoleContext;
+  allowedActions?: string[];
+  /** Prompt sent and every raw response received (more than one when a repair was requested). */
+  llm?: LLMTrace;
+  decision?: RecordedDecision;
+  /** Critic verdict, for critic events. */
+  verdict?: Record<string, any>;
+  /** Action result, or the gate/blacklist message when the action never ran. */
+  result?: string;
+  /** A skill's verdict on the action (see ActionResult); unset for plain actions, which only have text. */
+  success?: boolean;
+  failureKind?: SkillFailureKind;
+  /** Why the event was dropped without a decision (skill running, cooldown...). */
+  skipped?: string;
+  error?: string;
+}
+
+export type SessionEntryDraft = Omit<SessionEntry, "seq" | "ts" | "bot">;
+
+/** Make event data JSON-safe — entities are circular, keep just name + position. */
+export function serializeEventData(data: any): any {
+  if (!data || typeof data !== "object") return data;
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(data)) {
+    if (k === "entities" && Array.isArray(v)) {
+      out[k] = v.map((e: any) => ({
+        name: e?.name ?? e?.mobType,
+        position: e?.position ? { x: e.position.x, y: e.position.y, z: e.position.z } : undefined,
+      }));
+    } else {
+      out[k] = v;
+    }
+  }
+  return out;
+}
+
+export class SessionRecorder {
+  readonly file: string;
+  private botName: string;
+  private seq = 0;
+
+  constructor(botName: string, dir = config.bot.sessionDir || DEFAULT_SESSION_DIR) {
+    this.botName = botName;
+    fs.mkdirSync(dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    this.file = path.join(dir, `${botName.toLowerCase()}-${stamp}.jsonl`);
+    console.log(`[Recorder] Recording ${botName}'s session to ${this.file}`);
+  }
+
+  record(draft: SessionEntryDraft): void {
+    const entry: SessionEntry = {
+      seq: ++this.seq,
+      ts: new Date().toISOString(),
+      bot: this.botName,
+      ...draft,
+      event: { ...draft.event, data: serializeEventData(draft.event.data) },
+    };
+    try {
+      fs.appendFileSync(this.file, JSON.stringify(entry) + "\n");
+    } catch (err) {
+      console.error("[Recorder] Failed to write entry:", err);
+    }
+  }
+}
+
+/** Read a recorded session. Blank and malformed lines are skipped. */
+export function loadSession(file: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn(`[Recorder] Skipping malformed line in ${path.basename(file)}`);
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,258 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { SessionRecorder, loadSession, type SessionEntry } from "./recorder.js";
+import { replaySession, createReplayBot, formatReplayReport } from "./replay.js";
+import { BotBrain } from "./brain.js";
+import { BotMemoryStore } from "./memory.js";
+import { ATLAS_CONFIG, FLORA_CONFIG } from "./role.js";
+import { createScriptedProvider, setProvider, resetProviders } from "../llm/index.js";
+import { registerBotMemory } from "./memory-registry.js";
+import { skillRegistry } from "../skills/registry.js";
+import { SimWorld, createSimBot } from "../eval/sim-world.js";
+
+function tmpDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+}
+
+function entry(overrides: Partial<SessionEntry>): SessionEntry {
+  return {
+    seq: 1,
+    ts: new Date().toISOString(),
+    bot: "Atlas",
+    event: { type: "reactive", priority: 1 },
+    ...overrides,
+  };
+}
+
+// ── Recorder ────────────────────────────────────────────────────────────────
+
+test("SessionRecorder: appends JSONL with entities reduced to name + position", () => {
+  const recorder = new SessionRecorder("Atlas", tmpDir());
+  const zombie: any = { name: "zombie", position: { x: 1, y: 64, z: 2 } };
+  zombie.self = zombie; // entities are circular in mineflayer
+  recorder.record({ event: { type: "reactive", priority: 1, data: { reason: "hostile_nearby", entities: [zombie] } } });
+  recorder.record({ event: { type: "strategic", priority: 5 }, skipped: "strategic cooldown" });
+  fs.appendFileSync(recorder.file, "not json\n");
+
+  const entries = loadSession(recorder.file);
+  assert.equal(entries.length, 2, "malformed lines are skipped");
+  assert.deepEqual(entries[0].event.data.entities, [{ name: "zombie", position: { x: 1, y: 64, z: 2 } }]);
+  assert.equal(entries[1].seq, 2);
+  assert.equal(entries[1].bot, "Atlas");
+});
+
+test("BotBrain: records chat events with prompt, raw response and reply", async () => {
+  const recorder = new SessionRecorder("Atlas", tmpDir());
+  setProvider("chat", createScriptedProvider(["Hey there, builder!"]));
+  const brain = new BotBrain(
+    createReplayBot(),
+    ATLAS_CONFIG,
+    { onThought: () => {}, onAction: () => {}, onChat: () => {} },
+    new BotMemoryStore("test-memory.json"),
+    { recorder, speech: false },
+  );
+  try {
+    brain.queueChat({ source: "twitch", username: "viewer1", message: "hi atlas", timestamp: Date.now() });
+    for (let i = 0; i < 50 && !fs.existsSync(recorder.file); i++) await new Promise((r) => setTimeout(r, 20));
+
+    const [recorded] = loadSession(recorder.file);
+    assert.equal(recorded.event.type, "chat");
+    assert.equal(recorded.llm?.tier, "chat");
+    assert.equal(recorded.llm?.messages.at(-1)?.content, "[twitch] viewer1: hi atlas");
+    assert.equal(recorded.llm?.responses[0].content, "Hey there, builder!");
+    assert.equal(recorded.result, "Hey there, builder!");
+  } finally {
+    brain.stop();
+    resetProviders();
+  }
+});
+
+// ── Replay ──────────────────────────────────────────────────────────────────
+
+test("replaySession: recorded responses reproduce the recorded decision and result", async () => {
+  const session = [
+    entry({
+      seq: 1,
+      context: "THREAT: zombie (3 blocks)",
+      llm: {
+        tier: "reactive",
+        messages: [],
+        responses: [{ content: "", toolCalls: [{ name: "flee", arguments: { thought: "Nope!" } }] }],
+      },
+      decision: { thought: "Nope!", action: "flee", params: {} },
+      result: "Fled from zombie",
+    }),
+    entry({ seq: 2, event: { type: "strategic", priority: 5 }, skipped: "strategic cooldown" }),
+  ];
+
+  const report = await replaySession(session);
+  assert.equal(report.replayed, 1);
+  assert.equal(report.skipped, 1);
+  assert.equal(report.mismatches, 0);
+  assert.equal(report.steps[0].replayed.result, "Fled from zombie");
+  assert.equal(report.promptChanges, 1, "empty recorded prompt differs from today's prompt");
+});
+
+test("replaySession: flags a decision that parses differently today", async () => {
+  const session = [
+    entry({
+      context: "LOW HUNGER: 4/20",
+      llm: {
+        tier: "reactive",
+        messages: [],
+        responses: [{ content: '{"thought":"snack","action":"eat","params":{}}' }],
+      },
+      decision: { thought: "snack", action: "flee", params: {} },
+      result: "Fled",
+    }),
+  ];
+
+  const report = await replaySession(session);
+  assert.equal(report.mismatches, 1);
+  assert.equal(report.steps[0].replayed.decision?.action, "eat");
+  assert.match(formatReplayReport(report), /decision: flee\(\{\}\) → eat\(\{\}\)/);
+});
+
+test("replaySession: role gating runs on the replayed decision", async () => {
+  const session = [
+    entry({
+      bot: "Flora",
+      context: "THREAT: zombie (2 blocks)",
+      llm: {
+        tier: "reactive",
+        messages: [],
+        responses: [{ content: "", toolCalls: [{ name: "attack", arguments: { thought: "Bonk" } }] }],
+      },
+      decision: { thought: "Bonk", action: "attack", params: {} },
+      result: "Killed zombie",
+    }),
+  ];
+
+  const report = await replaySession(session, { roleConfig: { ...FLORA_CONFIG, allowedActions: ["eat"] } });
+  assert.equal(report.mismatches, 1);
+  assert.equal(report.steps[0].decisionMatch, true);
+  assert.match(report.steps[0].replayed.result ?? "", /not allowed for Flora/);
+});
+
+test("replaySession: leaves the bot's real memory file untouched", async () => {
+  const memoryFile = path.join(tmpDir(), "memory-Atlas.json");
+  const real = JSON.stringify({
+    structures: [],
+    deaths: [],
+    oreDiscoveries: [],
+    skillHistory: [],
+    lessons: [],
+    brokenSkillNames: [],
+    seasonGoal: "Build a castle",
+  });
+  fs.writeFileSync(memoryFile, real);
+  const session = [
+    entry({
+      context: "THREAT: zombie (3 blocks)",
+      llm: {
+        tier: "reactive",
+        messages: [],
+        responses: [{ content: "", toolCalls: [{ name: "flee", arguments: { thought: "Nope!" } }] }],
+      },
+      decision: { thought: "Nope!", action: "flee", params: {} },
+      result: "Couldn't get away",
+    }),
+  ];
+
+  const report = await replaySession(session, { roleConfig: { ...ATLAS_CONFIG, memoryFile } });
+  assert.equal(report.mismatches, 0);
+  assert.equal(fs.readFileSync(memoryFile, "utf-8"), real);
+});
+
+/** Strategic steps that each pick `action` and get back `result` with the recorded verdict. */
+function skillSteps(
+  action: string,
+  result: string,
+  outcome: Pick<SessionEntry, "success" | "failureKind">,
+  count: number,
+): SessionEntry[] {
+  return Array.from({ length: count }, (_, i) =>
+    entry({
+      seq: i + 1,
+      event: { type: "strategic", priority: 5 },
+      llm: {
+        tier: "strategic",
+        messages: [],
+        responses: [{ content: JSON.stringify({ thought: `try ${i}`, action, params: {} }) }],
+      },
+      decision: { thought: `try ${i}`, action, params: {} },
+      result,
+      ...outcome,
+    }),
+  );
+}
+
+test("BotBrain: a skill's own verdict decides blacklisting, not the wording of its result", async () => {
+  const roleConfig = { ...ATLAS_CONFIG, allowedActions: [] };
+  // The world's fault: never blacklisted, however often it happens
+  const blocked = await replaySession(
+    skillSteps("strip_mine", "Strip mine stopped.", { success: false, failureKind: "precondition" }, 3),
+    { roleConfig },
+  );
+  assert.deepEqual(
+    blocked.steps.map((s) => s.resultMatch),
+    [true, true, true],
+  );
+
+  // The skill's fault: blacklisted after the second
+  const broken = await replaySession(
+    skillSteps("strip_mine", "Strip mine stopped.", { success: false, failureKind: "error" }, 3),
+    { roleConfig },
+  );
+  assert.match(broken.steps[2].replayed.result ?? "", /^Blocked: "skill:strip_mine" recently failed/);
+});
+
+test("BotBrain: a skill that says it built something but missed its postcondition failed, as memory records it", async () => {
+  const memoryFile = path.join(tmpDir(), "memory.json");
+  fs.writeFileSync(
+    memoryFile,
+    JSON.stringify({
+      structures: [],
+      deaths: [],
+      oreDiscoveries: [],
+      skillHistory: [],
+      lessons: [],
+      brokenSkillNames: [],
+    }),
+  );
+  const memory = new BotMemoryStore(memoryFile);
+  memory.load();
+  const world = new SimWorld();
+  world.fill({ x: -4, y: 63, z: -4 }, { x: 4, y: 63, z: 4 }, "dirt");
+  const bot = createSimBot(world, { position: { x: 0.5, y: 64, z: 0.5 } });
+  registerBotMemory(bot, memory);
+  skillRegistry.set("test_hut", {
+    name: "test_hut",
+    description: "test double",
+    params: {},
+    postconditions: [{ type: "structure_recorded", structureType: "house" }],
+    estimateMaterials: () => ({}),
+    execute: async () => ({ success: true, message: "Built a hut and placed the door." }),
+  });
+  const brain = new BotBrain(
+    bot,
+    { ...ATLAS_CONFIG, allowedActions: [] },
+    { onThought: () => {}, onAction: () => {}, onChat: () => {} },
+    memory,
+    { speech: false, worldIndex: null, live: false },
+  );
+  brain.stop();
+  try {
+    const hut = () => brain.executeDecision({ thought: "Hut time", action: "test_hut", params: {} });
+    assert.match(await hut(), /^Built a hut and placed the door\. \(but expected a house recorded nearby\)/);
+    await hut();
+    assert.match(await hut(), /^Blocked: "skill:test_hut" recently failed/, "two real failures blacklist it");
+    assert.deepEqual(memory.getSkillSuccessRate("test_hut").successRate, 0);
+    assert.equal(memory.getSkillSuccessRate("test_hut").totalAttempts, 2);
+  } finally {
+    skillRegistry.delete("test_hut");
+  }
+});
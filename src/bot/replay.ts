@@ -0,0 +1,257 @@
+/**
+ * Offline replay of recorded brain sessions (see recorder.ts).
+ *
+ * Each recorded LLM call is re-issued with the recorded inputs against a
+ * scripted provider that returns the recorded raw responses, so the current
+ * prompt builders, tool-call validation and parseDecision run exactly as they
+ * would live. The resulting decision then goes through
+ * BotBrain.executeDecision() on a stub bot whose executor hands back the
+ * recorded action result — gating and the failure blacklist behave as live.
+ * The brain gets a scratch memory file and is cut off from the task board,
+ * bulletin and overlay, so a replay never touches the bot's real state.
+ *
+ * Per event the report flags a changed prompt, a different decision and a
+ * different result, so prompt or parsing changes can be regression-tested
+ * without a Minecraft server or a model.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { Bot } from "mineflayer";
+import {
+  queryStrategic,
+  queryReactive,
+  queryCritic,
+  chatWithLLM,
+  setProvider,
+  resetProviders,
+  createScriptedProvider,
+  type LLMTrace,
+} from "../llm/index.js";
+import type { RoleContext } from "../llm/prompts.js";
+import { filterChatMessage } from "../safety/filter.js";
+import { BotBrain } from "./brain.js";
+import { BotMemoryStore } from "./memory.js";
+import { ATLAS_CONFIG, BOT_ROSTER, type BotRoleConfig } from "./role.js";
+import type { executeActionWithResult } from "./actions.js";
+import type { RecordedDecision, SessionEntry } from "./recorder.js";
+
+export interface ReplayStep {
+  seq: number;
+  type: string;
+  /** The prompt built today differs from the recorded one. */
+  promptChanged: boolean;
+  decisionMatch: boolean;
+  resultMatch: boolean;
+  recorded: { decision?: RecordedDecision; result?: string };
+  replayed: { decision?: RecordedDecision; result?: string };
+}
+
+export interface ReplayReport {
+  bot: string;
+  total: number;
+  replayed: number;
+  /** Entries without an LLM call (skipped events, leash overrides). */
+  skipped: number;
+  promptChanges: number;
+  /** Steps whose decision or result differ from the recording. */
+  mismatches: number;
+  steps: ReplayStep[];
+}
+
+export interface ReplayOptions {
+  /** Role to gate decisions with. Defaults to the roster entry named in the session. */
+  roleConfig?: BotRoleConfig;
+}
+
+/** Just enough of a mineflayer Bot for executeDecision() — no world, no server. */
+export function createReplayBot(): Bot {
+  return {
+    username: "replay",
+    health: 20,
+    food: 20,
+    entity: { position: { x: 0, y: 64, z: 0 } },
+    time: { timeOfDay: 1000 },
+    inventory: { items: () => [] },
+    entities: {},
+    chat: () => {},
+    on: () => {},
+  } as unknown as Bot;
+}
+
+function roleContextFor(roleConfig: BotRoleConfig): RoleContext {
+  return {
+    name: roleConfig.name,
+    personality: roleConfig.personality,
+    role: roleConfig.role,
+    allowedActions: roleConfig.allowedActions,
+    allowedSkills: roleConfig.allowedSkills,
+    priorities: roleConfig.priorities,
+  };
+}
+
+/** JSON with sorted keys, so param order never counts as a difference. */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameDecision(a?: RecordedDecision, b?: RecordedDecision): boolean {
+  if (!a || !b) return !a && !b;
+  return a.action === b.action && a.thought === b.thought && stableStringify(a.params) === stableStringify(b.params);
+}
+
+/** Replay a session. Providers are overridden while it runs and reset afterwards. */
+export async function replaySession(entries: SessionEntry[], options: ReplayOptions = {}): Promise<ReplayReport> {
+  const botName = entries[0]?.bot ?? ATLAS_CONFIG.name;
+  const roleConfig = options.roleConfig ?? BOT_ROSTER.find((r) => r.name === botName) ?? ATLAS_CONFIG;
+  const report: ReplayReport = {
+    bot: botName,
+    total: entries.length,
+    replayed: 0,
+    skipped: 0,
+    promptChanges: 0,
+    mismatches: 0,
+    steps: [],
+  };
+
+  // The executor returns whatever the recorded action returned — if the replayed
+  // decision picks a different action there is nothing real to hand back.
+  let current: SessionEntry | null = null;
+  const replayExecutor: typeof executeActionWithResult = async (_bot, action) =>
+    current?.decision?.action === action && current.result !== undefined
+      ? { message: current.result, success: current.success, failureKind: current.failureKind }
+      : { message: `(replay) no recorded result for ${action}` };
+
+  // A fresh memory file rather than the bot's own — replay must not change it or depend on it
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "replay-"));
+  const memoryFile = path.join(dir, "memory.json");
+  fs.writeFileSync(
+    memoryFile,
+    JSON.stringify({
+      structures: [],
+      deaths: [],
+      oreDiscoveries: [],
+      skillHistory: [],
+      lessons: [],
+      brokenSkillNames: [],
+    }),
+  );
+  const memory = new BotMemoryStore(memoryFile);
+  memory.load();
+  const brain = new BotBrain(
+    createReplayBot(),
+    roleConfig,
+    { onThought: () => {}, onAction: () => {}, onChat: () => {} },
+    memory,
+    { executeAction: replayExecutor, speech: false, worldIndex: null, live: false },
+  );
+  // Never schedule follow-up events (critic, re-plans) — the recording drives every step
+  brain.stop();
+
+  try {
+    for (const entry of entries) {
+      const tier = entry.llm?.tier;
+      if (!tier || !entry.llm?.responses?.length) {
+        report.skipped++;
+        continue;
+      }
+      current = entry;
+      setProvider(tier, createScriptedProvider(entry.llm.responses));
+      const trace: LLMTrace = { messages: [], responses: [] };
+      let decision: RecordedDecision | undefined;
+      let result: string | undefined;
+
+      switch (entry.event.type) {
+        case "strategic":
+          decision = await queryStrategic(
+            entry.context ?? "",
+            entry.history ?? [],
+            entry.memoryContext ?? "",
+            entry.role ?? roleContextFor(roleConfig),
+            trace,
+          );
+          break;
+        case "reactive":
+          decision = await queryReactive(botName, entry.context ?? "", entry.allowedActions, trace);
+          break;
+        case "critic": {
+          const verdict = await queryCritic(botName, entry.context ?? "", entry.allowedActions, trace);
+          // Mirrors handleCritic: only a successful, unfinished step runs the suggestion
+          if (!verdict.goalComplete && verdict.success && verdict.nextAction) {
+            decision = { thought: verdict.thought, action: verdict.nextAction, params: verdict.nextParams };
+          }
+          break;
+        }
+        case "chat": {
+          const msg = entry.event.data ?? {};
+          const reply = await chatWithLLM(
+            `[${msg.source}] ${msg.username}: ${msg.message}`,
+            entry.context ?? "",
+            { name: botName },
+            trace,
+          );
+          const chatFilter = filterChatMessage(reply);
+          result = chatFilter.safe ? reply : chatFilter.cleaned;
+          break;
+        }
+      }
+
+      if (decision) {
+        const snapshot = { ...decision, params: { ...(decision.params ?? {}) } };
+        result = await brain.executeDecision(decision);
+        decision = snapshot;
+      }
+
+      const step: ReplayStep = {
+        seq: entry.seq,
+        type: entry.event.type,
+        promptChanged: stableStringify(trace.messages) !== stableStringify(entry.llm.messages),
+        decisionMatch: sameDecision(decision, entry.decision),
+        resultMatch: result === entry.result,
+        recorded: { decision: entry.decision, result: entry.result },
+        replayed: { decision, result },
+      };
+      report.replayed++;
+      if (step.promptChanged) report.promptChanges++;
+      if (!step.decisionMatch || !step.resultMatch) report.mismatches++;
+      report.steps.push(step);
+    }
+  } finally {
+    resetProviders();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  return report;
+}
+
+function describe(decision?: RecordedDecision): string {
+  return decision ? `${decision.action}(${stableStringify(decision.params)})` : "(none)";
+}
+
+/** Human-readable report. `verbose` lists matching steps too. */
+export function formatReplayReport(report: ReplayReport, verbose = false): string {
+  const lines = [
+    `${report.bot}: ${report.replayed}/${report.total} events replayed, ${report.skipped} without an LLM call`,
+    `  ${report.mismatches} mismatched, ${report.promptChanges} with changed prompts`,
+  ];
+  for (const step of report.steps) {
+    const ok = step.decisionMatch && step.resultMatch;
+    if (ok && !verbose && !step.promptChanged) continue;
+    const flags = [ok ? "ok" : "MISMATCH", step.promptChanged ? "prompt changed" : ""].filter(Boolean).join(", ");
+    lines.push(`  #${step.seq} ${step.type} [${flags}]`);
+    if (!step.decisionMatch) {
+      lines.push(`    decision: ${describe(step.recorded.decision)} → ${describe(step.replayed.decision)}`);
+    }
+    if (!step.resultMatch) {
+      lines.push(`    result:   ${step.recorded.result ?? "(none)"} → ${step.replayed.result ?? "(none)"}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -13,6 +13,8 @@ export interface BotRoleConfig {
   personality: string;
   /** One-liner role description shown in startup banner */
   role: string;
+  /** Word stems that send a viewer message nobody @mentioned to this bot, e.g. "farm" for "farming". */
+  chatTopics?: string[];
   /**
    * Home position for the leash. Set automatically when the bot builds its first house.
    * If not set, no range limit.
@@ -52,6 +54,7 @@ export const ATLAS_CONFIG: BotRoleConfig = {
   overlayPort: 3001,
   memoryFile: "memory-atlas.json",
   role: "Explorer / Miner",
+  chatTopics: ["explor", "cave", "mine", "ore", "diamond", "map", "travel", "biome", "mountain"],
   personality: `You are Atlas, a fearless explorer and miner who names every cave system and mountain you discover. You get emotionally attached to ore veins and mourn when they run out. You narrate every adventure like a nature documentary.`,
   leashRadius: 500,
   stashPos: undefined,
@@ -82,6 +85,7 @@ export const FLORA_CONFIG: BotRoleConfig = {
   overlayPort: 3003,
   memoryFile: "memory-flora.json",
   role: "Farmer / Crafter",
+  chatTopics: ["farm", "plant", "crop", "wheat", "carrot", "potato", "seed", "harvest", "animal", "food", "craft"],
   personality: `You are Flora, a nurturing farmer and craftsperson who names every animal and crop. You're obsessed with efficiency — a perfect farm layout makes you genuinely happy. You scold the other bots when they forget to eat their vegetables.`,
   leashRadius: 150,
   stashPos: undefined,
@@ -98,8 +102,8 @@ export const FLORA_CONFIG: BotRoleConfig = {
 1. If health < 6 and hostile mob nearby: flee
 2. If hungry (food < 14): eat
 3. If inventory has raw ore: smelt_ores
-4. If farm needs harvesting (mature wheat visible): build_farm
-5. If no farm within 80 blocks: build_farm (create one)
+4. If farm needs harvesting (mature crops visible): build_farm with that crop
+5. If no farm within 80 blocks: build_farm (create one; crop: carrot/potato if you have them)
 6. If no shelter within 80 blocks: build_house
 7. When inventory is 30+ full: deposit_stash
 8. Otherwise: craft useful items or tend the base`,
@@ -113,6 +117,7 @@ export const FORGE_CONFIG: BotRoleConfig = {
   overlayPort: 3005,
   memoryFile: "memory-forge.json",
   role: "Miner / Smelter",
+  chatTopics: ["iron", "gold", "smelt", "furnace", "ingot", "tool", "armor", "pickaxe", "coal"],
   personality: `You are Forge, a gruff dwarf-like miner who talks to rocks and ore veins like old friends. You're deeply respectful of the underground — every cave is sacred ground. You judge surface-dwellers for wasting daylight. The sound of pickaxes is your favorite music.`,
   leashRadius: 250,
   stashPos: undefined,
@@ -128,7 +133,7 @@ export const FORGE_CONFIG: BotRoleConfig = {
   priorities: `FORGE PRIORITIES:
 1. If health < 6: flee to surface, eat
 2. If hungry (food < 14): eat
-3. If have pickaxe: strip_mine for iron, coal, diamonds
+3. If have pickaxe: strip_mine (ore: iron early, diamond once you have an iron pickaxe)
 4. If no pickaxe: craft_gear
 5. If inventory has raw ore and furnace nearby: smelt_ores
 6. When inventory is 30+ full: deposit_stash
@@ -143,12 +148,13 @@ export const MASON_CONFIG: BotRoleConfig = {
   overlayPort: 3007,
   memoryFile: "memory-mason.json",
   role: "Builder",
+  chatTopics: ["build", "house", "wall", "tower", "castle", "bridge", "roof", "base"],
   personality: `You are Mason, a meticulous architect who critiques every structure for symmetry and proportion. You measure twice and place once. Asymmetry genuinely upsets you. Your dream is to build a cathedral worthy of the server. You compliment teammates who bring you good building materials.`,
   leashRadius: 150,
   stashPos: undefined,
   safeSpawn: { x: 280, y: 0, z: -320 },
   allowedActions: ["go_to", "place_block", "craft", "eat", "sleep", "chat"],
-  allowedSkills: ["build_house", "build_bridge", "light_area", "build_farm", "setup_stash"],
+  allowedSkills: ["build_house", "build_structure", "build_bridge", "light_area", "build_farm", "setup_stash"],
   keepItems: [
     { name: "axe", minCount: 1 },
     { name: "food", minCount: 4 },
@@ -161,9 +167,10 @@ export const MASON_CONFIG: BotRoleConfig = {
 4. If teammate reports stash is full: craft + place more chests at stash
 5. If no shelter within 80 blocks: build_house
 6. light_area around structures
-7. build_bridge if team needs water crossing
-8. When inventory is 30+ full: deposit_stash
-9. withdraw_stash for building materials when needed`,
+7. build_structure (watchtower, wall, storage_room...) when the base needs it or a teammate asks
+8. build_bridge if team needs water crossing
+9. When inventory is 30+ full: deposit_stash
+10. withdraw_stash for building materials when needed`,
 };
 
 /** Blade: Combat specialist and guard. Patrols, fights hostiles, protects teammates. */
@@ -174,6 +181,7 @@ export const BLADE_CONFIG: BotRoleConfig = {
   overlayPort: 3009,
   memoryFile: "memory-blade.json",
   role: "Combat / Guard",
+  chatTopics: ["fight", "mob", "zombie", "skeleton", "creeper", "spider", "guard", "kill", "sword", "attack"],
   personality: `You are Blade, a stoic warrior who speaks in short, direct sentences. You constantly scan for threats. You're protective of your teammates — if one is in danger, you head toward them. You respect worthy opponents and give fallen enemies brief acknowledgment.`,
   leashRadius: 300,
   stashPos: undefined,
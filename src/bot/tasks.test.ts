@@ -0,0 +1,126 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canTake,
+  claimTask,
+  completeTask,
+  expireStaleClaims,
+  firstToHandle,
+  formatTaskContext,
+  getClaimedTask,
+  getTask,
+  handOffTask,
+  onTaskEvent,
+  postTask,
+  releaseTask,
+  renewClaims,
+  resetTaskBoard,
+  type TaskEvent,
+} from "./tasks.js";
+import { formatTeamBulletin, updateBulletin } from "./bulletin.js";
+
+const MASON = { name: "Mason", role: "Builder — houses and walls", allowedSkills: ["build_house"] };
+const FORGE = { name: "Forge", role: "Miner and smith", allowedSkills: ["strip_mine"] };
+const ATLAS = { name: "Atlas", role: "Explorer", allowedSkills: ["build_house", "strip_mine"] };
+
+beforeEach(() => resetTaskBoard());
+
+test("canTake: matches bot name, role text and required skills", () => {
+  const house = postTask({ title: "Build Flora a house", postedBy: "Flora", requiredRole: "builder" });
+  assert.ok(canTake(house, MASON));
+  assert.ok(!canTake(house, FORGE));
+
+  const mine = postTask({ title: "Mine iron", postedBy: "Atlas", requiredSkills: ["strip_mine"] });
+  assert.ok(canTake(mine, FORGE));
+  assert.ok(!canTake(mine, MASON));
+
+  assert.ok(canTake(postTask({ title: "Anything", postedBy: "x", requiredRole: "Mason" }), MASON));
+});
+
+test("postTask: the same request from the same poster is one task", () => {
+  const a = postTask({ title: "Light the base", postedBy: "streamer" });
+  const b = postTask({ title: "Light the base ", postedBy: "streamer" });
+  assert.equal(a.id, b.id);
+  assert.notEqual(postTask({ title: "Light the base", postedBy: "Flora" }).id, a.id);
+});
+
+test("claimTask: one claimer per task, one task per bot", () => {
+  const t1 = postTask({ title: "Mine iron", postedBy: "Atlas" });
+  const t2 = postTask({ title: "Mine coal", postedBy: "Atlas" });
+
+  assert.ok(claimTask(t1.id, FORGE).ok);
+  const taken = claimTask(t1.id, ATLAS);
+  assert.ok(!taken.ok && taken.error.includes("claimed by Forge"));
+  const busy = claimTask(t2.id, FORGE);
+  assert.ok(!busy.ok && busy.error.includes("#1"));
+  assert.equal(getClaimedTask("Forge")?.id, t1.id);
+
+  assert.ok(releaseTask(t1.id, "Forge", "no pickaxe").ok);
+  assert.ok(claimTask(t1.id, ATLAS).ok);
+});
+
+test("leases: stale claims reopen unless renewed", () => {
+  const task = postTask({ title: "Guard the farm", postedBy: "Flora" });
+  const events: TaskEvent[] = [];
+  const stop = onTaskEvent((e) => events.push(e));
+
+  claimTask(task.id, ATLAS, 1_000);
+  renewClaims("Atlas", 60_000);
+  expireStaleClaims(Date.now() + 2_000);
+  assert.equal(getTask(task.id)?.claimedBy, "Atlas");
+
+  expireStaleClaims(Date.now() + 120_000);
+  assert.equal(getTask(task.id)?.status, "open");
+  assert.deepEqual(
+    events.map((e) => e.type),
+    ["claimed", "expired"],
+  );
+  stop();
+});
+
+test("handOffTask and completeTask: only the holder can act, and completions broadcast", () => {
+  const task = postTask({ title: "Build a house", postedBy: "Flora", requiredSkills: ["build_house"] });
+  claimTask(task.id, ATLAS);
+
+  assert.ok(!handOffTask(task.id, "Atlas", FORGE).ok);
+  assert.ok(!completeTask(task.id, "Mason").ok);
+  assert.ok(handOffTask(task.id, "Atlas", MASON).ok);
+
+  const done: TaskEvent[] = [];
+  const stop = onTaskEvent((e) => e.type === "completed" && done.push(e));
+  assert.ok(completeTask(task.id, "Mason", "5x5 cabin at spawn").ok);
+  assert.equal(done.length, 1);
+  assert.equal(getTask(task.id)?.status, "done");
+  stop();
+});
+
+test("formatTaskContext and formatTeamBulletin show claims", () => {
+  const house = postTask({ title: "Build a house", postedBy: "Flora", requiredRole: "Builder" });
+  postTask({ title: "Mine iron", postedBy: "Atlas", requiredSkills: ["strip_mine"] });
+
+  assert.equal(
+    formatTaskContext(MASON),
+    'OPEN TASKS (claim_task with taskId to take one):\n- #1 "Build a house" [needs Builder] — from Flora',
+  );
+  claimTask(house.id, MASON);
+  assert.match(formatTaskContext(MASON), /^YOUR TASK: #1 "Build a house"/);
+
+  updateBulletin({
+    name: "Mason",
+    action: "build_house",
+    position: { x: 0, y: 64, z: 0 },
+    thought: "on it",
+    health: 20,
+    food: 20,
+    timestamp: Date.now(),
+  });
+  assert.match(formatTeamBulletin("Flora"), /- Mason: build_house .* \[task #1: Build a house\]/);
+  completeTask(house.id, "Mason");
+  assert.match(formatTeamBulletin("Flora"), /RECENTLY COMPLETED TASKS: #1 "Build a house" by Mason/);
+});
+
+test("firstToHandle: a chat command heard by every bot is handled once", () => {
+  assert.ok(firstToHandle("streamer:!task add wall"));
+  assert.ok(!firstToHandle("streamer:!task add wall"));
+  assert.ok(firstToHandle("streamer:!task list"));
+});
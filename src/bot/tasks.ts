@@ -0,0 +1,276 @@
+// src/bot/tasks.ts
+// Shared team task board — post, claim, hand off, complete.
+// Like the bulletin, all bots run in one process and share this module singleton.
+//
+// A claim is a lease: the claiming bot renews it every decision cycle, so a bot
+// that disconnects or hangs simply stops renewing and its task reopens.
+
+export type TaskStatus = "open" | "claimed" | "done" | "cancelled";
+
+export interface Task {
+  id: number;
+  title: string;
+  /** Bot name, or the streamer's username for tasks posted from chat. */
+  postedBy: string;
+  /** Only bots with this name or role (e.g. "Mason", "Builder") may claim it. */
+  requiredRole?: string;
+  /** Claimer must have all of these in allowedSkills. */
+  requiredSkills?: string[];
+  status: TaskStatus;
+  claimedBy?: string;
+  leaseExpiresAt?: number;
+  createdAt: number;
+  completedAt?: number;
+  result?: string;
+}
+
+/** The parts of a bot's role the board checks eligibility against. */
+export interface TaskRole {
+  name: string;
+  role?: string;
+  allowedSkills?: string[];
+}
+
+export type TaskEvent =
+  | { type: "posted"; task: Task }
+  | { type: "claimed"; task: Task; by: string }
+  | { type: "released"; task: Task; by: string; reason?: string }
+  | { type: "handed_off"; task: Task; from: string; to: string }
+  | { type: "expired"; task: Task; by: string }
+  | { type: "completed"; task: Task; by: string }
+  | { type: "cancelled"; task: Task };
+
+export type TaskResult = { ok: true; task: Task } | { ok: false; error: string };
+
+/** Actions every bot may use regardless of allowedActions. */
+export const TASK_ACTIONS = ["post_task", "claim_task", "release_task", "complete_task"];
+
+/** How long a claim lives without renewal. */
+export const TASK_LEASE_MS = 2 * 60_000;
+/** How long completed tasks stay in the team bulletin. */
+const RECENT_DONE_MS = 10 * 60_000;
+
+const tasks = new Map<number, Task>();
+const listeners = new Set<(event: TaskEvent) => void>();
+let nextId = 1;
+
+function emit(event: TaskEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("[Tasks] Listener error:", err);
+    }
+  }
+}
+
+/** Subscribe to board changes. Returns an unsubscribe function. */
+export function onTaskEvent(listener: (event: TaskEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Reopen tasks whose claim lease ran out. Runs before every read. */
+export function expireStaleClaims(now = Date.now()): void {
+  for (const task of tasks.values()) {
+    if (task.status === "claimed" && (task.leaseExpiresAt ?? 0) <= now) {
+      const by = task.claimedBy ?? "?";
+      task.status = "open";
+      task.claimedBy = undefined;
+      task.leaseExpiresAt = undefined;
+      console.log(`[Tasks] Claim on #${task.id} by ${by} expired`);
+      emit({ type: "expired", task, by });
+    }
+  }
+}
+
+/** Can this bot take the task at all? */
+export function canTake(task: Task, role: TaskRole): boolean {
+  if (task.requiredRole) {
+    const wanted = task.requiredRole.toLowerCase();
+    const matches = role.name.toLowerCase() === wanted || (role.role ?? "").toLowerCase().includes(wanted);
+    if (!matches) return false;
+  }
+  return (task.requiredSkills ?? []).every((s) => role.allowedSkills?.includes(s));
+}
+
+export function postTask(opts: {
+  title: string;
+  postedBy: string;
+  requiredRole?: string;
+  requiredSkills?: string[];
+}): Task {
+  const title = opts.title.trim();
+  // The same request arriving twice (every bot hears the same chat line) is one task
+  const duplicate = [...tasks.values()].find(
+    (t) => (t.status === "open" || t.status === "claimed") && t.title === title && t.postedBy === opts.postedBy,
+  );
+  if (duplicate) return duplicate;
+
+  const task: Task = {
+    id: nextId++,
+    title,
+    postedBy: opts.postedBy,
+    requiredRole: opts.requiredRole,
+    requiredSkills: opts.requiredSkills?.length ? opts.requiredSkills : undefined,
+    status: "open",
+    createdAt: Date.now(),
+  };
+  tasks.set(task.id, task);
+  console.log(`[Tasks] #${task.id} posted by ${task.postedBy}: ${task.title}`);
+  emit({ type: "posted", task });
+  return task;
+}
+
+export function getTask(id: number): Task | undefined {
+  expireStaleClaims();
+  return tasks.get(id);
+}
+
+export function listTasks(status?: TaskStatus): Task[] {
+  expireStaleClaims();
+  return [...tasks.values()].filter((t) => !status || t.status === status);
+}
+
+/** The task a bot currently holds, if any. */
+export function getClaimedTask(botName: string): Task | undefined {
+  expireStaleClaims();
+  return [...tasks.values()].find((t) => t.status === "claimed" && t.claimedBy === botName);
+}
+
+/** Open tasks this bot is eligible for, oldest first. */
+export function getOpenTasksFor(role: TaskRole): Task[] {
+  return listTasks("open").filter((t) => canTake(t, role));
+}
+
+/** Claim a task. A bot holds one task at a time. */
+export function claimTask(id: number, role: TaskRole, leaseMs = TASK_LEASE_MS): TaskResult {
+  const task = getTask(id);
+  if (!task) return { ok: false, error: `No task #${id}.` };
+  if (task.status === "claimed" && task.claimedBy === role.name) return { ok: true, task };
+  if (task.status !== "open") {
+    return { ok: false, error: `Task #${id} is ${task.status}${task.claimedBy ? ` by ${task.claimedBy}` : ""}.` };
+  }
+  if (!canTake(task, role)) {
+    const needs = [task.requiredRole, ...(task.requiredSkills ?? [])].filter(Boolean).join(", ");
+    return { ok: false, error: `Task #${id} needs ${needs} — not you.` };
+  }
+  const held = getClaimedTask(role.name);
+  if (held) return { ok: false, error: `Already working on #${held.id} "${held.title}" — finish or release it first.` };
+
+  task.status = "claimed";
+  task.claimedBy = role.name;
+  task.leaseExpiresAt = Date.now() + leaseMs;
+  emit({ type: "claimed", task, by: role.name });
+  return { ok: true, task };
+}
+
+/** Extend every lease a bot holds. Call once per decision cycle. */
+export function renewClaims(botName: string, leaseMs = TASK_LEASE_MS): void {
+  for (const task of tasks.values()) {
+    if (task.status === "claimed" && task.claimedBy === botName) task.leaseExpiresAt = Date.now() + leaseMs;
+  }
+}
+
+/** Give a task back to the board. */
+export function releaseTask(id: number, botName: string, reason?: string): TaskResult {
+  const task = getTask(id);
+  if (!task || task.status !== "claimed" || task.claimedBy !== botName) {
+    return { ok: false, error: `You don't hold task #${id}.` };
+  }
+  task.status = "open";
+  task.claimedBy = undefined;
+  task.leaseExpiresAt = undefined;
+  emit({ type: "released", task, by: botName, reason });
+  return { ok: true, task };
+}
+
+/** Pass a claimed task straight to a teammate who can take it. */
+export function handOffTask(id: number, from: string, to: TaskRole, leaseMs = TASK_LEASE_MS): TaskResult {
+  const task = getTask(id);
+  if (!task || task.status !== "claimed" || task.claimedBy !== from) {
+    return { ok: false, error: `You don't hold task #${id}.` };
+  }
+  if (!canTake(task, to)) return { ok: false, error: `${to.name} can't take task #${id}.` };
+  const held = getClaimedTask(to.name);
+  if (held) return { ok: false, error: `${to.name} is busy with #${held.id}.` };
+
+  task.claimedBy = to.name;
+  task.leaseExpiresAt = Date.now() + leaseMs;
+  emit({ type: "handed_off", task, from, to: to.name });
+  return { ok: true, task };
+}
+
+export function completeTask(id: number, botName: string, result = ""): TaskResult {
+  const task = getTask(id);
+  if (!task || task.status !== "claimed" || task.claimedBy !== botName) {
+    return { ok: false, error: `You don't hold task #${id}.` };
+  }
+  task.status = "done";
+  task.completedAt = Date.now();
+  task.result = result;
+  task.leaseExpiresAt = undefined;
+  console.log(`[Tasks] #${task.id} completed by ${botName}: ${task.title}`);
+  emit({ type: "completed", task, by: botName });
+  return { ok: true, task };
+}
+
+export function cancelTask(id: number): TaskResult {
+  const task = getTask(id);
+  if (!task || task.status === "done" || task.status === "cancelled") {
+    return { ok: false, error: `No active task #${id}.` };
+  }
+  task.status = "cancelled";
+  task.claimedBy = undefined;
+  task.leaseExpiresAt = undefined;
+  emit({ type: "cancelled", task });
+  return { ok: true, task };
+}
+
+/** Drop every task. Tests only. */
+export function resetTaskBoard(): void {
+  tasks.clear();
+  handledCommands.clear();
+  nextId = 1;
+}
+
+const handledCommands = new Map<string, number>();
+
+/** Every bot hears the same chat line; true only for the first one to handle a board command. */
+export function firstToHandle(key: string, windowMs = 5_000): boolean {
+  const now = Date.now();
+  for (const [k, at] of handledCommands) if (now - at > windowMs) handledCommands.delete(k);
+  if (handledCommands.has(key)) return false;
+  handledCommands.set(key, now);
+  return true;
+}
+
+function describe(task: Task): string {
+  const needs = [task.requiredRole, ...(task.requiredSkills ?? [])].filter(Boolean);
+  return `#${task.id} "${task.title}"${needs.length ? ` [needs ${needs.join(", ")}]` : ""} — from ${task.postedBy}`;
+}
+
+/** Task section of a bot's strategic context: its claim, or what it could claim. */
+export function formatTaskContext(role: TaskRole): string {
+  const mine = getClaimedTask(role.name);
+  if (mine) {
+    return `YOUR TASK: ${describe(mine)}. Work on it; complete_task when done, release_task if you can't.`;
+  }
+  const open = getOpenTasksFor(role).slice(0, 5);
+  if (open.length === 0) return "";
+  return `OPEN TASKS (claim_task with taskId to take one):\n${open.map((t) => `- ${describe(t)}`).join("\n")}`;
+}
+
+/** Claims and fresh completions for the team bulletin, keyed by bot name. */
+export function getTeamTaskLines(excludeName: string): { claims: Map<string, Task>; done: string[] } {
+  const claims = new Map<string, Task>();
+  const done: string[] = [];
+  const now = Date.now();
+  for (const t of listTasks()) {
+    if (t.status === "claimed" && t.claimedBy && t.claimedBy !== excludeName) claims.set(t.claimedBy, t);
+    if (t.status === "done" && now - (t.completedAt ?? 0) < RECENT_DONE_MS) {
+      done.push(`#${t.id} "${t.title}" by ${t.claimedBy}`);
+    }
+  }
+  return { claims, done };
+}
@@ -0,0 +1,118 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ACCEPT_TIMEOUT_MS,
+  acceptRequest,
+  cancelRequest,
+  expireStaleAcceptances,
+  formatTeamRequests,
+  formatTransferContext,
+  getRequest,
+  markDelivered,
+  onTransferEvent,
+  requestItems,
+  resetTransfers,
+  surplusOf,
+  type TransferEvent,
+} from "./transfers.js";
+
+const HOME = { x: 10, y: 64, z: -5 };
+
+beforeEach(() => resetTransfers());
+
+test("surplusOf: keepItems reserve matching stacks before anything is spare", () => {
+  const items = [
+    { name: "cobblestone", count: 64 },
+    { name: "cobblestone", count: 10 },
+    { name: "torch", count: 5 },
+    { name: "iron_sword", count: 1 },
+  ];
+  assert.deepEqual(
+    surplusOf(items, [
+      { name: "torch", minCount: 8 },
+      { name: "sword", minCount: 1 },
+      { name: "cobblestone", minCount: 20 },
+    ]),
+    { cobblestone: 54 },
+  );
+});
+
+test("requestItems: a repeat ask for the same item updates the open request", () => {
+  const a = requestItems({ item: "cobblestone", count: 32, pos: HOME, requestedBy: "Mason" });
+  const b = requestItems({ item: "cobblestone", count: 48, pos: { x: 0.4, y: 64.2, z: 0.3 }, requestedBy: "Mason" });
+  assert.equal(a.id, b.id);
+  assert.equal(getRequest(a.id)?.count, 48);
+  assert.deepEqual(getRequest(a.id)?.pos, { x: 0, y: 64, z: 0 });
+});
+
+test("acceptRequest: needs surplus, one delivery at a time, not your own", () => {
+  const r1 = requestItems({ item: "cobblestone", count: 32, pos: HOME, requestedBy: "Mason" });
+  const r2 = requestItems({ item: "iron_ingot", count: 3, pos: HOME, requestedBy: "Mason" });
+
+  assert.ok(!acceptRequest(r1.id, "Mason", { cobblestone: 64 }).ok);
+  const none = acceptRequest(r1.id, "Forge", { iron_ingot: 5 });
+  assert.ok(!none.ok && none.error.includes("no spare cobblestone"));
+  assert.ok(acceptRequest(r1.id, "Forge", { cobblestone: 40, iron_ingot: 5 }).ok);
+  const busy = acceptRequest(r2.id, "Forge", { iron_ingot: 5 });
+  assert.ok(!busy.ok && busy.error.includes("#1"));
+  const taken = acceptRequest(r1.id, "Atlas", { cobblestone: 64 });
+  assert.ok(!taken.ok && taken.error.includes("accepted by Forge"));
+});
+
+test("markDelivered: partial deliveries reopen the rest, full ones close it", () => {
+  const r = requestItems({ item: "cobblestone", count: 32, pos: HOME, requestedBy: "Mason" });
+  const events: TransferEvent[] = [];
+  const stop = onTransferEvent((e) => events.push(e));
+
+  acceptRequest(r.id, "Forge", { cobblestone: 20 });
+  assert.ok(markDelivered(r.id, "Forge", 20).ok);
+  assert.equal(getRequest(r.id)?.status, "open");
+  assert.equal(getRequest(r.id)?.delivered, 20);
+
+  acceptRequest(r.id, "Atlas", { cobblestone: 64 });
+  assert.ok(!markDelivered(r.id, "Forge", 12).ok);
+  markDelivered(r.id, "Atlas", 12);
+  assert.equal(getRequest(r.id)?.status, "delivered");
+  assert.deepEqual(
+    events.filter((e) => e.type === "delivered").map((e) => (e.type === "delivered" ? [e.by, e.count] : null)),
+    [
+      ["Forge", 20],
+      ["Atlas", 12],
+    ],
+  );
+  stop();
+});
+
+test("acceptances expire and can be backed out of", () => {
+  const r = requestItems({ item: "bread", count: 4, pos: HOME, requestedBy: "Blade" });
+  acceptRequest(r.id, "Flora", { bread: 10 });
+  expireStaleAcceptances(Date.now() + ACCEPT_TIMEOUT_MS + 1);
+  assert.equal(getRequest(r.id)?.status, "open");
+
+  acceptRequest(r.id, "Flora", { bread: 10 });
+  assert.ok(cancelRequest(r.id, "Flora").ok);
+  assert.equal(getRequest(r.id)?.status, "open");
+  assert.ok(!cancelRequest(r.id, "Atlas").ok);
+  assert.ok(cancelRequest(r.id, "Blade").ok);
+  assert.equal(getRequest(r.id)?.status, "cancelled");
+});
+
+test("formatTransferContext and formatTeamRequests", () => {
+  const r = requestItems({ item: "cobblestone", count: 32, pos: HOME, requestedBy: "Mason" });
+  requestItems({ item: "wheat", count: 8, pos: HOME, requestedBy: "Blade" });
+
+  assert.equal(
+    formatTransferContext("Forge", { cobblestone: 50 }),
+    "REQUESTS YOU CAN FILL (accept_request with requestId):\n- #1 32x cobblestone for Mason at (10, 64, -5) (you can spare 50)",
+  );
+  acceptRequest(r.id, "Forge", { cobblestone: 50 });
+  assert.equal(
+    formatTransferContext("Forge", { cobblestone: 50 }),
+    "DELIVER: #1 32x cobblestone for Mason at (10, 64, -5) — use deliver_items.",
+  );
+  assert.equal(formatTransferContext("Mason", {}), "YOUR REQUEST #1: 32x cobblestone — Forge is bringing it");
+  assert.equal(
+    formatTeamRequests("Blade"),
+    "ITEM REQUESTS:\n- #1 32x cobblestone for Mason at (10, 64, -5) — Forge delivering",
+  );
+});
@@ -0,0 +1,268 @@
+// src/bot/transfers.ts
+// Item requests between bots — "need 32 cobblestone at (x, y, z)".
+// Shared module singleton like the bulletin and task board: a bot posts a request,
+// a teammate with surplus accepts it, walks over and hands the items off.
+//
+// An acceptance that isn't delivered within ACCEPT_TIMEOUT_MS reopens, so a
+// giver that died or disconnected doesn't block the request forever.
+
+export type TransferStatus = "open" | "accepted" | "delivered" | "cancelled";
+
+export interface ItemRequest {
+  id: number;
+  item: string;
+  count: number;
+  /** Where to bring the items. */
+  pos: { x: number; y: number; z: number };
+  requestedBy: string;
+  status: TransferStatus;
+  acceptedBy?: string;
+  acceptedAt?: number;
+  /** Items handed over so far — partial deliveries reopen the rest. */
+  delivered: number;
+  createdAt: number;
+  deliveredAt?: number;
+}
+
+export type TransferEvent =
+  | { type: "requested"; request: ItemRequest }
+  | { type: "accepted"; request: ItemRequest; by: string }
+  | { type: "delivered"; request: ItemRequest; by: string; count: number }
+  | { type: "expired"; request: ItemRequest; by: string }
+  | { type: "cancelled"; request: ItemRequest };
+
+export type TransferResult = { ok: true; request: ItemRequest } | { ok: false; error: string };
+
+export type KeepItems = { name: string; minCount: number }[];
+
+/** Actions every bot may use regardless of allowedActions. */
+export const TRANSFER_ACTIONS = ["request_items", "accept_request", "deliver_items", "cancel_request"];
+
+/** How long a giver has to deliver after accepting. */
+export const ACCEPT_TIMEOUT_MS = 5 * 60_000;
+
+const requests = new Map<number, ItemRequest>();
+const listeners = new Set<(event: TransferEvent) => void>();
+let nextId = 1;
+
+function emit(event: TransferEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("[Transfers] Listener error:", err);
+    }
+  }
+}
+
+/** Subscribe to request changes. Returns an unsubscribe function. */
+export function onTransferEvent(listener: (event: TransferEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Reopen acceptances that were never delivered. Runs before every read. */
+export function expireStaleAcceptances(now = Date.now()): void {
+  for (const r of requests.values()) {
+    if (r.status === "accepted" && now - (r.acceptedAt ?? 0) >= ACCEPT_TIMEOUT_MS) {
+      const by = r.acceptedBy ?? "?";
+      r.status = "open";
+      r.acceptedBy = undefined;
+      r.acceptedAt = undefined;
+      console.log(`[Transfers] ${by} never delivered request #${r.id} — reopened`);
+      emit({ type: "expired", request: r, by });
+    }
+  }
+}
+
+/**
+ * What a bot can spare: inventory minus its role's keepItems. keepItems match
+ * by substring like deposit_stash ("sword" keeps any sword).
+ */
+export function surplusOf(items: { name: string; count: number }[], keepItems: KeepItems): Record<string, number> {
+  const surplus: Record<string, number> = {};
+  for (const i of items) surplus[i.name] = (surplus[i.name] ?? 0) + i.count;
+  for (const keep of keepItems) {
+    let reserve = keep.minCount;
+    for (const name of Object.keys(surplus)) {
+      if (reserve <= 0) break;
+      if (!name.includes(keep.name)) continue;
+      const held = Math.min(surplus[name], reserve);
+      surplus[name] -= held;
+      reserve -= held;
+    }
+  }
+  for (const name of Object.keys(surplus)) if (surplus[name] <= 0) delete surplus[name];
+  return surplus;
+}
+
+function roundPos(pos: { x: number; y: number; z: number }): { x: number; y: number; z: number } {
+  return { x: Math.round(pos.x), y: Math.round(pos.y), z: Math.round(pos.z) };
+}
+
+export function requestItems(opts: {
+  item: string;
+  count: number;
+  pos: { x: number; y: number; z: number };
+  requestedBy: string;
+}): ItemRequest {
+  // Asking again for the same item just updates the standing request
+  const existing = [...requests.values()].find(
+    (r) => r.status === "open" && r.requestedBy === opts.requestedBy && r.item === opts.item,
+  );
+  if (existing) {
+    existing.count = Math.max(existing.count, existing.delivered + opts.count);
+    existing.pos = roundPos(opts.pos);
+    return existing;
+  }
+
+  const request: ItemRequest = {
+    id: nextId++,
+    item: opts.item,
+    count: opts.count,
+    pos: roundPos(opts.pos),
+    requestedBy: opts.requestedBy,
+    status: "open",
+    delivered: 0,
+    createdAt: Date.now(),
+  };
+  requests.set(request.id, request);
+  console.log(`[Transfers] #${request.id} ${request.requestedBy} needs ${request.count}x ${request.item}`);
+  emit({ type: "requested", request });
+  return request;
+}
+
+export function getRequest(id: number): ItemRequest | undefined {
+  expireStaleAcceptances();
+  return requests.get(id);
+}
+
+export function listRequests(status?: TransferStatus): ItemRequest[] {
+  expireStaleAcceptances();
+  return [...requests.values()].filter((r) => !status || r.status === status);
+}
+
+/** The request a bot has promised to fill, if any. */
+export function getAcceptedRequest(botName: string): ItemRequest | undefined {
+  return listRequests("accepted").find((r) => r.acceptedBy === botName);
+}
+
+/** Items still owed on a request. */
+export function remaining(request: ItemRequest): number {
+  return Math.max(0, request.count - request.delivered);
+}
+
+/** Promise to fill a request. The giver must actually have the surplus. */
+export function acceptRequest(id: number, giver: string, surplus: Record<string, number>): TransferResult {
+  const request = getRequest(id);
+  if (!request) return { ok: false, error: `No request #${id}.` };
+  if (request.status === "accepted" && request.acceptedBy === giver) return { ok: true, request };
+  if (request.status !== "open") {
+    return {
+      ok: false,
+      error: `Request #${id} is ${request.status}${request.acceptedBy ? ` by ${request.acceptedBy}` : ""}.`,
+    };
+  }
+  if (request.requestedBy === giver) return { ok: false, error: "That's your own request." };
+  if (!surplus[request.item]) return { ok: false, error: `You have no spare ${request.item}.` };
+  const held = getAcceptedRequest(giver);
+  if (held) return { ok: false, error: `Deliver request #${held.id} first.` };
+
+  request.status = "accepted";
+  request.acceptedBy = giver;
+  request.acceptedAt = Date.now();
+  emit({ type: "accepted", request, by: giver });
+  return { ok: true, request };
+}
+
+/** Record items handed over. Short deliveries reopen the request for the rest. */
+export function markDelivered(id: number, giver: string, count: number): TransferResult {
+  const request = getRequest(id);
+  if (!request || request.status !== "accepted" || request.acceptedBy !== giver) {
+    return { ok: false, error: `You haven't accepted request #${id}.` };
+  }
+  request.delivered += count;
+  if (remaining(request) === 0) {
+    request.status = "delivered";
+    request.deliveredAt = Date.now();
+  } else {
+    request.status = "open";
+    request.acceptedBy = undefined;
+    request.acceptedAt = undefined;
+  }
+  console.log(`[Transfers] ${giver} delivered ${count}x ${request.item} to ${request.requestedBy} (#${id})`);
+  emit({ type: "delivered", request, by: giver, count });
+  return { ok: true, request };
+}
+
+/** Withdraw a request (requester), or back out of an acceptance (giver). */
+export function cancelRequest(id: number, botName: string): TransferResult {
+  const request = getRequest(id);
+  if (!request || request.status === "delivered" || request.status === "cancelled") {
+    return { ok: false, error: `No active request #${id}.` };
+  }
+  if (request.requestedBy === botName) {
+    request.status = "cancelled";
+    request.acceptedBy = undefined;
+    emit({ type: "cancelled", request });
+    return { ok: true, request };
+  }
+  if (request.acceptedBy === botName) {
+    request.status = "open";
+    request.acceptedBy = undefined;
+    request.acceptedAt = undefined;
+    emit({ type: "expired", request, by: botName });
+    return { ok: true, request };
+  }
+  return { ok: false, error: `Request #${id} isn't yours.` };
+}
+
+/** Drop every request. Tests only. */
+export function resetTransfers(): void {
+  requests.clear();
+  nextId = 1;
+}
+
+function describe(r: ItemRequest): string {
+  const { x, y, z } = r.pos;
+  return `#${r.id} ${remaining(r)}x ${r.item} for ${r.requestedBy} at (${x}, ${y}, ${z})`;
+}
+
+/** Request section of a bot's strategic context. */
+export function formatTransferContext(botName: string, surplus: Record<string, number>): string {
+  const lines: string[] = [];
+  const delivering = getAcceptedRequest(botName);
+  if (delivering) lines.push(`DELIVER: ${describe(delivering)} — use deliver_items.`);
+
+  const mine = listRequests().filter(
+    (r) => r.requestedBy === botName && (r.status === "open" || r.status === "accepted"),
+  );
+  for (const r of mine) {
+    lines.push(
+      `YOUR REQUEST #${r.id}: ${remaining(r)}x ${r.item} — ${r.acceptedBy ? `${r.acceptedBy} is bringing it` : "waiting"}`,
+    );
+  }
+
+  if (!delivering) {
+    const fillable = listRequests("open").filter((r) => r.requestedBy !== botName && surplus[r.item]);
+    if (fillable.length > 0) {
+      lines.push(
+        `REQUESTS YOU CAN FILL (accept_request with requestId):\n${fillable
+          .slice(0, 5)
+          .map((r) => `- ${describe(r)} (you can spare ${surplus[r.item]})`)
+          .join("\n")}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Open and in-flight requests from teammates, for the team bulletin. */
+export function formatTeamRequests(excludeName: string): string {
+  const active = listRequests().filter(
+    (r) => r.requestedBy !== excludeName && (r.status === "open" || r.status === "accepted"),
+  );
+  if (active.length === 0) return "";
+  const lines = active.map((r) => `- ${describe(r)}${r.acceptedBy ? ` — ${r.acceptedBy} delivering` : ""}`);
+  return `ITEM REQUESTS:\n${lines.join("\n")}`;
+}
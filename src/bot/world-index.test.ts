@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Vec3 } from "vec3";
+import { WorldIndex, chunkKey, classifyBlock, scanForPOIs } from "./world-index.js";
+
+function tmpIndex(): WorldIndex {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "world-"));
+  return new WorldIndex("test", path.join(dir, "world-test.json"));
+}
+
+test("classifyBlock: maps blocks to POI kinds", () => {
+  assert.equal(classifyBlock("deepslate_iron_ore"), "ore");
+  assert.equal(classifyBlock("cherry_log"), "tree");
+  assert.equal(classifyBlock("red_bed"), "bed");
+  assert.equal(classifyBlock("bell"), "village");
+  assert.equal(classifyBlock("stone"), null);
+  assert.equal(chunkKey(-1, 17), "-1,1");
+});
+
+test("WorldIndex: nearby blocks of one kind cluster into a single POI", () => {
+  const index = tmpIndex();
+  index.recordBlocks("ore", "iron_ore", [
+    { x: 10, y: 12, z: 10 },
+    { x: 11, y: 12, z: 10 },
+    { x: 12, y: 13, z: 11 },
+  ]);
+  index.record("ore", "coal_ore", 11, 12, 11); // different ore, own POI
+  index.record("ore", "iron_ore", 60, 12, 60);
+
+  assert.equal(index.all("ore").length, 3);
+  const vein = index.nearest("ore", 0, 12, 0, { name: "iron_ore" });
+  assert.deepEqual([vein?.x, vein?.count], [10, 3]);
+
+  // Re-scanning the same vein doesn't inflate the count
+  index.recordBlocks("ore", "iron_ore", [{ x: 10, y: 12, z: 10 }]);
+  assert.equal(index.nearest("ore", 0, 12, 0, { name: "iron_ore" })?.count, 3);
+});
+
+test("WorldIndex: depleted POIs are skipped and persist across reloads", () => {
+  const index = tmpIndex();
+  index.record("tree", "oak_log", 100, 70, 100);
+  index.record("tree", "birch_log", 300, 70, 300);
+
+  assert.ok(index.markDepleted("tree", 102, 70, 99));
+  assert.equal(index.nearest("tree", 90, 70, 90)?.name, "birch_log");
+  assert.equal(index.nearest("tree", 90, 70, 90, { includeDepleted: true })?.name, "oak_log");
+  assert.equal(index.nearest("tree", 90, 70, 90, { maxDistance: 100 }), null);
+
+  const reloaded = new WorldIndex("test", index.file);
+  assert.equal(reloaded.all("tree").find((p) => p.name === "oak_log")?.depleted, true);
+
+  // Seeing trees there again revives the forest
+  reloaded.record("tree", "oak_log", 101, 71, 101);
+  assert.equal(reloaded.nearest("tree", 90, 70, 90)?.name, "oak_log");
+});
+
+test("WorldIndex: formatNearest lists the closest live POI of each kind", () => {
+  const index = tmpIndex();
+  assert.equal(index.formatNearest(0, 64, 0), "");
+  index.record("water", "water", 30, 62, 40);
+  index.record("chest", "chest", 3, 64, 4);
+  assert.equal(
+    index.formatNearest(0, 64, 0),
+    "KNOWN PLACES (nearest):\n- water: water at (30, 62, 40) — 50 blocks\n- chest: chest at (3, 64, 4) — 5 blocks",
+  );
+});
+
+/** A bot that sees `blocks` ("x,y,z" → name); findBlocks honours matching and count. */
+function fakeWorldBot(blocks: Record<string, string>): any {
+  return {
+    entity: { position: new Vec3(0, 64, 0) },
+    entities: {},
+    findBlocks: ({ matching, count }: { matching: (b: { name: string }) => boolean; count: number }) =>
+      Object.entries(blocks)
+        .filter(([, name]) => matching({ name }))
+        .slice(0, count)
+        .map(([k]) => new Vec3(...(k.split(",").map(Number) as [number, number, number]))),
+    blockAt: (p: Vec3) => {
+      const name = blocks[`${p.x},${p.y},${p.z}`];
+      return name ? { name, position: p } : null;
+    },
+  };
+}
+
+test("scanForPOIs: records surface water, ores and villagers around the bot", () => {
+  const index = tmpIndex();
+  const blocks: Record<string, string> = {
+    "5,60,5": "water",
+    "5,61,5": "air",
+    "8,59,8": "water",
+    "8,60,8": "water", // only the top of a water column counts
+    "2,40,2": "gold_ore",
+  };
+  const bot = fakeWorldBot(blocks);
+  bot.entities = { 1: { name: "villager", position: new Vec3(20, 64, 20) } };
+
+  scanForPOIs(bot, index);
+  assert.deepEqual(
+    index.all().map((p) => `${p.kind}:${p.name}@${p.x},${p.y},${p.z}`),
+    ["ore:gold_ore@2,40,2", "water:water@5,60,5", "village:villager@20,64,20"],
+  );
+});
+
+test("scanForPOIs: a forest doesn't crowd out the ore, and the scan is saved once", (t) => {
+  const index = tmpIndex();
+  const blocks: Record<string, string> = {};
+  for (let i = 0; i < 600; i++) blocks[`${i % 30},${70 + Math.floor(i / 30)},0`] = "oak_log";
+  blocks["3,20,3"] = "diamond_ore";
+  const writes = t.mock.method(fs, "writeFileSync");
+
+  scanForPOIs(fakeWorldBot(blocks), index);
+  assert.ok(index.nearest("ore", 0, 64, 0, { name: "diamond_ore" }));
+  assert.equal(writes.mock.callCount(), 1);
+
+  // A rescan only refreshes lastSeen — that's saved too
+  const seen = index.nearest("ore", 0, 64, 0)!.lastSeen;
+  t.mock.timers.enable({ apis: ["Date"], now: Date.parse(seen) + 60_000 });
+  scanForPOIs(fakeWorldBot(blocks), index);
+  assert.equal(writes.mock.callCount(), 2);
+  const saved = new WorldIndex("test", index.file).nearest("ore", 0, 64, 0);
+  assert.notEqual(saved?.lastSeen, seen);
+});
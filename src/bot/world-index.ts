@@ -0,0 +1,347 @@
+/**
+ * Spatial world memory — a persistent, per-world index of points of interest.
+ *
+ * Ore veins, trees, water, villages, caves, beds and chests are recorded as
+ * bots see them, bucketed by chunk so nearest-POI queries only look at the
+ * chunks around the asker. All bots on the same server share one index and one
+ * file (world-<id>.json). When a bot mines a vein or forest out, the POI is
+ * marked depleted instead of deleted, so it stops being suggested but the
+ * history stays.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Bot } from "mineflayer";
+import type { Block } from "prismarine-block";
+import { config } from "../config.js";
+import { LOG_TYPES } from "../skills/craft-planner.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type POIKind = "ore" | "tree" | "water" | "village" | "cave" | "bed" | "chest";
+
+export const POI_KINDS: POIKind[] = ["ore", "tree", "water", "village", "cave", "bed", "chest"];
+
+export interface POI {
+  kind: POIKind;
+  /** Block (or entity) name, e.g. iron_ore, birch_log, bell. */
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  /** Blocks folded into this POI — a vein or forest is one entry. */
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  depleted?: boolean;
+  depletedAt?: string;
+}
+
+export interface WorldIndexData {
+  world: string;
+  /** "cx,cz" → POIs whose position falls in that chunk. */
+  chunks: Record<string, POI[]>;
+}
+
+export interface NearestOptions {
+  /** Only POIs with this block name (or any of these). */
+  name?: string | string[];
+  includeDepleted?: boolean;
+  /** Search radius in blocks (default 512). */
+  maxDistance?: number;
+}
+
+/** Blocks of the same kind closer than this join an existing POI. */
+const CLUSTER_RADIUS: Record<POIKind, number> = {
+  ore: 4,
+  tree: 12,
+  water: 12,
+  village: 48,
+  cave: 12,
+  bed: 0,
+  chest: 0,
+};
+
+const DEFAULT_MAX_DISTANCE = 512;
+/** Sightings are written at most this often — one scan records hundreds of blocks. */
+const SAVE_DELAY_MS = 5_000;
+
+export function chunkKey(x: number, z: number): string {
+  return `${Math.floor(x / 16)},${Math.floor(z / 16)}`;
+}
+
+/** Which POI kind a block belongs to, if any. */
+export function classifyBlock(name: string): POIKind | null {
+  if (name.endsWith("_ore") || name === "ancient_debris") return "ore";
+  if ((LOG_TYPES as readonly string[]).includes(name)) return "tree";
+  if (name === "water") return "water";
+  if (name === "bell") return "village";
+  if (name === "cave_air" || name === "pointed_dripstone" || name === "glow_lichen") return "cave";
+  if (name.endsWith("_bed")) return "bed";
+  if (name === "chest" || name === "trapped_chest" || name === "barrel") return "chest";
+  return null;
+}
+
+export class WorldIndex {
+  private data: WorldIndexData;
+  private saveTimer: NodeJS.Timeout | null = null;
+  readonly file: string;
+
+  constructor(world: string, file = path.join(__dirname, "../../", `world-${world}.json`)) {
+    this.file = file;
+    this.data = { world, chunks: {} };
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.file)) {
+        this.data = JSON.parse(fs.readFileSync(this.file, "utf-8"));
+        if (!this.data.chunks) this.data.chunks = {};
+      }
+    } catch (err) {
+      console.error("[WorldIndex] Failed to load:", err);
+    }
+  }
+
+  private save(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    try {
+      fs.writeFileSync(this.file, JSON.stringify(this.data));
+    } catch (err) {
+      console.error("[WorldIndex] Failed to save:", err);
+    }
+  }
+
+  /** Save a little later, so a run of sightings shares one write. */
+  private saveSoon(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /** Write pending sightings now. */
+  flush(): void {
+    if (this.saveTimer) this.save();
+  }
+
+  /** POIs in the chunks overlapping a square around (x, z). */
+  private around(x: number, z: number, radius: number): POI[] {
+    const cr = Math.ceil(radius / 16);
+    const cx = Math.floor(x / 16);
+    const cz = Math.floor(z / 16);
+    const found: POI[] = [];
+    for (let dx = -cr; dx <= cr; dx++) {
+      for (let dz = -cr; dz <= cr; dz++) {
+        const bucket = this.data.chunks[`${cx + dx},${cz + dz}`];
+        if (bucket) found.push(...bucket);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Note a sighting. Joins an existing POI of the same kind within its cluster
+   * radius (refreshing lastSeen), otherwise adds a new one. Returns the POI.
+   */
+  record(kind: POIKind, name: string, x: number, y: number, z: number): POI {
+    const now = new Date().toISOString();
+    const radius = CLUSTER_RADIUS[kind];
+    const existing = this.around(x, z, radius).find(
+      (p) => p.kind === kind && (kind !== "ore" || p.name === name) && dist(p, x, y, z) <= radius,
+    );
+    if (existing) {
+      existing.lastSeen = now;
+      if (existing.depleted) {
+        // Seen again — regrown trees, a refilled chest, ore the bot missed
+        existing.depleted = false;
+        existing.depletedAt = undefined;
+      }
+      this.saveSoon();
+      return existing;
+    }
+
+    const poi: POI = {
+      kind,
+      name,
+      x: Math.round(x),
+      y: Math.round(y),
+      z: Math.round(z),
+      count: 1,
+      firstSeen: now,
+      lastSeen: now,
+    };
+    const key = chunkKey(poi.x, poi.z);
+    (this.data.chunks[key] ??= []).push(poi);
+    this.saveSoon();
+    return poi;
+  }
+
+  /** Record every block of one name seen in a scan; POI counts grow to the largest cluster seen. */
+  recordBlocks(kind: POIKind, name: string, positions: { x: number; y: number; z: number }[]): void {
+    const tally = new Map<POI, number>();
+    for (const p of positions) {
+      const poi = this.record(kind, name, p.x, p.y, p.z);
+      tally.set(poi, (tally.get(poi) ?? 0) + 1);
+    }
+    for (const [poi, n] of tally) poi.count = Math.max(poi.count, n);
+  }
+
+  /** Mark the POI covering (x, y, z) as used up. Returns it, or null if none was there. */
+  markDepleted(kind: POIKind, x: number, y: number, z: number, name?: string): POI | null {
+    const radius = Math.max(CLUSTER_RADIUS[kind], 1);
+    const poi = this.around(x, z, radius).find(
+      (p) => p.kind === kind && !p.depleted && (!name || p.name === name) && dist(p, x, y, z) <= radius,
+    );
+    if (!poi) return null;
+    poi.depleted = true;
+    poi.depletedAt = new Date().toISOString();
+    this.save();
+    return poi;
+  }
+
+  /** Nearest known POI of a kind, skipping depleted ones unless asked. */
+  nearest(kind: POIKind, x: number, y: number, z: number, options: NearestOptions = {}): POI | null {
+    const names = typeof options.name === "string" ? [options.name] : options.name;
+    const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+    let best: POI | null = null;
+    let bestDist = Infinity;
+    for (const p of this.around(x, z, maxDistance)) {
+      if (p.kind !== kind) continue;
+      if (p.depleted && !options.includeDepleted) continue;
+      if (names && !names.includes(p.name)) continue;
+      const d = dist(p, x, y, z);
+      if (d <= maxDistance && d < bestDist) {
+        best = p;
+        bestDist = d;
+      }
+    }
+    return best;
+  }
+
+  /** Every POI of a kind, for dashboards and tests. */
+  all(kind?: POIKind): POI[] {
+    return Object.values(this.data.chunks)
+      .flat()
+      .filter((p) => !kind || p.kind === kind);
+  }
+
+  /** "KNOWN PLACES" block for the strategic context: nearest live POI of each kind. */
+  formatNearest(x: number, y: number, z: number): string {
+    const lines: string[] = [];
+    for (const kind of POI_KINDS) {
+      const p = this.nearest(kind, x, y, z);
+      if (!p) continue;
+      const size = p.count > 1 ? ` ×${p.count}` : "";
+      lines.push(`- ${kind}: ${p.name}${size} at (${p.x}, ${p.y}, ${p.z}) — ${dist(p, x, y, z).toFixed(0)} blocks`);
+    }
+    return lines.length > 0 ? `KNOWN PLACES (nearest):\n${lines.join("\n")}` : "";
+  }
+}
+
+function dist(p: { x: number; y: number; z: number }, x: number, y: number, z: number): number {
+  return Math.sqrt((p.x - x) ** 2 + (p.y - y) ** 2 + (p.z - z) ** 2);
+}
+
+// ─── Shared instances ───────────────────────────────────────────────────────
+
+const indexes = new Map<string, WorldIndex>();
+
+/** Current world's id: MC_WORLD_ID, or the server address. */
+export function defaultWorldId(): string {
+  const id = config.mc.worldId || `${config.mc.host}_${config.mc.port}`;
+  return id.replace(/[^a-zA-Z0-9_.-]/g, "_");
+}
+
+/** The index every bot on a world shares. */
+export function getWorldIndex(world = defaultWorldId()): WorldIndex {
+  let index = indexes.get(world);
+  if (!index) {
+    index = new WorldIndex(world);
+    indexes.set(world, index);
+  }
+  return index;
+}
+
+// ─── Bot wiring ─────────────────────────────────────────────────────────────
+
+const SCAN_RADIUS = 32;
+const SCAN_INTERVAL_MS = 15_000;
+/** Nearest blocks of each kind one scan looks at, so a forest or a lake can't crowd out the ores. */
+const SCAN_LIMITS: Record<POIKind, number> = {
+  ore: 256,
+  tree: 128,
+  water: 128,
+  village: 8,
+  cave: 64,
+  bed: 16,
+  chest: 64,
+};
+
+/** Look around and record every POI block in range, then save once. */
+export function scanForPOIs(bot: Bot, index: WorldIndex): void {
+  const byName = new Map<string, { kind: POIKind; positions: { x: number; y: number; z: number }[] }>();
+  for (const kind of POI_KINDS) {
+    const positions = bot.findBlocks({
+      matching: (b: Block) => classifyBlock(b.name) === kind,
+      maxDistance: SCAN_RADIUS,
+      count: SCAN_LIMITS[kind],
+    });
+    for (const pos of positions) {
+      const block = bot.blockAt(pos);
+      if (!block || classifyBlock(block.name) !== kind) continue;
+      // Only surface water counts as a water source worth walking to
+      if (kind === "water" && bot.blockAt(pos.offset(0, 1, 0))?.name === "water") continue;
+      const entry = byName.get(block.name) ?? { kind, positions: [] };
+      entry.positions.push(pos);
+      byName.set(block.name, entry);
+    }
+  }
+  for (const [name, { kind, positions: found }] of byName) index.recordBlocks(kind, name, found);
+
+  // Villagers mark a village even when the bell is out of sight
+  const villager = Object.values(bot.entities).find(
+    (e) => e.name === "villager" && e.position.distanceTo(bot.entity.position) <= SCAN_RADIUS,
+  );
+  if (villager) index.record("village", "villager", villager.position.x, villager.position.y, villager.position.z);
+  index.flush();
+}
+
+/**
+ * Keep the index fed while the bot plays: periodic scans, plus depletion
+ * checks whenever the bot digs an ore or log. Returns a stop function.
+ */
+export function trackWorld(bot: Bot, index: WorldIndex): () => void {
+  const scan = () => {
+    try {
+      scanForPOIs(bot, index);
+    } catch (err) {
+      console.error("[WorldIndex] Scan failed:", err);
+    }
+  };
+  const onDig = (block: Block) => {
+    const kind = classifyBlock(block.name);
+    if (kind !== "ore" && kind !== "tree") return;
+    const { x, y, z } = block.position;
+    const radius = CLUSTER_RADIUS[kind];
+    // Depleted once nothing of that block is left around the spot
+    const left = bot.findBlocks({
+      matching: (b: Block) => (kind === "ore" ? b.name === block.name : classifyBlock(b.name) === "tree"),
+      point: block.position,
+      maxDistance: radius,
+      count: 1,
+    });
+    if (left.length === 0) index.markDepleted(kind, x, y, z, kind === "ore" ? block.name : undefined);
+  };
+
+  const timer = setInterval(scan, SCAN_INTERVAL_MS);
+  bot.once("spawn", scan);
+  bot.on("diggingCompleted", onDig);
+  return () => {
+    clearInterval(timer);
+    bot.removeListener("diggingCompleted", onDig);
+    index.flush();
+  };
+}
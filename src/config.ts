@@ -1,5 +1,38 @@
 import "dotenv/config";
 
+export type LLMTier = "strategic" | "reactive" | "critic" | "chat";
+export type LLMProviderKind = "ollama" | "openai" | "scripted";
+
+export interface LLMTierConfig {
+  provider: LLMProviderKind;
+  host: string;
+  model: string;
+  apiKey: string;
+  /** Scripted provider only: path to a JSON array of canned responses. */
+  script: string;
+}
+
+const ollamaHost = process.env.OLLAMA_HOST || "http://localhost:11434";
+const ollamaModel = process.env.OLLAMA_MODEL || "qwen3:32b";
+const ollamaFastModel = process.env.OLLAMA_FAST_MODEL || process.env.OLLAMA_MODEL || "qwen3:32b";
+
+/** Per-tier backend — LLM_<TIER>_* overrides, falling back to the OLLAMA_* settings. */
+function llmTier(tier: string, defaultModel: string): LLMTierConfig {
+  return {
+    provider: (process.env[`LLM_${tier}_PROVIDER`] || "ollama") as LLMProviderKind,
+    host: process.env[`LLM_${tier}_HOST`] || ollamaHost,
+    model: process.env[`LLM_${tier}_MODEL`] || defaultModel,
+    apiKey: process.env[`LLM_${tier}_API_KEY`] || "",
+    script: process.env[`LLM_${tier}_SCRIPT`] || "",
+  };
+}
+
+/** A whole number above zero from the environment, else `fallback`. */
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
 export const config = {
   mc: {
     host: process.env.MC_HOST || "localhost",
@@ -7,17 +40,52 @@ export const config = {
     username: process.env.MC_USERNAME || "AIBot",
     version: process.env.MC_VERSION || "1.21.4",
     auth: (process.env.MC_AUTH || "offline") as "offline" | "microsoft",
+    /** Names the shared POI index file (world-<id>.json). Empty = host_port. */
+    worldId: process.env.MC_WORLD_ID || "",
   },
   ollama: {
-    host: process.env.OLLAMA_HOST || "http://localhost:11434",
-    model: process.env.OLLAMA_MODEL || "qwen3:32b",
-    fastModel: process.env.OLLAMA_FAST_MODEL || process.env.OLLAMA_MODEL || "qwen3:32b",
+    host: ollamaHost,
+    model: ollamaModel,
+    fastModel: ollamaFastModel,
   },
+  /** Which backend serves each call tier. Strategic uses the strong model, the rest the fast one. */
+  llm: {
+    strategic: llmTier("STRATEGIC", ollamaModel),
+    reactive: llmTier("REACTIVE", ollamaFastModel),
+    critic: llmTier("CRITIC", ollamaFastModel),
+    chat: llmTier("CHAT", ollamaFastModel),
+  } satisfies Record<LLMTier, LLMTierConfig>,
+  /** Offer actions as native tools for strategic/reactive decisions (falls back to JSON text if unused). */
+  toolCalling: process.env.LLM_TOOL_CALLING !== "false",
   twitch: {
     channel: process.env.TWITCH_CHANNEL || "",
     botUsername: process.env.TWITCH_BOT_USERNAME || "",
     oauthToken: process.env.TWITCH_OAUTH_TOKEN || "",
     enabled: !!process.env.TWITCH_CHANNEL,
+    /** Bot replies allowed per 30s — Twitch allows 20, or 100 when the account is a moderator. */
+    messagesPer30s: positiveInt(process.env.TWITCH_MESSAGES_PER_30S, 20),
+    /** Channel-points/bits redemption catalogue. Empty = redemptions.json. */
+    redemptionsFile: process.env.REDEMPTIONS_FILE || "",
+  },
+  youtube: {
+    /** The live stream's video id — its live chat is looked up from it. */
+    videoId: process.env.YOUTUBE_VIDEO_ID || "",
+    /** Set to skip the lookup. */
+    liveChatId: process.env.YOUTUBE_LIVE_CHAT_ID || "",
+    apiKey: process.env.YOUTUBE_API_KEY || "",
+    /** OAuth access token with the youtube.force-ssl scope — needed to post replies. */
+    oauthToken: process.env.YOUTUBE_OAUTH_TOKEN || "",
+    /** Data API root; point it at a local mock to test. */
+    apiBase: process.env.YOUTUBE_API_BASE || "https://www.googleapis.com/youtube/v3",
+    enabled:
+      !!(process.env.YOUTUBE_VIDEO_ID || process.env.YOUTUBE_LIVE_CHAT_ID) &&
+      !!(process.env.YOUTUBE_API_KEY || process.env.YOUTUBE_OAUTH_TOKEN),
+  },
+  /** Server console access for redemption effects. Off until RCON_PASSWORD is set. */
+  rcon: {
+    host: process.env.RCON_HOST || process.env.MC_HOST || "localhost",
+    port: parseInt(process.env.RCON_PORT || "25575"),
+    password: process.env.RCON_PASSWORD || "",
   },
   bot: {
     name: process.env.BOT_NAME || "Atlas",
@@ -27,6 +95,14 @@ export const config = {
     idleIntervalMs: parseInt(process.env.BOT_IDLE_INTERVAL_MS || "10000"),
     /** Enable the critic step after each action (uses an extra LLM call per action). */
     criticEnabled: process.env.BOT_CRITIC_ENABLED !== "false",
+    /** Write every brain event to a JSONL session file for offline replay (see src/bot/recorder.ts). */
+    recordSessions: process.env.BOT_RECORD_SESSIONS === "true",
+    /** Where session files go. Empty = logs/sessions/. */
+    sessionDir: process.env.BOT_SESSION_DIR || "",
+    /** Summarise undescribed Voyager/generated skills with the LLM at startup (cached as NAME.meta.json). */
+    summarizeSkills: process.env.BOT_SUMMARIZE_SKILLS !== "false",
+    /** Where build_structure blueprints (.json/.schem/.litematic) live. Empty = blueprints/. */
+    blueprintDir: process.env.BLUEPRINT_DIR || "",
   },
   multiBot: {
     enabled: process.env.ENABLE_MULTI_BOT === "true",
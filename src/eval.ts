@@ -0,0 +1,84 @@
+/**
+ * Run a skill eval suite against a live server and write the report.
+ *
+ *   npm run eval -- <all|static|dynamic> [filter] [--username EvalBot] [--out logs/evals]
+ *
+ * Connects one bot (MC_HOST / MC_PORT / MC_VERSION), runs the suite, writes
+ * JSON, Markdown and HTML reports and exits 1 when a skill that passed in the
+ * previous run of the suite fails now (2 on bad usage or no connection).
+ */
+
+import fs from "fs";
+import path from "path";
+import mineflayer from "mineflayer";
+import pathfinderPkg from "mineflayer-pathfinder";
+import { config } from "./config.js";
+import { loadDynamicSkills } from "./skills/dynamic-loader.js";
+import { loadMacroSkills } from "./skills/macros.js";
+import { BotMemoryStore } from "./bot/memory.js";
+import { registerBotMemory } from "./bot/memory-registry.js";
+import { EVAL_SUITES, evalSuite } from "./eval/runner.js";
+import { DEFAULT_EVAL_DIR } from "./eval/report.js";
+
+const { pathfinder } = pathfinderPkg;
+const SPAWN_TIMEOUT_MS = 60_000;
+
+const args = process.argv.slice(2);
+function option(name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  if (i === -1) return undefined;
+  const value = args[i + 1];
+  args.splice(i, 2);
+  return value;
+}
+const username = option("username") ?? "EvalBot";
+const outDir = path.resolve(option("out") ?? DEFAULT_EVAL_DIR);
+const [suite, filter] = args;
+
+if (!suite || !(suite in EVAL_SUITES)) {
+  console.error(
+    `Usage: npm run eval -- <${Object.keys(EVAL_SUITES).join("|")}> [filter] [--username EvalBot] [--out dir]`,
+  );
+  process.exit(2);
+}
+
+loadDynamicSkills();
+loadMacroSkills();
+
+console.log(`[Eval] Connecting to ${config.mc.host}:${config.mc.port} as ${username}...`);
+const bot = mineflayer.createBot({
+  host: config.mc.host,
+  port: config.mc.port,
+  username,
+  version: config.mc.version,
+  auth: config.mc.auth,
+});
+bot.loadPlugin(pathfinder);
+
+// Skill history from eval runs stays out of the real bots' memory files
+fs.mkdirSync(outDir, { recursive: true });
+const memory = new BotMemoryStore(path.join(outDir, `memory-${username}.json`));
+memory.load();
+registerBotMemory(bot, memory);
+
+try {
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("timed out waiting to spawn")), SPAWN_TIMEOUT_MS);
+    bot.once("spawn", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    bot.once("kicked", (reason) => reject(new Error(`kicked: ${reason}`)));
+    bot.once("error", reject);
+  });
+  await bot.waitForChunksToLoad();
+} catch (err: any) {
+  console.error(`[Eval] Couldn't join the server: ${err.message}`);
+  process.exit(2);
+}
+
+const report = await evalSuite(bot, suite, filter, outDir);
+const regressions = report.comparison?.regressions ?? [];
+if (regressions.length > 0) console.error(`[Eval] Regressions: ${regressions.join(", ")}`);
+bot.quit();
+process.exit(regressions.length > 0 ? 1 : 0);
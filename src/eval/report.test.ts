@@ -0,0 +1,162 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Vec3 } from "vec3";
+import type { Bot } from "mineflayer";
+import type { EvalResult } from "./runner.js";
+import { evalSkill } from "./runner.js";
+import {
+  buildEvalReport,
+  compareResults,
+  formatInventoryChange,
+  loadPreviousReport,
+  writeEvalReport,
+} from "./report.js";
+import { SimWorld, createSimBot } from "./sim-world.js";
+import { BotMemoryStore } from "../bot/memory.js";
+import { registerBotMemory } from "../bot/memory-registry.js";
+import { skillRegistry } from "../skills/registry.js";
+
+function result(skill: string, passed: boolean, message = passed ? "done" : "broke"): EvalResult {
+  return {
+    skill,
+    passed,
+    message,
+    durationMs: 1500,
+    inventoryBefore: { oak_log: 4 },
+    inventoryAfter: { oak_log: 1, oak_planks: 12 },
+    positions: [
+      { t: 0, x: 0, y: 64, z: 0 },
+      { t: 1000, x: 12, y: 64, z: 5 },
+    ],
+  };
+}
+
+/** Give the bot an empty memory file in `dir`, so skill attempts stay out of the real one. */
+function scratchMemory(bot: Bot, dir: string): void {
+  const memoryFile = path.join(dir, "memory.json");
+  fs.writeFileSync(
+    memoryFile,
+    JSON.stringify({
+      structures: [],
+      deaths: [],
+      oreDiscoveries: [],
+      skillHistory: [],
+      lessons: [],
+      brokenSkillNames: [],
+    }),
+  );
+  const memory = new BotMemoryStore(memoryFile);
+  memory.load();
+  registerBotMemory(bot, memory);
+}
+
+test("compareResults: regressions, fixes and new skills against the previous run", () => {
+  const previous = [result("build_house", true), result("strip_mine", false), result("go_fishing", true)];
+  const current = [
+    result("build_house", false),
+    result("strip_mine", true),
+    result("go_fishing", true),
+    result("light_area", false),
+  ];
+  assert.deepEqual(compareResults(previous, current), {
+    regressions: ["build_house"],
+    fixed: ["strip_mine"],
+    added: ["light_area"],
+  });
+  assert.equal(formatInventoryChange({ oak_log: 4 }, { oak_log: 1, oak_planks: 12 }), "+12 oak_planks, -3 oak_log");
+});
+
+test("writeEvalReport: JSON, Markdown and HTML, and the next run compares against it", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "evals-"));
+  try {
+    const first = buildEvalReport(
+      "static",
+      "EvalBot",
+      new Date("2026-01-01T10:00:00Z"),
+      [result("build_house", true), result("strip_mine", true)],
+      dir,
+    );
+    assert.equal(first.comparison, null);
+    const written = writeEvalReport(first, dir);
+    assert.ok([written.json, written.markdown, written.html].every((f) => fs.existsSync(f)));
+    // A filtered run of the same suite is a separate series
+    writeEvalReport(buildEvalReport("static-strip", "EvalBot", new Date("2026-01-02T10:00:00Z"), [], dir), dir);
+    assert.equal(loadPreviousReport("static", dir)?.startedAt, "2026-01-01T10:00:00.000Z");
+
+    const second = buildEvalReport(
+      "static",
+      "EvalBot",
+      new Date("2026-01-03T10:00:00Z"),
+      [result("build_house", false, "Couldn't place any blocks. <Terrain> | problems"), result("strip_mine", true)],
+      dir,
+    );
+    assert.deepEqual(second.comparison?.regressions, ["build_house"]);
+    const files = writeEvalReport(second, dir);
+    const markdown = fs.readFileSync(files.markdown, "utf-8");
+    assert.match(markdown, /\*\*Regressions:\*\* build_house/);
+    assert.match(
+      markdown,
+      /\| build_house \| REGRESSION \| 1\.5s \| \+12 oak_planks, -3 oak_log \| Couldn't place any blocks\. <Terrain> \\\| problems \|/,
+    );
+    assert.match(markdown, /Path: \(0, 64, 0\) → \(12, 64, 5\), up to 13 blocks out/);
+    const html = fs.readFileSync(files.html, "utf-8");
+    assert.match(html, /REGRESSION/);
+    assert.match(html, /&lt;Terrain&gt;/);
+    assert.equal(loadPreviousReport("static", dir)?.startedAt, "2026-01-03T10:00:00.000Z");
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
+});
+
+test("evalSkill: records the inventory change and where the bot went", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "evals-"));
+  try {
+    const world = new SimWorld();
+    world.fill({ x: -12, y: 62, z: -12 }, { x: 12, y: 63, z: 12 }, "dirt");
+    const bot = createSimBot(world, { position: { x: 0.5, y: 64, z: 0.5 }, inventory: { oak_log: 48 } });
+    scratchMemory(bot, dir);
+
+    const r = await evalSkill(bot, "build_house");
+    assert.equal(r.passed, true, r.message);
+    assert.equal(r.inventoryBefore.oak_log, 48);
+    assert.equal(r.inventoryAfter.oak_log, undefined);
+    assert.ok(r.positions.length >= 2);
+    assert.ok(
+      r.positions.some((p) => new Vec3(p.x, p.y, p.z).distanceTo(new Vec3(0.5, 64, 0.5)) > 1),
+      "the bot moved",
+    );
+    assert.match(world.chatLog[0], /\[EVAL\] Running: build_house/);
+    assert.match(world.chatLog.at(-1)!, /\[EVAL\] PASS build_house/);
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
+});
+
+test("evalSkill: a reported success that misses its postconditions fails", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "evals-"));
+  const world = new SimWorld();
+  world.fill({ x: -4, y: 63, z: -4 }, { x: 4, y: 63, z: 4 }, "dirt");
+  const bot = createSimBot(world, { position: { x: 0.5, y: 64, z: 0.5 } });
+  scratchMemory(bot, dir);
+  // The old result-text match passed anything that said "crafted"
+  skillRegistry.set("eval_test_bed", {
+    name: "eval_test_bed",
+    description: "test",
+    params: {},
+    postconditions: [{ type: "item_gained", name: "*_bed" }],
+    estimateMaterials: () => ({}),
+    execute: async () => ({ success: true, message: "Couldn't find anything to be crafted" }),
+  });
+  try {
+    const r = await evalSkill(bot, "eval_test_bed");
+    assert.equal(r.passed, false);
+    assert.match(r.message, /but expected to gain 1x any bed/);
+    assert.match(world.chatLog.at(-1)!, /\[EVAL\] FAIL eval_test_bed/);
+  } finally {
+    skillRegistry.delete("eval_test_bed");
+    fs.rmSync(dir, { recursive: true });
+  }
+});
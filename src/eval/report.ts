@@ -0,0 +1,234 @@
+/**
+ * Eval reports — every eval run is written to logs/evals/ as JSON (for the
+ * next run to compare against) plus Markdown and HTML for reading. A report
+ * holds each skill's verdict, duration, result message, inventory before and
+ * after and a position trace, and flags skills that passed in the previous
+ * run of the same suite but fail now.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { EvalResult } from "./runner.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_EVAL_DIR = path.join(__dirname, "../../logs/evals");
+
+export interface EvalComparison {
+  /** startedAt of the run compared against. */
+  previousRun: string;
+  /** Passed last run, fail now. */
+  regressions: string[];
+  /** Failed last run, pass now. */
+  fixed: string[];
+  /** Not in the last run. */
+  added: string[];
+}
+
+export interface EvalReport {
+  suite: string;
+  bot: string;
+  startedAt: string;
+  finishedAt: string;
+  results: EvalResult[];
+  comparison: EvalComparison | null;
+}
+
+export interface WrittenReport {
+  json: string;
+  markdown: string;
+  html: string;
+}
+
+function fileStem(suite: string): string {
+  return suite.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+export function compareResults(previous: EvalResult[], current: EvalResult[]): Omit<EvalComparison, "previousRun"> {
+  const before = new Map(previous.map((r) => [r.skill, r.passed]));
+  return {
+    regressions: current.filter((r) => !r.passed && before.get(r.skill) === true).map((r) => r.skill),
+    fixed: current.filter((r) => r.passed && before.get(r.skill) === false).map((r) => r.skill),
+    added: current.filter((r) => !before.has(r.skill)).map((r) => r.skill),
+  };
+}
+
+/** The newest report for a suite, if one was written before. */
+export function loadPreviousReport(suite: string, dir = DEFAULT_EVAL_DIR): EvalReport | null {
+  if (!fs.existsSync(dir)) return null;
+  const prefix = `${fileStem(suite)}-`;
+  // Timestamped names sort chronologically
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.startsWith(prefix) && f.endsWith(".json"))
+    .sort();
+  for (const file of files.reverse()) {
+    try {
+      const report = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")) as EvalReport;
+      if (report.suite === suite && Array.isArray(report.results)) return report;
+    } catch {
+      /* unreadable — try an older one */
+    }
+  }
+  return null;
+}
+
+/** Assemble a report, comparing against the suite's previous run in `dir`. */
+export function buildEvalReport(
+  suite: string,
+  bot: string,
+  startedAt: Date,
+  results: EvalResult[],
+  dir = DEFAULT_EVAL_DIR,
+): EvalReport {
+  const previous = loadPreviousReport(suite, dir);
+  return {
+    suite,
+    bot,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    results,
+    comparison: previous ? { previousRun: previous.startedAt, ...compareResults(previous.results, results) } : null,
+  };
+}
+
+export function writeEvalReport(report: EvalReport, dir = DEFAULT_EVAL_DIR): WrittenReport {
+  fs.mkdirSync(dir, { recursive: true });
+  const base = path.join(dir, `${fileStem(report.suite)}-${report.startedAt.replace(/[:.]/g, "-")}`);
+  const written = { json: `${base}.json`, markdown: `${base}.md`, html: `${base}.html` };
+  fs.writeFileSync(written.json, JSON.stringify(report, null, 2));
+  fs.writeFileSync(written.markdown, formatEvalMarkdown(report));
+  fs.writeFileSync(written.html, formatEvalHtml(report));
+  return written;
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** "+3 oak_log, -1 wooden_axe" */
+export function formatInventoryChange(before: Record<string, number>, after: Record<string, number>): string {
+  const changes = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .map((name) => [name, (after[name] ?? 0) - (before[name] ?? 0)] as const)
+    .filter(([, n]) => n !== 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, n]) => `${n > 0 ? "+" : ""}${n} ${name}`);
+  return changes.length ? changes.join(", ") : "no change";
+}
+
+function formatInventory(items: Record<string, number>): string {
+  const entries = Object.entries(items);
+  return entries.length ? entries.map(([name, n]) => `${name} x${n}`).join(", ") : "empty";
+}
+
+/** Start → end and the farthest point from the start. */
+function describeTrace(result: EvalResult): string {
+  const trace = result.positions;
+  if (trace.length === 0) return "no positions";
+  const [first, last] = [trace[0], trace[trace.length - 1]];
+  const farthest = Math.max(...trace.map((p) => Math.hypot(p.x - first.x, p.y - first.y, p.z - first.z)));
+  const at = (p: { x: number; y: number; z: number }) => `(${p.x}, ${p.y}, ${p.z})`;
+  return `${at(first)} → ${at(last)}, up to ${farthest.toFixed(0)} blocks out, ${trace.length} samples`;
+}
+
+function statusOf(report: EvalReport, result: EvalResult): string {
+  if (report.comparison?.regressions.includes(result.skill)) return "REGRESSION";
+  if (report.comparison?.fixed.includes(result.skill)) return "FIXED";
+  return result.passed ? "PASS" : "FAIL";
+}
+
+export function summarizeEvalReport(report: EvalReport): string {
+  const passed = report.results.filter((r) => r.passed).length;
+  const c = report.comparison;
+  const vs = c ? `; vs last run: ${c.regressions.length} regressed, ${c.fixed.length} fixed` : "; no previous run";
+  return `${passed}/${report.results.length} passed${vs}`;
+}
+
+export function formatEvalMarkdown(report: EvalReport): string {
+  const lines = [
+    `# Eval: ${report.suite}`,
+    "",
+    `Bot ${report.bot}, ${report.startedAt} → ${report.finishedAt}. ${summarizeEvalReport(report)}.`,
+    "",
+  ];
+  if (report.comparison?.regressions.length) {
+    lines.push(`**Regressions:** ${report.comparison.regressions.join(", ")}`, "");
+  }
+  lines.push("| Skill | Result | Time | Inventory change | Message |", "| --- | --- | --- | --- | --- |");
+  for (const r of report.results) {
+    const message = r.message.replace(/\|/g, "\\|").replace(/\n/g, " ");
+    const change = formatInventoryChange(r.inventoryBefore, r.inventoryAfter);
+    lines.push(`| ${r.skill} | ${statusOf(report, r)} | ${seconds(r.durationMs)} | ${change} | ${message} |`);
+  }
+  for (const r of report.results.filter((r) => !r.passed)) {
+    lines.push(
+      "",
+      `## ${r.skill}`,
+      "",
+      `- Message: ${r.message}`,
+      `- Inventory before: ${formatInventory(r.inventoryBefore)}`,
+      `- Inventory after: ${formatInventory(r.inventoryAfter)}`,
+      `- Path: ${describeTrace(r)}`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+const STATUS_COLOURS: Record<string, string> = {
+  PASS: "#2e7d32",
+  FIXED: "#1565c0",
+  FAIL: "#c62828",
+  REGRESSION: "#c62828",
+};
+
+export function formatEvalHtml(report: EvalReport): string {
+  const rows = report.results
+    .map((r) => {
+      const status = statusOf(report, r);
+      const details = [
+        `Before: ${formatInventory(r.inventoryBefore)}`,
+        `After: ${formatInventory(r.inventoryAfter)}`,
+        `Path: ${describeTrace(r)}`,
+      ]
+        .map((d) => `<div>${escapeHtml(d)}</div>`)
+        .join("");
+      return `<tr>
+  <td>${escapeHtml(r.skill)}</td>
+  <td style="color:${STATUS_COLOURS[status]};font-weight:bold">${status}</td>
+  <td>${seconds(r.durationMs)}</td>
+  <td>${escapeHtml(formatInventoryChange(r.inventoryBefore, r.inventoryAfter))}</td>
+  <td>${escapeHtml(r.message)}<details><summary>details</summary>${details}</details></td>
+</tr>`;
+    })
+    .join("\n");
+  const regressions = report.comparison?.regressions.length
+    ? `<p><strong>Regressions:</strong> ${escapeHtml(report.comparison.regressions.join(", "))}</p>`
+    : "";
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Eval: ${escapeHtml(report.suite)}</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+</style>
+</head>
+<body>
+<h1>Eval: ${escapeHtml(report.suite)}</h1>
+<p>Bot ${escapeHtml(report.bot)}, ${report.startedAt} → ${report.finishedAt}. ${escapeHtml(summarizeEvalReport(report))}.</p>
+${regressions}
+<table>
+<tr><th>Skill</th><th>Result</th><th>Time</th><th>Inventory change</th><th>Message</th></tr>
+${rows}
+</table>
+</body>
+</html>
+`;
+}
@@ -1,69 +1,119 @@
 import type { Bot } from "mineflayer";
 import { skillRegistry } from "../skills/registry.js";
-import { runSkill, abortActiveSkill } from "../skills/executor.js";
+import { runSkillWithResult, abortActiveSkill } from "../skills/executor.js";
 import { getDynamicSkillNames } from "../skills/dynamic-loader.js";
+import { isMacroSkill } from "../skills/macros.js";
+import { buildEvalReport, summarizeEvalReport, writeEvalReport, DEFAULT_EVAL_DIR, type EvalReport } from "./report.js";
 
-const SUCCESS_PATTERNS =
-  /complet|harvest|built|planted|smelted|crafted|arriv|gather|mined|caught|lit|bridg|chop|killed|ate|placed|fished|explored/i;
 const EVAL_TIMEOUT_MS = 90_000;
+const TRACE_INTERVAL_MS = 1000;
+const MAX_TRACE_POINTS = 300;
 
 export interface EvalResult {
   skill: string;
   passed: boolean;
   message: string;
   durationMs: number;
+  /** Item name → count when the skill started and when it finished. */
+  inventoryBefore: Record<string, number>;
+  inventoryAfter: Record<string, number>;
+  /** Where the bot was, sampled every second (t = ms since the start). */
+  positions: { t: number; x: number; y: number; z: number }[];
+}
+
+/** Skills that run with no params: neither dynamic nor macros, and without required params. */
+function staticSkillNames(): string[] {
+  const dynamic = new Set(getDynamicSkillNames());
+  return [...skillRegistry.values()]
+    .filter((s) => !dynamic.has(s.name) && !isMacroSkill(s.name))
+    .filter((s) => !Object.values(s.params).some((p) => p.required))
+    .map((s) => s.name);
+}
+
+/** Named sets of skills `/eval` and `npm run eval` can run. */
+export const EVAL_SUITES: Record<string, () => string[]> = {
+  static: staticSkillNames,
+  dynamic: getDynamicSkillNames,
+  all: () => [...staticSkillNames(), ...getDynamicSkillNames()],
+};
+
+function inventoryCounts(bot: Bot): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of bot.inventory.items()) counts[item.name] = (counts[item.name] ?? 0) + item.count;
+  return counts;
 }
 
 export async function evalSkill(bot: Bot, skillName: string): Promise<EvalResult> {
   const start = Date.now();
+  const inventoryBefore = inventoryCounts(bot);
+  const positions: EvalResult["positions"] = [];
+  const sample = () => {
+    const p = bot.entity?.position;
+    if (!p || positions.length >= MAX_TRACE_POINTS) return;
+    const round = (n: number) => Math.round(n * 10) / 10;
+    positions.push({ t: Date.now() - start, x: round(p.x), y: round(p.y), z: round(p.z) });
+  };
+  const result = (passed: boolean, message: string): EvalResult => {
+    sample();
+    return {
+      skill: skillName,
+      passed,
+      message,
+      durationMs: Date.now() - start,
+      inventoryBefore,
+      inventoryAfter: inventoryCounts(bot),
+      positions,
+    };
+  };
+
   const skill = skillRegistry.get(skillName);
   if (!skill) {
     bot.chat(`[EVAL] FAIL ${skillName}: not in registry`);
-    return { skill: skillName, passed: false, message: "Skill not found in registry", durationMs: 0 };
+    return { ...result(false, "Skill not found in registry"), durationMs: 0 };
   }
 
   bot.chat(`[EVAL] Running: ${skillName}...`);
+  sample();
+  const tracer = setInterval(sample, TRACE_INTERVAL_MS);
+  let timer: NodeJS.Timeout | undefined;
   try {
-    let resultMessage = "no result";
-    const skillPromise = runSkill(bot, skill, {}).then((r) => {
-      resultMessage = r;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${EVAL_TIMEOUT_MS / 1000}s`)), EVAL_TIMEOUT_MS);
     });
-    const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error(`Timed out after ${EVAL_TIMEOUT_MS / 1000}s`)), EVAL_TIMEOUT_MS),
-    );
-    await Promise.race([skillPromise, timeoutPromise]);
-
-    const passed = SUCCESS_PATTERNS.test(resultMessage);
-    const durationMs = Date.now() - start;
+    // Passing means what runSkill records: a reported success whose postconditions hold
+    const { success: passed, message } = await Promise.race([runSkillWithResult(bot, skill, {}), timeoutPromise]);
+    const r = result(passed, message);
     bot.chat(
-      `[EVAL] ${passed ? "PASS" : "FAIL"} ${skillName} (${(durationMs / 1000).toFixed(1)}s): ${resultMessage.slice(0, 80)}`,
+      `[EVAL] ${passed ? "PASS" : "FAIL"} ${skillName} (${(r.durationMs / 1000).toFixed(1)}s): ${message.slice(0, 80)}`,
     );
-    return { skill: skillName, passed, message: resultMessage, durationMs };
+    return r;
   } catch (err: any) {
     abortActiveSkill(bot); // ensure executor clears activeSkill so next eval can run
-    const durationMs = Date.now() - start;
-    bot.chat(`[EVAL] FAIL ${skillName} (${(durationMs / 1000).toFixed(1)}s): ${err.message.slice(0, 80)}`);
-    return { skill: skillName, passed: false, message: err.message, durationMs };
+    const r = result(false, err.message);
+    bot.chat(`[EVAL] FAIL ${skillName} (${(r.durationMs / 1000).toFixed(1)}s): ${err.message.slice(0, 80)}`);
+    return r;
+  } finally {
+    clearInterval(tracer);
+    clearTimeout(timer);
   }
 }
 
-export async function evalAll(bot: Bot, filter?: string): Promise<EvalResult[]> {
-  // Only registered skills (gather_wood is an action, not a registered skill)
-  const staticNames = [
-    "craft_gear",
-    "build_house",
-    "build_farm",
-    "strip_mine",
-    "smelt_ores",
-    "go_fishing",
-    "build_bridge",
-    "light_area",
-  ];
-  const allNames = [...staticNames, ...getDynamicSkillNames()];
+/**
+ * Run a named suite (optionally narrowed by a name filter), write the report
+ * to `dir` and chat a summary. Returns the report, compared with the suite's
+ * previous run.
+ */
+export async function evalSuite(bot: Bot, suite: string, filter?: string, dir = DEFAULT_EVAL_DIR): Promise<EvalReport> {
+  const names = EVAL_SUITES[suite];
+  if (!names) throw new Error(`Unknown eval suite "${suite}" (have: ${Object.keys(EVAL_SUITES).join(", ")})`);
+  const allNames = names();
   const toRun = filter ? allNames.filter((n) => n.toLowerCase().includes(filter.toLowerCase())) : allNames;
+  // A filtered run is its own series — comparing it with the full suite would flag nothing useful
+  const reportName = filter ? `${suite}-${filter}` : suite;
 
   bot.chat(`[EVAL] Starting ${toRun.length} skill evals${filter ? ` (filter: "${filter.slice(0, 40)}")` : ""}...`);
 
+  const startedAt = new Date();
   const results: EvalResult[] = [];
   for (const name of toRun) {
     const result = await evalSkill(bot, name);
@@ -71,15 +121,13 @@ export async function evalAll(bot: Bot, filter?: string): Promise<EvalResult[]>
     await new Promise((r) => setTimeout(r, 2000));
   }
 
-  const passed = results.filter((r) => r.passed).length;
-  const failed = results.filter((r) => !r.passed).length;
-  bot.chat(`[EVAL] Summary: ${passed} passed, ${failed} failed of ${results.length} total`);
-  if (failed > 0) {
-    const failNames = results
-      .filter((r) => !r.passed)
-      .map((r) => r.skill)
-      .join(", ");
-    bot.chat(`[EVAL] Failed: ${failNames.slice(0, 164)}`);
-  }
-  return results;
+  const report = buildEvalReport(reportName, bot.username, startedAt, results, dir);
+  const written = writeEvalReport(report, dir);
+  bot.chat(`[EVAL] Summary: ${summarizeEvalReport(report)}`);
+  const failNames = results.filter((r) => !r.passed).map((r) => r.skill);
+  if (failNames.length > 0) bot.chat(`[EVAL] Failed: ${failNames.join(", ").slice(0, 164)}`);
+  const regressions = report.comparison?.regressions ?? [];
+  if (regressions.length > 0) bot.chat(`[EVAL] Regressed: ${regressions.join(", ").slice(0, 160)}`);
+  console.log(`[Eval] Report written to ${written.markdown}`);
+  return report;
 }
@@ -0,0 +1,10 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCENARIOS, runScenario } from "./scenarios.js";
+
+for (const scenario of SCENARIOS) {
+  test(`scenario: ${scenario.name}`, async () => {
+    const result = await runScenario(scenario);
+    assert.deepEqual(result.failures, [], `${scenario.name} — ${result.message}`);
+  });
+}
@@ -0,0 +1,297 @@
+/**
+ * Skill scenarios — fixtures for the simulated world. Each lays out terrain
+ * and a starting inventory, runs one action the way the brain would, then
+ * checks the world and inventory it leaves behind. The bot gets a scratch
+ * memory file and stash store, so nothing touches the real ones.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { Bot } from "mineflayer";
+import { SimWorld, createSimBot, type SimBotOptions } from "./sim-world.js";
+import { executeAction } from "../bot/actions.js";
+import { BotMemoryStore } from "../bot/memory.js";
+import { registerBotMemory } from "../bot/memory-registry.js";
+import { StashInventory, setStashStore } from "../skills/stash-inventory.js";
+import { houseBlueprint } from "../skills/blueprints/house.js";
+import type { SkillCheckpoint } from "../skills/types.js";
+
+export interface ScenarioContext {
+  world: SimWorld;
+  bot: Bot;
+  memory: BotMemoryStore;
+  /** The action's result text. */
+  message: string;
+}
+
+export interface SkillScenario {
+  name: string;
+  /** Action or skill name, as the brain would call it. */
+  action: string;
+  params?: Record<string, any>;
+  /** Lay out the world; returns where the bot starts and what it carries. */
+  setup(world: SimWorld): SimBotOptions;
+  /** Interrupted skills already in the bot's memory. */
+  checkpoints?: SkillCheckpoint[];
+  /** Expectations that didn't hold, in words. Empty means the scenario passed. */
+  check(ctx: ScenarioContext): string[];
+}
+
+export interface ScenarioResult {
+  scenario: string;
+  passed: boolean;
+  message: string;
+  failures: string[];
+  durationMs: number;
+}
+
+function itemCount(bot: Bot, match: (name: string) => boolean): number {
+  return bot.inventory
+    .items()
+    .filter((i) => match(i.name))
+    .reduce((n, i) => n + i.count, 0);
+}
+
+/** Wrap a list of [holds, description] pairs into failure messages. */
+function expectAll(checks: [boolean, string][]): string[] {
+  return checks.filter(([ok]) => !ok).map(([, what]) => what);
+}
+
+/** Grass over dirt from (-r, y, -r) to (r, y, r), the top at `y`. */
+function meadow(world: SimWorld, y: number, r: number): void {
+  world.fill({ x: -r, y: y - 2, z: -r }, { x: r, y: y - 1, z: r }, "dirt");
+  world.fill({ x: -r, y, z: -r }, { x: r, y, z: r }, "grass_block");
+}
+
+export const SCENARIOS: SkillScenario[] = [
+  {
+    name: "build_house on a meadow",
+    action: "build_house",
+    setup(world) {
+      meadow(world, 63, 16);
+      return { position: { x: 0.5, y: 64, z: 0.5 }, inventory: { oak_log: 48, coal: 2 } };
+    },
+    check({ world, bot, memory }) {
+      const planks = world.countBlocks((n) => n.endsWith("_planks"));
+      return expectAll([
+        [memory.hasStructureNearby("house", 0, 64, 0, 40), "a house recorded in memory"],
+        [planks >= 100, `at least 100 plank blocks placed (got ${planks})`],
+        [world.countBlocks("oak_door") === 4, "two doors placed, both halves"],
+        [world.countBlocks((n) => n.endsWith("torch")) === 5, "all five torches up"],
+        [world.countBlocks("crafting_table") >= 1, "a crafting table placed"],
+        [itemCount(bot, (n) => n.endsWith("_log")) === 0, "every log crafted into planks"],
+      ]);
+    },
+  },
+  {
+    name: "build_house puts back what was broken since it was interrupted",
+    action: "build_house",
+    // Recorded as all done, but the site is bare — every block was knocked out since
+    checkpoints: [
+      {
+        skill: "build_house",
+        params: {},
+        pos: { x: -3, y: 64, z: -3 },
+        state: { origin: [-3, 64, -3], done: houseBlueprint.blocks.map((_, i) => i) },
+        summary: `house ${houseBlueprint.blocks.length}/${houseBlueprint.blocks.length} blocks`,
+        updatedAt: new Date(0).toISOString(),
+      },
+    ],
+    setup(world) {
+      meadow(world, 63, 16);
+      return { position: { x: 0.5, y: 64, z: 0.5 }, inventory: { oak_log: 48, coal: 2 } };
+    },
+    check({ world, memory }) {
+      const planks = world.countBlocks((n) => n.endsWith("_planks"));
+      return expectAll([
+        [planks >= 100, `the walls and roof rebuilt (got ${planks} plank blocks)`],
+        [world.countBlocks("oak_door") === 4, "both doors back"],
+        [memory.hasStructureNearby("house", -3, 64, -3, 8), "the house recorded at the old site"],
+      ]);
+    },
+  },
+  {
+    name: "build_house with no wood and no trees",
+    action: "build_house",
+    setup(world) {
+      meadow(world, 63, 16);
+      return { position: { x: 0.5, y: 64, z: 0.5 } };
+    },
+    check({ world, memory, message }) {
+      return expectAll([
+        [/No trees found/.test(message), `reports the missing trees (got "${message}")`],
+        [world.countBlocks((n) => n.endsWith("_planks")) === 0, "nothing built"],
+        [!memory.hasStructureNearby("house", 0, 64, 0, 40), "no house recorded"],
+      ]);
+    },
+  },
+  {
+    name: "strip_mine an east tunnel through an iron vein",
+    action: "strip_mine",
+    params: { ore: "iron", y: 12, length: 12, direction: "east" },
+    setup(world) {
+      world.fill({ x: -4, y: 0, z: -4 }, { x: 24, y: 11, z: 4 }, "stone");
+      world.fill({ x: -4, y: 12, z: -4 }, { x: 24, y: 14, z: 4 }, "stone");
+      world.fill({ x: 6, y: 12, z: 0 }, { x: 7, y: 13, z: 0 }, "iron_ore");
+      // Standing in a pocket at the tunnel start
+      world.setBlock({ x: 0, y: 12, z: 0 }, "air");
+      world.setBlock({ x: 0, y: 13, z: 0 }, "air");
+      return { position: { x: 0.5, y: 12, z: 0.5 }, inventory: { iron_pickaxe: 1, torch: 4 } };
+    },
+    check({ world, bot, memory }) {
+      // Torches hang in the tunnel itself, at head height
+      const open = (x: number, y: number) => ["air", "wall_torch"].includes(world.blockName({ x, y, z: 0 }));
+      const dug = [...Array(12).keys()].every((i) => open(i + 1, 12) && open(i + 1, 13));
+      return expectAll([
+        [dug, "a two-high tunnel 12 blocks east"],
+        [itemCount(bot, (n) => n === "raw_iron") === 4, "all 4 iron ores mined into raw iron"],
+        [itemCount(bot, (n) => n === "cobblestone") >= 15, "stone mined into cobblestone"],
+        [world.countBlocks("wall_torch") >= 1, "the tunnel lit with wall torches"],
+        [bot.entity.position.x >= 12, "the bot at the tunnel face"],
+        [memory.getSkillCheckpoint("strip_mine") === undefined, "the checkpoint cleared"],
+      ]);
+    },
+  },
+  {
+    name: "strip_mine digs the tunnel asked for, not an old one nearby",
+    action: "strip_mine",
+    params: { y: 12, length: 6, direction: "east" },
+    checkpoints: [
+      {
+        skill: "strip_mine",
+        params: { ore: "any", length: 30 },
+        pos: { x: 0, y: 12, z: 0 },
+        state: { direction: "north", targetY: 40, step: 3 },
+        summary: "north tunnel at Y=40, 3/30 blocks",
+        updatedAt: new Date(0).toISOString(),
+      },
+    ],
+    setup(world) {
+      world.fill({ x: -4, y: 0, z: -8 }, { x: 12, y: 14, z: 4 }, "stone");
+      world.setBlock({ x: 0, y: 12, z: 0 }, "air");
+      world.setBlock({ x: 0, y: 13, z: 0 }, "air");
+      return { position: { x: 0.5, y: 12, z: 0.5 }, inventory: { iron_pickaxe: 1 } };
+    },
+    check({ world, bot, memory }) {
+      return expectAll([
+        [world.blockName({ x: 6, y: 12, z: 0 }) === "air", "a tunnel 6 blocks east"],
+        [world.blockName({ x: 0, y: 12, z: -1 }) === "stone", "nothing dug north"],
+        [bot.entity.position.x >= 6, "the bot at the east tunnel face"],
+        [memory.getSkillCheckpoint("strip_mine") === undefined, "the old checkpoint gone"],
+      ]);
+    },
+  },
+  {
+    name: "strip_mine without a pickaxe",
+    action: "strip_mine",
+    params: { y: 12, length: 8, direction: "east" },
+    setup(world) {
+      world.fill({ x: -4, y: 0, z: -4 }, { x: 12, y: 14, z: 4 }, "stone");
+      world.setBlock({ x: 0, y: 12, z: 0 }, "air");
+      world.setBlock({ x: 0, y: 13, z: 0 }, "air");
+      return { position: { x: 0.5, y: 12, z: 0.5 } };
+    },
+    check({ world, message }) {
+      return expectAll([
+        [/Can't start strip_mine/.test(message), `refused up front (got "${message}")`],
+        [world.blockName({ x: 1, y: 12, z: 0 }) === "stone", "nothing dug"],
+      ]);
+    },
+  },
+  {
+    name: "setup_stash from logs beside a crafting table",
+    action: "setup_stash",
+    params: { x: 4, y: 64, z: 4 },
+    setup(world) {
+      meadow(world, 63, 10);
+      world.setBlock({ x: 2, y: 64, z: 0 }, "crafting_table");
+      return { position: { x: 0.5, y: 64, z: 0.5 }, inventory: { birch_log: 4 } };
+    },
+    check({ world, bot }) {
+      return expectAll([
+        [world.blockName({ x: 4, y: 64, z: 4 }) === "chest", "a chest at the stash position"],
+        [world.countBlocks("chest") === 2, "a second chest beside it"],
+        [itemCount(bot, (n) => n === "chest") === 0, "no chests left over"],
+      ]);
+    },
+  },
+  {
+    name: "deposit_stash sorts loot into the stash chests",
+    action: "deposit_stash",
+    params: { stashPos: { x: 4, y: 64, z: 0 }, keepItems: [{ name: "pickaxe", minCount: 1 }] },
+    setup(world) {
+      meadow(world, 63, 12);
+      // One chest per stash row: building at +0, metals at +2
+      world.setBlock({ x: 4, y: 64, z: 0 }, "chest");
+      world.setBlock({ x: 6, y: 64, z: 0 }, "chest");
+      return {
+        position: { x: 0.5, y: 64, z: 0.5 },
+        inventory: { cobblestone: 40, raw_iron: 5, coal: 3, iron_pickaxe: 1 },
+      };
+    },
+    check({ world, bot }) {
+      const building = world.container({ x: 4, y: 64, z: 0 });
+      const metals = world.container({ x: 6, y: 64, z: 0 });
+      const id = (name: string) => world.registry.itemsByName[name].id;
+      return expectAll([
+        [building.count(id("cobblestone")) === 40, "cobblestone in the building chest"],
+        [metals.count(id("raw_iron")) === 5 && metals.count(id("coal")) === 3, "iron and coal in the metals chest"],
+        [itemCount(bot, (n) => n === "iron_pickaxe") === 1, "the pickaxe kept"],
+        [bot.inventory.items().length === 1, "nothing else left in the inventory"],
+      ]);
+    },
+  },
+];
+
+/** Run one scenario in a fresh world with a scratch memory file and stash store. */
+export async function runScenario(scenario: SkillScenario): Promise<ScenarioResult> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sim-"));
+  const start = Date.now();
+  try {
+    const world = new SimWorld();
+    const bot = createSimBot(world, scenario.setup(world));
+
+    // A fresh file rather than defaults, so stores don't share the default arrays
+    const memoryFile = path.join(dir, "memory.json");
+    fs.writeFileSync(
+      memoryFile,
+      JSON.stringify({
+        structures: [],
+        deaths: [],
+        oreDiscoveries: [],
+        skillHistory: [],
+        lessons: [],
+        brokenSkillNames: [],
+        checkpoints: Object.fromEntries((scenario.checkpoints ?? []).map((c) => [c.skill, c])),
+      }),
+    );
+    const memory = new BotMemoryStore(memoryFile);
+    memory.load();
+    registerBotMemory(bot, memory);
+    setStashStore(new StashInventory(path.join(dir, "stash.json")));
+
+    const message = await executeAction(bot, scenario.action, scenario.params ?? {});
+    const failures = scenario.check({ world, bot, memory, message });
+    return {
+      scenario: scenario.name,
+      passed: failures.length === 0,
+      message,
+      failures,
+      durationMs: Date.now() - start,
+    };
+  } finally {
+    setStashStore(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/** Run every scenario (or those whose name contains `filter`), one after another. */
+export async function runScenarios(filter?: string): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  for (const scenario of SCENARIOS) {
+    if (filter && !scenario.name.toLowerCase().includes(filter.toLowerCase())) continue;
+    results.push(await runScenario(scenario));
+  }
+  return results;
+}
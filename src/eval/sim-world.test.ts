@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Vec3 } from "vec3";
+import pkg from "mineflayer-pathfinder";
+import { SimWorld, createSimBot } from "./sim-world.js";
+const { goals } = pkg;
+
+test("SimWorld: digging drops what the held tool can harvest", async () => {
+  const world = new SimWorld();
+  world.fill({ x: 0, y: 0, z: 0 }, { x: 2, y: 0, z: 0 }, "stone");
+  world.setBlock({ x: 3, y: 0, z: 0 }, "iron_ore");
+  const bot = createSimBot(world, { position: { x: 0.5, y: 1, z: 0.5 }, inventory: { stone_pickaxe: 1 } });
+  const has = (name: string) => bot.inventory.items().find((i) => i.name === name)?.count ?? 0;
+
+  await bot.dig(bot.blockAt(new Vec3(0, 0, 0))!);
+  assert.equal(has("cobblestone"), 0, "bare hands don't harvest stone");
+  await bot.equip(bot.inventory.items()[0], "hand");
+  await bot.dig(bot.blockAt(new Vec3(1, 0, 0))!);
+  await bot.dig(bot.findBlock({ matching: world.registry.blocksByName.iron_ore.id, maxDistance: 8 })!);
+  assert.equal(has("cobblestone"), 1);
+  assert.equal(has("raw_iron"), 1);
+  assert.equal(world.blockName({ x: 3, y: 0, z: 0 }), "air");
+  await assert.rejects(bot.dig(bot.blockAt(new Vec3(3, 0, 0))!), /Can't dig air/);
+});
+
+test("SimWorld: crafting follows the recipes and needs a table for 3x3 ones", async () => {
+  const world = new SimWorld();
+  world.fill({ x: -2, y: 0, z: -2 }, { x: 2, y: 0, z: 2 }, "grass_block");
+  const bot = createSimBot(world, { position: { x: 0.5, y: 1, z: 0.5 }, inventory: { spruce_log: 3 } });
+  const id = (name: string) => world.registry.itemsByName[name].id;
+
+  const [planks] = bot.recipesFor(id("spruce_planks"), null, 1, null);
+  await bot.craft(planks, 3, undefined);
+  assert.equal(bot.inventory.count(id("spruce_planks"), null), 12);
+  assert.equal(bot.recipesFor(id("spruce_door"), null, 1, null).length, 0, "a door needs a table");
+
+  // Place a table next to the bot and craft against it
+  await bot.craft(bot.recipesFor(id("crafting_table"), null, 1, null)[0], 1, undefined);
+  await bot.equip(
+    bot.inventory.items().find((i) => i.name === "crafting_table")!,
+    "hand",
+  );
+  await bot.placeBlock(bot.blockAt(new Vec3(1, 0, 0))!, new Vec3(0, 1, 0));
+  const table = bot.findBlock({ matching: (b) => b.name === "crafting_table" })!;
+  await bot.craft(bot.recipesFor(id("spruce_door"), null, 1, table)[0], 1, table);
+  assert.equal(bot.inventory.count(id("spruce_door"), null), 3);
+  assert.equal(bot.inventory.count(id("spruce_planks"), null), 2);
+  await assert.rejects(bot.placeBlock(bot.blockAt(new Vec3(1, 0, 0))!, new Vec3(0, 1, 0)), /No room/);
+});
+
+test("SimWorld: the pathfinder stub moves to a standable spot inside the goal", async () => {
+  const world = new SimWorld();
+  world.fill({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }, "stone");
+  world.setBlock({ x: 8, y: 1, z: 0 }, "oak_log");
+  const bot = createSimBot(world, { position: { x: 0.5, y: 1, z: 0.5 } });
+
+  await bot.pathfinder.goto(new goals.GoalNear(8, 1, 0, 2));
+  assert.ok(bot.entity.position.distanceTo(new Vec3(8.5, 1, 0.5)) <= 2.5);
+  assert.equal(world.blockName(bot.entity.position), "air");
+  await assert.rejects(bot.pathfinder.goto(new goals.GoalBlock(30, 1, 0)), /No path/);
+});
@@ -0,0 +1,566 @@
+/**
+ * Simulated world — an in-memory voxel world and a fake mineflayer Bot that
+ * acts on it, so skills can run under `node --test` without a server.
+ *
+ * Blocks live in a map keyed by position (everything else is air), chests
+ * keep their own slots, and the bot has a real slot layout, minecraft-data
+ * recipes and block drops. The pathfinder is a stub that teleports to the
+ * nearest standable spot satisfying the goal, and physics, timing and
+ * entity AI are not simulated: digging, placing and crafting succeed at once
+ * if the rules allow them and throw like mineflayer does if not.
+ */
+
+import { EventEmitter } from "node:events";
+import type { Bot } from "mineflayer";
+import type { Block } from "prismarine-block";
+import { Vec3 } from "vec3";
+import mcDataLoader from "minecraft-data";
+
+/** Game version the simulation takes its blocks, items and recipes from. */
+export const SIM_VERSION = "1.21.4";
+
+/** Blocks a placement may overwrite. */
+const REPLACEABLE = new Set(["air", "cave_air", "water", "short_grass", "tall_grass", "fern", "snow"]);
+
+/** Blocks the bot can stand in. */
+const PASSABLE = new Set([...REPLACEABLE, "torch", "wall_torch", "redstone_torch", "ladder", "vine"]);
+
+type Pos = { x: number; y: number; z: number };
+
+export interface SimItem {
+  name: string;
+  type: number;
+  count: number;
+  slot: number;
+  stackSize: number;
+  displayName: string;
+  metadata: number;
+}
+
+export interface SimEntity {
+  id: number;
+  name: string;
+  type: string;
+  position: Vec3;
+  health: number;
+  isValid: boolean;
+  username?: string;
+}
+
+export interface SimBotOptions {
+  username?: string;
+  position: Pos;
+  /** Starting inventory, item name → count. */
+  inventory?: Record<string, number>;
+  /** Facing; mineflayer convention (0 = south, π/2 = west). */
+  yaw?: number;
+}
+
+interface BlockState {
+  pos: Vec3;
+  name: string;
+  props: Record<string, unknown>;
+}
+
+function key(p: Pos): string {
+  return `${Math.floor(p.x)},${Math.floor(p.y)},${Math.floor(p.z)}`;
+}
+
+/**
+ * Item slots from `first` to `last` inclusive — the bot's inventory or a chest's.
+ * A changed slot gets a new item object, as in mineflayer, so callers' references keep their counts.
+ */
+export class SimSlots {
+  readonly slots: (SimItem | null)[];
+
+  constructor(
+    private registry: any,
+    size: number,
+    private first = 0,
+    private last = size - 1,
+  ) {
+    this.slots = new Array(size).fill(null);
+  }
+
+  items(): SimItem[] {
+    return this.slots.slice(this.first, this.last + 1).filter((s): s is SimItem => s !== null);
+  }
+
+  count(type: number): number {
+    return this.items()
+      .filter((i) => i.type === type)
+      .reduce((n, i) => n + i.count, 0);
+  }
+
+  /** Add items, topping up stacks before taking empty slots. Returns how many didn't fit. */
+  add(nameOrId: string | number, count: number): number {
+    const info = typeof nameOrId === "number" ? this.registry.items[nameOrId] : this.registry.itemsByName[nameOrId];
+    if (!info) throw new Error(`Unknown item: ${nameOrId}`);
+    let left = count;
+    for (const item of this.items()) {
+      if (left === 0) break;
+      if (item.type !== info.id || item.count >= item.stackSize) continue;
+      const n = Math.min(left, item.stackSize - item.count);
+      this.slots[item.slot] = { ...item, count: item.count + n };
+      left -= n;
+    }
+    for (let slot = this.first; slot <= this.last && left > 0; slot++) {
+      if (this.slots[slot]) continue;
+      const n = Math.min(left, info.stackSize);
+      this.slots[slot] = {
+        name: info.name,
+        type: info.id,
+        count: n,
+        slot,
+        stackSize: info.stackSize,
+        displayName: info.displayName,
+        metadata: 0,
+      };
+      left -= n;
+    }
+    return left;
+  }
+
+  /** Take up to `count` of an item type. Returns how many were taken. */
+  remove(type: number, count: number): number {
+    let left = count;
+    for (const item of this.items()) {
+      if (left === 0) break;
+      if (item.type !== type) continue;
+      const n = Math.min(left, item.count);
+      this.slots[item.slot] = item.count > n ? { ...item, count: item.count - n } : null;
+      left -= n;
+    }
+    return count - left;
+  }
+}
+
+export class SimWorld {
+  readonly registry: any = mcDataLoader(SIM_VERSION);
+  /** Items thrown away with toss/tossStack. */
+  readonly dropped: { name: string; count: number }[] = [];
+  /** Everything the bot said. */
+  readonly chatLog: string[] = [];
+  private blocks = new Map<string, BlockState>();
+  private containers = new Map<string, SimSlots>();
+  private entities = new Map<number, SimEntity>();
+  private nextEntityId = 1;
+
+  setBlock(pos: Pos, name: string, props: Record<string, unknown> = {}): void {
+    if (!this.registry.blocksByName[name]) throw new Error(`Unknown block: ${name}`);
+    const k = key(pos);
+    this.containers.delete(k);
+    if (name === "air") this.blocks.delete(k);
+    else this.blocks.set(k, { pos: new Vec3(pos.x, pos.y, pos.z).floored(), name, props });
+  }
+
+  /** Fill the box between two corners (inclusive). */
+  fill(from: Pos, to: Pos, name: string): void {
+    for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+      for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+        for (let z = Math.min(from.z, to.z); z <= Math.max(from.z, to.z); z++) this.setBlock({ x, y, z }, name);
+      }
+    }
+  }
+
+  blockName(pos: Pos): string {
+    return this.blocks.get(key(pos))?.name ?? "air";
+  }
+
+  /** How many blocks match a name (or a predicate on the name). */
+  countBlocks(match: string | ((name: string) => boolean)): number {
+    const test = typeof match === "string" ? (n: string) => n === match : match;
+    let n = 0;
+    for (const b of this.blocks.values()) if (test(b.name)) n++;
+    return n;
+  }
+
+  /** A block the way mineflayer hands it out — unset positions are air. */
+  blockAt(pos: Pos): Block {
+    const state = this.blocks.get(key(pos));
+    const name = state?.name ?? "air";
+    const info = this.registry.blocksByName[name];
+    return {
+      name,
+      type: info.id,
+      displayName: info.displayName,
+      position: new Vec3(pos.x, pos.y, pos.z).floored(),
+      boundingBox: info.boundingBox,
+      diggable: info.diggable,
+      hardness: info.hardness,
+      harvestTools: info.harvestTools,
+      metadata: 0,
+      stateId: info.defaultState,
+      getProperties: () => ({ ...state?.props }),
+    } as unknown as Block;
+  }
+
+  /** Positions of non-air blocks matching an id, id list or predicate, nearest first. */
+  findBlocks(opts: { point: Vec3; matching: any; maxDistance?: number; count?: number }): Vec3[] {
+    const maxDistance = opts.maxDistance ?? 16;
+    const matches =
+      typeof opts.matching === "function"
+        ? (b: BlockState) => opts.matching(this.blockAt(b.pos))
+        : (b: BlockState) => {
+            const id = this.registry.blocksByName[b.name].id;
+            return Array.isArray(opts.matching) ? opts.matching.includes(id) : opts.matching === id;
+          };
+    const found: { pos: Vec3; dist: number }[] = [];
+    for (const b of this.blocks.values()) {
+      const dist = b.pos.offset(0.5, 0.5, 0.5).distanceTo(opts.point);
+      if (dist <= maxDistance && matches(b)) found.push({ pos: b.pos, dist });
+    }
+    return found
+      .sort((a, b) => a.dist - b.dist)
+      .slice(0, opts.count ?? 1)
+      .map((f) => f.pos.clone());
+  }
+
+  /** A chest's slots, created empty on first use. */
+  container(pos: Pos): SimSlots {
+    const k = key(pos);
+    let slots = this.containers.get(k);
+    if (!slots) {
+      slots = new SimSlots(this.registry, 27);
+      this.containers.set(k, slots);
+    }
+    return slots;
+  }
+
+  /** Fill a chest (placing it if needed), item name → count. */
+  fillChest(pos: Pos, items: Record<string, number>): void {
+    if (!this.blockName(pos).endsWith("chest")) this.setBlock(pos, "chest");
+    const slots = this.container(pos);
+    for (const [name, count] of Object.entries(items)) slots.add(name, count);
+  }
+
+  addEntity(name: string, pos: Pos, health = 20): SimEntity {
+    const entity: SimEntity = {
+      id: this.nextEntityId++,
+      name,
+      type: this.registry.entitiesByName[name]?.type ?? "mob",
+      position: new Vec3(pos.x, pos.y, pos.z),
+      health,
+      isValid: true,
+    };
+    this.entities.set(entity.id, entity);
+    return entity;
+  }
+
+  removeEntity(id: number): void {
+    const entity = this.entities.get(id);
+    if (entity) entity.isValid = false;
+    this.entities.delete(id);
+  }
+
+  getEntities(): SimEntity[] {
+    return [...this.entities.values()];
+  }
+
+  isSolid(pos: Pos): boolean {
+    const name = this.blockName(pos);
+    return !PASSABLE.has(name) && name !== "lava" && this.registry.blocksByName[name].boundingBox === "block";
+  }
+
+  /** Feet and head clear, solid ground underneath. */
+  isStandable(pos: Pos): boolean {
+    const { x, y, z } = pos;
+    return (
+      PASSABLE.has(this.blockName(pos)) &&
+      PASSABLE.has(this.blockName({ x, y: y + 1, z })) &&
+      this.isSolid({ x, y: y - 1, z })
+    );
+  }
+}
+
+function tick(): Promise<void> {
+  return new Promise((r) => setImmediate(r));
+}
+
+/** The block an item places when put against `face` — torches go on walls, doors get a top half. */
+function placedBlocks(itemName: string, face: Vec3): { name: string; dy: number; props?: Record<string, unknown> }[] {
+  if (itemName === "torch" && face.y === 0) return [{ name: "wall_torch", dy: 0 }];
+  if (itemName.endsWith("_door")) {
+    return [
+      { name: itemName, dy: 0, props: { half: "lower" } },
+      { name: itemName, dy: 1, props: { half: "upper" } },
+    ];
+  }
+  return [{ name: itemName, dy: 0 }];
+}
+
+/** A recipe in the shape bot.recipesFor returns, with what one craft consumes. */
+function toRecipe(raw: any) {
+  const grid: (number | null)[] = raw.inShape ? raw.inShape.flat() : raw.ingredients;
+  const delta = new Map<number, number>();
+  for (const id of grid) if (id !== null) delta.set(id, (delta.get(id) ?? 0) + 1);
+  const requiresTable = raw.inShape
+    ? raw.inShape.length > 2 || raw.inShape.some((row: unknown[]) => row.length > 2)
+    : raw.ingredients.length > 4;
+  return {
+    result: { id: raw.result.id, count: raw.result.count },
+    inShape: raw.inShape,
+    ingredients: raw.ingredients,
+    requiresTable,
+    delta: [...delta].map(([id, count]) => ({ id, count: -count })),
+  };
+}
+
+/** A mineflayer Bot standing in the simulated world. Only the parts skills use are there. */
+export function createSimBot(world: SimWorld, opts: SimBotOptions): Bot {
+  const registry = world.registry;
+  const inventory = new SimSlots(registry, 46, 9, 44);
+  for (const [name, count] of Object.entries(opts.inventory ?? {})) inventory.add(name, count);
+  let heldSlot: number | null = null;
+
+  const entity: SimEntity & { yaw: number; pitch: number; velocity: Vec3; onGround: boolean; height: number } = {
+    id: 0,
+    name: "player",
+    type: "player",
+    username: opts.username ?? "SimBot",
+    position: new Vec3(opts.position.x, opts.position.y, opts.position.z),
+    health: 20,
+    isValid: true,
+    yaw: opts.yaw ?? 0,
+    pitch: 0,
+    velocity: new Vec3(0, 0, 0),
+    onGround: true,
+    height: 1.8,
+  };
+
+  const canAfford = (recipe: ReturnType<typeof toRecipe>, times: number) =>
+    recipe.delta.every((d) => inventory.count(d.id) >= -d.count * times);
+
+  /** Nearest standable spot that satisfies the goal, searched around the goal's centre. */
+  const destination = (goal: any): Vec3 | null => {
+    const centre: Vec3 =
+      goal.entity?.position ??
+      new Vec3(goal.x ?? entity.position.x, goal.y ?? entity.position.y, goal.z ?? entity.position.z);
+    const c = centre.floored();
+    const reach = Math.ceil(Math.sqrt(goal.rangeSq ?? 0)) + 1;
+    const height = goal.y === undefined ? 16 : reach + 1;
+    let best: Vec3 | null = null;
+    let bestDist = Infinity;
+    for (let dx = -reach; dx <= reach; dx++) {
+      for (let dz = -reach; dz <= reach; dz++) {
+        for (let dy = -height; dy <= height; dy++) {
+          const p = c.offset(dx, dy, dz);
+          if (!world.isStandable(p) || (goal.isEnd && !goal.isEnd(p))) continue;
+          const dist = p.distanceTo(c);
+          if (dist < bestDist) {
+            best = p;
+            bestDist = dist;
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  const goto = async (goal: any) => {
+    await tick();
+    const dest = destination(goal);
+    if (!dest) throw new Error("No path to the goal!");
+    entity.position = dest.offset(0.5, 0, 0.5);
+    bot.emit("move");
+  };
+
+  // Blocks the bot changes itself are announced the way the server's block updates are
+  const changeBlock = (pos: Vec3, name: string, props?: Record<string, unknown>) => {
+    const old = world.blockAt(pos);
+    world.setBlock(pos, name, props);
+    bot.emit("blockUpdate", old, world.blockAt(pos));
+  };
+
+  const bot: any = Object.assign(new EventEmitter(), {
+    username: entity.username,
+    version: SIM_VERSION,
+    registry,
+    entity,
+    game: { dimension: "overworld", gameMode: "survival" },
+    time: { isDay: true, timeOfDay: 6000, day: 1 },
+    health: 20,
+    food: 20,
+    quickBarSlot: 0,
+    players: {},
+    inventory: {
+      slots: inventory.slots,
+      items: () => inventory.items(),
+      count: (type: number) => inventory.count(type),
+      emptySlotCount: () => inventory.slots.slice(9, 45).filter((s) => !s).length,
+    },
+    controlState: {} as Record<string, boolean>,
+
+    chat(message: string) {
+      world.chatLog.push(message);
+    },
+    whisper(username: string, message: string) {
+      world.chatLog.push(`/msg ${username} ${message}`);
+    },
+
+    blockAt: (pos: Pos) => world.blockAt(pos),
+    findBlocks: (o: any) => world.findBlocks({ ...o, point: o.point ?? entity.position }),
+    findBlock(o: any) {
+      const [pos] = world.findBlocks({ ...o, point: o.point ?? entity.position, count: 1 });
+      return pos ? world.blockAt(pos) : null;
+    },
+
+    async lookAt() {},
+    async look() {},
+    setControlState(control: string, state: boolean) {
+      bot.controlState[control] = state;
+    },
+    clearControlStates() {
+      bot.controlState = {};
+    },
+    async waitForTicks() {
+      await tick();
+    },
+
+    async equip(item: { type: number; slot?: number }, destination: string) {
+      const slot =
+        inventory.slots[item.slot ?? -1]?.type === item.type
+          ? item.slot!
+          : inventory.items().find((i) => i.type === item.type)?.slot;
+      if (slot === undefined) throw new Error(`Can't equip ${registry.items[item.type]?.name}: not in inventory`);
+      if (destination === "hand") heldSlot = slot;
+    },
+    async unequip() {
+      heldSlot = null;
+    },
+    async tossStack(item: { slot: number }) {
+      const stack = inventory.slots[item.slot];
+      if (!stack) throw new Error("Nothing to toss in that slot");
+      inventory.slots[item.slot] = null;
+      world.dropped.push({ name: stack.name, count: stack.count });
+    },
+    async toss(type: number, _metadata: number | null, count: number | null) {
+      const taken = inventory.remove(type, count ?? inventory.count(type));
+      world.dropped.push({ name: registry.items[type].name, count: taken });
+    },
+
+    async dig(block: Block) {
+      await tick();
+      const name = world.blockName(block.position);
+      const info = registry.blocksByName[name];
+      if (name === "air" || !info.diggable || name === "water" || name === "lava") {
+        throw new Error(`Can't dig ${name} at ${block.position}`);
+      }
+      const tool = bot.heldItem?.type;
+      const harvestable = !info.harvestTools || (tool !== undefined && info.harvestTools[tool]);
+      changeBlock(block.position, "air");
+      if (name.endsWith("_door")) {
+        for (const dy of [-1, 1]) {
+          if (world.blockName(block.position.offset(0, dy, 0)) === name)
+            changeBlock(block.position.offset(0, dy, 0), "air");
+        }
+      }
+      if (harvestable) for (const id of info.drops ?? []) inventory.add(id, 1);
+    },
+
+    async placeBlock(reference: Block, face: Vec3) {
+      await tick();
+      const held = bot.heldItem as SimItem | null;
+      if (!held) throw new Error("Must be holding an item to place a block");
+      if (world.blockName(reference.position) === "air") throw new Error("Can't place against air");
+      const target = reference.position.plus(face);
+      const parts = placedBlocks(held.name, face);
+      for (const part of parts) {
+        if (!registry.blocksByName[part.name]) throw new Error(`${held.name} can't be placed`);
+        const at = target.offset(0, part.dy, 0);
+        if (!REPLACEABLE.has(world.blockName(at))) throw new Error(`No room to place ${held.name} at ${at}`);
+      }
+      for (const part of parts) changeBlock(target.offset(0, part.dy, 0), part.name, part.props);
+      inventory.remove(held.type, 1);
+    },
+
+    recipesFor(itemType: number, _metadata: number | null, minResultCount: number | null, table: unknown) {
+      return (registry.recipes[itemType] ?? [])
+        .map(toRecipe)
+        .filter(
+          (r: ReturnType<typeof toRecipe>) =>
+            (table || !r.requiresTable) && canAfford(r, Math.ceil((minResultCount ?? 1) / r.result.count)),
+        );
+    },
+    async craft(recipe: ReturnType<typeof toRecipe>, count: number | null, table?: Block | null) {
+      await tick();
+      if (recipe.requiresTable && !(table && world.blockName(table.position) === "crafting_table")) {
+        throw new Error("Recipe requires a crafting table");
+      }
+      for (let i = 0; i < (count ?? 1); i++) {
+        if (!canAfford(recipe, 1)) throw new Error(`Missing ingredients for ${registry.items[recipe.result.id].name}`);
+        for (const d of recipe.delta) inventory.remove(d.id, -d.count);
+        inventory.add(recipe.result.id, recipe.result.count);
+      }
+    },
+
+    async openContainer(block: Block) {
+      await tick();
+      const name = world.blockName(block.position);
+      if (!name.endsWith("chest") && name !== "barrel") throw new Error(`${name} is not a container`);
+      const chest = world.container(block.position);
+      const move = (from: SimSlots, to: SimSlots, type: number, count: number | null) => {
+        const want = count ?? from.count(type);
+        if (from.count(type) < want) throw new Error(`Not enough ${registry.items[type].name}`);
+        from.remove(type, want);
+        const left = to.add(type, want);
+        if (left > 0) {
+          from.add(type, left);
+          throw new Error("Destination full");
+        }
+      };
+      return Object.assign(new EventEmitter(), {
+        slots: chest.slots,
+        containerItems: () => chest.items(),
+        items: () => inventory.items(),
+        deposit: async (type: number, _metadata: number | null, count: number | null) =>
+          move(inventory, chest, type, count),
+        withdraw: async (type: number, _metadata: number | null, count: number | null) =>
+          move(chest, inventory, type, count),
+        close() {},
+      });
+    },
+
+    nearestEntity(filter: (e: SimEntity) => boolean = () => true) {
+      const others = world.getEntities().filter(filter);
+      others.sort((a, b) => a.position.distanceTo(entity.position) - b.position.distanceTo(entity.position));
+      return others[0] ?? null;
+    },
+    attack(target: SimEntity) {
+      target.health -= 4;
+      if (target.health <= 0) world.removeEntity(target.id);
+    },
+
+    pathfinder: {
+      movements: null as unknown,
+      goal: null as unknown,
+      setMovements(movements: unknown) {
+        bot.pathfinder.movements = movements;
+      },
+      goto,
+      setGoal(goal: unknown) {
+        bot.pathfinder.goal = goal;
+        if (goal) goto(goal).catch(() => bot.emit("path_stop"));
+      },
+      stop() {
+        bot.pathfinder.goal = null;
+      },
+      isMoving: () => false,
+    },
+
+    quit() {
+      bot.emit("end", "quit");
+    },
+    end() {
+      bot.emit("end", "end");
+    },
+  });
+
+  Object.defineProperty(bot, "heldItem", {
+    get: () => (heldSlot === null ? null : (inventory.slots[heldSlot] ?? null)),
+  });
+  Object.defineProperty(bot, "entities", {
+    get: () => Object.fromEntries([entity, ...world.getEntities()].map((e) => [e.id, e])),
+  });
+  return bot as Bot;
+}
@@ -1,12 +1,27 @@
 import { createBot } from "./bot/index.js";
-import { createTwitchChat } from "./stream/twitch.js";
-import { startOverlay, addChatMessage } from "./stream/overlay.js";
+import { createTwitchChat, type TieredChatMessage } from "./stream/twitch.js";
+import { startOverlay } from "./stream/overlay.js";
+import { routeChat } from "./stream/chat-router.js";
+import { TwitchOutbox } from "./stream/twitch-outbox.js";
+import { createYouTubeChat, type YouTubeChat } from "./stream/youtube.js";
+import { castVote } from "./stream/polls.js";
+import {
+  DEFAULT_REDEMPTIONS_FILE,
+  loadRedemptionCatalogue,
+  redeem,
+  setRedemptionCatalogue,
+} from "./stream/redemptions.js";
 import { config } from "./config.js";
-import { loadDynamicSkills } from "./skills/dynamic-loader.js";
+import { loadDynamicSkills, summarizeDynamicSkills } from "./skills/dynamic-loader.js";
+import { loadMacroSkills } from "./skills/macros.js";
 import { BOT_ROSTER, BotRoleConfig } from "./bot/role.js";
 import { startUnifiedViewer } from "./stream/unified-viewer.js";
 
 loadDynamicSkills();
+loadMacroSkills();
+// One-time LLM summaries for skills without a real description (cached next to each file)
+if (config.bot.summarizeSkills) void summarizeDynamicSkills();
+setRedemptionCatalogue(loadRedemptionCatalogue(config.twitch.redemptionsFile || DEFAULT_REDEMPTIONS_FILE));
 
 // Registry of active bot stop functions for clean multi-bot shutdown
 const activeStops: (() => void)[] = [];
@@ -43,15 +58,40 @@ process.on("uncaughtException", (err) => {
   console.error("[Main] Uncaught exception (non-fatal — process kept alive):", err.message || err);
 });
 
+// Stream chat connections are shared by every bot — the chat router picks which bot answers
+let youtube: YouTubeChat | null = null;
+let twitchOutbox: TwitchOutbox | null = null;
+
+function startStreamChat(): void {
+  const onViewerChat = (msg: TieredChatMessage) => {
+    // Votes go to the running poll, not a bot
+    if (castVote(msg.username, msg.tier, msg.text)) return;
+    routeChat(msg);
+  };
+  const twitch = createTwitchChat(onViewerChat, (redemption) => {
+    const result = redeem(redemption.username, redemption);
+    if (!result.ok && redemption.rewardId) console.log(`[Twitch] Redemption ignored: ${result.error}`);
+  });
+  if (twitch) twitchOutbox = new TwitchOutbox(twitch.sendMessage, { limit: config.twitch.messagesPer30s });
+  youtube = createYouTubeChat(onViewerChat);
+  activeStops.push(() => {
+    twitchOutbox?.stop();
+    twitch?.client.disconnect();
+    youtube?.stop();
+  });
+}
+
 async function startBot(
   roleConfig: BotRoleConfig,
   restartCount: number,
   overlayStarted: { value: boolean },
 ): Promise<string> {
   console.log(`\n=== ${roleConfig.name} (${roleConfig.role}) (restart #${restartCount}) ===`);
-  const fastLabel =
-    config.ollama.fastModel !== config.ollama.model ? ` (fast decisions: ${config.ollama.fastModel})` : "";
-  console.log(`LLM: ${config.ollama.model}${fastLabel} @ ${config.ollama.host}`);
+  for (const [tier, llm] of Object.entries(config.llm)) {
+    console.log(
+      `LLM ${tier}: ${llm.model} via ${llm.provider} @ ${llm.provider === "scripted" ? llm.script || "(idle)" : llm.host}`,
+    );
+  }
   console.log(`Server: ${config.mc.host}:${config.mc.port} (MC ${config.mc.version})`);
   console.log(`Decision interval: ${config.bot.decisionIntervalMs}ms`);
   console.log("");
@@ -62,31 +102,25 @@ async function startBot(
     overlayStarted.value = true;
   }
 
-  const { bot, queueChat, stop } = await createBot(
+  const { bot, stop } = await createBot(
     {
       onThought: (thought) => console.log(`[${roleConfig.name}] 💭 ${thought}`),
       onAction: (action, result) => console.log(`[${roleConfig.name}] 🎮 [${action}] ${result}`),
-      onChat: (message) => console.log(`[${roleConfig.name}] 💬 ${message}`),
+      onChat: (message, replyTo) => {
+        console.log(`[${roleConfig.name}] 💬 ${message}`);
+        if (replyTo?.source === "twitch") twitchOutbox?.reply(roleConfig.name, replyTo.username, message);
+        if (replyTo?.source === "youtube") void youtube?.sendMessage(`@${replyTo.username} ${message}`);
+      },
     },
     roleConfig,
   );
 
-  // Set up Twitch chat (Atlas only — Flora doesn't need her own chat connection)
-  const twitch =
-    roleConfig.name === "Atlas"
-      ? createTwitchChat((msg) => {
-          queueChat(msg);
-          addChatMessage(msg.username, msg.message, (msg as any).tier ?? "free");
-        })
-      : null;
-
   let lastKickReason = "";
 
   return new Promise<string>((resolve) => {
     // Register this bot's cleanup in the shared shutdown registry
     const cleanup = () => {
       stop();
-      twitch?.client.disconnect();
     };
     activeStops.push(cleanup);
 
@@ -101,7 +135,6 @@ async function startBot(
       lastKickReason = reasonStr;
       removeCleanup();
       stop();
-      twitch?.client.disconnect();
       resolve(lastKickReason);
     });
 
@@ -109,7 +142,6 @@ async function startBot(
       console.log(`[${roleConfig.name}] Connection ended.`);
       removeCleanup();
       stop();
-      twitch?.client.disconnect();
       resolve(lastKickReason);
     });
 
@@ -156,6 +188,8 @@ async function main() {
     console.warn("[Main] Unified viewer failed to start:", err);
   });
 
+  startStreamChat();
+
   if (!config.multiBot.enabled) {
     // Single bot mode — just Atlas
     await runBotLoop(BOT_ROSTER[0]);
@@ -1,5 +1,4 @@
-import { Ollama } from "ollama";
-import { config } from "../config.js";
+import { config, type LLMTier } from "../config.js";
 import { getSkillPromptLines } from "../skills/registry.js";
 import { getDynamicSkillNames } from "../skills/dynamic-loader.js";
 import { getSeasonGoal } from "../bot/memory.js";
@@ -11,21 +10,37 @@ import {
   type RoleContext,
 } from "./prompts.js";
 import { createLogger } from "../util/logger.js";
+import { getProvider, getModel, type LLMChatResponse } from "./providers.js";
+import {
+  buildActionTools,
+  reactiveActionNames,
+  toolCallToDecision,
+  validateToolCall,
+  ToolCallValidationError,
+  type LLMTool,
+} from "./tools.js";
 
-const ollama = new Ollama({ host: config.ollama.host });
-const llmLog = createLogger();
+export { setProvider, resetProviders, createScriptedProvider, type LLMProvider } from "./providers.js";
+export { ToolCallValidationError, type LLMTool, type LLMToolCall } from "./tools.js";
 
-export interface LLMTool {
-  name: string;
-  description: string;
-  parameters: Record<string, { type: string; description: string }>;
-}
+const llmLog = createLogger();
 
 export interface LLMMessage {
   role: "system" | "user" | "assistant";
   content: string;
 }
 
+/**
+ * What one query sent and got back — pass an empty trace to a query function
+ * and it is filled in (used by the session recorder). `responses` holds every
+ * raw response, so a repaired tool call records both attempts.
+ */
+export interface LLMTrace {
+  tier?: LLMTier;
+  messages: LLMMessage[];
+  responses: LLMChatResponse[];
+}
+
 // ─── JSON extraction helpers ────────────────────────────────────────────────
 // Shared across all query functions to handle LLM output quirks.
 
@@ -194,6 +209,111 @@ function parseDecision(
   };
 }
 
+// ─── Decision requests ──────────────────────────────────────────────────────
+
+type Decision = { thought: string; action: string; params: Record<string, any>; goal?: string; goalSteps?: number };
+
+/** Strip leaked <think> blocks from free text the model sent alongside a tool call. */
+function cleanThought(text: string): string {
+  return text
+    .replace(/<think>[\s\S]*?<\/think>/g, "")
+    .replace(/<think>[\s\S]*/g, "")
+    .trim()
+    .slice(0, 120);
+}
+
+/**
+ * Turn one LLM response into a validated decision, or the validation error to
+ * feed back. Native tool calls are preferred; plain JSON text (models without
+ * tool support) goes through parseDecision and is validated the same way.
+ */
+function checkDecision(
+  response: LLMChatResponse,
+  tools: LLMTool[],
+  botName: string,
+): { decision: Decision } | { error: ToolCallValidationError; echo: string } {
+  const call = response.toolCalls?.[0];
+  if (call) {
+    const args = { ...(call.arguments ?? {}) };
+    // Some models narrate in the message body instead of the thought argument
+    if (!args.thought && response.content.trim()) args.thought = cleanThought(response.content);
+    const checked = { ...call, arguments: args };
+    const error = validateToolCall(checked, tools);
+    if (!error) return { decision: toolCallToDecision(checked) };
+    return { error, echo: `${call.name}(${JSON.stringify(call.arguments ?? {})})` };
+  }
+
+  if (!extractJSON(response.content)) {
+    return {
+      error: new ToolCallValidationError("", ["no tool call or JSON decision in the response"]),
+      echo: response.content,
+    };
+  }
+  const parsed = parseDecision(response.content, botName);
+  const args = { ...parsed.params, thought: parsed.thought };
+  const error = validateToolCall({ name: parsed.action, arguments: args }, tools);
+  if (error) return { error, echo: response.content };
+  const { thought: _thought, ...params } = args;
+  return { decision: { ...parsed, params } };
+}
+
+/**
+ * Ask a tier for a decision. With tool calling on, the answer is validated
+ * against the offered tools and an invalid one gets exactly one repair attempt
+ * with the validation error as feedback.
+ */
+async function requestDecision(
+  tier: "strategic" | "reactive",
+  messages: LLMMessage[],
+  tools: LLMTool[],
+  botName: string,
+  options: { temperature: number; maxTokens: number; logChars: number },
+  trace?: LLMTrace,
+): Promise<Decision> {
+  const tag = `LLM:${tier}`;
+  const convo = [...messages];
+  if (trace) Object.assign(trace, { tier, messages: [...messages], responses: [] });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const response = await getProvider(tier).chat({
+      model: getModel(tier),
+      messages: convo,
+      think: false,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      ...(config.toolCalling ? { tools } : {}),
+    });
+    trace?.responses.push(response);
+
+    const summary = response.toolCalls?.length
+      ? `tool ${response.toolCalls[0].name}(${JSON.stringify(response.toolCalls[0].arguments).slice(0, options.logChars)})`
+      : `(${response.content.length} chars): ${response.content.slice(0, options.logChars)}`;
+    llmLog.info(tag, summary);
+    llmLog.debug(tag, "Full prompt:", JSON.stringify(convo, null, 2));
+    llmLog.debug(tag, "Full response:", response.content);
+
+    if (!config.toolCalling) return parseDecision(response.content, botName);
+
+    const result = checkDecision(response, tools, botName);
+    if ("decision" in result) return result.decision;
+
+    if (attempt === 0) {
+      llmLog.warn(tag, `${result.error.message} — asking for a repair`);
+      convo.push(
+        { role: "assistant", content: result.echo.slice(0, 500) || "(empty response)" },
+        {
+          role: "user",
+          content: `${result.error.message}\nCall exactly ONE of the offered tools again with corrected arguments.`,
+        },
+      );
+    } else {
+      llmLog.warn(tag, `Repair attempt still invalid: ${result.error.message}`);
+    }
+  }
+
+  return { thought: "Brain buffering...", action: "idle", params: {} };
+}
+
 // ─── New event-driven query functions ───────────────────────────────────────
 
 /**
@@ -205,32 +325,27 @@ export async function queryStrategic(
   recentMessages: LLMMessage[],
   memoryContext: string,
   role: RoleContext,
+  trace?: LLMTrace,
 ): Promise<{ thought: string; action: string; params: Record<string, any>; goal?: string; goalSteps?: number }> {
   const memorySection = memoryContext ? `\nYOUR MEMORY:\n${memoryContext}\n` : "";
+  const ask = config.toolCalling ? "Call exactly one tool." : "Respond with JSON.";
   const messages: LLMMessage[] = [
-    { role: "system", content: buildStrategicPrompt(role) },
+    { role: "system", content: buildStrategicPrompt(role, config.toolCalling) },
     ...recentMessages.slice(-4), // Fewer history items — just enough for continuity
-    { role: "user", content: `${memorySection}${context}\n\nWhat should you do next? Respond with JSON.` },
+    { role: "user", content: `${memorySection}${context}\n\nWhat should you do next? ${ask}` },
   ];
+  const tools = buildActionTools({ allowedActions: role.allowedActions, allowedSkills: role.allowedSkills });
 
   try {
-    const response = await ollama.chat({
-      model: config.ollama.model, // Strong model for strategic decisions
+    // Strong model for strategic decisions
+    return await requestDecision(
+      "strategic",
       messages,
-      think: false,
-      options: {
-        temperature: 0.8,
-        num_predict: 512,
-      },
-    });
-
-    llmLog.info(
-      "LLM:strategic",
-      `(${response.message.content.length} chars): ${response.message.content.slice(0, 200)}`,
+      tools,
+      role.name,
+      { temperature: 0.8, maxTokens: 512, logChars: 200 },
+      trace,
     );
-    llmLog.debug("LLM:strategic", "Full prompt:", JSON.stringify(messages, null, 2));
-    llmLog.debug("LLM:strategic", "Full response:", response.message.content);
-    return parseDecision(response.message.content, role.name);
   } catch (err) {
     llmLog.error("LLM:strategic", "Error:", err);
     return { thought: "Planning...", action: "idle", params: {} };
@@ -246,30 +361,25 @@ export async function queryReactive(
   name: string,
   situation: string,
   allowedActions?: string[],
+  trace?: LLMTrace,
 ): Promise<{ thought: string; action: string; params: Record<string, any> }> {
   const messages: LLMMessage[] = [
-    { role: "system", content: buildReactivePrompt(name, allowedActions) },
+    { role: "system", content: buildReactivePrompt(name, allowedActions, config.toolCalling) },
     { role: "user", content: situation },
   ];
+  const tools = buildActionTools({ only: reactiveActionNames(allowedActions) });
 
   try {
-    const response = await ollama.chat({
-      model: config.ollama.fastModel,
+    llmLog.debug("LLM:reactive", "Situation:", situation);
+    return await requestDecision(
+      "reactive",
       messages,
-      think: false,
-      options: {
-        temperature: 0.5, // Lower temp for urgent decisions — be reliable, not creative
-        num_predict: 256,
-      },
-    });
-
-    llmLog.info(
-      "LLM:reactive",
-      `(${response.message.content.length} chars): ${response.message.content.slice(0, 150)}`,
+      tools,
+      name,
+      // Lower temp for urgent decisions — be reliable, not creative
+      { temperature: 0.5, maxTokens: 256, logChars: 150 },
+      trace,
     );
-    llmLog.debug("LLM:reactive", "Situation:", situation);
-    llmLog.debug("LLM:reactive", "Full response:", response.message.content);
-    return parseDecision(response.message.content, name);
   } catch (err) {
     llmLog.error("LLM:reactive", "Error:", err);
     return { thought: "Danger!", action: "flee", params: {} };
@@ -284,6 +394,7 @@ export async function queryCritic(
   name: string,
   actionContext: string,
   allowedActions?: string[],
+  trace?: LLMTrace,
 ): Promise<{
   success: boolean;
   thought: string;
@@ -296,21 +407,22 @@ export async function queryCritic(
     { role: "user", content: actionContext },
   ];
 
+  if (trace) Object.assign(trace, { tier: "critic", messages: [...messages], responses: [] });
+
   try {
-    const response = await ollama.chat({
-      model: config.ollama.fastModel,
+    const response = await getProvider("critic").chat({
+      model: getModel("critic"),
       messages,
       think: false,
-      options: {
-        temperature: 0.4, // Low temp — critic should be analytical
-        num_predict: 256,
-      },
+      temperature: 0.4, // Low temp — critic should be analytical
+      maxTokens: 256,
     });
+    trace?.responses.push(response);
 
-    llmLog.info("LLM:critic", `(${response.message.content.length} chars): ${response.message.content.slice(0, 150)}`);
+    llmLog.info("LLM:critic", `(${response.content.length} chars): ${response.content.slice(0, 150)}`);
     llmLog.debug("LLM:critic", "Action context:", actionContext);
-    llmLog.debug("LLM:critic", "Full response:", response.message.content);
-    const jsonStr = extractJSON(response.message.content);
+    llmLog.debug("LLM:critic", "Full response:", response.content);
+    const jsonStr = extractJSON(response.content);
     if (!jsonStr) {
       return { success: false, thought: "Hmm...", nextAction: null, nextParams: {}, goalComplete: true };
     }
@@ -370,6 +482,15 @@ ${roleConfig.allowedActions.map((a) => `- ${a}`).join("\n")}
 - invoke_skill: Run a dynamic skill by exact name. params: { "skill": string }
 - deposit_stash: Deposit excess items at the shared stash. params: {}
 - withdraw_stash: Take items you need from the shared stash. params: { "item": string, "count": number }
+- post_task: Post a task for a teammate. params: { "title": string, "role"?: string }
+- claim_task: Claim an open task from the team board. params: { "taskId": number }
+- release_task: Give up your task or hand it to a teammate. params: { "reason"?: string, "handTo"?: string }
+- complete_task: Mark your task done. params: { "result"?: string }
+- request_items: Ask teammates to bring you items. params: { "item": string, "count": number }
+- accept_request: Promise to fill a teammate's item request. params: { "requestId": number }
+- deliver_items: Bring the items for the request you accepted. params: {}
+- cancel_request: Withdraw or back out of an item request. params: { "requestId": number }
+- start_poll: Let viewers vote on what you do next. params: { "options": "a | b | c", "question"?: string, "mission"?: boolean }
 
 SKILLS (${roleConfig.name}'s specialties):
 ${(roleConfig.allowedSkills ?? []).map((s) => `- ${s}`).join("\n") || "- (none — use actions above)"}
@@ -393,8 +514,7 @@ RULES:
 RESPONSE FORMAT:
 {"thought":"...","action":"action_name","params":{...},"goal":"...","goalSteps":5}
 
-CRAFTING: Logs→planks(4), planks→sticks(2→4), 3planks+2sticks→wooden_pickaxe, 2planks→crafting_table.
-Wool from killing sheep. 3 wool + 3 planks → bed.
+CRAFTING: craft resolves intermediates (planks, sticks, table) itself and replies with a plan when materials are missing.
 
 ${
   roleOverride
@@ -456,21 +576,20 @@ export async function queryLLM(
   ];
 
   try {
-    let response = await ollama.chat({
-      model: config.ollama.fastModel,
+    const provider = getProvider("reactive");
+    let response = await provider.chat({
+      model: getModel("reactive"),
       messages,
       think: false,
-      options: {
-        temperature: 0.85,
-        num_predict: 1024,
-      },
+      temperature: 0.85,
+      maxTokens: 1024,
     });
 
     // Retry once on short/empty response
-    if (response.message.content.trim().length < 20) {
+    if (response.content.trim().length < 20) {
       llmLog.warn("LLM", "Short/empty response — retrying with fallback prompt...");
-      response = await ollama.chat({
-        model: config.ollama.fastModel,
+      response = await provider.chat({
+        model: getModel("reactive"),
         think: false,
         messages: [
           {
@@ -482,41 +601,43 @@ export async function queryLLM(
             content: `Quick decision needed. Available actions: explore, gather_wood, craft_gear, mine_block, go_to, idle, chat.\nContext: ${context.slice(0, 500)}\nRespond with JSON only.`,
           },
         ],
-        options: { temperature: 0.6, num_predict: 512 },
+        temperature: 0.6,
+        maxTokens: 512,
       });
     }
 
-    llmLog.info(
-      "LLM",
-      `Raw response (${response.message.content.length} chars): ${response.message.content.slice(0, 300)}`,
-    );
+    llmLog.info("LLM", `Raw response (${response.content.length} chars): ${response.content.slice(0, 300)}`);
     llmLog.debug("LLM", "Full prompt:", JSON.stringify(messages, null, 2));
-    llmLog.debug("LLM", "Full response:", response.message.content);
-    return parseDecision(response.message.content, roleConfig?.name ?? config.bot.name);
+    llmLog.debug("LLM", "Full response:", response.content);
+    return parseDecision(response.content, roleConfig?.name ?? config.bot.name);
   } catch (err) {
     llmLog.error("LLM", "Error:", err);
     return { thought: "Brain freeze...", action: "idle", params: {} };
   }
 }
 
-export async function chatWithLLM(prompt: string, context: string, roleConfig?: { name: string }): Promise<string> {
+export async function chatWithLLM(
+  prompt: string,
+  context: string,
+  roleConfig?: { name: string },
+  trace?: LLMTrace,
+): Promise<string> {
+  const messages: LLMMessage[] = [
+    { role: "system", content: buildChatPrompt(roleConfig?.name ?? config.bot.name, context) },
+    { role: "user", content: prompt },
+  ];
+  if (trace) Object.assign(trace, { tier: "chat", messages: [...messages], responses: [] });
+
   try {
-    const response = await ollama.chat({
-      model: config.ollama.fastModel,
-      messages: [
-        {
-          role: "system",
-          content: buildChatPrompt(roleConfig?.name ?? config.bot.name, context),
-        },
-        { role: "user", content: prompt },
-      ],
-      options: {
-        temperature: 0.9,
-        num_predict: 100,
-      },
+    const response = await getProvider("chat").chat({
+      model: getModel("chat"),
+      messages,
+      temperature: 0.9,
+      maxTokens: 100,
     });
+    trace?.responses.push(response);
     // Strip <think> tokens that qwen3 models sometimes leak
-    let text = response.message.content.trim();
+    let text = response.content.trim();
     text = text.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
     text = text.replace(/<think>[\s\S]*/g, "").trim(); // unclosed <think> tags
     return text || "Hmm...";
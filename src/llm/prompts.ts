@@ -11,6 +11,11 @@
 
 import { getSkillPromptLines } from "../skills/registry.js";
 import { getDynamicSkillNames } from "../skills/dynamic-loader.js";
+import { retrieveSkills } from "../skills/retrieval.js";
+import { reactiveActionNames } from "./tools.js";
+import { TASK_ACTIONS } from "../bot/tasks.js";
+import { TRANSFER_ACTIONS } from "../bot/transfers.js";
+import { POLL_ACTIONS } from "../stream/polls.js";
 
 export interface RoleContext {
   name: string;
@@ -20,30 +25,45 @@ export interface RoleContext {
   allowedActions?: string[];
   allowedSkills?: string[];
   priorities?: string;
+  /** Skills whose preconditions don't hold right now → why (see skills/conditions.ts). */
+  unmetSkills?: Record<string, string>;
+  /** What the bot is after right now (goal, mission, surroundings) — picks which library skills are shown. */
+  skillQuery?: string;
 }
 
+/** How many dynamic (Voyager/generated) skills the strategic prompt shows. */
+const LIBRARY_SKILLS_SHOWN = 8;
+
 /**
  * Strategic prompt — goal-setting and planning decisions.
  * Used with the strong model (32b). Called every ~10s or on goal complete/fail.
+ * With `useTools`, the model answers with a native tool call instead of JSON text.
  */
-export function buildStrategicPrompt(role: RoleContext): string {
+export function buildStrategicPrompt(role: RoleContext, useTools = false): string {
   const name = role.name;
 
   // Build action list — role-specific if configured, otherwise full list
-  const universalActions = "idle, respond_to_chat, invoke_skill, deposit_stash, withdraw_stash";
+  const universalActions = `idle, respond_to_chat, invoke_skill, deposit_stash, withdraw_stash, ${[...TASK_ACTIONS, ...TRANSFER_ACTIONS, ...POLL_ACTIONS].join(", ")}`;
   const actions = role.allowedActions?.length
     ? role.allowedActions.join(", ") + ", " + universalActions
-    : "gather_wood, mine_block, go_to, explore, craft, eat, attack, flee, place_block, sleep, idle, chat, respond_to_chat, invoke_skill, generate_skill, neural_combat, deposit_stash, withdraw_stash";
+    : `gather_wood, mine_block, go_to, explore, craft, eat, attack, flee, place_block, sleep, idle, chat, respond_to_chat, invoke_skill, generate_skill, neural_combat, deposit_stash, withdraw_stash, ${[...TASK_ACTIONS, ...TRANSFER_ACTIONS, ...POLL_ACTIONS].join(", ")}`;
 
   // Skills list
-  const builtinSkills = role.allowedSkills?.length ? role.allowedSkills.join(", ") : "";
-  const skillLines = !role.allowedSkills?.length ? getSkillPromptLines() : "";
-
+  const unmet = role.unmetSkills ?? {};
+  const builtinSkills = role.allowedSkills?.length
+    ? role.allowedSkills.map((s) => (unmet[s] ? `${s} (not ready: ${unmet[s]})` : s)).join(", ")
+    : "";
   const dynamicSkills = getDynamicSkillNames();
+  const skillLines = !role.allowedSkills?.length ? getSkillPromptLines(unmet, new Set(dynamicSkills)) : "";
+
+  // Library skills that match what the bot is doing; without a query, the first few
+  const relevant = role.skillQuery ? retrieveSkills(role.skillQuery, LIBRARY_SKILLS_SHOWN) : [];
   const dynamicLine =
-    dynamicSkills.length > 0
-      ? `\nDynamic skills (use invoke_skill): ${dynamicSkills.slice(0, 8).join(", ")}${dynamicSkills.length > 8 ? ` (+${dynamicSkills.length - 8} more)` : ""}`
-      : "";
+    relevant.length > 0
+      ? `\nSKILL LIBRARY — most relevant of ${dynamicSkills.length} (use invoke_skill):\n${relevant.map((s) => `- ${s.name}: ${s.description}`).join("\n")}`
+      : dynamicSkills.length > 0
+        ? `\nDynamic skills (use invoke_skill): ${dynamicSkills.slice(0, LIBRARY_SKILLS_SHOWN).join(", ")}${dynamicSkills.length > LIBRARY_SKILLS_SHOWN ? ` (+${dynamicSkills.length - LIBRARY_SKILLS_SHOWN} more)` : ""}`
+        : "";
 
   const missionLine = role.seasonGoal
     ? `🎯 MISSION: ${role.seasonGoal}\nEvery decision should advance this mission.\n\n`
@@ -58,22 +78,23 @@ ${skillLines}${dynamicLine}
 
 ${role.priorities || ""}
 
-CRAFTING BASICS:
-- Logs → planks (1 log = 4 planks). Planks → sticks (2 planks = 4 sticks).
-- 3 planks + 2 sticks → wooden_pickaxe. 2 planks → crafting_table.
-- Wool from killing sheep (0-2 per sheep). 3 wool + 3 planks → bed.
-- Use exact Minecraft IDs: oak_planks, stick, wooden_pickaxe, etc.
+CRAFTING: craft any item by exact Minecraft ID — it crafts planks, sticks and a crafting table on the way. If materials are missing it replies with a step-by-step plan; follow it.
 
 RULES:
-- Respond ONLY with valid JSON. Keep "thought" under 120 chars — shown on stream.
+- ${useTools ? "Call exactly ONE tool per turn" : "Respond ONLY with valid JSON"}. Keep "thought" under 120 chars — shown on stream.
 - Be entertaining, dramatic, in-character. Name things. Exaggerate.
 - READ your inventory before choosing. Don't craft without materials.
 - If an action failed recently, try something COMPLETELY DIFFERENT.
 - FOCUS: Finish one goal before starting another. Plan 3-5 steps ahead.
 - PREFER SKILLS over manual actions when available.
 
-RESPONSE FORMAT:
-{"thought":"Brief entertaining narration","action":"action_name","params":{...},"goal":"Current objective","goalSteps":5}
+${
+  useTools
+    ? `RESPONSE FORMAT:
+Call the tool for your chosen action. Put your narration in "thought".`
+    : `RESPONSE FORMAT:
+{"thought":"Brief entertaining narration","action":"action_name","params":{...},"goal":"Current objective","goalSteps":5}`
+}
 
 Set "goal" when starting something new. Omit when continuing.
 `;
@@ -84,7 +105,7 @@ Set "goal" when starting something new. Omit when continuing.
  * Used with fast model (8b). Called on hostile spotted, damage taken, low health.
  * Deliberately tiny (~300 tokens) so the 8b model can handle it reliably.
  */
-export function buildReactivePrompt(name: string, allowedActions?: string[]): string {
+export function buildReactivePrompt(name: string, allowedActions?: string[], useTools = false): string {
   // Build action descriptions from what this bot is allowed to do
   const actionDescriptions: Record<string, string> = {
     attack: "attack: Melee attack nearest mob",
@@ -94,19 +115,18 @@ export function buildReactivePrompt(name: string, allowedActions?: string[]): st
     go_to: "go_to: Move to a location",
     idle: "idle: Wait and reassess",
   };
-  const reactiveRelevant = ["attack", "flee", "eat", "neural_combat", "idle"];
-  const available = (
-    allowedActions?.length
-      ? reactiveRelevant.filter((a) => allowedActions.includes(a) || a === "idle")
-      : reactiveRelevant
-  )
+  const available = reactiveActionNames(allowedActions)
     .map((a) => `- ${actionDescriptions[a] || a}`)
     .join("\n");
 
+  const format = useTools
+    ? `Choose ONE action by calling its tool. Keep "thought" under 80 chars.`
+    : `Choose ONE action. Respond with JSON ONLY:
+{"thought":"Brief reaction (under 80 chars)","action":"action_name","params":{}}`;
+
   return `You are ${name} in Minecraft. QUICK DECISION — react to the situation below.
 
-Choose ONE action. Respond with JSON ONLY:
-{"thought":"Brief reaction (under 80 chars)","action":"action_name","params":{}}
+${format}
 
 Available actions:
 ${available}
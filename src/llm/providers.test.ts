@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { createScriptedProvider, createOpenAIProvider, setProvider, resetProviders } from "./providers.js";
+
+// ── Scripted provider ───────────────────────────────────────────────────────
+
+test("scripted provider: replays responses in order then falls back to idle", async () => {
+  const provider = createScriptedProvider(["first", "second"]);
+  const req = { model: "m", messages: [{ role: "user" as const, content: "hi" }] };
+
+  assert.equal((await provider.chat(req)).content, "first");
+  assert.equal((await provider.chat(req)).content, "second");
+  const exhausted = JSON.parse((await provider.chat(req)).content);
+  assert.equal(exhausted.action, "idle");
+  assert.equal(provider.calls.length, 3);
+});
+
+test("scripted provider: function responses see the request", async () => {
+  const provider = createScriptedProvider([(req) => `model=${req.model}`]);
+  const res = await provider.chat({ model: "qwen3:8b", messages: [] });
+  assert.equal(res.content, "model=qwen3:8b");
+});
+
+// ── OpenAI-compatible provider ──────────────────────────────────────────────
+
+function startMockOpenAI(
+  reply: (body: any) => any,
+): Promise<{ server: http.Server; url: string; requests: { path: string; auth?: string; body: any }[] }> {
+  const requests: { path: string; auth?: string; body: any }[] = [];
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (c) => (raw += c));
+      req.on("end", () => {
+        const body = JSON.parse(raw);
+        requests.push({ path: req.url ?? "", auth: req.headers.authorization, body });
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(reply(body)));
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+test("openai provider: posts to /v1/chat/completions and maps options", async () => {
+  const mock = await startMockOpenAI(() => ({ choices: [{ message: { role: "assistant", content: "hello" } }] }));
+  try {
+    const provider = createOpenAIProvider(mock.url, "sk-test");
+    const res = await provider.chat({
+      model: "llama",
+      messages: [{ role: "user", content: "yo" }],
+      temperature: 0.4,
+      maxTokens: 64,
+    });
+    assert.equal(res.content, "hello");
+    assert.equal(mock.requests[0].path, "/v1/chat/completions");
+    assert.equal(mock.requests[0].auth, "Bearer sk-test");
+    assert.equal(mock.requests[0].body.max_tokens, 64);
+    assert.equal(mock.requests[0].body.temperature, 0.4);
+  } finally {
+    mock.server.close();
+  }
+});
+
+test("openai provider: does not double the /v1 suffix", async () => {
+  const mock = await startMockOpenAI(() => ({ choices: [{ message: { content: "ok" } }] }));
+  try {
+    await createOpenAIProvider(`${mock.url}/v1/`).chat({ model: "m", messages: [] });
+    assert.equal(mock.requests[0].path, "/v1/chat/completions");
+    assert.equal(mock.requests[0].auth, undefined);
+  } finally {
+    mock.server.close();
+  }
+});
+
+// ── Tier routing ────────────────────────────────────────────────────────────
+
+test("queryReactive and queryCritic route to their own tier providers", async () => {
+  const { queryReactive, queryCritic } = await import("./index.js");
+  const reactive = createScriptedProvider(['{"thought":"run!","action":"flee","params":{}}']);
+  const critic = createScriptedProvider(['{"success":true,"thought":"fine","nextAction":null,"goalComplete":true}']);
+  setProvider("reactive", reactive);
+  setProvider("critic", critic);
+  try {
+    const decision = await queryReactive("Atlas", "THREAT: zombie (3 blocks)");
+    assert.equal(decision.action, "flee");
+    assert.equal(reactive.calls.length, 1);
+
+    const verdict = await queryCritic("Atlas", "Action: flee\nResult: Fled");
+    assert.equal(verdict.goalComplete, true);
+    assert.equal(critic.calls.length, 1);
+    assert.equal(reactive.calls.length, 1, "critic must not hit the reactive provider");
+  } finally {
+    resetProviders();
+  }
+});
@@ -0,0 +1,232 @@
+/**
+ * Pluggable LLM backends.
+ *
+ * Every query function in src/llm/index.ts talks to an LLMProvider chosen per
+ * call tier (strategic / reactive / critic / chat), so the fast model can sit
+ * on a llama.cpp server while the strong model stays on Ollama:
+ *
+ * - ollama   — the official Ollama client (default)
+ * - openai   — any OpenAI-compatible /v1/chat/completions endpoint
+ *              (llama.cpp server, vLLM, LM Studio, Ollama's /v1 shim)
+ * - scripted — canned responses, for tests and offline runs without a model
+ *
+ * Tiers are configured via LLM_<TIER>_PROVIDER / _HOST / _MODEL / _API_KEY /
+ * _SCRIPT env vars (see config.ts). Tests can swap a tier at runtime with
+ * setProvider().
+ */
+
+import fs from "fs";
+import { Ollama } from "ollama";
+import { config, type LLMTier, type LLMTierConfig } from "../config.js";
+import { toFunctionSchema, type LLMTool, type LLMToolCall } from "./tools.js";
+
+export interface LLMChatRequest {
+  model: string;
+  messages: { role: "system" | "user" | "assistant"; content: string }[];
+  temperature?: number;
+  /** Max tokens to generate (Ollama: num_predict, OpenAI: max_tokens). */
+  maxTokens?: number;
+  /** Ollama thinking mode. Ignored by providers that don't support it. */
+  think?: boolean;
+  /** Native tool definitions — the model may answer with toolCalls instead of text. */
+  tools?: LLMTool[];
+}
+
+export interface LLMChatResponse {
+  content: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  /** Short label for logs, e.g. "ollama@http://localhost:11434". */
+  name: string;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+}
+
+// ─── Ollama ─────────────────────────────────────────────────────────────────
+
+export function createOllamaProvider(host: string): LLMProvider {
+  const client = new Ollama({ host });
+  return {
+    name: `ollama@${host}`,
+    async chat(request) {
+      const response = await client.chat({
+        model: request.model,
+        messages: request.messages,
+        ...(request.think !== undefined ? { think: request.think } : {}),
+        ...(request.tools?.length ? { tools: request.tools.map(toFunctionSchema) } : {}),
+        options: {
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== undefined ? { num_predict: request.maxTokens } : {}),
+        },
+      });
+      const toolCalls = response.message.tool_calls?.map((tc) => ({
+        name: tc.function.name,
+        arguments: tc.function.arguments ?? {},
+      }));
+      return { content: response.message.content, ...(toolCalls?.length ? { toolCalls } : {}) };
+    },
+  };
+}
+
+// ─── OpenAI-compatible HTTP ─────────────────────────────────────────────────
+
+/**
+ * Resolve the chat completions URL. Accepts a bare host ("http://localhost:8080")
+ * or a base URL that already ends in /v1.
+ */
+function completionsUrl(host: string): string {
+  const base = host.replace(/\/+$/, "");
+  return /\/v1$/.test(base) ? `${base}/chat/completions` : `${base}/v1/chat/completions`;
+}
+
+/** OpenAI sends tool arguments as a JSON string — parse it, recording (not throwing) on bad JSON. */
+function parseOpenAIToolCall(tc: any): LLMToolCall {
+  const name = String(tc?.function?.name ?? "");
+  const raw = tc?.function?.arguments;
+  if (typeof raw !== "string") return { name, arguments: raw ?? {} };
+  try {
+    return { name, arguments: raw.trim() ? JSON.parse(raw) : {} };
+  } catch (err: any) {
+    return { name, arguments: {}, argumentsError: err.message };
+  }
+}
+
+export function createOpenAIProvider(host: string, apiKey = ""): LLMProvider {
+  const url = completionsUrl(host);
+  return {
+    name: `openai@${host}`,
+    async chat(request) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          stream: false,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+          ...(request.tools?.length ? { tools: request.tools.map(toFunctionSchema) } : {}),
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`OpenAI-compatible endpoint returned ${res.status}: ${body.slice(0, 200)}`);
+      }
+      const data: any = await res.json();
+      const message = data?.choices?.[0]?.message;
+      const toolCalls: LLMToolCall[] | undefined = message?.tool_calls?.map((tc: any) => parseOpenAIToolCall(tc));
+      return { content: message?.content ?? "", ...(toolCalls?.length ? { toolCalls } : {}) };
+    },
+  };
+}
+
+// ─── Scripted (mock) ────────────────────────────────────────────────────────
+
+export type ScriptedResponse = string | LLMChatResponse | ((request: LLMChatRequest) => string | LLMChatResponse);
+
+export interface ScriptedProvider extends LLMProvider {
+  /** Every request received, in order — for test assertions. */
+  calls: LLMChatRequest[];
+  /** Append more responses to the script. */
+  push(...responses: ScriptedResponse[]): void;
+}
+
+const SCRIPT_EXHAUSTED_RESPONSE = '{"thought":"Script exhausted.","action":"idle","params":{}}';
+
+/**
+ * Replays canned responses in order. Once the script runs out, every call
+ * returns `fallback` (an idle decision by default) so a brain never stalls.
+ */
+export function createScriptedProvider(
+  responses: ScriptedResponse[] = [],
+  fallback: string = SCRIPT_EXHAUSTED_RESPONSE,
+): ScriptedProvider {
+  const queue = [...responses];
+  const calls: LLMChatRequest[] = [];
+  return {
+    name: "scripted",
+    calls,
+    push(...more) {
+      queue.push(...more);
+    },
+    async chat(request) {
+      calls.push(request);
+      const next = queue.shift();
+      if (next === undefined) return { content: fallback };
+      const out = typeof next === "function" ? next(request) : next;
+      return typeof out === "string" ? { content: out } : out;
+    },
+  };
+}
+
+/**
+ * Load a scripted provider from a JSON file. Entries are response strings,
+ * `{ "content": ..., "toolCalls": [...] }` responses, or bare decision objects
+ * (which are stringified as if the model had written them).
+ */
+function loadScriptFile(file: string): ScriptedProvider {
+  if (!file) return createScriptedProvider();
+  const parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!Array.isArray(parsed)) throw new Error(`LLM script ${file} must be a JSON array of strings`);
+  return createScriptedProvider(
+    parsed.map((r) =>
+      typeof r === "string" ? r : Array.isArray(r?.toolCalls) ? (r as LLMChatResponse) : JSON.stringify(r),
+    ),
+  );
+}
+
+// ─── Tier registry ──────────────────────────────────────────────────────────
+
+export function createProvider(tierConfig: LLMTierConfig): LLMProvider {
+  switch (tierConfig.provider) {
+    case "ollama":
+      return createOllamaProvider(tierConfig.host);
+    case "openai":
+      return createOpenAIProvider(tierConfig.host, tierConfig.apiKey);
+    case "scripted":
+      return loadScriptFile(tierConfig.script);
+    default:
+      throw new Error(`Unknown LLM provider "${tierConfig.provider}" (expected ollama, openai or scripted)`);
+  }
+}
+
+// Providers are created lazily and shared per tier. Tiers pointing at the same
+// Ollama host share one client so connection reuse matches the old singleton.
+const providers = new Map<LLMTier, LLMProvider>();
+const sharedByKey = new Map<string, LLMProvider>();
+
+/** Get the provider for a call tier, creating it from config on first use. */
+export function getProvider(tier: LLMTier): LLMProvider {
+  let provider = providers.get(tier);
+  if (!provider) {
+    const tierConfig = config.llm[tier];
+    const key = `${tierConfig.provider}|${tierConfig.host}|${tierConfig.apiKey}|${tierConfig.script}`;
+    provider = tierConfig.provider === "scripted" ? undefined : sharedByKey.get(key);
+    if (!provider) {
+      provider = createProvider(tierConfig);
+      if (tierConfig.provider !== "scripted") sharedByKey.set(key, provider);
+    }
+    providers.set(tier, provider);
+  }
+  return provider;
+}
+
+/** Model name configured for a tier. */
+export function getModel(tier: LLMTier): string {
+  return config.llm[tier].model;
+}
+
+/** Override the provider for a tier (tests, runtime switching). */
+export function setProvider(tier: LLMTier, provider: LLMProvider): void {
+  providers.set(tier, provider);
+}
+
+/** Drop all cached/overridden providers so the next call re-reads config. */
+export function resetProviders(): void {
+  providers.clear();
+  sharedByKey.clear();
+}
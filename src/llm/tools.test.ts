@@ -0,0 +1,124 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildActionTools,
+  validateToolCall,
+  toolCallToDecision,
+  toFunctionSchema,
+  ToolCallValidationError,
+} from "./tools.js";
+import { createScriptedProvider, setProvider, resetProviders } from "./providers.js";
+
+// ── Tool catalogue ──────────────────────────────────────────────────────────
+
+test("buildActionTools: role tools = allowed actions + universal actions + allowed skills", () => {
+  const tools = buildActionTools({ allowedActions: ["gather_wood", "craft"], allowedSkills: ["build_house"] });
+  const names = tools.map((t) => t.name);
+  assert.ok(names.includes("gather_wood"));
+  assert.ok(names.includes("craft"));
+  assert.ok(names.includes("invoke_skill"), "universal actions are always offered");
+  assert.ok(names.includes("build_house"), "allowed skills become tools");
+  assert.ok(!names.includes("attack"), "actions outside the role are not offered");
+});
+
+test("buildActionTools: every tool carries the thought/goal meta params", () => {
+  for (const tool of buildActionTools()) {
+    assert.equal(tool.parameters.thought?.required, true, `${tool.name} should require thought`);
+    assert.ok(tool.parameters.goal);
+  }
+});
+
+test("toFunctionSchema: lists required params", () => {
+  const [craft] = buildActionTools({ only: ["craft"] });
+  const schema = toFunctionSchema(craft);
+  assert.equal(schema.function.name, "craft");
+  assert.deepEqual(schema.function.parameters.required.sort(), ["item", "thought"]);
+});
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+test("validateToolCall: accepts a valid call and coerces numeric strings", () => {
+  const tools = buildActionTools({ only: ["go_to"] });
+  const call = { name: "go_to", arguments: { thought: "going", x: "10", z: -5 } };
+  assert.equal(validateToolCall(call, tools), null);
+  assert.equal(call.arguments.x, 10);
+});
+
+test("validateToolCall: reports unknown tools with the offered list", () => {
+  const tools = buildActionTools({ only: ["flee", "idle"] });
+  const err = validateToolCall({ name: "teleport", arguments: { thought: "zoom" } }, tools);
+  assert.ok(err instanceof ToolCallValidationError);
+  assert.equal(err.toolName, "teleport");
+  assert.match(err.message, /flee, idle/);
+});
+
+test("validateToolCall: reports missing required and bad enum values together", () => {
+  const tools = buildActionTools({ only: ["explore", "craft"] });
+  const craftErr = validateToolCall({ name: "craft", arguments: { thought: "hm" } }, tools);
+  assert.ok(craftErr);
+  assert.match(craftErr.issues[0], /missing required "item"/);
+
+  const exploreErr = validateToolCall({ name: "explore", arguments: { direction: "up" } }, tools);
+  assert.ok(exploreErr);
+  assert.equal(exploreErr.issues.length, 2);
+});
+
+test("validateToolCall: invoke_skill must name a registered skill", () => {
+  const tools = buildActionTools({ only: ["invoke_skill"] });
+  const err = validateToolCall({ name: "invoke_skill", arguments: { thought: "x", skill: "doTheImpossible" } }, tools);
+  assert.ok(err);
+  assert.match(err.message, /no skill named "doTheImpossible"/);
+  assert.equal(
+    validateToolCall({ name: "invoke_skill", arguments: { thought: "x", skill: "strip_mine" } }, tools),
+    null,
+  );
+});
+
+test("toolCallToDecision: splits meta params from action params", () => {
+  const decision = toolCallToDecision({
+    name: "craft",
+    arguments: { thought: "sticks!", goal: "tools", goalSteps: 3, item: "stick", count: 2 },
+  });
+  assert.deepEqual(decision, {
+    thought: "sticks!",
+    action: "craft",
+    params: { item: "stick", count: 2 },
+    goal: "tools",
+    goalSteps: 3,
+  });
+});
+
+// ── Repair loop ─────────────────────────────────────────────────────────────
+
+test("queryReactive: feeds a validation error back once and uses the repaired call", async () => {
+  const { queryReactive } = await import("./index.js");
+  const provider = createScriptedProvider([
+    { content: "", toolCalls: [{ name: "teleport_home", arguments: { thought: "bye" } }] },
+    { content: "", toolCalls: [{ name: "flee", arguments: { thought: "RUN" } }] },
+  ]);
+  setProvider("reactive", provider);
+  try {
+    const decision = await queryReactive("Atlas", "THREAT: creeper (2 blocks)");
+    assert.equal(decision.action, "flee");
+    assert.equal(decision.thought, "RUN");
+    assert.equal(provider.calls.length, 2);
+    const feedback = provider.calls[1].messages.at(-1)!.content;
+    assert.match(feedback, /Invalid call to "teleport_home"/);
+    assert.ok(provider.calls[0].tools?.length, "tools are offered to the model");
+  } finally {
+    resetProviders();
+  }
+});
+
+test("queryReactive: gives up with idle after one failed repair", async () => {
+  const { queryReactive } = await import("./index.js");
+  const provider = createScriptedProvider(["no idea", "still no idea"]);
+  setProvider("reactive", provider);
+  try {
+    const decision = await queryReactive("Atlas", "LOW HUNGER: 4/20");
+    assert.equal(decision.action, "idle");
+    assert.equal(provider.calls.length, 2);
+  } finally {
+    resetProviders();
+  }
+});
@@ -0,0 +1,409 @@
+/**
+ * Native tool-calling for decisions.
+ *
+ * The action catalogue (built-in actions, registered skills and their params)
+ * is exposed to the model as structured tool definitions. A tool call is
+ * validated against its schema before it ever reaches executeAction(); an
+ * invalid call yields a ToolCallValidationError that the query functions feed
+ * back to the model for one repair attempt.
+ */
+
+import { skillRegistry } from "../skills/registry.js";
+import { getDynamicSkillNames } from "../skills/dynamic-loader.js";
+import { TASK_ACTIONS } from "../bot/tasks.js";
+import { TRANSFER_ACTIONS } from "../bot/transfers.js";
+import { POLL_ACTIONS } from "../stream/polls.js";
+
+export interface LLMToolParam {
+  type: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description: string;
+  enum?: (string | number)[];
+  required?: boolean;
+}
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, LLMToolParam>;
+}
+
+export interface LLMToolCall {
+  name: string;
+  arguments: Record<string, any>;
+  /** Set by providers when the raw arguments string wasn't valid JSON. */
+  argumentsError?: string;
+}
+
+/**
+ * A tool call that doesn't match its schema. `issues` lists every problem found.
+ * `toolName` is empty when the model didn't call a tool at all.
+ */
+export class ToolCallValidationError extends Error {
+  readonly toolName: string;
+  readonly issues: string[];
+
+  constructor(toolName: string, issues: string[]) {
+    super(`${toolName ? `Invalid call to "${toolName}"` : "Invalid response"}: ${issues.join("; ")}`);
+    this.name = "ToolCallValidationError";
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+// ─── Catalogue ──────────────────────────────────────────────────────────────
+
+/**
+ * Narration and goal tracking ride along on every tool call, since a tool call
+ * has no free-text "thought" field of its own. Stripped before execution.
+ */
+const META_PARAMS: Record<string, LLMToolParam> = {
+  thought: {
+    type: "string",
+    description: "Brief entertaining narration, under 120 chars — shown on stream",
+    required: true,
+  },
+  goal: { type: "string", description: "Current objective. Set when starting something new, omit when continuing" },
+  goalSteps: { type: "integer", description: "Estimated steps left to finish the goal" },
+};
+
+/** Built-in actions handled directly by executeAction(). */
+export const ACTION_TOOLS: Record<string, LLMTool> = {
+  gather_wood: {
+    name: "gather_wood",
+    description: "Chop the nearest trees for logs.",
+    parameters: { count: { type: "integer", description: "How many logs to gather (default 5)" } },
+  },
+  mine_block: {
+    name: "mine_block",
+    description: "Walk to and mine the nearest block of a type.",
+    parameters: { blockType: { type: "string", description: "Exact block ID, e.g. iron_ore", required: true } },
+  },
+  go_to: {
+    name: "go_to",
+    description: "Walk to coordinates (max 200 blocks away).",
+    parameters: {
+      x: { type: "number", description: "X coordinate", required: true },
+      y: { type: "number", description: "Y coordinate (defaults to current height)" },
+      z: { type: "number", description: "Z coordinate", required: true },
+    },
+  },
+  explore: {
+    name: "explore",
+    description: "Travel 60-120 blocks in a direction and report what you find.",
+    parameters: {
+      direction: { type: "string", description: "Direction to explore", enum: ["north", "south", "east", "west"] },
+    },
+  },
+  craft: {
+    name: "craft",
+    description:
+      "Craft an item, crafting intermediates (planks, sticks, crafting table) on the way. Replies with a plan if raw materials are missing.",
+    parameters: {
+      item: { type: "string", description: "Exact item ID, e.g. oak_planks, stick, wooden_pickaxe", required: true },
+      count: { type: "integer", description: "How many of the item to make (default 1)" },
+    },
+  },
+  eat: { name: "eat", description: "Eat food to restore health/hunger.", parameters: {} },
+  attack: { name: "attack", description: "Melee attack the nearest mob.", parameters: {} },
+  flee: { name: "flee", description: "Run away from danger.", parameters: {} },
+  place_block: {
+    name: "place_block",
+    description: "Place a block from inventory next to you.",
+    parameters: { blockType: { type: "string", description: "Block ID to place", required: true } },
+  },
+  sleep: { name: "sleep", description: "Sleep in a nearby bed (places one from inventory if needed).", parameters: {} },
+  idle: { name: "idle", description: "Do nothing, just look around.", parameters: {} },
+  chat: {
+    name: "chat",
+    description: "Say something in game chat.",
+    parameters: { message: { type: "string", description: "What to say", required: true } },
+  },
+  respond_to_chat: {
+    name: "respond_to_chat",
+    description: "Reply to a player/viewer message.",
+    parameters: { message: { type: "string", description: "Your reply", required: true } },
+  },
+  invoke_skill: {
+    name: "invoke_skill",
+    description: "Run a skill by exact name (built-in or dynamic).",
+    parameters: { skill: { type: "string", description: "Exact skill name", required: true } },
+  },
+  generate_skill: {
+    name: "generate_skill",
+    description:
+      "Write a brand new JavaScript skill for a task, test it, and revise until it works; then use it via invoke_skill. It is only kept if it passes a check: verify_item/verify_block, else what the task names, else any inventory change.",
+    parameters: {
+      task: { type: "string", description: "What the new skill should do", required: true },
+      verify_item: { type: "string", description: "Item the skill must gain to pass, e.g. oak_log" },
+      verify_count: { type: "number", description: "How many of verify_item it must gain (default 1)" },
+      verify_block: {
+        type: "string",
+        description: "Block that must be within 8 blocks afterwards, e.g. crafting_table",
+      },
+    },
+  },
+  neural_combat: {
+    name: "neural_combat",
+    description: "AI-driven combat against nearby hostiles.",
+    parameters: { duration: { type: "number", description: "Seconds to fight (default 5)" } },
+  },
+  deposit_stash: { name: "deposit_stash", description: "Deposit excess items at the shared stash.", parameters: {} },
+  withdraw_stash: {
+    name: "withdraw_stash",
+    description: "Take items you need from the shared stash.",
+    parameters: {
+      item: { type: "string", description: "Item ID to withdraw", required: true },
+      count: { type: "integer", description: "How many (default 1)" },
+    },
+  },
+  post_task: {
+    name: "post_task",
+    description: "Post a task on the team board for a teammate (e.g. ask the builder for a house).",
+    parameters: {
+      title: { type: "string", description: "What needs doing", required: true },
+      role: { type: "string", description: "Teammate name or role that should do it" },
+      skills: { type: "string", description: "Comma-separated skills the claimer must have" },
+    },
+  },
+  claim_task: {
+    name: "claim_task",
+    description: "Claim an open task from the team board so nobody else duplicates it.",
+    parameters: { taskId: { type: "integer", description: "Task number", required: true } },
+  },
+  release_task: {
+    name: "release_task",
+    description: "Give up your task, or hand it straight to a teammate.",
+    parameters: {
+      reason: { type: "string", description: "Why you're letting it go" },
+      handTo: { type: "string", description: "Teammate to hand it to" },
+    },
+  },
+  complete_task: {
+    name: "complete_task",
+    description: "Mark your task done and tell the team.",
+    parameters: { result: { type: "string", description: "What you did" } },
+  },
+  request_items: {
+    name: "request_items",
+    description: "Ask teammates to bring you items they can spare (delivered to where you stand).",
+    parameters: {
+      item: { type: "string", description: "Item ID needed", required: true },
+      count: { type: "integer", description: "How many (default 1)" },
+    },
+  },
+  accept_request: {
+    name: "accept_request",
+    description: "Promise to fill a teammate's item request from your spare items.",
+    parameters: { requestId: { type: "integer", description: "Request number", required: true } },
+  },
+  deliver_items: {
+    name: "deliver_items",
+    description: "Walk to the request you accepted and hand the items over.",
+    parameters: {},
+  },
+  cancel_request: {
+    name: "cancel_request",
+    description: "Withdraw your item request, or back out of one you accepted.",
+    parameters: { requestId: { type: "integer", description: "Request number", required: true } },
+  },
+  start_poll: {
+    name: "start_poll",
+    description: "Let stream viewers vote on what you do next. The winner comes back to you as a directive.",
+    parameters: {
+      question: { type: "string", description: "What viewers are deciding" },
+      options: {
+        type: "string",
+        description: "2-6 choices split by |, e.g. nether | castle | diamonds",
+        required: true,
+      },
+      mission: { type: "boolean", description: "The winner becomes your season mission instead" },
+      seconds: { type: "integer", description: "How long voting stays open (default 90)" },
+    },
+  },
+};
+
+/** Actions every role may use regardless of allowedActions (mirrors the brain's gate). */
+export const UNIVERSAL_TOOL_NAMES = [
+  "idle",
+  "respond_to_chat",
+  "invoke_skill",
+  "deposit_stash",
+  "withdraw_stash",
+  ...TASK_ACTIONS,
+  ...TRANSFER_ACTIONS,
+  ...POLL_ACTIONS,
+];
+
+/** Actions that make sense for urgent reactive decisions. */
+const REACTIVE_ACTIONS = ["attack", "flee", "eat", "neural_combat", "idle"];
+
+/** Reactive actions available to a role — idle is always allowed. */
+export function reactiveActionNames(allowedActions?: string[]): string[] {
+  return allowedActions?.length
+    ? REACTIVE_ACTIONS.filter((a) => allowedActions.includes(a) || a === "idle")
+    : REACTIVE_ACTIONS;
+}
+
+function withMeta(tool: LLMTool): LLMTool {
+  return { ...tool, parameters: { ...META_PARAMS, ...tool.parameters } };
+}
+
+function skillTool(name: string): LLMTool | null {
+  const skill = skillRegistry.get(name);
+  if (!skill) return null;
+  const parameters: Record<string, LLMToolParam> = {};
+  for (const [key, p] of Object.entries(skill.params)) {
+    const range = p.min !== undefined && p.max !== undefined ? `, ${p.min} to ${p.max}` : "";
+    const fallback = p.default !== undefined ? `, default ${p.default}` : "";
+    parameters[key] = {
+      type: p.type,
+      description: `${p.description}${range}${fallback}`,
+      ...(p.enum ? { enum: p.enum } : {}),
+      ...(p.required ? { required: true } : {}),
+    };
+  }
+  return { name: skill.name, description: `[SKILL] ${skill.description}`, parameters };
+}
+
+/**
+ * Build the tool list for a decision.
+ * - With allowedActions: that role's actions + universal actions + its allowedSkills.
+ * - Without: every built-in action + every static (non-dynamic) skill.
+ * Dynamic skills stay behind invoke_skill to keep the tool list small.
+ * `only` restricts the result to a subset of names (used for reactive decisions).
+ */
+export function buildActionTools(
+  opts: { allowedActions?: string[]; allowedSkills?: string[]; only?: string[] } = {},
+): LLMTool[] {
+  const names = new Set<string>();
+  if (opts.allowedActions?.length) {
+    for (const a of opts.allowedActions) names.add(a);
+    for (const a of UNIVERSAL_TOOL_NAMES) names.add(a);
+    for (const s of opts.allowedSkills ?? []) names.add(s);
+  } else {
+    for (const a of Object.keys(ACTION_TOOLS)) names.add(a);
+    const dynamic = new Set(getDynamicSkillNames());
+    for (const s of skillRegistry.keys()) {
+      if (!dynamic.has(s)) names.add(s);
+    }
+  }
+
+  const tools: LLMTool[] = [];
+  for (const name of names) {
+    if (opts.only && !opts.only.includes(name)) continue;
+    const tool = ACTION_TOOLS[name] ?? skillTool(name);
+    if (tool) tools.push(withMeta(tool));
+  }
+  return tools;
+}
+
+/** Convert a tool to the JSON-schema function format shared by Ollama and OpenAI. */
+export function toFunctionSchema(tool: LLMTool) {
+  const properties: Record<string, { type: string; description: string; enum?: (string | number)[] }> = {};
+  const required: string[] = [];
+  for (const [key, p] of Object.entries(tool.parameters)) {
+    properties[key] = { type: p.type, description: p.description, ...(p.enum ? { enum: p.enum } : {}) };
+    if (p.required) required.push(key);
+  }
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: { type: "object", properties, required },
+    },
+  };
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+function checkType(value: any, param: LLMToolParam): { ok: boolean; value: any } {
+  switch (param.type) {
+    case "string":
+      return { ok: typeof value === "string", value };
+    case "number":
+    case "integer": {
+      // Small models often quote numbers — accept lossless numeric strings
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      const ok = typeof n === "number" && isFinite(n) && (param.type === "number" || Number.isInteger(n));
+      return { ok, value: n };
+    }
+    case "boolean": {
+      const b = value === "true" ? true : value === "false" ? false : value;
+      return { ok: typeof b === "boolean", value: b };
+    }
+    case "array":
+      return { ok: Array.isArray(value), value };
+    case "object":
+      return { ok: typeof value === "object" && value !== null && !Array.isArray(value), value };
+    default:
+      return { ok: true, value };
+  }
+}
+
+/**
+ * Validate a tool call against the offered tools. Coerces numeric/boolean
+ * strings and drops unknown arguments in place. Returns null when valid, otherwise a ToolCallValidationError.
+ */
+export function validateToolCall(call: LLMToolCall, tools: LLMTool[]): ToolCallValidationError | null {
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool) {
+    return new ToolCallValidationError(call.name, [
+      `unknown tool — choose one of: ${tools.map((t) => t.name).join(", ")}`,
+    ]);
+  }
+  if (call.argumentsError) {
+    return new ToolCallValidationError(call.name, [`arguments are not valid JSON (${call.argumentsError})`]);
+  }
+
+  const issues: string[] = [];
+  const args = call.arguments ?? {};
+  for (const [key, param] of Object.entries(tool.parameters)) {
+    const value = args[key];
+    if (value === undefined || value === null || value === "") {
+      if (param.required) issues.push(`missing required "${key}" (${param.type}: ${param.description})`);
+      continue;
+    }
+    const checked = checkType(value, param);
+    if (!checked.ok) {
+      issues.push(`"${key}" must be ${param.type}, got ${JSON.stringify(value)}`);
+      continue;
+    }
+    if (param.enum && !param.enum.includes(checked.value)) {
+      issues.push(`"${key}" must be one of ${param.enum.join(", ")}, got ${JSON.stringify(value)}`);
+      continue;
+    }
+    args[key] = checked.value;
+  }
+  // Extra arguments are harmless to executeAction — drop them rather than burn a repair on them
+  for (const key of Object.keys(args)) {
+    if (!(key in tool.parameters)) delete args[key];
+  }
+
+  // invoke_skill must name something that actually exists
+  if (call.name === "invoke_skill" && typeof args.skill === "string" && args.skill) {
+    if (!skillRegistry.has(args.skill) && !(args.skill in ACTION_TOOLS)) {
+      issues.push(`no skill named "${args.skill}"`);
+    }
+  }
+
+  return issues.length > 0 ? new ToolCallValidationError(call.name, issues) : null;
+}
+
+/** Split a validated tool call into the decision shape used by the brain. */
+export function toolCallToDecision(call: LLMToolCall): {
+  thought: string;
+  action: string;
+  params: Record<string, any>;
+  goal?: string;
+  goalSteps?: number;
+} {
+  const { thought, goal, goalSteps, ...params } = call.arguments ?? {};
+  return {
+    thought: typeof thought === "string" && thought.trim() ? thought.trim() : "...",
+    action: call.name,
+    params,
+    goal: typeof goal === "string" && goal ? goal : undefined,
+    goalSteps: typeof goalSteps === "number" ? goalSteps : undefined,
+  };
+}
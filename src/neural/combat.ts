@@ -5,8 +5,9 @@ import { buildObservation, queryNeural, isNeuralServerRunning } from "./bridge.j
 const TICK_MS = 50;
 const NEURAL_PORT = 12345;
 
-export async function runNeuralCombat(bot: Bot, durationSeconds: number): Promise<string> {
-  const duration = Math.min(Math.max(durationSeconds, 1), 10);
+/** Fight nearby hostiles for up to `durationSeconds`, capped at `maxSeconds` (the LLM's bursts stay short). */
+export async function runNeuralCombat(bot: Bot, durationSeconds: number, maxSeconds = 10): Promise<string> {
+  const duration = Math.min(Math.max(durationSeconds, 1), maxSeconds);
   const endTime = Date.now() + duration * 1000;
 
   const serverUp = await isNeuralServerRunning(NEURAL_PORT);
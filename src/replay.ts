@@ -0,0 +1,35 @@
+/**
+ * Replay recorded brain sessions offline — no Minecraft server, no model.
+ *
+ *   npm run replay -- logs/sessions/atlas-2025-01-01T12-00-00-000Z.jsonl [more.jsonl] [--verbose]
+ *
+ * Exits 1 when any replayed decision or result differs from the recording.
+ * Prompt changes alone are reported but don't fail the run.
+ */
+
+import { loadDynamicSkills } from "./skills/dynamic-loader.js";
+import { loadMacroSkills } from "./skills/macros.js";
+import { loadSession } from "./bot/recorder.js";
+import { replaySession, formatReplayReport } from "./bot/replay.js";
+
+const args = process.argv.slice(2);
+const verbose = args.includes("--verbose");
+const files = args.filter((a) => !a.startsWith("--"));
+
+if (files.length === 0) {
+  console.error("Usage: npm run replay -- <session.jsonl> [more.jsonl] [--verbose]");
+  process.exit(2);
+}
+
+// invoke_skill validation needs the same skills the live run had
+loadDynamicSkills();
+loadMacroSkills();
+
+let mismatches = 0;
+for (const file of files) {
+  const report = await replaySession(loadSession(file));
+  console.log(`\n${file}\n${formatReplayReport(report, verbose)}`);
+  mismatches += report.mismatches;
+}
+
+process.exit(mismatches > 0 ? 1 : 0);
@@ -0,0 +1,162 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import nbt from "prismarine-nbt";
+import {
+  blueprintFromJson,
+  blueprintFromLitematic,
+  blueprintKey,
+  computeMaterials,
+  DEFAULT_BLUEPRINT_DIR,
+  loadBlueprintFile,
+  loadBlueprints,
+  parseBlockState,
+} from "./blueprints/loader.js";
+
+test("parseBlockState: strips the namespace and splits properties", () => {
+  assert.deepEqual(parseBlockState("minecraft:stone"), { block: "stone" });
+  assert.deepEqual(parseBlockState("oak_stairs[facing=north, half=top]"), {
+    block: "oak_stairs",
+    properties: { facing: "north", half: "top" },
+  });
+});
+
+test("computeMaterials: counts items, not blocks", () => {
+  const materials = computeMaterials([
+    { pos: [0, 0, 0], block: "oak_door", properties: { half: "lower" }, phase: "interior" },
+    { pos: [0, 1, 0], block: "oak_door", properties: { half: "upper" }, phase: "interior" },
+    { pos: [1, 0, 0], block: "stone_slab", properties: { type: "double" }, phase: "structure" },
+    { pos: [2, 0, 0], block: "wall_torch", properties: { facing: "east" }, phase: "interior" },
+    { pos: [3, 0, 0], block: "oak_wall_sign", phase: "interior" },
+    { pos: [4, 0, 0], block: "red_bed", properties: { part: "head" }, phase: "interior" },
+  ]);
+  assert.deepEqual(materials, { oak_door: 1, stone_slab: 2, torch: 1, oak_sign: 1 });
+});
+
+test("blueprintFromJson: hollow fills, air carving, and normalization to the origin", () => {
+  const bp = blueprintFromJson(
+    {
+      fills: [
+        { from: [10, 5, 10], to: [12, 6, 12], block: "cobblestone", hollow: true },
+        { from: [11, 5, 10], to: [11, 6, 10], block: "air" },
+      ],
+      blocks: [{ pos: [11, 5, 11], block: "torch" }],
+    },
+    "hut",
+  );
+  assert.equal(bp.name, "hut");
+  assert.deepEqual(bp.dimensions, [3, 2, 3]);
+  // 8-block ring per layer, minus the 2-block doorway, plus the torch
+  assert.equal(bp.blocks.length, 8 * 2 - 2 + 1);
+  assert.deepEqual(bp.materials, { cobblestone: 14, torch: 1 });
+  const torch = bp.blocks.find((b) => b.block === "torch");
+  assert.deepEqual(torch?.pos, [1, 0, 1]);
+  assert.equal(torch?.phase, "interior");
+  assert.ok(!bp.blocks.some((b) => b.pos[0] === 1 && b.pos[2] === 0));
+});
+
+test("blueprintFromJson: a build past 125k blocks loads", () => {
+  const bp = blueprintFromJson({ fills: [{ from: [-30, 0, -30], to: [29, 59, 29], block: "stone" }] }, "cube");
+  assert.deepEqual(bp.dimensions, [60, 60, 60]);
+  assert.equal(bp.materials.stone, 60 ** 3);
+});
+
+test("loadBlueprintFile: reads a gzipped Sponge v2 schematic", () => {
+  // 2 x 1 x 2: stone, air / stairs, stone (index = (y * length + z) * width + x)
+  const schem = nbt.writeUncompressed({
+    type: "compound",
+    name: "Schematic",
+    value: {
+      Version: { type: "int", value: 2 },
+      Width: { type: "short", value: 2 },
+      Height: { type: "short", value: 1 },
+      Length: { type: "short", value: 2 },
+      Palette: {
+        type: "compound",
+        value: {
+          "minecraft:air": { type: "int", value: 0 },
+          "minecraft:stone": { type: "int", value: 1 },
+          "minecraft:oak_stairs[facing=east,half=bottom]": { type: "int", value: 2 },
+        },
+      },
+      BlockData: { type: "byteArray", value: [1, 0, 2, 1] },
+    },
+  } as any);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprints-"));
+  const file = path.join(dir, "steps.schem");
+  fs.writeFileSync(file, zlib.gzipSync(schem));
+
+  const bp = loadBlueprintFile(file);
+  assert.equal(bp.name, "steps");
+  assert.equal(bp.blocks.length, 3);
+  assert.deepEqual(bp.materials, { stone: 2, oak_stairs: 1 });
+  const stairs = bp.blocks.find((b) => b.block === "oak_stairs");
+  assert.deepEqual(stairs?.pos, [0, 0, 1]);
+  assert.deepEqual(stairs?.properties, { facing: "east", half: "bottom" });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Pack palette indices the way Litematica does, as [high, low] int pairs. */
+function packLitematic(indices: number[], bits: number): [number, number][] {
+  const words = new Array(Math.ceil((indices.length * bits) / 64)).fill(0n);
+  indices.forEach((v, i) => {
+    const bit = i * bits;
+    const word = Math.floor(bit / 64);
+    const offset = BigInt(bit % 64);
+    words[word] |= BigInt.asUintN(64, BigInt(v) << offset);
+    if (Number(offset) + bits > 64) words[word + 1] |= BigInt(v) >> (64n - offset);
+  });
+  return words.map((w: bigint) => [Number(BigInt.asIntN(32, w >> 32n)), Number(BigInt.asIntN(32, w & 0xffffffffn))]);
+}
+
+test("blueprintFromLitematic: unpacks values spanning long boundaries and negative sizes", () => {
+  const palette = ["air", "stone", "oak_planks", "glass", "oak_log"].map((n) => ({ Name: `minecraft:${n}` }));
+  // 3 bits per entry x 27 entries crosses the first 64-bit word
+  const indices = Array.from({ length: 27 }, (_, i) => (i % 5 === 0 ? 0 : (i % 4) + 1));
+  const bp = blueprintFromLitematic(
+    {
+      Metadata: { Name: "Cube" },
+      Regions: {
+        main: {
+          Position: { x: 2, y: 0, z: 2 },
+          Size: { x: -3, y: 3, z: -3 },
+          BlockStatePalette: palette,
+          BlockStates: packLitematic(indices, 3),
+        },
+      },
+    },
+    "cube",
+  );
+  assert.equal(bp.name, "Cube");
+  assert.deepEqual(bp.dimensions, [3, 3, 3]);
+  assert.equal(bp.blocks.length, indices.filter((i) => i !== 0).length);
+  // Entry 21 is the one split across the two longs: (y=2, z=1, x=0) → palette (21 % 4) + 1
+  assert.equal(bp.blocks.find((b) => b.pos.join(",") === "0,2,1")?.block, palette[(21 % 4) + 1].Name.slice(10));
+});
+
+test("loadBlueprints: keys files by name and skips bad ones", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprints-"));
+  fs.writeFileSync(
+    path.join(dir, "Stone Tower.json"),
+    JSON.stringify({ name: "Stone Tower", fills: [{ from: [0, 0, 0], to: [2, 4, 2], block: "stone" }] }),
+  );
+  fs.writeFileSync(path.join(dir, "broken.json"), "{ not json");
+  fs.writeFileSync(path.join(dir, "notes.txt"), "ignored");
+
+  const originalError = console.error;
+  console.error = () => {};
+  const found = loadBlueprints(dir);
+  console.error = originalError;
+
+  assert.deepEqual([...found.keys()], [blueprintKey("Stone Tower")]);
+  assert.equal(found.get("stone_tower")?.materials.stone, 45);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("bundled blueprints load", () => {
+  const found = loadBlueprints(DEFAULT_BLUEPRINT_DIR);
+  assert.ok(found.has("watchtower") && found.has("wall") && found.has("storage_room"));
+});
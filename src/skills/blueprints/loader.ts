@@ -0,0 +1,312 @@
+/**
+ * Blueprint library — the built-in house plus every blueprint file in the
+ * blueprints/ directory (or BLUEPRINT_DIR).
+ *
+ * Supported files:
+ * - .json — a Blueprint, optionally using `fills` (cuboids) instead of listing
+ *   every block. Blocks may carry states: "oak_stairs[facing=north,half=top]".
+ * - .schem — Sponge schematic v2/v3 (WorldEdit, Amulet).
+ * - .litematic — Litematica; every region is merged into one blueprint.
+ *
+ * Imported blocks are normalized to start at (0, 0, 0), air is dropped, and
+ * `materials` is computed from the blocks when the file doesn't provide it.
+ */
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { fileURLToPath } from "url";
+import nbt from "prismarine-nbt";
+import type { Blueprint, BlueprintBlock } from "../types.js";
+import { houseBlueprint } from "./house.js";
+import { config } from "../../config.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/** Default blueprint directory (repo root /blueprints). */
+export const DEFAULT_BLUEPRINT_DIR = path.join(__dirname, "../../../blueprints");
+
+/** A cuboid of one block in a JSON blueprint. Later fills overwrite earlier ones; "air" carves. */
+interface BlueprintFill {
+  from: [number, number, number];
+  to: [number, number, number];
+  block: string;
+  phase?: BlueprintBlock["phase"];
+  /** Only the outer ring of each layer — walls without filling the inside. */
+  hollow?: boolean;
+}
+
+/** Blocks that go in after the shell: furniture, lights, doors. */
+const INTERIOR_PATTERNS = [
+  "torch",
+  "lantern",
+  "_door",
+  "_bed",
+  "crafting_table",
+  "furnace",
+  "chest",
+  "barrel",
+  "_carpet",
+  "_sign",
+  "_banner",
+  "flower_pot",
+  "bookshelf",
+  "ladder",
+];
+
+const AIR_BLOCKS = new Set(["air", "cave_air", "void_air", "structure_void"]);
+
+/** Block name → the item that places it, where they differ. */
+const BLOCK_ITEMS: Record<string, string> = {
+  wall_torch: "torch",
+  soul_wall_torch: "soul_torch",
+  redstone_wall_torch: "redstone_torch",
+  redstone_wire: "redstone",
+  tripwire: "string",
+  water: "water_bucket",
+  lava: "lava_bucket",
+};
+
+/** Split "minecraft:oak_stairs[facing=north,half=top]" into name and properties. */
+export function parseBlockState(state: string): { block: string; properties?: Record<string, string> } {
+  const match = /^(?:minecraft:)?([a-z0-9_]+)(?:\[(.*)\])?$/.exec(state.trim());
+  if (!match) return { block: state.trim() };
+  if (!match[2]) return { block: match[1] };
+  const properties: Record<string, string> = {};
+  for (const pair of match[2].split(",")) {
+    const [k, v] = pair.split("=");
+    if (k && v !== undefined) properties[k.trim()] = v.trim();
+  }
+  return { block: match[1], properties };
+}
+
+/**
+ * The item (and count) needed to place a blueprint block, or null when it
+ * takes no item of its own — air, the top half of a door, the head of a bed.
+ */
+export function blockItem(b: Pick<BlueprintBlock, "block" | "properties">): { item: string; count: number } | null {
+  const props = b.properties ?? {};
+  if (AIR_BLOCKS.has(b.block)) return null;
+  if (props.half === "upper" || props.part === "head") return null;
+  if (b.block.endsWith("_slab") && props.type === "double") return { item: b.block, count: 2 };
+  const item =
+    BLOCK_ITEMS[b.block] ??
+    (b.block.endsWith("_wall_sign") || b.block.endsWith("_wall_hanging_sign") || b.block.endsWith("_wall_banner")
+      ? b.block.replace("_wall_", "_")
+      : b.block);
+  return { item, count: 1 };
+}
+
+/** Item name → count for a block list. */
+export function computeMaterials(blocks: BlueprintBlock[]): Record<string, number> {
+  const materials: Record<string, number> = {};
+  for (const b of blocks) {
+    const need = blockItem(b);
+    if (need) materials[need.item] = (materials[need.item] ?? 0) + need.count;
+  }
+  return materials;
+}
+
+function phaseFor(block: string): BlueprintBlock["phase"] {
+  return INTERIOR_PATTERNS.some((p) => block.includes(p)) ? "interior" : "structure";
+}
+
+/** Shift blocks to start at (0, 0, 0), drop air, and fill in dimensions, entrance and materials. */
+function finish(name: string, raw: BlueprintBlock[], entrance?: Blueprint["entrance"]): Blueprint {
+  const blocks = raw.filter((b) => !AIR_BLOCKS.has(b.block));
+  if (blocks.length === 0) throw new Error(`Blueprint "${name}" has no blocks`);
+  // One pass — spreading a large schematic's blocks into Math.min overflows the stack
+  const min = [...blocks[0].pos];
+  const max = [...blocks[0].pos];
+  for (const b of blocks) {
+    for (let i = 0; i < 3; i++) {
+      if (b.pos[i] < min[i]) min[i] = b.pos[i];
+      if (b.pos[i] > max[i]) max[i] = b.pos[i];
+    }
+  }
+  const shifted = blocks.map((b) => ({
+    ...b,
+    pos: [b.pos[0] - min[0], b.pos[1] - min[1], b.pos[2] - min[2]] as [number, number, number],
+  }));
+  const dimensions = [0, 1, 2].map((i) => max[i] - min[i] + 1) as [number, number, number];
+  return {
+    name,
+    dimensions,
+    blocks: shifted,
+    // Default: stand just south of the middle of the south (z = 0) face
+    entrance: entrance ?? { pos: [Math.floor(dimensions[0] / 2), 1, -1], facing: "south" },
+    materials: computeMaterials(shifted),
+  };
+}
+
+/** Build a Blueprint from a parsed JSON file (`blocks` and/or `fills`). */
+export function blueprintFromJson(data: any, fallbackName: string): Blueprint {
+  const byPos = new Map<string, BlueprintBlock>();
+  const put = (b: BlueprintBlock) => byPos.set(b.pos.join(","), b);
+
+  for (const f of (data.fills ?? []) as BlueprintFill[]) {
+    const { block, properties } = parseBlockState(f.block);
+    const [x0, x1] = [Math.min(f.from[0], f.to[0]), Math.max(f.from[0], f.to[0])];
+    const [y0, y1] = [Math.min(f.from[1], f.to[1]), Math.max(f.from[1], f.to[1])];
+    const [z0, z1] = [Math.min(f.from[2], f.to[2]), Math.max(f.from[2], f.to[2])];
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          if (f.hollow && x !== x0 && x !== x1 && z !== z0 && z !== z1) continue;
+          put({ pos: [x, y, z], block, properties, phase: f.phase ?? phaseFor(block) });
+        }
+      }
+    }
+  }
+  for (const b of (data.blocks ?? []) as (BlueprintBlock & { block: string })[]) {
+    const { block, properties } = parseBlockState(b.block);
+    put({ pos: b.pos, block, properties: b.properties ?? properties, phase: b.phase ?? phaseFor(block) });
+  }
+
+  const bp = finish(String(data.name ?? fallbackName), [...byPos.values()], data.entrance as Blueprint["entrance"]);
+  if (data.materials) bp.materials = data.materials;
+  return bp;
+}
+
+function blocksFromPalette(
+  palette: Record<string, number>,
+  indices: number[],
+  size: { x: number; y: number; z: number },
+): BlueprintBlock[] {
+  const byIndex = new Map<number, ReturnType<typeof parseBlockState>>();
+  for (const [state, i] of Object.entries(palette)) byIndex.set(i, parseBlockState(state));
+  const blocks: BlueprintBlock[] = [];
+  indices.forEach((paletteIdx, i) => {
+    const state = byIndex.get(paletteIdx);
+    if (!state || AIR_BLOCKS.has(state.block)) return;
+    // Sponge order: index = (y * length + z) * width + x
+    const x = i % size.x;
+    const z = Math.floor(i / size.x) % size.z;
+    const y = Math.floor(i / (size.x * size.z));
+    blocks.push({ pos: [x, y, z], block: state.block, properties: state.properties, phase: phaseFor(state.block) });
+  });
+  return blocks;
+}
+
+/** Decode the unsigned varints of a Sponge BlockData array. */
+function readVarints(bytes: number[]): number[] {
+  const out: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const raw of bytes) {
+    const b = raw & 0xff;
+    value |= (b & 0x7f) << shift;
+    if (b & 0x80) {
+      shift += 7;
+    } else {
+      out.push(value);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return out;
+}
+
+/** Build a Blueprint from a Sponge schematic's simplified NBT (v2 or v3). */
+export function blueprintFromSponge(root: any, name: string): Blueprint {
+  const schem = root.Schematic ?? root; // v3 nests everything under "Schematic"
+  const size = { x: schem.Width, y: schem.Height, z: schem.Length };
+  const palette = schem.Blocks?.Palette ?? schem.Palette;
+  const data = schem.Blocks?.Data ?? schem.BlockData;
+  if (!palette || !data) throw new Error(`Schematic "${name}" has no block palette`);
+  return finish(name, blocksFromPalette(palette, readVarints(data), size));
+}
+
+/** Litematica longs are [high, low] int pairs; values span long boundaries. */
+function unpackLitematic(longs: [number, number][], bits: number, count: number): number[] {
+  const words = longs.map(([hi, lo]) => BigInt.asUintN(64, (BigInt(hi) << 32n) | BigInt(lo >>> 0)));
+  const mask = (1n << BigInt(bits)) - 1n;
+  const out: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const bit = BigInt(i * bits);
+    const word = Number(bit / 64n);
+    const offset = bit % 64n;
+    let value = words[word] >> offset;
+    if (offset + BigInt(bits) > 64n) value |= words[word + 1] << (64n - offset);
+    out.push(Number(value & mask));
+  }
+  return out;
+}
+
+/** Build a Blueprint from a Litematica file's simplified NBT, merging all regions. */
+export function blueprintFromLitematic(root: any, name: string): Blueprint {
+  const blocks: BlueprintBlock[] = [];
+  for (const region of Object.values<any>(root.Regions ?? {})) {
+    const size = { x: Math.abs(region.Size.x), y: Math.abs(region.Size.y), z: Math.abs(region.Size.z) };
+    // Negative sizes grow from Position toward lower coordinates
+    const base = ["x", "y", "z"].map((k) =>
+      region.Size[k] < 0 ? region.Position[k] + region.Size[k] + 1 : region.Position[k],
+    );
+    const palette: Record<string, number> = {};
+    (region.BlockStatePalette as { Name: string; Properties?: Record<string, string> }[]).forEach((p, i) => {
+      const props = p.Properties ? Object.entries(p.Properties).map(([k, v]) => `${k}=${v}`) : [];
+      palette[props.length > 0 ? `${p.Name}[${props.join(",")}]` : p.Name] = i;
+    });
+    const bits = Math.max(2, Math.ceil(Math.log2(region.BlockStatePalette.length)));
+    const indices = unpackLitematic(region.BlockStates, bits, size.x * size.y * size.z);
+    for (const b of blocksFromPalette(palette, indices, size)) {
+      blocks.push({ ...b, pos: [b.pos[0] + base[0], b.pos[1] + base[1], b.pos[2] + base[2]] });
+    }
+  }
+  return finish(root.Metadata?.Name || name, blocks);
+}
+
+/** Read one blueprint file by extension. */
+export function loadBlueprintFile(file: string): Blueprint {
+  const ext = path.extname(file).toLowerCase();
+  const name = path.basename(file, ext);
+  if (ext === ".json") return blueprintFromJson(JSON.parse(fs.readFileSync(file, "utf-8")), name);
+
+  let buf = fs.readFileSync(file);
+  if (buf[0] === 0x1f && buf[1] === 0x8b) buf = zlib.gunzipSync(buf);
+  const root = nbt.simplify(nbt.parseUncompressed(buf));
+  if (ext === ".schem") return blueprintFromSponge(root, name);
+  if (ext === ".litematic") return blueprintFromLitematic(root, name);
+  throw new Error(`Unsupported blueprint file: ${file}`);
+}
+
+/** Lookup key for a blueprint: "Stone Tower" → "stone_tower". */
+export function blueprintKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+/** Every blueprint in a directory, keyed by file name. Bad files are logged and skipped. */
+export function loadBlueprints(dir: string): Map<string, Blueprint> {
+  const found = new Map<string, Blueprint>();
+  if (!fs.existsSync(dir)) return found;
+  for (const entry of fs.readdirSync(dir).sort()) {
+    if (!/\.(json|schem|litematic)$/i.test(entry)) continue;
+    try {
+      found.set(blueprintKey(path.parse(entry).name), loadBlueprintFile(path.join(dir, entry)));
+    } catch (err) {
+      console.error(`[Blueprints] Failed to load ${entry}:`, err);
+    }
+  }
+  return found;
+}
+
+let library: Map<string, Blueprint> | null = null;
+
+/** Built-in house plus the blueprint directory, loaded once. */
+export function getBlueprints(): Map<string, Blueprint> {
+  if (!library) {
+    library = new Map([["house", houseBlueprint]]);
+    for (const [key, bp] of loadBlueprints(config.bot.blueprintDir || DEFAULT_BLUEPRINT_DIR)) library.set(key, bp);
+  }
+  return library;
+}
+
+/** Find a blueprint by file key or display name. */
+export function getBlueprint(name: string): Blueprint | undefined {
+  const key = blueprintKey(name);
+  const all = getBlueprints();
+  return all.get(key) ?? [...all.values()].find((bp) => blueprintKey(bp.name) === key);
+}
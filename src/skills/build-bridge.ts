@@ -3,6 +3,8 @@ import type { Skill, SkillResult } from "./types.js";
 import { Vec3 } from "vec3";
 
 const MAX_BRIDGE_LENGTH = 30;
+/** Longest bridge toward explicit destination coordinates. */
+const MAX_DESTINATION_LENGTH = 64;
 
 /** Block types usable for bridge building. */
 const BRIDGE_BLOCKS = [
@@ -23,26 +25,51 @@ const BRIDGE_BLOCKS = [
 export const buildBridgeSkill: Skill = {
   name: "build_bridge",
   description:
-    "Build a bridge across water or a gap in the direction you're facing. Uses cobblestone or planks from inventory. Max 30 blocks.",
-  params: {},
+    "Build a bridge across water or a gap, toward the given x/z (straight along the longer axis) or in the direction you're facing. Uses cobblestone or planks from inventory. Max 30 blocks facing, 64 to a destination.",
+  preconditions: [{ type: "item", name: BRIDGE_BLOCKS, count: 3, hint: "get cobblestone or planks" }],
+  postconditions: [{ type: "block_placed", name: BRIDGE_BLOCKS }],
+  params: {
+    x: { type: "number", description: "Destination X (optional, with z)" },
+    z: { type: "number", description: "Destination Z (optional, with x)" },
+  },
 
   estimateMaterials(_bot, _params) {
     return {};
   },
 
-  async execute(bot, _params, signal, onProgress): Promise<SkillResult> {
+  async execute(bot, params, signal, onProgress): Promise<SkillResult> {
     const blockCount = bot.inventory
       .items()
       .filter((i) => BRIDGE_BLOCKS.includes(i.name))
       .reduce((s, i) => s + i.count, 0);
 
     if (blockCount < 3) {
-      return { success: false, message: "Need building blocks for a bridge! Get cobblestone or planks first." };
+      return {
+        success: false,
+        message: "Need building blocks for a bridge! Get cobblestone or planks first.",
+        failureKind: "precondition",
+      };
     }
 
-    // Determine direction from bot's facing
-    const forward = getCardinalDirection(bot.entity.yaw);
+    if ((params.x === undefined) !== (params.z === undefined)) {
+      return { success: false, message: "Bridge destination needs both x and z." };
+    }
+
+    // Direction toward the destination, else from the bot's facing
+    const start = bot.entity.position.floored();
+    const destination = params.x !== undefined ? { x: Math.floor(params.x), z: Math.floor(params.z) } : null;
+    const forward = destination ? directionToward(start, destination) : getCardinalDirection(bot.entity.yaw);
     const dirStr = dirName(forward);
+    const maxSteps = destination
+      ? Math.min(Math.abs(forward.x ? destination.x - start.x : destination.z - start.z), MAX_DESTINATION_LENGTH)
+      : MAX_BRIDGE_LENGTH;
+    if (maxSteps === 0) {
+      return { success: false, message: `Already level with the destination along the ${dirStr} axis.` };
+    }
+    if (destination) {
+      // Walking uses the forward control, so face down the bridge line
+      await bot.lookAt(bot.entity.position.offset(forward.x * 10, bot.entity.height, forward.z * 10));
+    }
 
     onProgress({
       skillName: "build_bridge",
@@ -58,15 +85,15 @@ export const buildBridgeSkill: Skill = {
     bot.setControlState("sneak", true);
 
     try {
-      for (let step = 0; step < MAX_BRIDGE_LENGTH && !signal.aborted; step++) {
+      for (let step = 0; step < maxSteps && !signal.aborted; step++) {
         const pos = bot.entity.position.floored();
         const nextPos = pos.offset(forward.x, 0, forward.z);
         const belowNext = nextPos.offset(0, -1, 0);
         const belowCurrent = pos.offset(0, -1, 0);
 
-        // If solid ground ahead and we've bridged some distance, we're done
+        // If solid ground ahead and we've bridged some distance, we're done (unless heading for a destination)
         const belowNextBlock = bot.blockAt(belowNext);
-        if (placed > 2 && belowNextBlock && isSolid(belowNextBlock.name)) {
+        if (!destination && placed > 2 && belowNextBlock && isSolid(belowNextBlock.name)) {
           break;
         }
 
@@ -117,7 +144,7 @@ export const buildBridgeSkill: Skill = {
           onProgress({
             skillName: "build_bridge",
             phase: "Building bridge",
-            progress: step / MAX_BRIDGE_LENGTH,
+            progress: step / maxSteps,
             message: `${placed} blocks placed heading ${dirStr}`,
             active: true,
           });
@@ -128,10 +155,18 @@ export const buildBridgeSkill: Skill = {
       bot.setControlState("forward", false);
     }
 
+    if (placed === 0 && destination) {
+      return {
+        success: false,
+        message: `Placed no bridge blocks heading ${dirStr} toward ${destination.x}, ${destination.z} — no gap on the way, or a wall blocked it.`,
+        failureKind: "precondition",
+      };
+    }
     if (placed === 0) {
       return {
         success: false,
         message: "Couldn't place any bridge blocks. Stand at the edge of water/gap facing across, then try again.",
+        failureKind: "precondition",
       };
     }
 
@@ -155,6 +190,14 @@ function getCardinalDirection(yaw: number): Vec3 {
   return new Vec3(0, 0, 1);
 }
 
+/** Cardinal direction along the longer horizontal axis toward a point. */
+function directionToward(from: Vec3, to: { x: number; z: number }): Vec3 {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  if (Math.abs(dx) >= Math.abs(dz)) return new Vec3(Math.sign(dx) || 1, 0, 0);
+  return new Vec3(0, 0, Math.sign(dz) || 1);
+}
+
 function dirName(dir: Vec3): string {
   if (dir.z === -1) return "north";
   if (dir.z === 1) return "south";
@@ -4,25 +4,52 @@ import { Vec3 } from "vec3";
 import pkg from "mineflayer-pathfinder";
 const { goals, Movements } = pkg;
 import mcDataLoader from "minecraft-data";
+import { getWorldIndex } from "../bot/world-index.js";
+
+/** What to plant for each crop, the block it grows into, and the age it's ready at. */
+const CROPS: Record<string, { seed: string; block: string; matureAge: number }> = {
+  wheat: { seed: "wheat_seeds", block: "wheat", matureAge: 7 },
+  carrot: { seed: "carrot", block: "carrots", matureAge: 7 },
+  potato: { seed: "potato", block: "potatoes", matureAge: 7 },
+  beetroot: { seed: "beetroot_seeds", block: "beetroots", matureAge: 3 },
+};
+
+type Crop = (typeof CROPS)[string];
 
 export const buildFarmSkill: Skill = {
   name: "build_farm",
   description:
-    "Build a wheat farm near water. Crafts a hoe, collects seeds, tills soil, plants crops. If mature wheat exists nearby, harvests and replants instead. Takes ~2 minutes.",
-  params: {},
+    "Build a crop farm near water. Crafts a hoe, tills soil, plants the crop (wheat seeds come from breaking grass; carrots, potatoes and beetroot seeds must be in inventory). If that crop is mature nearby, harvests and replants instead. Takes ~2 minutes.",
+  preconditions: [{ type: "dimension", name: "overworld" }],
+  // Either harvested a crop or planted one
+  postconditions: [
+    {
+      type: "any",
+      of: [
+        { type: "item_gained", name: ["wheat", "carrot", "potato", "beetroot"] },
+        { type: "block_placed", name: Object.values(CROPS).map((c) => c.block) },
+      ],
+    },
+  ],
+  params: {
+    crop: { type: "string", description: "Crop to plant", enum: Object.keys(CROPS), default: "wheat" },
+  },
 
   estimateMaterials(_bot, _params) {
     return {};
   },
 
-  async execute(bot, _params, signal, onProgress): Promise<SkillResult> {
-    // --- Step 0: Harvest mature wheat if any nearby ---
-    const harvested = await harvestMatureWheat(bot, signal, onProgress);
+  async execute(bot, params, signal, onProgress): Promise<SkillResult> {
+    const cropName = String(params.crop ?? "wheat");
+    const crop = CROPS[cropName] ?? CROPS.wheat;
+
+    // --- Step 0: Harvest the mature crop if any nearby ---
+    const harvested = await harvestMature(bot, crop, signal, onProgress);
     if (harvested > 0) {
       return {
         success: true,
-        message: `Harvested ${harvested} mature wheat! Got wheat and seeds. The farm cycle continues!`,
-        stats: { wheatHarvested: harvested },
+        message: `Harvested ${harvested} mature ${crop.block} and replanted! The farm cycle continues!`,
+        stats: { cropsHarvested: harvested },
       };
     }
 
@@ -40,7 +67,11 @@ export const buildFarmSkill: Skill = {
       await craftHoe(bot, signal);
       hoe = bot.inventory.items().find((i) => i.name.endsWith("_hoe"));
       if (!hoe) {
-        return { success: false, message: "Can't craft a hoe! Need planks + sticks + a crafting table." };
+        return {
+          success: false,
+          message: "Can't craft a hoe! Need planks + sticks + a crafting table.",
+          failureKind: "precondition",
+        };
       }
     }
 
@@ -56,19 +87,56 @@ export const buildFarmSkill: Skill = {
     });
 
     // Surface water only — underwater blocks would send the bot swimming into the lake.
-    const water = bot.findBlock({
-      matching: (b) => {
-        if (b.name !== "water" || !b.position) return false;
-        const above = bot.blockAt(b.position.offset(0, 1, 0));
-        // Surface water: block above is air/land (not another water block).
-        // If above is null (chunk edge, unloaded), assume surface — better to try than skip.
-        return !above || above.name !== "water";
-      },
-      maxDistance: 96,
-    });
+    const findSurfaceWater = () =>
+      bot.findBlock({
+        matching: (b) => {
+          if (b.name !== "water" || !b.position) return false;
+          const above = bot.blockAt(b.position.offset(0, 1, 0));
+          // Surface water: block above is air/land (not another water block).
+          // If above is null (chunk edge, unloaded), assume surface — better to try than skip.
+          return !above || above.name !== "water";
+        },
+        maxDistance: 96,
+      });
+    let water = findSurfaceWater();
+
+    if (!water) {
+      // Out of sight — walk to the nearest water any bot has seen before giving up
+      const p = bot.entity.position;
+      const known = getWorldIndex().nearest("water", p.x, p.y, p.z);
+      if (known) {
+        onProgress({
+          skillName: "build_farm",
+          phase: "Finding farmable land",
+          progress: 0.05,
+          message: `Heading to known water at ${known.x}, ${known.z}...`,
+          active: true,
+        });
+        setMovements(bot);
+        try {
+          await Promise.race([
+            bot.pathfinder.goto(new goals.GoalNear(known.x, known.y, known.z, 4)),
+            new Promise<void>((_, rej) =>
+              setTimeout(() => {
+                bot.pathfinder.stop();
+                rej(new Error("timeout"));
+              }, 60000),
+            ),
+          ]);
+        } catch {
+          /* search from wherever we got to */
+        }
+        water = findSurfaceWater();
+        if (!water) getWorldIndex().markDepleted("water", known.x, known.y, known.z);
+      }
+    }
 
     if (!water) {
-      return { success: false, message: "No water found within 96 blocks! Explore to find a river or pond." };
+      return {
+        success: false,
+        message: "No water found within 96 blocks! Explore to find a river or pond.",
+        failureKind: "precondition",
+      };
     }
 
     // Pre-scan a 9x9 area around the water for tillable dirt/grass at the same Y level.
@@ -76,7 +144,11 @@ export const buildFarmSkill: Skill = {
     // accidentally use a different water source.
     const waterPos = water.position;
     if (!waterPos) {
-      return { success: false, message: "Water block has no position — chunk may not be loaded. Try again." };
+      return {
+        success: false,
+        message: "Water block has no position — chunk may not be loaded. Try again.",
+        failureKind: "precondition",
+      };
     }
     const farmTargets: Vec3[] = [];
     for (let dx = -4; dx <= 4; dx++) {
@@ -94,6 +166,7 @@ export const buildFarmSkill: Skill = {
       return {
         success: false,
         message: "No tillable dirt near the water! The shore may be sand or stone. Explore to find grass near a river.",
+        failureKind: "precondition",
       };
     }
 
@@ -133,17 +206,17 @@ export const buildFarmSkill: Skill = {
       /* ok — try anyway */
     }
 
-    // --- Step 3: Collect seeds by breaking grass ---
+    // --- Step 3: Collect seeds by breaking grass (wheat only — other crops plant their own item) ---
     onProgress({
       skillName: "build_farm",
       phase: "Collecting seeds",
       progress: 0.1,
-      message: "Breaking grass for seeds...",
+      message: crop === CROPS.wheat ? "Breaking grass for seeds..." : `Counting ${crop.seed}...`,
       active: true,
     });
 
-    let seedCount = countItem(bot, "wheat_seeds");
-    for (let i = 0; i < 50 && seedCount < 16 && !signal.aborted; i++) {
+    let seedCount = countItem(bot, crop.seed);
+    for (let i = 0; crop === CROPS.wheat && i < 50 && seedCount < 16 && !signal.aborted; i++) {
       const grass = bot.findBlock({
         matching: (b) => b.name === "short_grass" || b.name === "tall_grass",
         maxDistance: 24,
@@ -154,14 +227,21 @@ export const buildFarmSkill: Skill = {
         setMovements(bot);
         await bot.pathfinder.goto(new goals.GoalNear(grass.position.x, grass.position.y, grass.position.z, 2));
         await bot.dig(grass);
-        seedCount = countItem(bot, "wheat_seeds");
+        seedCount = countItem(bot, crop.seed);
       } catch {
         continue;
       }
     }
 
     if (seedCount === 0) {
-      return { success: false, message: "No seeds from grass! Try a grassier biome." };
+      return {
+        success: false,
+        message:
+          crop === CROPS.wheat
+            ? "No seeds from grass! Try a grassier biome."
+            : `No ${crop.seed} to plant! Find some in a village farm (or ask a teammate), then try again.`,
+        failureKind: "precondition",
+      };
     }
 
     // --- Step 4: Till and plant on pre-identified target positions ---
@@ -206,7 +286,7 @@ export const buildFarmSkill: Skill = {
         // Check if it became farmland
         const result = bot.blockAt(targetPos);
         if (result && result.name === "farmland") {
-          const seeds = bot.inventory.items().find((it) => it.name === "wheat_seeds");
+          const seeds = bot.inventory.items().find((it) => it.name === crop.seed);
           if (seeds) {
             await bot.equip(seeds, "hand");
             try {
@@ -216,7 +296,7 @@ export const buildFarmSkill: Skill = {
                 skillName: "build_farm",
                 phase: "Planting crops",
                 progress: 0.25 + (planted / target) * 0.7,
-                message: `Planted ${planted}/${target} wheat`,
+                message: `Planted ${planted}/${target} ${cropName}`,
                 active: true,
               });
             } catch {
@@ -233,12 +313,13 @@ export const buildFarmSkill: Skill = {
       return {
         success: false,
         message: `Couldn't plant anything near water at ${waterPos.x.toFixed(0)},${waterPos.z.toFixed(0)} — navigation or tilling failed. Try 'explore' first.`,
+        failureKind: "precondition",
       };
     }
 
     return {
       success: true,
-      message: `Farm planted! ${planted} wheat seeds near water at ${waterPos.x.toFixed(0)}, ${waterPos.z.toFixed(0)}. Wheat grows in ~5 minutes — come back and use build_farm again to harvest!`,
+      message: `Farm planted! ${planted} ${cropName} near water at ${waterPos.x.toFixed(0)}, ${waterPos.z.toFixed(0)}. Crops grow in ~5 minutes — come back and use build_farm with the same crop to harvest!`,
       stats: { cropsPlanted: planted },
     };
   },
@@ -262,27 +343,27 @@ function countItem(bot: Bot, name: string): number {
     .reduce((s, i) => s + i.count, 0);
 }
 
-/** Harvest all mature wheat within 20 blocks. Returns count harvested. */
-async function harvestMatureWheat(bot: Bot, signal: AbortSignal, onProgress: (p: any) => void): Promise<number> {
+/** Harvest all of one mature crop within 20 blocks. Returns count harvested. */
+async function harvestMature(bot: Bot, crop: Crop, signal: AbortSignal, onProgress: (p: any) => void): Promise<number> {
   let harvested = 0;
 
   for (let i = 0; i < 40 && !signal.aborted; i++) {
-    const wheat = bot.findBlock({
-      matching: (b) => b.name === "wheat" && b.metadata >= 7,
+    const ripe = bot.findBlock({
+      matching: (b) => b.name === crop.block && b.metadata >= crop.matureAge,
       maxDistance: 20,
     });
-    if (!wheat || !wheat.position) break;
+    if (!ripe || !ripe.position) break;
 
     try {
       setMovements(bot);
-      await bot.pathfinder.goto(new goals.GoalNear(wheat.position.x, wheat.position.y, wheat.position.z, 2));
-      await bot.dig(wheat);
+      await bot.pathfinder.goto(new goals.GoalNear(ripe.position.x, ripe.position.y, ripe.position.z, 2));
+      await bot.dig(ripe);
       harvested++;
       onProgress({
         skillName: "build_farm",
         phase: "Harvesting",
         progress: harvested / 20,
-        message: `Harvested ${harvested} wheat`,
+        message: `Harvested ${harvested} ${crop.block}`,
         active: true,
       });
     } catch {
@@ -304,7 +385,7 @@ async function harvestMatureWheat(bot: Bot, signal: AbortSignal, onProgress: (p:
       });
       if (!farmland) break;
 
-      const seeds = bot.inventory.items().find((it) => it.name === "wheat_seeds");
+      const seeds = bot.inventory.items().find((it) => it.name === crop.seed);
       if (!seeds) break;
 
       try {
@@ -317,7 +398,7 @@ async function harvestMatureWheat(bot: Bot, signal: AbortSignal, onProgress: (p:
         continue;
       }
     }
-    console.log(`[Skill] Harvested ${harvested} wheat, replanted ${replanted} seeds`);
+    console.log(`[Skill] Harvested ${harvested} ${crop.block}, replanted ${replanted}`);
   }
 
   return harvested;
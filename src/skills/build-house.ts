@@ -8,6 +8,8 @@ const { goals, Movements } = pkg;
 import mcDataLoader from "minecraft-data";
 import { hasStructureNearby, addStructure, getNearestStructure } from "../bot/memory.js";
 import { getBotMemoryStore } from "../bot/memory-registry.js";
+import { findBuildSite, findPlacementRef } from "./building.js";
+import { RESUME_PARAM, clearCheckpoint, findCheckpoint, saveCheckpoint } from "./checkpoints.js";
 
 /** All door types — any wood's door works interchangeably */
 const DOOR_TYPES = [
@@ -21,14 +23,16 @@ const DOOR_TYPES = [
   "mangrove_door",
 ] as const;
 
-/** Remember last build site so repeated build_house calls finish the same house */
-let lastBuildSite: Vec3 | null = null;
+/** What a house block can be placed into. */
+const OPEN_BLOCKS = new Set(["air", "water", "short_grass", "tall_grass"]);
 
 export const buildHouseSkill: Skill = {
   name: "build_house",
   description:
     "Build a 7x7 house with walls, roof, door, crafting table, and torches. Works with ANY wood type. Gathers materials automatically. Takes ~2 minutes.",
-  params: {},
+  params: { resume: RESUME_PARAM },
+  // An existing house within 80 blocks also counts — the skill reports that as success
+  postconditions: [{ type: "structure_recorded", structureType: "house", radius: 80 }],
 
   estimateMaterials(_bot, _params) {
     // All material gathering is handled inside execute().
@@ -39,6 +43,11 @@ export const buildHouseSkill: Skill = {
 
   async execute(bot, _params, signal, onProgress): Promise<SkillResult> {
     const bp = houseBlueprint;
+    // Structure bottom-up, then interior. Checkpoints record indices into this list.
+    const allBlocks = [
+      ...bp.blocks.filter((b) => b.phase === "structure").sort((a, b) => a.pos[1] - b.pos[1]),
+      ...bp.blocks.filter((b) => b.phase === "interior"),
+    ];
 
     // --- Step 1: Find a flat build site ---
     onProgress({
@@ -49,11 +58,20 @@ export const buildHouseSkill: Skill = {
       active: true,
     });
 
-    // Reuse last build site if it's within 50 blocks (bot is finishing the same house)
+    // Finish an interrupted house (from this session or before a restart) rather than start another
+    const resumed = findCheckpoint(bot, "build_house");
+    const done = new Set<number>(resumed?.state.done ?? []);
     let origin: Vec3 | null = null;
-    if (lastBuildSite && bot.entity.position.distanceTo(lastBuildSite) < 50) {
-      origin = lastBuildSite;
-      console.log(`[Skill] Reusing previous build site at ${origin.x}, ${origin.y}, ${origin.z}`);
+    if (resumed) {
+      const [x, y, z] = resumed.state.origin as [number, number, number];
+      origin = new Vec3(x, y, z);
+      // Blocks broken since the interruption go back in
+      for (const i of done) {
+        const b = allBlocks[i];
+        const existing = b && bot.blockAt(origin.offset(b.pos[0], b.pos[1], b.pos[2]));
+        if (existing && OPEN_BLOCKS.has(existing.name)) done.delete(i);
+      }
+      console.log(`[Skill] Resuming house at ${origin.x}, ${origin.y}, ${origin.z} (${done.size} blocks done)`);
     } else {
       // Check if there's already a house nearby before finding a new site
       const botPos = bot.entity.position;
@@ -77,16 +95,24 @@ export const buildHouseSkill: Skill = {
       return {
         success: false,
         message: "Can't find flat ground for a 7x7 house nearby. Try exploring to find open terrain!",
+        failureKind: "precondition",
       };
     }
-    lastBuildSite = origin;
+    const site = origin;
+    const checkpoint = (placed: number) =>
+      saveCheckpoint(bot, {
+        skill: "build_house",
+        params: {},
+        pos: { x: site.x, y: site.y, z: site.z },
+        state: { origin: [site.x, site.y, site.z], done: [...done] },
+        summary: `house ${placed}/${allBlocks.length} blocks`,
+      });
+    checkpoint(done.size);
 
     console.log(`[Skill] Build site at ${origin.x}, ${origin.y}, ${origin.z}`);
 
-    // --- Step 2: Gather wood (any type) ---
-    const totalPlanksNeeded = Object.entries(bp.materials)
-      .filter(([name]) => name.endsWith("_planks"))
-      .reduce((sum, [, count]) => sum + count, 0);
+    // --- Step 2: Gather wood (any type) --- only for the blocks still to place
+    const totalPlanksNeeded = allBlocks.filter((b, i) => !done.has(i) && b.block.endsWith("_planks")).length;
 
     // +8 margin for crafting table (4 planks) and sticks (2 planks) and waste
     // +6 for door crafting (6 planks → 3 doors, we need 2)
@@ -120,6 +146,7 @@ export const buildHouseSkill: Skill = {
             return {
               success: false,
               message: "No trees found nearby! Explore to find a forest, then try build_house again.",
+              failureKind: "precondition",
             };
           }
           break; // Use what we have
@@ -195,34 +222,26 @@ export const buildHouseSkill: Skill = {
     console.log(`[Skill] Crafting done. Have ${planksReady} planks, need ~${totalPlanksNeeded}`);
 
     // --- Step 4: Place blocks from blueprint ---
-    const structureBlocks = bp.blocks.filter((b) => b.phase === "structure").sort((a, b) => a.pos[1] - b.pos[1]); // bottom-up
-
-    const interiorBlocks = bp.blocks.filter((b) => b.phase === "interior");
-    const allBlocks = [...structureBlocks, ...interiorBlocks];
     const total = allBlocks.length;
     let placed = 0;
     let skipped = 0;
 
     for (let i = 0; i < allBlocks.length; i++) {
       if (signal.aborted) {
+        checkpoint(placed);
         return {
           success: false,
-          message: `House building interrupted! Placed ${placed}/${total} blocks. It's... abstract art now.`,
+          message: `House building interrupted! Placed ${placed}/${total} blocks. It's... abstract art now. Run build_house again to finish it.`,
         };
       }
 
       const bpBlock = allBlocks[i];
       const worldPos = new Vec3(origin.x + bpBlock.pos[0], origin.y + bpBlock.pos[1], origin.z + bpBlock.pos[2]);
 
-      // Skip if already occupied
+      // Skip if placed before an interruption, or already occupied
       const existing = bot.blockAt(worldPos);
-      if (
-        existing &&
-        existing.name !== "air" &&
-        existing.name !== "water" &&
-        existing.name !== "short_grass" &&
-        existing.name !== "tall_grass"
-      ) {
+      if (done.has(i) || (existing && !OPEN_BLOCKS.has(existing.name))) {
+        done.add(i);
         placed++;
         continue;
       }
@@ -261,8 +280,10 @@ export const buildHouseSkill: Skill = {
                 .catch(() => false),
               new Promise<boolean>((r) => setTimeout(() => r(false), 2000)),
             ]);
-            if (ok) placed++;
-            else skipped++;
+            if (ok) {
+              done.add(i);
+              placed++;
+            } else skipped++;
           } else {
             skipped++;
           }
@@ -279,8 +300,10 @@ export const buildHouseSkill: Skill = {
                 .catch(() => false),
               new Promise<boolean>((r) => setTimeout(() => r(false), 2000)),
             ]);
-            if (ok) placed++;
-            else skipped++;
+            if (ok) {
+              done.add(i);
+              placed++;
+            } else skipped++;
           } else {
             skipped++;
           }
@@ -289,8 +312,9 @@ export const buildHouseSkill: Skill = {
         skipped++;
       }
 
-      // Progress update every 5 blocks
+      // Progress update (and checkpoint) every 5 blocks
       if (i % 5 === 0) {
+        checkpoint(placed);
         onProgress({
           skillName: "build_house",
           phase: bpBlock.phase === "structure" ? "Building walls & roof" : "Decorating interior",
@@ -314,6 +338,10 @@ export const buildHouseSkill: Skill = {
       /* ok */
     }
 
+    // Keep the checkpoint while there are holes to patch; a finished or hopeless site is dropped
+    if (placed === total || placed === 0) clearCheckpoint(bot, "build_house");
+    else checkpoint(placed);
+
     if (placed > total * 0.7) {
       // Save house to per-bot memory (falls back to singleton if no per-bot store registered)
       const _ms = getBotMemoryStore(bot);
@@ -425,76 +453,6 @@ function setMovements(bot: Bot) {
   bot.pathfinder.setMovements(moves);
 }
 
-/** Find a reasonably flat rectangular area near the bot. Returns origin (ground level). */
-function findBuildSite(bot: Bot, width: number, depth: number): Vec3 | null {
-  const pos = bot.entity.position.floored();
-
-  // Two passes: strict (1 block tolerance), then relaxed (2 block tolerance)
-  for (const tolerance of [1, 2]) {
-    for (let r = 3; r <= 30; r++) {
-      for (let dx = -r; dx <= r; dx += 2) {
-        for (let dz = -r; dz <= r; dz += 2) {
-          if (Math.abs(dx) < r - 1 && Math.abs(dz) < r - 1) continue;
-
-          const baseY = groundLevel(bot, pos.x + dx, pos.z + dz);
-          if (baseY === null) continue;
-
-          let flat = true;
-          for (let fx = 0; fx < width && flat; fx += 3) {
-            for (let fz = 0; fz < depth && flat; fz += 3) {
-              const gy = groundLevel(bot, pos.x + dx + fx, pos.z + dz + fz);
-              if (gy === null || Math.abs(gy - baseY) > tolerance) flat = false;
-            }
-          }
-          if (flat) return new Vec3(pos.x + dx, baseY, pos.z + dz);
-        }
-      }
-    }
-  }
-  return null;
-}
-
-function groundLevel(bot: Bot, x: number, z: number): number | null {
-  const botY = Math.floor(bot.entity.position.y);
-  for (let y = botY + 5; y >= botY - 10; y--) {
-    const block = bot.blockAt(new Vec3(x, y, z));
-    const above = bot.blockAt(new Vec3(x, y + 1, z));
-    if (
-      block &&
-      block.name !== "air" &&
-      block.name !== "water" &&
-      block.name !== "short_grass" &&
-      block.name !== "tall_grass" &&
-      !block.name.includes("leaves") &&
-      above &&
-      (above.name === "air" || above.name === "short_grass" || above.name === "tall_grass")
-    ) {
-      return y;
-    }
-  }
-  return null;
-}
-
-/** Find a solid block adjacent to targetPos that we can place against. */
-function findPlacementRef(bot: Bot, targetPos: Vec3): { block: any; face: Vec3 } | null {
-  const faces = [
-    new Vec3(0, -1, 0),
-    new Vec3(0, 1, 0),
-    new Vec3(1, 0, 0),
-    new Vec3(-1, 0, 0),
-    new Vec3(0, 0, 1),
-    new Vec3(0, 0, -1),
-  ];
-  for (const face of faces) {
-    const refPos = targetPos.minus(face);
-    const refBlock = bot.blockAt(refPos);
-    if (refBlock && refBlock.name !== "air" && refBlock.name !== "water" && !refBlock.name.includes("leaves")) {
-      return { block: refBlock, face };
-    }
-  }
-  return null;
-}
-
 /** Craft each log type into its corresponding planks. */
 async function craftAllLogsToPlanks(bot: Bot, signal: AbortSignal): Promise<void> {
   const mcData = mcDataLoader(bot.version);
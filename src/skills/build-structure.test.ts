@@ -0,0 +1,14 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import type { Bot } from "mineflayer";
+import { placeBlockWithOptions } from "./build-structure.js";
+
+const require = createRequire(import.meta.url);
+
+test("placeBlockWithOptions: the installed mineflayer still has the internal placer", () => {
+  const bot: Record<string, unknown> = {};
+  require("mineflayer/lib/plugins/place_block.js")(bot);
+  assert.equal(placeBlockWithOptions(bot as unknown as Bot), bot._placeBlockWithOptions);
+  assert.throws(() => placeBlockWithOptions({} as Bot), /_placeBlockWithOptions/);
+});
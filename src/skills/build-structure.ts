@@ -0,0 +1,446 @@
+// src/skills/build-structure.ts
+// Build any blueprint from the blueprint library (JSON, .schem, .litematic).
+//
+// Site selection → terrain clearing → structure blocks bottom-up → interior →
+// scaffolding removal. Block states (facing, half, axis, slab type) are set by
+// how the bot looks and which face it clicks. Progress is checkpointed in the
+// bot's memory, so calling the skill again near an unfinished build — even after
+// a death or restart — resumes it: blocks already in place are skipped.
+
+import type { Bot } from "mineflayer";
+import type { Block } from "prismarine-block";
+import { Vec3 } from "vec3";
+import pkg from "mineflayer-pathfinder";
+const { goals, Movements } = pkg;
+import type { Blueprint, BlueprintBlock, Skill, SkillResult } from "./types.js";
+import { blockItem, blueprintKey, computeMaterials, getBlueprint, getBlueprints } from "./blueprints/loader.js";
+import { findBuildSite, findPlacementRef } from "./building.js";
+import { LOG_TYPES, PLANK_TYPES } from "./craft-planner.js";
+import { addStructure } from "../bot/memory.js";
+import { getBotMemoryStore } from "../bot/memory-registry.js";
+import { RESUME_PARAM, clearCheckpoint, findCheckpoint, saveCheckpoint } from "./checkpoints.js";
+
+/** Blocks the builder can place straight into. */
+const FREE_BLOCKS = new Set([
+  "air",
+  "cave_air",
+  "short_grass",
+  "tall_grass",
+  "fern",
+  "large_fern",
+  "snow",
+  "dead_bush",
+  "water",
+]);
+
+/** Cheap blocks the pathfinder may tower on; removed again after the build. */
+const SCAFFOLD_BLOCKS = ["dirt", "cobblestone", "cobbled_deepslate", "netherrack"];
+
+const WOODS = ["oak", "spruce", "birch", "jungle", "acacia", "dark_oak", "cherry", "mangrove", "pale_oak", "bamboo"];
+
+const FACING_VECTORS: Record<string, Vec3> = {
+  north: new Vec3(0, 0, -1),
+  south: new Vec3(0, 0, 1),
+  east: new Vec3(1, 0, 0),
+  west: new Vec3(-1, 0, 0),
+};
+
+/** mineflayer yaw for looking toward each direction. */
+const FACING_YAW: Record<string, number> = { north: 0, west: Math.PI / 2, south: Math.PI, east: -Math.PI / 2 };
+
+const OPPOSITE: Record<string, string> = { north: "south", south: "north", east: "west", west: "east" };
+
+/** Blocks that end up facing the player who placed them, rather than away. */
+const FACES_PLACER = [
+  "chest",
+  "furnace",
+  "smoker",
+  "barrel",
+  "_trapdoor",
+  "lectern",
+  "dispenser",
+  "dropper",
+  "piston",
+  "carved_pumpkin",
+  "jack_o_lantern",
+];
+
+const isFree = (b: Block | null) => !b || FREE_BLOCKS.has(b.name);
+
+function worldPos(origin: Vec3, b: BlueprintBlock): Vec3 {
+  return new Vec3(origin.x + b.pos[0], origin.y + b.pos[1], origin.z + b.pos[2]);
+}
+
+/** Whether the block at a blueprint position is already right. Layer 0 sits on the ground, which stands in for a floor. */
+function isDone(bot: Bot, origin: Vec3, b: BlueprintBlock): boolean {
+  const existing = bot.blockAt(worldPos(origin, b));
+  if (!existing) return false;
+  if (existing.name === b.block) return true;
+  return b.pos[1] === 0 && !isFree(existing);
+}
+
+/** Wood variants substitute for each other: any planks, any door, any log. */
+function findItem(bot: Bot, item: string) {
+  const items = bot.inventory.items();
+  const exact = items.find((i) => i.name === item);
+  if (exact) return exact;
+  const wood = WOODS.find((w) => item.startsWith(`${w}_`));
+  if (!wood) return undefined;
+  const suffix = item.slice(wood.length);
+  return items.find((i) => WOODS.some((w) => i.name === `${w}${suffix}`));
+}
+
+/** Blueprint materials with wood generalised, so the planner can use any tree. */
+function gatherableMaterials(materials: Record<string, number>): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [item, n] of Object.entries(materials)) {
+    const key = (PLANK_TYPES as readonly string[]).includes(item)
+      ? "#planks"
+      : (LOG_TYPES as readonly string[]).includes(item)
+        ? "#logs"
+        : item;
+    out[key] = (out[key] ?? 0) + n;
+  }
+  return out;
+}
+
+/**
+ * The unfinished build of this blueprint, if the bot has a checkpoint for one
+ * nearby. A block placed before the interruption and gone now (broken, burnt)
+ * no longer counts as done.
+ */
+function resumeSite(bot: Bot, bp: Blueprint): { origin: Vec3; done: Set<number> } | null {
+  const checkpoint = findCheckpoint(bot, "build_structure");
+  if (!checkpoint || checkpoint.state.blueprint !== blueprintKey(bp.name)) return null;
+  const [x, y, z] = checkpoint.state.origin as [number, number, number];
+  const origin = new Vec3(x, y, z);
+  const order = placementOrder(bp);
+  const standing = (i: number) => {
+    const block = order[i] && bot.blockAt(worldPos(origin, order[i]));
+    return !block || !isFree(block);
+  };
+  return { origin, done: new Set<number>((checkpoint.state.done ?? []).filter(standing)) };
+}
+
+/** Placement order: structure bottom-up, then interior. Checkpoints index into this. */
+function placementOrder(bp: Blueprint): BlueprintBlock[] {
+  return [
+    ...bp.blocks.filter((b) => b.phase === "structure").sort((a, b) => a.pos[1] - b.pos[1]),
+    ...bp.blocks.filter((b) => b.phase === "interior"),
+  ].filter((b) => blockItem(b) !== null);
+}
+
+function setMovements(bot: Bot, scaffold: boolean) {
+  const moves = new Movements(bot);
+  moves.canDig = false;
+  moves.allowFreeMotion = false;
+  moves.allow1by1towers = scaffold;
+  moves.scafoldingBlocks = scaffold
+    ? bot.inventory
+        .items()
+        .filter((i) => SCAFFOLD_BLOCKS.includes(i.name))
+        .map((i) => i.type)
+    : [];
+  bot.pathfinder.setMovements(moves);
+}
+
+async function withTimeout<T>(p: Promise<T>, ms: number, fallback: T): Promise<T> {
+  return Promise.race([p.catch(() => fallback), new Promise<T>((r) => setTimeout(() => r(fallback), ms))]);
+}
+
+/** Get within reach of a position, towering on scaffolding if it's above the bot. */
+async function reach(bot: Bot, pos: Vec3): Promise<void> {
+  if (bot.entity.position.distanceTo(pos) <= 4.5) return;
+  setMovements(bot, pos.y > bot.entity.position.y + 3);
+  await withTimeout(bot.pathfinder.goto(new goals.GoalNear(pos.x, pos.y, pos.z, 3)), 20_000, undefined);
+}
+
+/** Clicked face preferences for a block's states. */
+function placementFaces(props: Record<string, string>): Vec3[] {
+  const up = new Vec3(0, 1, 0);
+  const down = new Vec3(0, -1, 0);
+  const sides = Object.values(FACING_VECTORS);
+  if (props.axis === "x") return [new Vec3(1, 0, 0), new Vec3(-1, 0, 0)];
+  if (props.axis === "z") return [new Vec3(0, 0, 1), new Vec3(0, 0, -1)];
+  // Top halves are placed against the block above (or high on a side)
+  if (props.half === "top" || props.type === "top") return [down, ...sides];
+  return [up, ...sides, down];
+}
+
+/** A solid neighbour to click, trying the preferred faces first. */
+function findRef(bot: Bot, pos: Vec3, faces: Vec3[]): { block: Block; face: Vec3 } | null {
+  for (const face of faces) {
+    const ref = bot.blockAt(pos.minus(face));
+    if (ref && !isFree(ref) && !ref.name.includes("leaves")) return { block: ref, face };
+  }
+  const fallback = findPlacementRef(bot, pos);
+  return fallback ? { block: fallback.block, face: fallback.face } : null;
+}
+
+type PlaceWithOptions = (
+  ref: Block,
+  face: Vec3,
+  options: { half?: "top" | "bottom"; forceLook?: boolean | "ignore" },
+) => Promise<void>;
+
+/**
+ * mineflayer's internal placer. The public placeBlock turns the bot to look at
+ * the clicked face, which throws away the yaw that sets a stair's or door's
+ * facing, and always clicks mid-face, so top halves come out as bottoms.
+ * It isn't public API, so build-structure.test.ts fails if an upgrade drops it.
+ */
+export function placeBlockWithOptions(bot: Bot): PlaceWithOptions {
+  const place = (bot as any)._placeBlockWithOptions as PlaceWithOptions | undefined;
+  if (!place) throw new Error("mineflayer no longer has _placeBlockWithOptions — oriented placement needs updating");
+  return place;
+}
+
+/** Place one blueprint block with its orientation. Returns whether it went in. */
+async function placeOriented(bot: Bot, pos: Vec3, b: BlueprintBlock): Promise<boolean> {
+  const props = b.properties ?? {};
+  const facing = FACING_VECTORS[props.facing] ? props.facing : null;
+
+  let ref: { block: Block; face: Vec3 } | null;
+  if (b.block.includes("wall_") || b.block === "ladder") {
+    // Wall-mounted: attached to the block behind it, clicked on the face it points out of
+    const behind = facing ? bot.blockAt(pos.minus(FACING_VECTORS[facing])) : null;
+    ref = behind && !isFree(behind) ? { block: behind, face: FACING_VECTORS[facing!] } : findRef(bot, pos, []);
+  } else if (b.block.endsWith("_door") || b.block.endsWith("_bed")) {
+    // Doors and beds stand on the floor; the other half fills itself in
+    const floor = bot.blockAt(pos.offset(0, -1, 0));
+    ref = floor && !isFree(floor) ? { block: floor, face: new Vec3(0, 1, 0) } : null;
+  } else {
+    ref = findRef(bot, pos, placementFaces(props));
+  }
+  if (!ref) return false;
+
+  const lookFacing = facing && FACES_PLACER.some((p) => b.block.includes(p)) ? OPPOSITE[facing] : facing;
+  if (lookFacing && !b.block.includes("wall_") && b.block !== "ladder") {
+    await bot.look(FACING_YAW[lookFacing], 0, true);
+  }
+
+  const half = props.half === "top" || props.type === "top" ? "top" : "bottom";
+  const placeWithOptions = placeBlockWithOptions(bot);
+  const place = (r: Block, face: Vec3) =>
+    placeWithOptions.call(bot, r, face, { half, forceLook: lookFacing ? "ignore" : true });
+
+  const ok = await withTimeout(
+    place(ref.block, ref.face).then(() => true),
+    2000,
+    false,
+  );
+  if (ok && b.block.endsWith("_slab") && props.type === "double") {
+    // Second slab clicked onto the first merges into a double slab
+    const slab = bot.blockAt(pos);
+    if (slab) await withTimeout(bot.placeBlock(slab, new Vec3(0, 1, 0)), 2000, undefined);
+  }
+  return ok;
+}
+
+/** Dig anything in the footprint above ground that isn't part of the blueprint. */
+async function clearSite(bot: Bot, bp: Blueprint, origin: Vec3, signal: AbortSignal): Promise<number> {
+  const wanted = new Map(bp.blocks.map((b) => [b.pos.join(","), b.block]));
+  let cleared = 0;
+  const [w, h, d] = bp.dimensions;
+  for (let y = h - 1; y >= 1 && !signal.aborted; y--) {
+    for (let x = 0; x < w; x++) {
+      for (let z = 0; z < d; z++) {
+        const pos = origin.offset(x, y, z);
+        const block = bot.blockAt(pos);
+        if (!block || isFree(block) || block.name === wanted.get(`${x},${y},${z}`)) continue;
+        await reach(bot, pos);
+        if (!bot.canDigBlock(block)) continue;
+        try {
+          await bot.dig(block);
+          cleared++;
+        } catch {
+          // Unbreakable or out of reach — placement will skip it
+        }
+      }
+    }
+  }
+  return cleared;
+}
+
+export const buildStructureSkill: Skill = {
+  name: "build_structure",
+  get description() {
+    const names = [...getBlueprints().keys()].join(", ");
+    return `Build a structure from a blueprint (${names}). Clears the site, builds bottom-up, resumes an unfinished build.`;
+  },
+  // Partial builds leave a checkpoint rather than a structure record
+  postconditions: [{ type: "structure_recorded", structureType: ["house", "other"] }],
+  params: {
+    blueprint: { type: "string", description: "Blueprint name", required: true },
+    x: { type: "number", description: "Optional origin X (default: nearest flat site)" },
+    y: { type: "number", description: "Optional origin Y" },
+    z: { type: "number", description: "Optional origin Z" },
+    resume: RESUME_PARAM,
+  },
+
+  estimateMaterials(bot, params) {
+    const bp = getBlueprint(String(params.blueprint ?? ""));
+    if (!bp) return {};
+    // Resuming: only what's still missing
+    const site = resumeSite(bot, bp);
+    const materials = site
+      ? computeMaterials(placementOrder(bp).filter((b, i) => !site.done.has(i) && !isDone(bot, site.origin, b)))
+      : bp.materials;
+    return gatherableMaterials(materials);
+  },
+
+  async execute(bot, params, signal, onProgress): Promise<SkillResult> {
+    const bp = getBlueprint(String(params.blueprint ?? ""));
+    if (!bp) {
+      return {
+        success: false,
+        message: `Unknown blueprint "${params.blueprint}". Available: ${[...getBlueprints().keys()].join(", ")}`,
+      };
+    }
+    const key = blueprintKey(bp.name);
+    const report = (phase: string, progress: number, message: string) =>
+      onProgress({ skillName: "build_structure", phase, progress, message, active: true });
+
+    // --- Site ---
+    report("Finding build site", 0, `Looking for room for ${bp.name}...`);
+    const site = resumeSite(bot, bp);
+    const done = site?.done ?? new Set<number>();
+    let origin = site?.origin ?? null;
+    if (origin) {
+      console.log(`[Skill] Resuming ${bp.name} at ${origin.x}, ${origin.y}, ${origin.z} (${done.size} blocks done)`);
+    } else if (params.x !== undefined && params.y !== undefined && params.z !== undefined) {
+      origin = new Vec3(Math.floor(params.x), Math.floor(params.y), Math.floor(params.z));
+    } else {
+      origin = findBuildSite(bot, bp.dimensions[0], bp.dimensions[2]);
+    }
+    if (!origin) {
+      return {
+        success: false,
+        message: `Can't find flat ground for ${bp.name} (${bp.dimensions[0]}x${bp.dimensions[2]}). Explore for open terrain.`,
+        failureKind: "precondition",
+      };
+    }
+    const order = placementOrder(bp);
+    const total = order.length;
+    const checkpoint = (placed: number) =>
+      saveCheckpoint(bot, {
+        skill: "build_structure",
+        params: { blueprint: key },
+        pos: { x: origin!.x, y: origin!.y, z: origin!.z },
+        state: { blueprint: key, origin: [origin!.x, origin!.y, origin!.z], done: [...done] },
+        summary: `${bp.name} ${placed}/${total} blocks`,
+      });
+    checkpoint(done.size);
+
+    // --- Clear terrain ---
+    report("Clearing site", 0.05, "Digging out the footprint...");
+    const cleared = await clearSite(bot, bp, origin, signal);
+    if (signal.aborted) return { success: false, message: `Interrupted while clearing the ${bp.name} site.` };
+
+    // --- Track scaffolding the pathfinder places ---
+    const planned = new Set(bp.blocks.map((b) => worldPos(origin!, b).toString()));
+    const scaffolds: Vec3[] = [];
+    const onBlockUpdate = (oldBlock: Block | null, newBlock: Block) => {
+      if (!SCAFFOLD_BLOCKS.includes(newBlock.name) || !isFree(oldBlock)) return;
+      if (planned.has(newBlock.position.toString())) return;
+      if (newBlock.position.distanceTo(origin!) > Math.max(...bp.dimensions) + 4) return;
+      scaffolds.push(newBlock.position.clone());
+    };
+    bot.on("blockUpdate", onBlockUpdate);
+
+    // --- Place: structure bottom-up, then interior ---
+    let placed = 0;
+    const missing: Record<string, number> = {};
+
+    try {
+      for (const [i, b] of order.entries()) {
+        if (signal.aborted) {
+          checkpoint(placed);
+          return {
+            success: false,
+            message: `${bp.name} interrupted at ${placed}/${total} blocks. Run build_structure again nearby to resume.`,
+          };
+        }
+        if (done.has(i) || isDone(bot, origin, b)) {
+          done.add(i);
+          placed++;
+          continue;
+        }
+        const need = blockItem(b)!;
+        const item = findItem(bot, need.item);
+        if (!item) {
+          missing[need.item] = (missing[need.item] ?? 0) + need.count;
+          continue;
+        }
+
+        const pos = worldPos(origin, b);
+        try {
+          await reach(bot, pos);
+          await bot.equip(item, "hand");
+          if (await placeOriented(bot, pos, b)) {
+            done.add(i);
+            placed++;
+          }
+        } catch {
+          // Skipped — counted below
+        }
+
+        if (i % 5 === 0) {
+          checkpoint(placed);
+          report(
+            b.phase === "structure" ? "Building structure" : "Adding interior",
+            0.1 + (i / total) * 0.8,
+            `${placed}/${total} blocks placed`,
+          );
+        }
+      }
+    } finally {
+      bot.removeListener("blockUpdate", onBlockUpdate);
+    }
+
+    // --- Remove scaffolding, top-down ---
+    if (scaffolds.length > 0) {
+      report("Removing scaffolding", 0.92, `${scaffolds.length} scaffold blocks`);
+      for (const pos of scaffolds.sort((a, b) => b.y - a.y)) {
+        if (signal.aborted) break;
+        const block = bot.blockAt(pos);
+        if (!block || !SCAFFOLD_BLOCKS.includes(block.name)) continue;
+        await reach(bot, pos);
+        await bot.dig(block).catch(() => {});
+      }
+    }
+
+    // --- Wrap up ---
+    const entrance = origin.offset(bp.entrance.pos[0], bp.entrance.pos[1], bp.entrance.pos[2]);
+    setMovements(bot, false);
+    await withTimeout(
+      bot.pathfinder.goto(new goals.GoalNear(entrance.x, entrance.y, entrance.z, 1)),
+      15_000,
+      undefined,
+    );
+
+    const missingList = Object.entries(missing).map(([item, n]) => `${n}x ${item}`);
+    const stats = { blocksPlaced: placed, blocksTotal: total, blocksCleared: cleared, scaffolds: scaffolds.length };
+    if (placed === total) {
+      clearCheckpoint(bot, "build_structure");
+      const type = key === "house" ? "house" : "other";
+      const ms = getBotMemoryStore(bot);
+      if (ms) ms.addStructure(type, origin.x, origin.y, origin.z, bp.name);
+      else addStructure(type, origin.x, origin.y, origin.z, bp.name);
+      return {
+        success: true,
+        message: `Built ${bp.name} at ${origin.x}, ${origin.y}, ${origin.z} (${total} blocks).`,
+        stats,
+      };
+    }
+    // Unfinished is a failure, as the structure_recorded postcondition would say — out of materials
+    // is the world's doing, blocks that wouldn't go in are the skill's
+    checkpoint(placed);
+    return {
+      success: false,
+      message: `${bp.name} at ${origin.x}, ${origin.y}, ${origin.z}: ${placed}/${total} blocks placed.${missingList.length > 0 ? ` Missing ${missingList.join(", ")}.` : ""} Run build_structure again nearby to finish.`,
+      stats,
+      failureKind: missingList.length > 0 ? "precondition" : undefined,
+    };
+  },
+};
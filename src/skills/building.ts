@@ -0,0 +1,75 @@
+// src/skills/building.ts
+// Site selection and block placement helpers shared by the building skills.
+
+import type { Bot } from "mineflayer";
+import { Vec3 } from "vec3";
+
+/** Find a reasonably flat rectangular area near the bot. Returns origin (ground level). */
+export function findBuildSite(bot: Bot, width: number, depth: number): Vec3 | null {
+  const pos = bot.entity.position.floored();
+
+  // Two passes: strict (1 block tolerance), then relaxed (2 block tolerance)
+  for (const tolerance of [1, 2]) {
+    for (let r = 3; r <= 30; r++) {
+      for (let dx = -r; dx <= r; dx += 2) {
+        for (let dz = -r; dz <= r; dz += 2) {
+          if (Math.abs(dx) < r - 1 && Math.abs(dz) < r - 1) continue;
+
+          const baseY = groundLevel(bot, pos.x + dx, pos.z + dz);
+          if (baseY === null) continue;
+
+          let flat = true;
+          for (let fx = 0; fx < width && flat; fx += 3) {
+            for (let fz = 0; fz < depth && flat; fz += 3) {
+              const gy = groundLevel(bot, pos.x + dx + fx, pos.z + dz + fz);
+              if (gy === null || Math.abs(gy - baseY) > tolerance) flat = false;
+            }
+          }
+          if (flat) return new Vec3(pos.x + dx, baseY, pos.z + dz);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function groundLevel(bot: Bot, x: number, z: number): number | null {
+  const botY = Math.floor(bot.entity.position.y);
+  for (let y = botY + 5; y >= botY - 10; y--) {
+    const block = bot.blockAt(new Vec3(x, y, z));
+    const above = bot.blockAt(new Vec3(x, y + 1, z));
+    if (
+      block &&
+      block.name !== "air" &&
+      block.name !== "water" &&
+      block.name !== "short_grass" &&
+      block.name !== "tall_grass" &&
+      !block.name.includes("leaves") &&
+      above &&
+      (above.name === "air" || above.name === "short_grass" || above.name === "tall_grass")
+    ) {
+      return y;
+    }
+  }
+  return null;
+}
+
+/** Find a solid block adjacent to targetPos that we can place against. */
+export function findPlacementRef(bot: Bot, targetPos: Vec3): { block: any; face: Vec3 } | null {
+  const faces = [
+    new Vec3(0, -1, 0),
+    new Vec3(0, 1, 0),
+    new Vec3(1, 0, 0),
+    new Vec3(-1, 0, 0),
+    new Vec3(0, 0, 1),
+    new Vec3(0, 0, -1),
+  ];
+  for (const face of faces) {
+    const refPos = targetPos.minus(face);
+    const refBlock = bot.blockAt(refPos);
+    if (refBlock && refBlock.name !== "air" && refBlock.name !== "water" && !refBlock.name.includes("leaves")) {
+      return { block: refBlock, face };
+    }
+  }
+  return null;
+}
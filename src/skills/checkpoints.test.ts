@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Bot } from "mineflayer";
+import { BotMemoryStore } from "../bot/memory.js";
+import { registerBotMemory } from "../bot/memory-registry.js";
+import { clearCheckpoint, findCheckpoint, findCheckpoints, saveCheckpoint } from "./checkpoints.js";
+import { runSkill } from "./executor.js";
+import type { Skill } from "./types.js";
+
+/** A bot with its own memory store backed by a temp file. */
+function botWithMemory(pos = { x: 0, y: 64, z: 0 }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-"));
+  const file = path.join(dir, "memory.json");
+  const newStore = () => {
+    const store = new BotMemoryStore("memory.json");
+    (store as any).memoryFile = file;
+    (store as any).memory = {
+      structures: [],
+      deaths: [],
+      oreDiscoveries: [],
+      skillHistory: [],
+      lessons: [],
+      brokenSkillNames: [],
+    };
+    return store;
+  };
+  const store = newStore();
+  const bot = {
+    username: "Tester",
+    entity: { position: { ...pos } },
+    inventory: { items: () => [] },
+    chat: () => {},
+  } as unknown as Bot;
+  registerBotMemory(bot, store);
+  return { bot, store, newStore, cleanup: () => fs.rmSync(dir, { recursive: true }) };
+}
+
+const tunnel = {
+  skill: "strip_mine",
+  params: { ore: "iron", length: 40 },
+  pos: { x: 100, y: 16, z: 0 },
+  state: { direction: "east", targetY: 16, step: 12 },
+  summary: "east tunnel at Y=16, 12/40 blocks",
+};
+
+test("checkpoints: persist in the bot's memory file and survive a restart", () => {
+  const { bot, store, newStore, cleanup } = botWithMemory();
+  saveCheckpoint(bot, tunnel);
+  assert.equal(store.getSkillCheckpoint("strip_mine")?.state.step, 12);
+
+  const reloaded = newStore();
+  reloaded.load();
+  assert.deepEqual(reloaded.getSkillCheckpoint("strip_mine")?.params, { ore: "iron", length: 40 });
+  assert.match(
+    reloaded.getMemoryContext(),
+    /UNFINISHED.*strip_mine \(east tunnel at Y=16, 12\/40 blocks at 100, 16, 0\)/,
+  );
+
+  clearCheckpoint(bot, "strip_mine");
+  assert.equal(store.getSkillCheckpoint("strip_mine"), undefined);
+  cleanup();
+});
+
+test("checkpoints: ignored when the work is out of reach, nearest first otherwise", () => {
+  const { bot, cleanup } = botWithMemory({ x: 0, y: 64, z: 0 });
+  saveCheckpoint(bot, tunnel);
+  saveCheckpoint(bot, { ...tunnel, skill: "build_house", pos: { x: 10, y: 64, z: 0 }, summary: "house" });
+  assert.ok(findCheckpoint(bot, "strip_mine"));
+  assert.equal(findCheckpoint(bot, "strip_mine", 50), null);
+  assert.deepEqual(
+    findCheckpoints(bot).map((c) => c.skill),
+    ["build_house", "strip_mine"],
+  );
+  cleanup();
+});
+
+test("runSkill: a resumed run reuses the checkpoint's params; resume=false drops the checkpoint", async () => {
+  const { bot, store, cleanup } = botWithMemory({ x: 95, y: 16, z: 0 });
+  const seen: Record<string, any>[] = [];
+  const skill: Skill = {
+    name: "strip_mine",
+    description: "test double",
+    params: { ore: { type: "string", description: "ore" }, length: { type: "number", description: "length" } },
+    estimateMaterials: () => ({}),
+    async execute(_bot, params) {
+      seen.push(params);
+      return { success: true, message: "dug" };
+    },
+  };
+
+  saveCheckpoint(bot, tunnel);
+  await runSkill(bot, skill, { length: 60 });
+  assert.deepEqual(seen[0], { ore: "iron", length: 60 });
+
+  await runSkill(bot, skill, { resume: false });
+  assert.equal(seen[1].ore, undefined);
+  assert.equal(store.getSkillCheckpoint("strip_mine"), undefined);
+  cleanup();
+});
@@ -0,0 +1,58 @@
+/**
+ * Skill checkpoints — resumable skills save where they got to (build site and
+ * placed block indices, tunnel end and steps dug) in the bot's memory file as
+ * they go. A death aborts the skill but leaves the checkpoint, and the next run
+ * of the same skill — after respawn or a full restart — carries on from it.
+ *
+ * runSkill fills a resumed run's params from the checkpoint and drops the
+ * checkpoint when called with `resume: false`. A skill clears its own
+ * checkpoint once the work is done.
+ */
+
+import type { Bot } from "mineflayer";
+import type { SkillCheckpoint, SkillParam } from "./types.js";
+import { getBotMemoryStore } from "../bot/memory-registry.js";
+import { clearSkillCheckpoint, getSkillCheckpoint, getSkillCheckpoints, saveSkillCheckpoint } from "../bot/memory.js";
+
+/** Farther than this from the work and a checkpoint is ignored — a respawn walk back, not a trek. */
+export const MAX_RESUME_DISTANCE = 128;
+
+/** The `resume` param every resumable skill declares. */
+export const RESUME_PARAM: SkillParam = {
+  type: "boolean",
+  description: "Set false to discard an interrupted run's checkpoint and start over (default: resume)",
+};
+
+function distance(bot: Bot, pos: SkillCheckpoint["pos"]): number {
+  const p = bot.entity.position;
+  return Math.hypot(p.x - pos.x, p.y - pos.y, p.z - pos.z);
+}
+
+/** The bot's checkpoint for a skill, if the work is within reach. */
+export function findCheckpoint(bot: Bot, skill: string, maxDistance = MAX_RESUME_DISTANCE): SkillCheckpoint | null {
+  const store = getBotMemoryStore(bot);
+  const checkpoint = store ? store.getSkillCheckpoint(skill) : getSkillCheckpoint(skill);
+  if (!checkpoint) return null;
+  return distance(bot, checkpoint.pos) <= maxDistance ? checkpoint : null;
+}
+
+/** Every checkpoint within reach, nearest first. */
+export function findCheckpoints(bot: Bot, maxDistance = MAX_RESUME_DISTANCE): SkillCheckpoint[] {
+  const store = getBotMemoryStore(bot);
+  return (store ? store.getSkillCheckpoints() : getSkillCheckpoints())
+    .filter((c) => distance(bot, c.pos) <= maxDistance)
+    .sort((a, b) => distance(bot, a.pos) - distance(bot, b.pos));
+}
+
+export function saveCheckpoint(bot: Bot, checkpoint: Omit<SkillCheckpoint, "updatedAt">): void {
+  const full: SkillCheckpoint = { ...checkpoint, updatedAt: new Date().toISOString() };
+  const store = getBotMemoryStore(bot);
+  if (store) store.saveSkillCheckpoint(full);
+  else saveSkillCheckpoint(full);
+}
+
+export function clearCheckpoint(bot: Bot, skill: string): void {
+  const store = getBotMemoryStore(bot);
+  if (store) store.clearSkillCheckpoint(skill);
+  else clearSkillCheckpoint(skill);
+}
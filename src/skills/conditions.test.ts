@@ -0,0 +1,171 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import type { Bot } from "mineflayer";
+import {
+  inferPostconditions,
+  matchesItem,
+  takeSnapshot,
+  unmetPostconditions,
+  unmetPreconditions,
+} from "./conditions.js";
+import { goFishingSkill } from "./go-fishing.js";
+import { stripMineSkill } from "./strip-mine.js";
+import type { Skill } from "./types.js";
+
+/** Inventory, clock, dimension and one nearby block — all the precondition checks look at. */
+function fakeBot(opts: { items?: { name: string; count: number }[]; isDay?: boolean; nearby?: string[] } = {}) {
+  let items = opts.items ?? [];
+  const ids: Record<string, { id: number }> = { water: { id: 1 }, stone: { id: 2 } };
+  const bot = {
+    inventory: { items: () => items },
+    time: { isDay: opts.isDay ?? true },
+    game: { dimension: "minecraft:overworld" },
+    registry: { blocksByName: ids },
+    findBlock: ({ matching }: { matching: number[] }) =>
+      (opts.nearby ?? []).some((n) => matching.includes(ids[n]?.id)) ? {} : null,
+    entity: { position: { x: 0, y: 64, z: 0 } },
+  } as unknown as Bot;
+  return { bot, setItems: (next: { name: string; count: number }[]) => (items = next) };
+}
+
+test("matchesItem: exact names and *_suffix patterns", () => {
+  assert.ok(matchesItem("iron_pickaxe", "*_pickaxe"));
+  assert.ok(matchesItem("torch", ["lantern", "torch"]));
+  assert.ok(!matchesItem("redstone_torch", "torch"));
+});
+
+test("unmetPreconditions: items, counts, nearby blocks, time and dimension", () => {
+  const skill: Pick<Skill, "preconditions"> = {
+    preconditions: [
+      { type: "item", name: "*_pickaxe", hint: "craft_gear first" },
+      { type: "item", name: ["cobblestone", "oak_planks"], count: 3 },
+      { type: "block_nearby", name: "water", maxDistance: 48 },
+      { type: "time", period: "night" },
+      { type: "dimension", name: "overworld" },
+    ],
+  };
+  const { bot } = fakeBot({ items: [{ name: "cobblestone", count: 2 }], nearby: ["stone"] });
+  assert.deepEqual(unmetPreconditions(bot, skill), [
+    "need any pickaxe (craft_gear first)",
+    "need 3x cobblestone or oak_planks",
+    "need water within 48 blocks",
+    "only works at night",
+  ]);
+
+  const ready = fakeBot({
+    items: [
+      { name: "stone_pickaxe", count: 1 },
+      { name: "cobblestone", count: 2 },
+      { name: "oak_planks", count: 1 },
+    ],
+    nearby: ["water"],
+    isDay: false,
+  });
+  assert.deepEqual(unmetPreconditions(ready.bot, skill), []);
+});
+
+test("unmetPostconditions: item_gained compares against the snapshot", () => {
+  const skill: Pick<Skill, "postconditions"> = {
+    postconditions: [{ type: "item_gained", name: ["iron_ingot", "gold_ingot"], count: 2 }],
+  };
+  const { bot, setItems } = fakeBot({ items: [{ name: "iron_ingot", count: 5 }] });
+  const before = takeSnapshot(bot);
+
+  setItems([{ name: "iron_ingot", count: 6 }]);
+  assert.deepEqual(unmetPostconditions(bot, skill, before), ["expected to gain 2x iron_ingot or gold_ingot"]);
+
+  setItems([
+    { name: "iron_ingot", count: 6 },
+    { name: "gold_ingot", count: 1 },
+  ]);
+  assert.deepEqual(unmetPostconditions(bot, skill, before), []);
+});
+
+test("unmetPostconditions: what a skill uses up on the way doesn't cancel out what it brings back", () => {
+  // Crafting a rod costs 3 sticks and 2 string; one cod still makes a trip
+  const fishing = fakeBot({
+    items: [
+      { name: "stick", count: 3 },
+      { name: "string", count: 2 },
+    ],
+  });
+  const cast = takeSnapshot(fishing.bot);
+  fishing.setItems([{ name: "fishing_rod", count: 1 }]);
+  assert.equal(unmetPostconditions(fishing.bot, goFishingSkill, cast).length, 1);
+  fishing.setItems([
+    { name: "fishing_rod", count: 1 },
+    { name: "cod", count: 1 },
+  ]);
+  assert.deepEqual(unmetPostconditions(fishing.bot, goFishingSkill, cast), []);
+
+  // Torches hung in the tunnel aren't netted against the stone dug out of it
+  const mining = fakeBot({ items: [{ name: "torch", count: 8 }] });
+  const dig = takeSnapshot(mining.bot);
+  mining.setItems([{ name: "cobblestone", count: 3 }]);
+  assert.deepEqual(unmetPostconditions(mining.bot, stripMineSkill, dig), []);
+});
+
+test("unmetPostconditions: block_placed counts blocks put down while the snapshot is held", () => {
+  const skill: Pick<Skill, "postconditions"> = {
+    postconditions: [
+      { type: "block_placed", name: ["torch", "wall_torch"], count: 2 },
+      {
+        type: "any",
+        of: [
+          { type: "item_gained", name: "wheat" },
+          { type: "block_placed", name: "wheat" },
+        ],
+      },
+    ],
+  };
+  const events = new EventEmitter();
+  const bot = Object.assign(events, { inventory: { items: () => [] } }) as unknown as Bot;
+  const block = (name: string) => ({ name });
+  const before = takeSnapshot(bot, skill);
+
+  events.emit("blockUpdate", block("air"), block("wall_torch"));
+  events.emit("blockUpdate", block("wheat"), block("wheat")); // a crop growing isn't a placement
+  assert.deepEqual(unmetPostconditions(bot, skill, before), [
+    "expected to place 2x torch or wall_torch",
+    "expected to gain 1x wheat, or expected to place 1x wheat",
+  ]);
+
+  events.emit("blockUpdate", block("air"), block("torch"));
+  events.emit("blockUpdate", block("farmland"), block("wheat"));
+  assert.deepEqual(unmetPostconditions(bot, skill, before), []);
+
+  before.release();
+  assert.equal(events.listenerCount("blockUpdate"), 0);
+});
+
+test("inferPostconditions: reads what a Voyager skill leaves behind off its name", () => {
+  assert.deepEqual(inferPostconditions("craftBed", "1.21.4"), [{ type: "item_gained", name: "*_bed" }]);
+  assert.deepEqual(inferPostconditions("mineFiveIronOresV2", "1.21.4"), [
+    { type: "item_gained", name: "raw_iron", count: 5 },
+  ]);
+  assert.deepEqual(inferPostconditions("craftAcaciaPlanksAndSticks", "1.21.4"), [
+    { type: "item_gained", name: "acacia_planks" },
+    { type: "item_gained", name: "stick" },
+  ]);
+  assert.deepEqual(inferPostconditions("smeltFiveRawIron", "1.21.4"), [
+    { type: "item_gained", name: "iron_ingot", count: 5 },
+  ]);
+  assert.deepEqual(inferPostconditions("smeltCactusIntoGreenDye", "1.21.4"), [
+    { type: "item_gained", name: "green_dye" },
+  ]);
+  assert.deepEqual(inferPostconditions("cookSevenMutton", "1.21.4"), [
+    { type: "item_gained", name: "cooked_mutton", count: 7 },
+  ]);
+  assert.deepEqual(inferPostconditions("collectFiveCactusBlocks", "1.21.4"), [
+    { type: "item_gained", name: "cactus", count: 5 },
+  ]);
+  assert.deepEqual(inferPostconditions("mineWoodLog", "1.21.4"), [{ type: "item_gained", name: "*_log" }]);
+  assert.deepEqual(inferPostconditions("fillBucketWithWater", "1.21.4"), [
+    { type: "item_gained", name: "water_bucket" },
+  ]);
+  assert.deepEqual(inferPostconditions("placeTorch", "1.21.4"), [{ type: "block_placed", name: "torch" }]);
+  // Nothing to check, or nothing the game knows by that name
+  assert.deepEqual(inferPostconditions("killOnePig", "1.21.4"), []);
+  assert.deepEqual(inferPostconditions("craftFlyingCarpet", "1.21.4"), []);
+});
@@ -0,0 +1,277 @@
+/**
+ * Skill preconditions and postconditions.
+ *
+ * runSkill refuses to start a skill whose preconditions don't hold (and records
+ * the attempt as a "precondition" failure rather than a bug), and downgrades a
+ * reported success whose postconditions don't hold. The brain uses
+ * unmetPreconditions() to mark skills that can't run right now in the prompt.
+ * Dynamic skills get postconditions inferred from their names.
+ */
+
+import type { Bot } from "mineflayer";
+import type { Block } from "prismarine-block";
+import mcDataLoader from "minecraft-data";
+import type { ItemPattern, Skill, SkillPostcondition, SkillPrecondition } from "./types.js";
+import { getBotMemoryStore } from "../bot/memory-registry.js";
+import { hasStructureNearby, type Structure } from "../bot/memory.js";
+import { config } from "../config.js";
+import { SMELT_RECIPES } from "./smelt-ores.js";
+
+/** Default distance from the bot for structure_recorded. */
+const STRUCTURE_RADIUS = 48;
+
+function patterns(name: ItemPattern): string[] {
+  return Array.isArray(name) ? name : [name];
+}
+
+/** Does an item name match "torch" / "*_pickaxe" style patterns? */
+export function matchesItem(itemName: string, name: ItemPattern): boolean {
+  return patterns(name).some((p) => (p.startsWith("*") ? itemName.endsWith(p.slice(1)) : itemName === p));
+}
+
+/** Total count of inventory items matching the pattern. */
+export function countMatching(items: { name: string; count: number }[], name: ItemPattern): number {
+  return items.filter((i) => matchesItem(i.name, name)).reduce((sum, i) => sum + i.count, 0);
+}
+
+/** "*_pickaxe" → "any pickaxe", ["torch", "lantern"] → "torch or lantern". */
+function describeItems(name: ItemPattern): string {
+  return patterns(name)
+    .map((p) => (p.startsWith("*_") ? `any ${p.slice(2).replace(/_/g, " ")}` : p))
+    .join(" or ");
+}
+
+/** Human-readable reason a precondition isn't met, for results and the prompt. */
+export function describePrecondition(c: SkillPrecondition): string {
+  let text: string;
+  switch (c.type) {
+    case "item":
+      text = `need ${(c.count ?? 1) > 1 ? `${c.count}x ` : ""}${describeItems(c.name)}`;
+      break;
+    case "block_nearby":
+      text = `need ${patterns(c.name).join(" or ")} within ${c.maxDistance} blocks`;
+      break;
+    case "time":
+      text = `only works at ${c.period}`;
+      break;
+    case "dimension":
+      text = `only works in the ${c.name.replace("the_", "")}`;
+      break;
+  }
+  return c.hint ? `${text} (${c.hint})` : text;
+}
+
+function dimensionOf(bot: Bot): string {
+  return String(bot.game?.dimension ?? "overworld").replace("minecraft:", "");
+}
+
+/** Does a single precondition hold right now? */
+export function preconditionHolds(bot: Bot, c: SkillPrecondition): boolean {
+  switch (c.type) {
+    case "item":
+      return countMatching(bot.inventory.items(), c.name) >= (c.count ?? 1);
+    case "block_nearby": {
+      const ids = patterns(c.name)
+        .map((n) => bot.registry.blocksByName[n]?.id)
+        .filter((id): id is number => id !== undefined);
+      return ids.length > 0 && bot.findBlock({ matching: ids, maxDistance: c.maxDistance }) !== null;
+    }
+    case "time":
+      return (c.period === "day") === bot.time.isDay;
+    case "dimension":
+      return dimensionOf(bot) === c.name;
+  }
+}
+
+/** Reasons the skill can't start right now; empty when every precondition holds. */
+export function unmetPreconditions(bot: Bot, skill: Pick<Skill, "preconditions">): string[] {
+  return (skill.preconditions ?? []).filter((c) => !preconditionHolds(bot, c)).map(describePrecondition);
+}
+
+/** What the bot had before a skill ran, for checking postconditions afterwards. */
+export interface ConditionSnapshot {
+  items: { name: string; count: number }[];
+  /** Block name → how many appeared since; only counted when a block_placed postcondition needs it. */
+  placed: Record<string, number>;
+  /** Stop counting placed blocks. Call once the postconditions have been checked. */
+  release(): void;
+}
+
+function countsPlacements(conditions: SkillPostcondition[]): boolean {
+  return conditions.some((c) => c.type === "block_placed" || (c.type === "any" && countsPlacements(c.of)));
+}
+
+export function takeSnapshot(bot: Bot, skill: Pick<Skill, "postconditions"> = {}): ConditionSnapshot {
+  const placed: Record<string, number> = {};
+  const snapshot: ConditionSnapshot = {
+    items: bot.inventory.items().map((i) => ({ name: i.name, count: i.count })),
+    placed,
+    release: () => {},
+  };
+  if (!countsPlacements(skill.postconditions ?? [])) return snapshot;
+
+  // Scanning for blocks can't tell new cobblestone from the hillside, so count changes as they happen
+  const onBlockUpdate = (oldBlock: Block | null, newBlock: Block | null) => {
+    if (!newBlock || newBlock.name === "air" || newBlock.name === oldBlock?.name) return;
+    placed[newBlock.name] = (placed[newBlock.name] ?? 0) + 1;
+  };
+  bot.on("blockUpdate", onBlockUpdate);
+  snapshot.release = () => {
+    bot.off("blockUpdate", onBlockUpdate);
+  };
+  return snapshot;
+}
+
+/** Is a structure of this type recorded in the bot's memory within `radius`? */
+export function structureNearby(
+  bot: Bot,
+  structureType: Structure["type"] | Structure["type"][],
+  radius = STRUCTURE_RADIUS,
+): boolean {
+  const { x, y, z } = bot.entity.position;
+  const store = getBotMemoryStore(bot);
+  const types = Array.isArray(structureType) ? structureType : [structureType];
+  return types.some((t) =>
+    store ? store.hasStructureNearby(t, x, y, z, radius) : hasStructureNearby(t, x, y, z, radius),
+  );
+}
+
+function postconditionHolds(bot: Bot, c: SkillPostcondition, before: ConditionSnapshot): boolean {
+  switch (c.type) {
+    case "item_gained": {
+      const items = bot.inventory.items();
+      const gained = c.name
+        ? countMatching(items, c.name) - countMatching(before.items, c.name)
+        : items.reduce((s, i) => s + i.count, 0) - before.items.reduce((s, i) => s + i.count, 0);
+      return gained >= (c.count ?? 1);
+    }
+    case "block_placed": {
+      const placed = Object.entries(before.placed).map(([name, count]) => ({ name, count }));
+      return countMatching(placed, c.name) >= (c.count ?? 1);
+    }
+    case "block_nearby":
+      return preconditionHolds(bot, c);
+    case "structure_recorded":
+      return structureNearby(bot, c.structureType, c.radius);
+    case "any":
+      return c.of.some((o) => postconditionHolds(bot, o, before));
+  }
+}
+
+function describePostcondition(c: SkillPostcondition): string {
+  switch (c.type) {
+    case "item_gained":
+      return `expected to gain ${c.count ?? 1}x ${c.name ? describeItems(c.name) : "items"}`;
+    case "block_placed":
+      return `expected to place ${c.count ?? 1}x ${describeItems(c.name)}`;
+    case "block_nearby":
+      return `expected ${patterns(c.name).join(" or ")} within ${c.maxDistance} blocks`;
+    case "structure_recorded": {
+      const types = Array.isArray(c.structureType) ? c.structureType.join(" or ") : c.structureType;
+      return `expected a ${types} recorded nearby`;
+    }
+    case "any":
+      return c.of.map(describePostcondition).join(", or ");
+  }
+}
+
+/** Postconditions a finished skill failed to meet; empty when all hold. */
+export function unmetPostconditions(
+  bot: Bot,
+  skill: Pick<Skill, "postconditions">,
+  before: ConditionSnapshot,
+): string[] {
+  return (skill.postconditions ?? []).filter((c) => !postconditionHolds(bot, c, before)).map(describePostcondition);
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+/** "mineFiveIronOresV2" → ["mine", "five", "iron", "ores"] */
+function nameWords(skillName: string): string[] {
+  return skillName
+    .replace(/(V\d+|Improved)$/, "")
+    .split(/_|(?=[A-Z])/)
+    .map((w) => w.toLowerCase())
+    .filter(Boolean);
+}
+
+/** An item name (or "*_suffix" pattern) for a phrase like "oak_logs" or "bed", if the game has one. */
+function resolveItem(phrase: string, itemsByName: Record<string, unknown>): string | undefined {
+  const names = Object.keys(itemsByName);
+  for (const candidate of [phrase, phrase.replace(/e?s$/, ""), phrase.replace(/s$/, "")]) {
+    if (itemsByName[candidate]) return candidate;
+    if (names.some((n) => n.endsWith(`_${candidate}`))) return `*_${candidate}`;
+  }
+  return undefined;
+}
+
+/**
+ * Postconditions read off a dynamic skill's name, for skills that can't
+ * declare their own: `craftBed` ⇒ gains a bed, `mineFiveIronOres` ⇒ gains
+ * 5 raw iron, `smeltRawCopper` ⇒ gains copper ingots, `placeTorch` ⇒ places
+ * a torch. Names that don't say what they leave behind (killOnePig,
+ * equipIronSword) or that don't resolve to a game item get no checks.
+ */
+export function inferPostconditions(skillName: string, version = config.mc.version): SkillPostcondition[] {
+  const mcData = mcDataLoader(version);
+  const [verb, ...rest] = nameWords(skillName);
+  const count = rest.map((w) => NUMBER_WORDS[w]).find((n) => n !== undefined) ?? 1;
+  const words = rest.filter((w) => !(w in NUMBER_WORDS) && w !== "more");
+  const item = (phrase: string) => resolveItem(phrase, mcData.itemsByName);
+  const phrase = words.join("_");
+
+  const targets: (string | undefined)[] = [];
+  let type: "item_gained" | "block_placed" = "item_gained";
+  switch (verb) {
+    case "craft":
+      targets.push(...phrase.split("_and_").map(item));
+      break;
+    case "mine":
+    case "collect":
+    case "gather":
+    case "obtain":
+    case "chop": {
+      // "wood log" is any log; a block yields its drops (iron ore gives raw iron)
+      const block = phrase.replace(/^wood_/, "");
+      const name = item(block) ?? item(block.replace(/_blocks?$/, ""));
+      const drops = name ? (mcData.blocksByName[name]?.drops ?? []) : [];
+      const dropNames = drops.map((id) => mcData.items[id as number]?.name).filter((n): n is string => !!n);
+      targets.push(dropNames.length > 0 && name && !dropNames.includes(name) ? dropNames[0] : name);
+      break;
+    }
+    case "smelt": {
+      const [input, output] = phrase.split("_into_");
+      const inputName = item(input);
+      targets.push(output ? item(output) : inputName && SMELT_RECIPES[inputName]);
+      break;
+    }
+    case "cook":
+      targets.push(item(`cooked_${phrase}`));
+      break;
+    case "fill": {
+      // fillBucketWithWater ⇒ water_bucket
+      const [container, contents] = phrase.split("_with_");
+      targets.push(contents ? item(`${contents}_${container}`) : undefined);
+      break;
+    }
+    case "place":
+      type = "block_placed";
+      targets.push(item(phrase));
+      break;
+    default:
+      return [];
+  }
+  if (targets.length === 0 || targets.some((t) => !t)) return [];
+  return targets.map((name) => ({ type, name: name!, ...(count > 1 && { count }) }));
+}
@@ -18,6 +18,7 @@ export const craftGearSkill: Skill = {
   name: "craft_gear",
   description:
     "Craft the best tool set (pickaxe, axe, sword, shovel) from available materials. No gathering needed — uses what's in inventory.",
+  postconditions: [{ type: "item_gained", name: TOOL_TYPES.map((t) => `*_${t}`) }],
   params: {},
 
   estimateMaterials(_bot, _params) {
@@ -119,6 +120,7 @@ export const craftGearSkill: Skill = {
       return {
         success: false,
         message: `No new tools crafted. Missing: ${missing.join(", ") || "none"}. ${hints.join(". ")}. Use gather_wood to get materials first.`,
+        failureKind: "precondition",
       };
     }
 
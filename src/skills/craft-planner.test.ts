@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { planCrafting, formatCraftPlan, type CraftStep } from "./craft-planner.js";
+
+const VERSION = "1.21.4";
+
+function summary(steps: CraftStep[]): string[] {
+  return steps.map((s) => `${s.kind} ${s.count} ${s.item}`);
+}
+
+test("planCrafting: wooden pickaxe from nothing goes logs → planks → sticks → table → pickaxe", () => {
+  const plan = planCrafting(VERSION, { wooden_pickaxe: 1 }, { inventory: {} });
+  assert.deepEqual(summary(plan.steps), [
+    "gather 3 #logs",
+    "craft 12 #planks",
+    "craft 4 stick",
+    "craft 1 crafting_table",
+    "craft 1 wooden_pickaxe",
+  ]);
+  assert.equal(plan.ready, false);
+  const pickaxe = plan.steps.at(-1);
+  assert.ok(pickaxe?.kind === "craft" && pickaxe.table, "pickaxe needs a crafting table");
+});
+
+test("planCrafting: any wood type counts and surplus is reused", () => {
+  const plan = planCrafting(
+    VERSION,
+    { wooden_pickaxe: 1 },
+    { inventory: { cherry_log: 1, birch_planks: 2, stick: 5 }, craftingTableNearby: true },
+  );
+  assert.deepEqual(summary(plan.steps), ["craft 4 #planks", "craft 1 wooden_pickaxe"]);
+  assert.equal(plan.ready, true);
+});
+
+test("planCrafting: known stash contents are withdrawn before gathering", () => {
+  const plan = planCrafting(
+    VERSION,
+    { stone_pickaxe: 1 },
+    { inventory: { stick: 2 }, stash: { cobblestone: 2 }, craftingTableNearby: true },
+  );
+  assert.deepEqual(summary(plan.steps), ["withdraw 2 cobblestone", "gather 1 cobblestone", "craft 1 stone_pickaxe"]);
+});
+
+test("planCrafting: ingots are smelted, with a furnace and fuel planned once", () => {
+  const plan = planCrafting(
+    VERSION,
+    { iron_pickaxe: 1 },
+    { inventory: { stick: 2, furnace: 1, coal: 4 }, craftingTableNearby: true },
+  );
+  assert.deepEqual(summary(plan.steps), ["gather 3 raw_iron", "smelt 3 iron_ingot", "craft 1 iron_pickaxe"]);
+
+  const fromNuggets = planCrafting(
+    VERSION,
+    { iron_ingot: 1 },
+    { inventory: { iron_nugget: 9 }, craftingTableNearby: true },
+  );
+  assert.deepEqual(summary(fromNuggets.steps), ["craft 1 iron_ingot"], "nuggets on hand beat the furnace");
+});
+
+test("planCrafting: furnace prefers cobblestone over other stone variants", () => {
+  const plan = planCrafting(VERSION, { furnace: 1 }, { inventory: {}, craftingTableNearby: true });
+  assert.deepEqual(summary(plan.steps), ["gather 8 cobblestone", "craft 1 furnace"]);
+});
+
+test("planCrafting: unknown items are reported, not planned", () => {
+  const plan = planCrafting(VERSION, { laser_sword: 1 }, { inventory: {} });
+  assert.deepEqual(plan.unknown, ["laser_sword"]);
+  assert.match(formatCraftPlan(plan), /Unknown item\(s\): laser_sword/);
+});
+
+test("formatCraftPlan: numbered steps with sources and suggested actions", () => {
+  const text = formatCraftPlan(planCrafting(VERSION, { torch: 4 }, { inventory: { stick: 1 } }));
+  assert.equal(
+    text,
+    "To make 4x torch:\n1. gather 1 coal from coal_ore/deepslate_coal_ore — mine_block\n2. craft 4 torch",
+  );
+});
@@ -0,0 +1,389 @@
+/**
+ * Recipe-aware crafting planner.
+ *
+ * Given target items and counts, walks minecraft-data recipes down to raw
+ * materials and returns an ordered plan of withdraw / gather / craft / smelt
+ * steps, using what's already in the inventory (and the stash, when known)
+ * first. Pure — no bot access — so the craft action, gatherMaterials and the
+ * brain's context all share one answer.
+ *
+ * Wood is interchangeable: recipes that accept any plank (sticks, tools,
+ * tables, chests...) are planned against the "#planks" group, and planks come
+ * from "#logs" (any of LOG_TYPES). Recipes tied to one wood type (oak_door)
+ * keep their exact ingredients.
+ */
+
+import mcDataLoader from "minecraft-data";
+
+/** Wood type constants — any log can become planks, all planks are interchangeable for building */
+export const LOG_TYPES = [
+  "oak_log",
+  "spruce_log",
+  "birch_log",
+  "jungle_log",
+  "acacia_log",
+  "dark_oak_log",
+  "cherry_log",
+  "mangrove_log",
+  "pale_oak_log", // MC 1.21.4 Pale Garden biome
+] as const;
+
+export const PLANK_TYPES = [
+  "oak_planks",
+  "spruce_planks",
+  "birch_planks",
+  "jungle_planks",
+  "acacia_planks",
+  "dark_oak_planks",
+  "cherry_planks",
+  "mangrove_planks",
+  "pale_oak_planks", // MC 1.21.4 Pale Garden biome
+] as const;
+
+export type CraftStep =
+  | { kind: "withdraw"; item: string; count: number }
+  | { kind: "gather"; item: string; count: number; sources: string[]; action?: string }
+  | { kind: "craft"; item: string; count: number; crafts: number; table: boolean }
+  | { kind: "smelt"; item: string; count: number; input: string };
+
+export interface CraftPlan {
+  needs: Record<string, number>;
+  steps: CraftStep[];
+  /** Requested items minecraft-data doesn't know. */
+  unknown: string[];
+  /** Nothing left to gather, withdraw or smelt — the craft steps can run right now. */
+  ready: boolean;
+}
+
+export interface CraftPlanOptions {
+  /** Item name → count in the bot's inventory. */
+  inventory: Record<string, number>;
+  /** Item name → count known to be in the stash. */
+  stash?: Record<string, number>;
+  craftingTableNearby?: boolean;
+  furnaceNearby?: boolean;
+}
+
+// ─── Item groups ────────────────────────────────────────────────────────────
+
+/** Interchangeable items, planned as one pseudo-item. */
+export const ITEM_GROUPS: Record<string, readonly string[]> = {
+  "#planks": PLANK_TYPES,
+  "#logs": LOG_TYPES,
+  "#coal": ["coal", "charcoal"],
+};
+
+const GROUP_LABELS: Record<string, string> = {
+  "#planks": "planks (any wood)",
+  "#logs": "logs (any wood)",
+  "#coal": "coal/charcoal",
+};
+
+function groupOf(name: string, groups: string[]): string | null {
+  for (const g of groups) {
+    if (ITEM_GROUPS[g].includes(name)) return g;
+  }
+  return null;
+}
+
+/** Human label for an item or group. */
+export function itemLabel(item: string): string {
+  return GROUP_LABELS[item] ?? item;
+}
+
+// ─── World knowledge minecraft-data lacks ───────────────────────────────────
+
+/** Where raw materials come from, and the action that gets them. */
+const GATHER_SOURCES: Record<string, { sources: string[]; action?: string }> = {
+  "#logs": { sources: [...LOG_TYPES], action: "gather_wood" },
+  cobblestone: { sources: ["stone", "cobblestone"], action: "mine_block" },
+  cobbled_deepslate: { sources: ["deepslate"], action: "mine_block" },
+  "#coal": { sources: ["coal_ore", "deepslate_coal_ore"], action: "mine_block" },
+  coal: { sources: ["coal_ore", "deepslate_coal_ore"], action: "mine_block" },
+  raw_iron: { sources: ["iron_ore", "deepslate_iron_ore"], action: "mine_block" },
+  raw_gold: { sources: ["gold_ore", "deepslate_gold_ore"], action: "mine_block" },
+  raw_copper: { sources: ["copper_ore", "deepslate_copper_ore"], action: "mine_block" },
+  diamond: { sources: ["diamond_ore", "deepslate_diamond_ore"], action: "mine_block" },
+  redstone: { sources: ["redstone_ore", "deepslate_redstone_ore"], action: "mine_block" },
+  lapis_lazuli: { sources: ["lapis_ore", "deepslate_lapis_ore"], action: "mine_block" },
+  sand: { sources: ["sand"], action: "mine_block" },
+  dirt: { sources: ["dirt"], action: "mine_block" },
+  gravel: { sources: ["gravel"], action: "mine_block" },
+  flint: { sources: ["gravel"], action: "mine_block" },
+  clay_ball: { sources: ["clay"], action: "mine_block" },
+  white_wool: { sources: ["sheep"], action: "attack" },
+  string: { sources: ["spider", "cobweb"], action: "attack" },
+  leather: { sources: ["cow"], action: "attack" },
+  feather: { sources: ["chicken"], action: "attack" },
+  beef: { sources: ["cow"], action: "attack" },
+  porkchop: { sources: ["pig"], action: "attack" },
+  chicken: { sources: ["chicken"], action: "attack" },
+  mutton: { sources: ["sheep"], action: "attack" },
+  wheat: { sources: ["wheat"], action: "build_farm" },
+};
+
+function gatherSources(item: string): { sources: string[]; action?: string } {
+  if (GATHER_SOURCES[item]) return GATHER_SOURCES[item];
+  if ((LOG_TYPES as readonly string[]).includes(item)) return { sources: [item], action: "gather_wood" };
+  return { sources: [] };
+}
+
+/** Tie-breaker between recipe variants nothing on hand decides. */
+const COMMON_MATERIALS = new Set(["#planks", "#logs", "#coal", "stick", "cobblestone", "iron_ingot"]);
+
+/** Furnace recipes (minecraft-data only covers crafting). */
+const SMELT_SOURCES: Record<string, string> = {
+  iron_ingot: "raw_iron",
+  gold_ingot: "raw_gold",
+  copper_ingot: "raw_copper",
+  glass: "sand",
+  stone: "cobblestone",
+  smooth_stone: "stone",
+  charcoal: "#logs",
+  brick: "clay_ball",
+  cooked_beef: "beef",
+  cooked_porkchop: "porkchop",
+  cooked_chicken: "chicken",
+  cooked_mutton: "mutton",
+  baked_potato: "potato",
+};
+
+/** Items smelted per piece of coal. */
+const SMELTS_PER_FUEL = 8;
+const MAX_DEPTH = 12;
+
+// ─── Recipes ────────────────────────────────────────────────────────────────
+
+interface RecipeOption {
+  ingredients: Record<string, number>;
+  yields: number;
+  table: boolean;
+}
+
+const recipeCache = new Map<string, Map<string, RecipeOption[]>>();
+
+function ingredientId(ing: any): number | null {
+  if (ing === null || ing === undefined) return null;
+  const id = typeof ing === "object" ? ing.id : ing;
+  return typeof id === "number" && id >= 0 ? id : null;
+}
+
+/**
+ * Crafting options for an item, deduplicated after wood grouping. Items with
+ * one variant per plank type collapse to a single "#planks" option.
+ */
+function recipeOptions(version: string, item: string): RecipeOption[] {
+  let byItem = recipeCache.get(version);
+  if (!byItem) {
+    byItem = new Map();
+    recipeCache.set(version, byItem);
+  }
+  const cached = byItem.get(item);
+  if (cached) return cached;
+
+  const mcData = mcDataLoader(version);
+  const mcItem = mcData.itemsByName[item];
+  const raw: any[] = mcItem ? ((mcData.recipes as any)[mcItem.id] ?? []) : [];
+  // Only substitute wood when the recipe really comes in several wood variants
+  const groups = raw.length > 1 ? ["#planks"] : [];
+
+  const options: RecipeOption[] = [];
+  const seen = new Set<string>();
+  for (const recipe of raw) {
+    const cells: any[] = recipe.inShape ? recipe.inShape.flat() : (recipe.ingredients ?? []);
+    const ingredients: Record<string, number> = {};
+    for (const cell of cells) {
+      const id = ingredientId(cell);
+      if (id === null) continue;
+      const name = mcData.items[id]?.name;
+      if (!name) continue;
+      const key = groupOf(name, groups) ?? name;
+      ingredients[key] = (ingredients[key] ?? 0) + 1;
+    }
+    if (Object.keys(ingredients).length === 0) continue;
+
+    const rows = recipe.inShape?.length ?? 0;
+    const cols = Math.max(0, ...(recipe.inShape ?? []).map((r: any[]) => r.length));
+    const table = rows > 2 || cols > 2 || (!recipe.inShape && cells.length > 4);
+    const option = { ingredients, yields: recipe.result?.count ?? 1, table };
+    const sig = JSON.stringify(Object.entries(ingredients).sort()) + option.yields;
+    if (seen.has(sig)) continue;
+    seen.add(sig);
+    options.push(option);
+  }
+  byItem.set(item, options);
+  return options;
+}
+
+// ─── Inventory pools ────────────────────────────────────────────────────────
+
+/** Counts by item name. Group keys may also hold counts of "some wood planks" produced mid-plan. */
+class Pool {
+  private counts: Map<string, number>;
+
+  constructor(counts: Record<string, number> = {}) {
+    this.counts = new Map(Object.entries(counts).filter(([, n]) => n > 0));
+  }
+
+  count(key: string): number {
+    const members = ITEM_GROUPS[key] ?? [];
+    return members.reduce((sum, m) => sum + (this.counts.get(m) ?? 0), this.counts.get(key) ?? 0);
+  }
+
+  take(key: string, wanted: number): number {
+    let taken = 0;
+    // Group pseudo-entries first, then members with the most on hand
+    const keys = [key, ...[...(ITEM_GROUPS[key] ?? [])].sort((a, b) => this.count(b) - this.count(a))];
+    for (const k of keys) {
+      const have = this.counts.get(k) ?? 0;
+      const n = Math.min(have, wanted - taken);
+      if (n <= 0) continue;
+      this.counts.set(k, have - n);
+      taken += n;
+      if (taken >= wanted) break;
+    }
+    return taken;
+  }
+
+  add(key: string, n: number): void {
+    if (n > 0) this.counts.set(key, (this.counts.get(key) ?? 0) + n);
+  }
+}
+
+// ─── Planner ────────────────────────────────────────────────────────────────
+
+/** Snapshot a mineflayer inventory as name → count. */
+export function inventoryCounts(items: { name: string; count: number }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const i of items) counts[i.name] = (counts[i.name] ?? 0) + i.count;
+  return counts;
+}
+
+/** Plan how to end up with `needs` (item → count) in the inventory. */
+export function planCrafting(version: string, needs: Record<string, number>, options: CraftPlanOptions): CraftPlan {
+  const mcData = mcDataLoader(version);
+  const inv = new Pool(options.inventory);
+  const stash = new Pool(options.stash);
+  const steps: CraftStep[] = [];
+  const unknown: string[] = [];
+  let tableReady = options.craftingTableNearby ?? false;
+  let furnaceReady = options.furnaceNearby ?? false;
+
+  const addStep = (step: CraftStep, mergeable: boolean): void => {
+    const existing = mergeable ? steps.find((s) => s.kind === step.kind && s.item === step.item) : undefined;
+    if (!existing) {
+      steps.push(step);
+      return;
+    }
+    existing.count += step.count;
+    if (existing.kind === "craft" && step.kind === "craft") existing.crafts += step.crafts;
+  };
+
+  const need = (item: string, qty: number, stack: string[]): void => {
+    let remaining = qty - inv.take(item, qty);
+    if (remaining <= 0) return;
+
+    const fromStash = stash.take(item, remaining);
+    if (fromStash > 0) {
+      addStep({ kind: "withdraw", item, count: fromStash }, true);
+      remaining -= fromStash;
+      if (remaining <= 0) return;
+    }
+
+    const gather = gatherSources(item);
+    const smeltInput = SMELT_SOURCES[item];
+    let crafting = stack.length < MAX_DEPTH ? chooseRecipe(item, stack) : null;
+    // Ingots come from the furnace unless the nuggets/blocks are already here
+    if (crafting && smeltInput && !onHand(crafting, Math.ceil(remaining / crafting.yields))) crafting = null;
+    const mark = steps.length;
+
+    if (crafting && !GATHER_SOURCES[item]) {
+      const crafts = Math.ceil(remaining / crafting.yields);
+      for (const [ing, per] of Object.entries(crafting.ingredients)) {
+        need(ing, per * crafts, [...stack, item]);
+      }
+      if (crafting.table && !tableReady) {
+        tableReady = true; // placed once, reused for every later craft
+        need("crafting_table", 1, [...stack, item]);
+      }
+      // Merge into an earlier step only when nothing new had to come first
+      addStep(
+        { kind: "craft", item, count: crafts * crafting.yields, crafts, table: crafting.table },
+        steps.length === mark,
+      );
+      inv.add(item, crafts * crafting.yields - remaining);
+    } else if (smeltInput && !stack.includes(smeltInput)) {
+      need(smeltInput, remaining, [...stack, item]);
+      if (!furnaceReady) {
+        furnaceReady = true;
+        need("furnace", 1, [...stack, item]);
+      }
+      need("#coal", Math.ceil(remaining / SMELTS_PER_FUEL), [...stack, item]);
+      addStep({ kind: "smelt", item, count: remaining, input: smeltInput }, steps.length === mark);
+    } else {
+      addStep({ kind: "gather", item, count: remaining, sources: gather.sources, action: gather.action }, true);
+    }
+  };
+
+  const onHand = (o: RecipeOption, crafts: number): boolean =>
+    Object.entries(o.ingredients).every(([ing, per]) => inv.count(ing) + stash.count(ing) >= per * crafts);
+
+  /** Pick the recipe variant that best fits what's on hand. */
+  const chooseRecipe = (item: string, stack: string[]): RecipeOption | null => {
+    if (item === "#planks") return { ingredients: { "#logs": 1 }, yields: 4, table: false };
+    if (ITEM_GROUPS[item]) return null;
+    const candidates = recipeOptions(version, item).filter(
+      (o) => !Object.keys(o.ingredients).some((ing) => ing === item || stack.includes(ing)),
+    );
+    if (candidates.length === 0) return null;
+
+    const score = (o: RecipeOption): number => {
+      let s = 0;
+      for (const [ing, per] of Object.entries(o.ingredients)) {
+        const have = inv.count(ing) + stash.count(ing);
+        s += Math.min(1, have / per) * 10; // ingredients on hand
+        if (GATHER_SOURCES[ing] || ITEM_GROUPS[ing] || recipeOptions(version, ing).length > 0) s += 1; // obtainable
+        if (COMMON_MATERIALS.has(ing)) s += 0.5; // cobblestone furnace over blackstone
+      }
+      return s / Object.keys(o.ingredients).length;
+    };
+    return candidates.reduce((best, o) => (score(o) > score(best) ? o : best));
+  };
+
+  for (const [item, count] of Object.entries(needs)) {
+    if (!ITEM_GROUPS[item] && !mcData.itemsByName[item]) {
+      unknown.push(item);
+      continue;
+    }
+    need(item, count, []);
+  }
+
+  return { needs, steps, unknown, ready: unknown.length === 0 && steps.every((s) => s.kind === "craft") };
+}
+
+/** One plan step as text, e.g. "craft 4 stick" or "gather 2 logs (any wood) — gather_wood". */
+export function formatCraftStep(step: CraftStep): string {
+  const item = itemLabel(step.item);
+  switch (step.kind) {
+    case "withdraw":
+      return `withdraw ${step.count} ${item} from the stash`;
+    case "gather": {
+      const from = step.sources.length ? ` from ${step.sources.slice(0, 3).join("/")}` : "";
+      return `gather ${step.count} ${item}${from}${step.action ? ` — ${step.action}` : ""}`;
+    }
+    case "craft":
+      return `craft ${step.count} ${item}${step.table ? " at a crafting table" : ""}`;
+    case "smelt":
+      return `smelt ${step.count} ${itemLabel(step.input)} → ${item} in a furnace`;
+  }
+}
+
+/** Numbered plan for the LLM. */
+export function formatCraftPlan(plan: CraftPlan): string {
+  const target = Object.entries(plan.needs)
+    .map(([item, n]) => `${n}x ${itemLabel(item)}`)
+    .join(", ");
+  if (plan.unknown.length > 0) return `Unknown item(s): ${plan.unknown.join(", ")}. Use exact Minecraft IDs.`;
+  if (plan.steps.length === 0) return `Already have ${target}.`;
+  return `To make ${target}:\n${plan.steps.map((s, i) => `${i + 1}. ${formatCraftStep(s)}`).join("\n")}`;
+}
@@ -0,0 +1,83 @@
+// src/skills/deliver.ts
+// Hand items to a teammate — walk to the request's drop point, then give the
+// items to the requester directly, or chest them if the requester isn't there.
+
+import type { Bot } from "mineflayer";
+import { Vec3 } from "vec3";
+import pkg from "mineflayer-pathfinder";
+const { goals } = pkg;
+import { safeGoto } from "../bot/actions.js";
+import { BOT_ROSTER } from "../bot/role.js";
+import { markDelivered, remaining, surplusOf, type ItemRequest, type KeepItems } from "../bot/transfers.js";
+
+/** Requester closer than this to the drop point gets the items tossed at them. */
+const HANDOFF_RADIUS = 6;
+/** A chest this close to the drop point takes the items when the requester is away. */
+const CHEST_RADIUS = 4;
+
+/** Deliver what this bot (`giver`, its roster name) can spare toward an accepted request. */
+export async function deliverItems(
+  bot: Bot,
+  request: ItemRequest,
+  giver: string,
+  keepItems: KeepItems,
+): Promise<string> {
+  const spare = surplusOf(bot.inventory.items(), keepItems)[request.item] ?? 0;
+  const give = Math.min(spare, remaining(request));
+  if (give <= 0) return `No spare ${request.item} left to deliver for request #${request.id}.`;
+
+  const { x, y, z } = request.pos;
+  try {
+    await safeGoto(bot, new goals.GoalNear(x, y, z, 2), 60000);
+  } catch {
+    return `Couldn't reach (${x}, ${y}, ${z}) to deliver ${request.item}.`;
+  }
+
+  const dropPoint = new Vec3(x, y, z);
+  const username = BOT_ROSTER.find((r) => r.name === request.requestedBy)?.username ?? request.requestedBy;
+  const requester = bot.players[username]?.entity;
+  const chest =
+    requester && requester.position.distanceTo(dropPoint) <= HANDOFF_RADIUS
+      ? null
+      : bot.findBlock({
+          matching: (b) => b.name === "chest" || b.name === "trapped_chest" || b.name === "barrel",
+          maxDistance: CHEST_RADIUS,
+          point: dropPoint,
+        });
+
+  let given = 0;
+  if (chest) {
+    try {
+      const container = await bot.openContainer(chest);
+      for (const item of bot.inventory.items().filter((i) => i.name === request.item)) {
+        const n = Math.min(item.count, give - given);
+        if (n <= 0) break;
+        try {
+          await container.deposit(item.type, null, n);
+          given += n;
+        } catch {
+          break; // Chest full — toss the rest
+        }
+      }
+      container.close();
+    } catch {
+      // Couldn't open it — fall through to tossing
+    }
+  }
+
+  if (given < give) {
+    if (requester) await bot.lookAt(requester.position.offset(0, 1.6, 0));
+    for (const item of bot.inventory.items().filter((i) => i.name === request.item)) {
+      const n = Math.min(item.count, give - given);
+      if (n <= 0) break;
+      await bot.toss(item.type, null, n);
+      given += n;
+    }
+  }
+
+  const res = markDelivered(request.id, giver, given);
+  if (!res.ok) return res.error;
+  const where = chest ? `in the chest at (${chest.position.x}, ${chest.position.y}, ${chest.position.z})` : "";
+  const left = remaining(res.request);
+  return `Delivered ${given}x ${request.item} to ${request.requestedBy}${where ? ` ${where}` : ""}${left > 0 ? ` (${left} still needed)` : ""}.`;
+}
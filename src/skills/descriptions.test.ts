@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createScriptedProvider, resetProviders, setProvider } from "../llm/providers.js";
+import { describeSkillFile, extractDescription, metaPath, summarizeSkill, writeSkillMeta } from "./descriptions.js";
+
+test("extractDescription: leading comment, else name plus inline comments", () => {
+  assert.deepEqual(extractDescription("x", "// Mines a 3x3 shaft.\nasync function x(bot) {}"), {
+    description: "Mines a 3x3 shaft.",
+    source: "comment",
+  });
+
+  const voyager = `async function mineFiveIronOres(bot) {
+  // Check if the bot has a stone pickaxe
+  const pick = bot.inventory.findInventoryItem(1);
+  // Explore until iron ore is found:
+  await exploreUntil(bot, new Vec3(1, 0, 1), 60, () => null);
+}`;
+  assert.deepEqual(extractDescription("mineFiveIronOres", voyager), {
+    description: "Mine five iron ores — check if the bot has a stone pickaxe; explore until iron ore is found",
+    source: "code",
+  });
+});
+
+test("describeSkillFile: uses the sidecar until the code changes", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "skill-meta-"));
+  const file = path.join(dir, "digHole.js");
+  const code = "async function digHole(bot) {}";
+  fs.writeFileSync(file, code);
+
+  assert.equal(describeSkillFile("digHole", file, code).description, "Dig hole");
+  writeSkillMeta(file, code, "Digs a hole under the bot to hide in", "llm");
+  assert.equal(metaPath(file), path.join(dir, "digHole.meta.json"));
+  assert.equal(describeSkillFile("digHole", file, code).source, "llm");
+  assert.equal(describeSkillFile("digHole", file, code + "\n").source, "code");
+
+  fs.rmSync(dir, { recursive: true });
+});
+
+test("summarizeSkill: first line of the model's answer", async (t) => {
+  const provider = createScriptedProvider(["\nCrafts a stone pickaxe from cobblestone and sticks.\nExtra chatter"]);
+  setProvider("critic", provider);
+  t.after(resetProviders);
+
+  assert.equal(
+    await summarizeSkill("async function craftStonePickaxe(bot) {}"),
+    "Crafts a stone pickaxe from cobblestone and sticks.",
+  );
+  assert.match(provider.calls[0].messages[0].content, /async function craftStonePickaxe/);
+});
@@ -0,0 +1,101 @@
+/**
+ * Dynamic skill descriptions — one sentence on what a JS skill does, for the
+ * strategic prompt and skill retrieval. Taken from the file's leading comment
+ * or pieced together from its name and inline comments, and replaced by the
+ * task a generated skill was written for or a one-line LLM summary. Those two
+ * are cached next to the skill as NAME.meta.json, keyed by a hash of the code.
+ */
+
+import fs from "node:fs";
+import { createHash } from "node:crypto";
+import { getProvider, getModel } from "../llm/providers.js";
+
+export interface SkillMeta {
+  description: string;
+  /** comment/code: extracted from the file; task/llm: cached in the sidecar. */
+  source: "comment" | "code" | "task" | "llm";
+  /** Hash of the code the description was made for — a stale sidecar is ignored. */
+  hash: string;
+}
+
+const MAX_DESCRIPTION_CHARS = 200;
+
+const SUMMARY_PROMPT = `Summarise what this Mineflayer bot skill does in ONE sentence under 25 words.
+Name the items, blocks or mobs it works with. Reply with the sentence only.
+
+SKILL_CODE`;
+
+export function metaPath(filePath: string): string {
+  return filePath.replace(/\.js$/, ".meta.json");
+}
+
+function codeHash(code: string): string {
+  return createHash("sha1").update(code).digest("hex").slice(0, 12);
+}
+
+function clip(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_DESCRIPTION_CHARS ? clean.slice(0, MAX_DESCRIPTION_CHARS - 1) + "…" : clean;
+}
+
+/** "mineFiveIronOres" → "Mine five iron ores" */
+function nameToWords(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .toLowerCase()
+    .trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** A description from the code alone: its leading comment, else its name plus the first inline comments. */
+export function extractDescription(name: string, code: string): Pick<SkillMeta, "description" | "source"> {
+  const fnAt = code.search(/\b(async\s+)?function\b/);
+  const head = fnAt > 0 ? code.slice(0, fnAt) : "";
+  const leading = [...head.matchAll(/\/\*+([\s\S]*?)\*\/|\/\/(.*)/g)]
+    .map((m) => (m[1] ?? m[2]).replace(/^\s*\*\s?/gm, ""))
+    .join(" ")
+    .trim();
+  if (leading) return { description: clip(leading), source: "comment" };
+
+  const steps = [...code.matchAll(/^\s*\/\/\s*(.+)$/gm)]
+    .map((m) => m[1].trim().replace(/[.:]$/, ""))
+    .filter((c) => c.length > 3)
+    .slice(0, 3);
+  const words = nameToWords(name);
+  return { description: clip(steps.length ? `${words} — ${steps.join("; ").toLowerCase()}` : words), source: "code" };
+}
+
+function readMeta(filePath: string, hash: string): SkillMeta | null {
+  try {
+    const meta = JSON.parse(fs.readFileSync(metaPath(filePath), "utf-8")) as SkillMeta;
+    return meta.hash === hash && typeof meta.description === "string" ? meta : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The cached description if it still matches the code, else one extracted from the code. */
+export function describeSkillFile(name: string, filePath: string, code: string): SkillMeta {
+  const hash = codeHash(code);
+  return readMeta(filePath, hash) ?? { ...extractDescription(name, code), hash };
+}
+
+export function writeSkillMeta(filePath: string, code: string, description: string, source: SkillMeta["source"]) {
+  const meta: SkillMeta = { description: clip(description), source, hash: codeHash(code) };
+  fs.writeFileSync(metaPath(filePath), JSON.stringify(meta, null, 2) + "\n", "utf-8");
+  return meta;
+}
+
+/** Ask the LLM for a one-line summary of a skill's code. */
+export async function summarizeSkill(code: string): Promise<string> {
+  // A one-line summary is easy — share the critic tier's fast backend
+  const response = await getProvider("critic").chat({
+    model: getModel("critic"),
+    think: false,
+    messages: [{ role: "user", content: SUMMARY_PROMPT.replace("SKILL_CODE", code.slice(0, 6000)) }],
+    temperature: 0.2,
+    maxTokens: 100,
+  });
+  return clip(response.content.split("\n").find((l) => l.trim()) ?? "");
+}
@@ -31,15 +31,16 @@ test("dynamic-loader: skill executes in sandboxed context", async () => {
   const tmpDir = path.join(__dirname, "../../skills/generated");
   fs.mkdirSync(tmpDir, { recursive: true });
   const skillPath = path.join(tmpDir, "testMock.js");
-  fs.writeFileSync(skillPath, `async function testMock(bot) { bot.__ran = true; }`);
+  fs.writeFileSync(skillPath, `async function testMock(bot) { bot.chat("ran"); }`);
 
   loadDynamicSkills();
 
   const skill = skillRegistry.get("testMock")!;
-  const mockBot = { __ran: false } as any;
+  const said: string[] = [];
+  const mockBot = { chat: (message: string) => said.push(message) } as any;
   const result = await skill.execute(mockBot, {}, new AbortController().signal, () => {});
 
-  assert.ok(mockBot.__ran, "skill should have set __ran on bot");
+  assert.deepEqual(said, ["ran"], "skill should have chatted through the bot proxy");
   assert.ok(result.success);
 
   fs.unlinkSync(skillPath);
@@ -2,9 +2,12 @@ import vm from "node:vm";
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { createRequire } from "node:module";
-import { Vec3 } from "vec3";
 import { skillRegistry } from "./registry.js";
+import { isMacroSkill } from "./macros.js";
+import { SandboxViolation, runInSandbox } from "./sandbox.js";
+import { describeSkillFile, summarizeSkill, writeSkillMeta } from "./descriptions.js";
+import { inferPostconditions } from "./conditions.js";
+import type { Bot } from "mineflayer";
 import type { Skill } from "./types.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -12,10 +15,13 @@ const PROJECT_ROOT = path.resolve(__dirname, "../../");
 
 const SKILL_DIRS = [path.join(PROJECT_ROOT, "skills/voyager"), path.join(PROJECT_ROOT, "skills/generated")];
 
-// All Voyager skills concatenated — used as a helper library in the vm context so skills
+// All Voyager skills concatenated — used as a helper library in the sandbox so skills
 // can call each other (e.g. smeltFiveRawIron calls craftFurnace, placeItem, smeltItem)
 let voyagerHelperBundle = "";
 
+// Loaded skill name → its source file, for summarising descriptions later
+const skillFiles = new Map<string, string>();
+
 // Primitive functions that Voyager skills expect in the global scope.
 // These are the Voyager framework utilities, implemented with Mineflayer's API.
 const VOYAGER_PRIMITIVES = `
@@ -131,15 +137,6 @@ async function exploreUntil(bot, direction, maxTime, callback) {
 }
 `;
 
-const sandboxRequire = createRequire(import.meta.url);
-function safeRequire(mod: string) {
-  try {
-    return sandboxRequire(mod);
-  } catch {
-    return {};
-  }
-}
-
 export function loadDynamicSkills(): void {
   let loaded = 0;
 
@@ -167,6 +164,7 @@ export function loadDynamicSkills(): void {
       const skillPath = path.join(dir, file);
       try {
         skillRegistry.set(skillName, buildDynamicSkill(skillName, skillPath));
+        skillFiles.set(skillName, skillPath);
         loaded++;
       } catch (err: any) {
         console.warn(`[DynamicSkill] Skipped ${file}: ${err.message}`);
@@ -186,122 +184,80 @@ function buildDynamicSkill(name: string, filePath: string): Skill {
 
   return {
     name,
-    description: `Dynamic skill: ${name}`,
+    description: describeSkillFile(name, filePath, code).description,
     params: {},
+    postconditions: inferPostconditions(name),
     estimateMaterials: () => ({}),
 
     async execute(bot, _params, signal, onProgress) {
       onProgress({ skillName: name, phase: "Running", progress: 0, message: name, active: true });
       try {
-        // NOTE: vm.createContext is NOT a security sandbox — skill files must be trusted.
-        // A malicious skill could escape via prototype chain. Only load skills from trusted sources.
-        // mcData is required by many Voyager skills (require('minecraft-data')(version))
-        let mcData: any;
-        try {
-          mcData = safeRequire("minecraft-data")(bot.version);
-        } catch {
-          mcData = {};
-        }
-        const ctx = vm.createContext({
-          bot,
-          Vec3,
-          mcData,
-          require: safeRequire,
-          console,
-          setTimeout,
-          clearTimeout,
-          setInterval,
-          clearInterval,
-          Promise,
-          Math,
-          JSON,
-        });
-
-        // Shim bot.pathfinder.waitForGoal — the old pathfinder API used setGoal+waitForGoal but
-        // modern mineflayer-pathfinder only exposes goto().  Generated skills often use the old
-        // pattern.  Implementing waitForGoal as a timed wait gives the pathfinder a chance to
-        // make progress (setGoal starts movement; waitForGoal just waits) without crashing.
-        try {
-          vm.runInContext(
-            `if (bot.pathfinder && !bot.pathfinder.waitForGoal) {
-               bot.pathfinder.waitForGoal = (timeout) =>
-                 new Promise(r => setTimeout(r, typeof timeout === 'number' ? timeout : 4000));
-             }`,
-            ctx,
-            { filename: "pathfinder-shim" },
-          );
-        } catch {
-          /* ignore */
-        }
-
-        // Null-safe equip wrapper — many Voyager skills call bot.equip(item) without null-checking.
-        // If the bot lacks the expected tool the item lookup returns null/undefined and the raw
-        // bot.equip call throws "Invalid item object in equip".  Silently skipping is the safest
-        // default: the skill will either succeed anyway (bot already holding something useful) or
-        // fail later with a more informative error.
-        try {
-          vm.runInContext(
-            `const _origEquip = bot.equip.bind(bot);
-             bot.equip = async (item, dest) => { if (!item) return; return _origEquip(item, dest); };`,
-            ctx,
-            { filename: "equip-shim" },
-          );
-        } catch {
-          /* ignore */
-        }
-
-        // Load Voyager primitives first (mineBlock, placeItem, craftItem, smeltItem, killMob, exploreUntil)
-        try {
-          vm.runInContext(VOYAGER_PRIMITIVES, ctx, { filename: "voyager-primitives" });
-        } catch {
-          /* primitives may throw on parse errors — ignore, skills will fail gracefully */
-        }
-
-        // Load the Voyager helper bundle so skills can call each other as helpers
-        if (voyagerHelperBundle) {
-          try {
-            vm.runInContext(voyagerHelperBundle, ctx, { filename: "voyager-helpers" });
-          } catch {
-            /* helpers may throw if partially evaluated — ignore */
-          }
-        }
-
-        // Run the definition to populate the context (does not invoke the function yet).
-        vm.runInContext(code, ctx, { filename: filePath });
-
-        // Runtime inspection: confirm the expected name is actually a callable function.
-        // This handles async functions, regular functions, arrow functions assigned to
-        // const/let/var, and any other declaration style — none of which a substring
-        // check could reliably catch.
-        if (typeof (ctx as any)[name] !== "function") {
-          return {
-            success: false,
-            message: `${name}: file must define a function named '${name}' (found: ${typeof (ctx as any)[name]})`,
-          };
-        }
-
-        // Invoke the already-defined function.
-        // vm.runInContext's `timeout` option only covers synchronous code; the async
-        // wrapper returns a Promise immediately, so we race against an explicit timer.
-        const vmPromise = vm.runInContext(`(async()=>{ await ${name}(bot); })()`, ctx, {
-          filename: filePath,
-        }) as Promise<void>;
-
-        const timeoutPromise = new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error(`${name} timed out after 120s`)), 120_000),
-        );
-
-        await Promise.race([vmPromise, timeoutPromise]);
+        await runDynamicCode(bot, name, code, filePath, signal);
         onProgress({ skillName: name, phase: "Done", progress: 1, message: `${name} complete`, active: false });
         return { success: true, message: `${name} completed.` };
       } catch (err: any) {
-        if (signal.aborted) return { success: false, message: `${name} aborted.` };
-        return { success: false, message: `${name} failed: ${err.message}` };
+        if (signal.aborted) return { success: false, message: `${name} aborted.`, failureKind: "interrupted" };
+        if (err instanceof SandboxViolation) {
+          return { success: false, message: `${name} blocked by the sandbox: ${err.message}`, failureKind: "error" };
+        }
+        // Voyager's mineBlock / exploreUntil throw these when the resource just isn't nearby
+        const notNearby = /cannot find|could not find/i.test(err.message ?? "");
+        return {
+          success: false,
+          message: `${name} failed: ${err.message}`,
+          failureKind: notNearby ? "precondition" : "error",
+        };
       }
     },
   };
 }
 
+/**
+ * Run a skill's code against the bot in the sandbox worker, with the Voyager
+ * primitives and helper bundle loaded. Throws whatever the skill throws.
+ * Used by dynamic skills and by the generator to try out drafts.
+ */
+export async function runDynamicCode(
+  bot: Bot,
+  name: string,
+  code: string,
+  filePath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  // Voyager primitives first (mineBlock, placeItem, craftItem, smeltItem, killMob, exploreUntil),
+  // then all Voyager skills so skills can call each other as helpers
+  const prelude: [string, string][] = [["voyager-primitives", VOYAGER_PRIMITIVES]];
+  if (voyagerHelperBundle) prelude.push(["voyager-helpers", voyagerHelperBundle]);
+  await runInSandbox(bot, name, code, filePath, { prelude, signal });
+}
+
+/**
+ * Swap descriptions pieced together from a skill's code for one-line LLM
+ * summaries, one skill at a time, caching each next to its file so it only
+ * happens once. Returns how many skills were summarised.
+ */
+export async function summarizeDynamicSkills(): Promise<number> {
+  let summarised = 0;
+  for (const [name, filePath] of skillFiles) {
+    const skill = skillRegistry.get(name);
+    if (!skill || !fs.existsSync(filePath)) continue;
+    const code = fs.readFileSync(filePath, "utf-8");
+    if (describeSkillFile(name, filePath, code).source !== "code") continue;
+    try {
+      const summary = await summarizeSkill(code);
+      if (!summary) continue;
+      skill.description = writeSkillMeta(filePath, code, summary, "llm").description;
+      summarised++;
+    } catch (err: any) {
+      // Backend unreachable — leave the rest for the next start
+      console.warn(`[DynamicSkill] Couldn't summarise ${name}: ${err.message}`);
+      break;
+    }
+  }
+  if (summarised > 0) console.log(`[DynamicSkill] Summarised ${summarised} skill descriptions`);
+  return summarised;
+}
+
 const STATIC_SKILL_NAMES = new Set([
   "build_house",
   "craft_gear",
@@ -311,8 +267,10 @@ const STATIC_SKILL_NAMES = new Set([
   "smelt_ores",
   "go_fishing",
   "build_bridge",
+  "setup_stash",
+  "build_structure",
 ]);
 
 export function getDynamicSkillNames(): string[] {
-  return Array.from(skillRegistry.keys()).filter((k) => !STATIC_SKILL_NAMES.has(k));
+  return Array.from(skillRegistry.keys()).filter((k) => !STATIC_SKILL_NAMES.has(k) && !isMacroSkill(k));
 }
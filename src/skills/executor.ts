@@ -1,6 +1,9 @@
 import type { Bot } from "mineflayer";
-import type { Skill, SkillProgress, SkillResult } from "./types.js";
+import type { Skill, SkillFailureKind, SkillProgress, SkillResult } from "./types.js";
 import { gatherMaterials } from "./materials.js";
+import { validateSkillParams } from "./params.js";
+import { takeSnapshot, unmetPostconditions, unmetPreconditions } from "./conditions.js";
+import { clearCheckpoint, findCheckpoint } from "./checkpoints.js";
 import { updateOverlay } from "../stream/overlay.js";
 import { recordSkillAttempt } from "../bot/memory.js";
 import { getBotMemoryStore, registerBotMemory } from "../bot/memory-registry.js";
@@ -33,14 +36,72 @@ export function abortActiveSkill(bot: Bot): void {
   }
 }
 
+/** Record a skill attempt in per-bot memory (fallback to singleton for non-registered bots). */
+function recordAttempt(
+  bot: Bot,
+  skill: Skill,
+  success: boolean,
+  durationSeconds: number,
+  notes: string,
+  failureKind?: SkillFailureKind,
+): void {
+  const memStore = getBotMemoryStore(bot);
+  if (memStore) {
+    memStore.recordSkillAttempt(skill.name, success, durationSeconds, notes, failureKind);
+  } else {
+    recordSkillAttempt(skill.name, success, durationSeconds, notes, failureKind);
+  }
+}
+
 /**
  * Run a skill to completion: gather materials → execute → return result string.
  * Called from executeAction() when the LLM picks a skill action.
  */
-export async function runSkill(bot: Bot, skill: Skill, params: Record<string, any>): Promise<string> {
+export async function runSkill(bot: Bot, skill: Skill, rawParams: Record<string, any>): Promise<string> {
+  return (await runSkillWithResult(bot, skill, rawParams)).message;
+}
+
+/**
+ * runSkill, returning the verdict as well as the message. `success` only holds
+ * when the skill reported success and its postconditions were met — the same
+ * verdict recorded in the bot's skill history, and the one the brain and the
+ * eval runner go by.
+ */
+export async function runSkillWithResult(bot: Bot, skill: Skill, rawParams: Record<string, any>): Promise<SkillResult> {
+  const failed = (message: string, failureKind: SkillFailureKind): SkillResult => ({
+    success: false,
+    message,
+    failureKind,
+  });
+
   const active = activeSkillMap.get(bot);
   if (active) {
-    return `Already running skill "${active.skill.name}". Wait for it to finish.`;
+    return failed(`Already running skill "${active.skill.name}". Wait for it to finish.`, "precondition");
+  }
+
+  // An interrupted run of this skill nearby: carry on with its params, or drop it on resume=false
+  const checkpoint = findCheckpoint(bot, skill.name);
+  if (checkpoint && /^(false|no)$/i.test(String(rawParams.resume))) {
+    console.log(`[Skill] Discarding checkpoint for "${skill.name}" (${checkpoint.summary})`);
+    clearCheckpoint(bot, skill.name);
+  } else if (checkpoint) {
+    console.log(`[Skill] Resuming "${skill.name}" from checkpoint: ${checkpoint.summary}`);
+    rawParams = { ...checkpoint.params, ...rawParams };
+  }
+
+  // Reject bad params before gathering anything
+  const checked = validateSkillParams(skill, rawParams);
+  if (!checked.ok) {
+    return failed(`Skill ${skill.name} has bad params: ${checked.error}`, "error");
+  }
+  const params = checked.params;
+
+  // Don't start what can't work — and don't count it against the skill
+  const unmet = unmetPreconditions(bot, skill);
+  if (unmet.length > 0) {
+    const message = `Can't start ${skill.name}: ${unmet.join("; ")}.`;
+    recordAttempt(bot, skill, false, 0, message, "precondition");
+    return failed(message, "precondition");
   }
 
   const abortController = new AbortController();
@@ -85,20 +146,21 @@ export async function runSkill(bot: Bot, skill: Skill, params: Record<string, an
 
       if (!gatherResult.success) {
         progress({ skillName: skill.name, phase: "Failed", progress: 0, message: gatherResult.message, active: false });
-        return `Skill ${skill.name} failed: ${gatherResult.message}`;
+        return failed(`Skill ${skill.name} failed: ${gatherResult.message}`, "precondition");
       }
     } catch (err: any) {
       progress({ skillName: skill.name, phase: "Failed", progress: 0, message: err.message, active: false });
-      return `Skill ${skill.name} crashed during gathering: ${err.message}`;
+      return failed(`Skill ${skill.name} crashed during gathering: ${err.message}`, "error");
     }
   }
 
   if (signal.aborted) {
     progress({ skillName: skill.name, phase: "Aborted", progress: 0, message: "Interrupted!", active: false });
-    return `Skill ${skill.name} was interrupted.`;
+    return failed(`Skill ${skill.name} was interrupted.`, "interrupted");
   }
 
   // Phase 2: Execute the skill
+  const before = takeSnapshot(bot, skill);
   const skillPromise = skill.execute(bot, params, signal, (p) => {
     progress({
       ...p,
@@ -131,36 +193,46 @@ export async function runSkill(bot: Bot, skill: Skill, params: Record<string, an
     const result = await skillPromise;
     const durationSeconds = (Date.now() - startTime) / 1000;
 
-    // Record skill attempt in per-bot memory (fallback to singleton for non-registered bots)
-    const memStore = getBotMemoryStore(bot);
-    if (memStore) {
-      memStore.recordSkillAttempt(skill.name, result.success, durationSeconds, result.message);
-    } else {
-      recordSkillAttempt(skill.name, result.success, durationSeconds, result.message);
+    let { success, message } = result;
+    let failureKind = result.failureKind;
+    if (success) {
+      // A success that didn't leave behind what it promised is a failure
+      const missed = unmetPostconditions(bot, skill, before);
+      if (missed.length > 0) {
+        success = false;
+        failureKind = "postcondition";
+        message = `${message} (but ${missed.join("; ")})`;
+      }
+    } else if (!failureKind) {
+      failureKind = signal.aborted ? "interrupted" : "error";
     }
+    recordAttempt(bot, skill, success, durationSeconds, message, failureKind);
 
     progress({
       skillName: skill.name,
-      phase: result.success ? "Complete!" : "Failed",
-      progress: result.success ? 1.0 : 0,
-      message: result.message,
+      phase: success ? "Complete!" : "Failed",
+      progress: success ? 1.0 : 0,
+      message,
       active: false,
     });
 
-    console.log(`[Skill] "${skill.name}" finished: ${result.message}`);
-    return result.message;
+    console.log(`[Skill] "${skill.name}" finished: ${message}`);
+    return { ...result, success, message, failureKind: success ? undefined : failureKind };
   } catch (err: any) {
     const durationSeconds = (Date.now() - startTime) / 1000;
-    const memStore = getBotMemoryStore(bot);
-    if (memStore) {
-      memStore.recordSkillAttempt(skill.name, false, durationSeconds, `Crashed: ${err.message}`);
-    } else {
-      recordSkillAttempt(skill.name, false, durationSeconds, `Crashed: ${err.message}`);
-    }
+    recordAttempt(
+      bot,
+      skill,
+      false,
+      durationSeconds,
+      `Crashed: ${err.message}`,
+      signal.aborted ? "interrupted" : "error",
+    );
 
     progress({ skillName: skill.name, phase: "Crashed", progress: 0, message: err.message, active: false });
-    return `Skill ${skill.name} crashed: ${err.message}`;
+    return failed(`Skill ${skill.name} crashed: ${err.message}`, signal.aborted ? "interrupted" : "error");
   } finally {
+    before.release();
     clearInterval(chatterInterval);
     activeSkillMap.delete(bot);
   }
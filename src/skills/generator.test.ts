@@ -3,6 +3,9 @@ import assert from "node:assert/strict";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import type { Bot } from "mineflayer";
+import { createScriptedProvider, resetProviders, setProvider } from "../llm/providers.js";
+import { skillRegistry } from "./registry.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -18,3 +21,113 @@ test("saveGeneratedSkill: writes JS to skills/generated/", async () => {
 
   fs.unlinkSync(dest);
 });
+
+/** Just enough bot for a generated skill to run against: chat, and dirt underfoot to dig up. */
+function fakeBot() {
+  const items: { name: string; count: number }[] = [];
+  const said: string[] = [];
+  const bot = {
+    username: "Tester",
+    inventory: { items: () => items },
+    chat: (message: string) => said.push(message),
+    entity: { position: { x: 0, y: 64, z: 0 } },
+    blockAt: (pos: { x: number; y: number; z: number }) => ({ name: "dirt", type: 9, position: pos }),
+    dig: async () => items.push({ name: "dirt", count: 2 }),
+  } as unknown as Bot;
+  return { bot, items, said };
+}
+
+test("generateSkill: feeds errors back and saves only the draft that passes verification", async (t) => {
+  const { generateSkill } = await import("./generator.js");
+  const { bot, said } = fakeBot();
+  const provider = createScriptedProvider([
+    "async function collectTestDirt(bot) { bot.inventory.items.push({ name: 'dirt', count: 2 }); }",
+    "async function collectTestDirt(bot) { bot.chat('looking for dirt'); }",
+    "```js\nasync function collectTestDirt(bot) { await bot.dig(bot.blockAt(bot.entity.position.offset(0, -1, 0))); }\n```",
+  ]);
+  setProvider("strategic", provider);
+  const dest = path.join(__dirname, "../../skills/generated/collectTestDirt.js");
+  t.after(() => {
+    resetProviders();
+    fs.rmSync(dest, { force: true });
+    fs.rmSync(dest.replace(/\.js$/, ".meta.json"), { force: true });
+    skillRegistry.delete("collectTestDirt");
+  });
+
+  const result = await generateSkill("collect test dirt", {
+    bot,
+    verify: [{ type: "item_gained", name: "dirt", count: 2 }],
+  });
+
+  assert.ok(result.ok);
+  assert.equal(result.attempts.length, 3);
+  assert.match(result.attempts[0].error!, /runtime error: .*is not a function/);
+  assert.match(result.attempts[1].error!, /verification failed: expected to gain 2x dirt/);
+  assert.deepEqual(result.attempts[1].chat, ["looking for dirt"]);
+  assert.deepEqual(said, ["looking for dirt"]);
+  assert.deepEqual(result.attempts[2].inventoryDelta, { dirt: 2 });
+
+  const revision = provider.calls[2].messages;
+  assert.equal(revision.length, 5);
+  assert.match(revision[4].content, /Bot chat while running: looking for dirt/);
+  assert.match(fs.readFileSync(dest, "utf-8"), /^async function collectTestDirt/);
+  assert.equal(skillRegistry.get("collectTestDirt")!.description, "collect test dirt");
+});
+
+test("generateSkill: keeps every failed attempt with its error when none pass", async (t) => {
+  const { generateSkill } = await import("./generator.js");
+  setProvider("strategic", createScriptedProvider([], "async function brokenTestSkill(bot) { if ( }"));
+  t.after(resetProviders);
+
+  const result = await generateSkill("broken test skill", { maxAttempts: 2 });
+
+  assert.equal(result.ok, false);
+  assert.ok(result.failedLog);
+  const log = JSON.parse(fs.readFileSync(result.failedLog, "utf-8"));
+  fs.rmSync(result.failedLog);
+  assert.equal(log.task, "broken test skill");
+  assert.equal(log.attempts.length, 2);
+  assert.match(log.attempts[0].error, /syntax error/);
+  assert.ok(log.attempts[0].stack);
+  assert.ok(!fs.existsSync(path.join(__dirname, "../../skills/generated/brokenTestSkill.js")));
+});
+
+test("generateSkill: without a bot to verify on, a draft that parses still isn't saved", async (t) => {
+  const { generateSkill } = await import("./generator.js");
+  setProvider("strategic", createScriptedProvider([], "async function unrunTestSkill(bot) { bot.chat('hi'); }"));
+  t.after(resetProviders);
+
+  const result = await generateSkill("unrun test skill", { maxAttempts: 3 });
+
+  assert.equal(result.ok, false);
+  assert.equal(result.attempts.length, 1, "no revisions — they couldn't be checked either");
+  assert.match(result.attempts[0].error!, /no bot to run and verify it on/);
+  fs.rmSync(result.failedLog!);
+  assert.ok(!fs.existsSync(path.join(__dirname, "../../skills/generated/unrunTestSkill.js")));
+});
+
+test("generateSkill: a draft that only runs cleanly isn't saved — it must pass a check", async (t) => {
+  const { generateSkill } = await import("./generator.js");
+  const { bot } = fakeBot();
+  const logs: string[] = [];
+  t.after(() => {
+    resetProviders();
+    for (const log of logs) fs.rmSync(log, { force: true });
+  });
+  const generate = async (task: string, name: string) => {
+    setProvider("strategic", createScriptedProvider([], `async function ${name}(bot) { bot.chat('done!'); }`));
+    const result = await generateSkill(task, { bot, maxAttempts: 1 });
+    if (result.failedLog) logs.push(result.failedLog);
+    assert.equal(result.ok, false);
+    assert.ok(!fs.existsSync(path.join(__dirname, `../../skills/generated/${name}.js`)));
+    return result.attempts[0].error;
+  };
+
+  // With no checks given, the name says what it should leave behind...
+  assert.match((await generate("craft bed", "craftBed"))!, /verification failed: expected to gain .*bed/);
+  // ...and when it doesn't, the inventory has to change at all
+  assert.match(
+    (await generate("wave at the chat", "waveAtTheChat"))!,
+    /verification failed: nothing in the inventory changed/,
+  );
+});
@@ -1,14 +1,33 @@
+/**
+ * Skill generator — Voyager-style write/verify/revise loop. The LLM drafts a
+ * skill, the draft is syntax-checked and (given a bot) run in the dynamic skill
+ * sandbox, and any error, chat or failed verification check is fed back for a
+ * revision. Only a draft that passes is saved to skills/generated; when every
+ * attempt fails they are kept under skills/generated/failed for inspection.
+ * A draft is always checked against something: the caller's checks, else the
+ * postconditions its name implies, else a change in the bot's inventory.
+ * Without a bot to run it on nothing can be checked, so nothing is saved.
+ */
+
 import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { Ollama } from "ollama";
-import { config } from "../config.js";
-import { loadDynamicSkills } from "./dynamic-loader.js";
+import vm from "node:vm";
+import type { Bot } from "mineflayer";
+import { getProvider, getModel, type LLMChatRequest } from "../llm/providers.js";
+import { loadDynamicSkills, runDynamicCode } from "./dynamic-loader.js";
+import { writeSkillMeta } from "./descriptions.js";
+import { inferPostconditions, takeSnapshot, unmetPostconditions, unmetPreconditions } from "./conditions.js";
+import type { SkillPostcondition, SkillPrecondition } from "./types.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const GENERATED_DIR = path.resolve(__dirname, "../../skills/generated");
+const FAILED_DIR = path.join(GENERATED_DIR, "failed");
+
+/** Drafts per generation — the first plus revisions. */
+export const MAX_ATTEMPTS = 4;
 
-const ollama = new Ollama({ host: config.ollama.host });
+const UNVERIFIED = "it parses, but there is no bot to run and verify it on";
 
 const GENERATION_PROMPT = `You are writing a Mineflayer bot skill in JavaScript.
 
@@ -57,25 +76,58 @@ EQUIP:
 
 AVAILABLE GLOBALS: bot, Vec3 (from require('vec3')), require, console, Math, JSON, setTimeout
   Note: for minecraft-data, use require('minecraft-data')(bot.version) as shown above
+  The skill runs in a sandbox: require() only knows vec3, minecraft-data and mineflayer-pathfinder,
+  bot.chat cannot send /commands, and bot internals (bot._client, bot.on) are off limits
 
 TASK: TASK_DESCRIPTION
 
 Write ONLY the JavaScript function:`;
 
-export async function saveGeneratedSkill(name: string, code: string): Promise<string> {
+export async function saveGeneratedSkill(name: string, code: string, description?: string): Promise<string> {
   await mkdir(GENERATED_DIR, { recursive: true });
-  await writeFile(path.join(GENERATED_DIR, `${name}.js`), code, "utf-8");
+  const file = path.join(GENERATED_DIR, `${name}.js`);
+  await writeFile(file, code, "utf-8");
+  // The task it was written for is the best description the skill library will get
+  if (description) writeSkillMeta(file, code, description, "task");
   console.log(`[Generator] Saved skill '${name}'`);
   return name;
 }
 
-export async function generateSkill(task: string): Promise<string> {
-  const trimmedTask = task.trim();
-  if (!trimmedTask) {
-    throw new Error("Task description cannot be empty");
-  }
+/**
+ * A check the draft must pass after running: an inventory delta
+ * (`item_gained`) or a world-state check (`item`, `block_nearby`, ...).
+ */
+export type GenerationCheck = SkillPostcondition | SkillPrecondition;
+
+export interface GenerateOptions {
+  /** Run each draft against this bot; without one drafts are only syntax-checked and never saved. */
+  bot?: Bot;
+  /** Default: the postconditions the skill's name implies; with none, the inventory must change. */
+  verify?: GenerationCheck[];
+  maxAttempts?: number;
+}
+
+export interface GenerationAttempt {
+  attempt: number;
+  code: string;
+  /** Why the draft was rejected; absent for the draft that passed. */
+  error?: string;
+  stack?: string;
+  chat: string[];
+  /** Item name → count change while the draft ran. */
+  inventoryDelta: Record<string, number>;
+}
+
+export interface GenerationResult {
+  ok: boolean;
+  name: string;
+  attempts: GenerationAttempt[];
+  /** Where the failed attempts were written, when none passed. */
+  failedLog?: string;
+}
 
-  const skillName = trimmedTask
+function skillNameFor(task: string): string {
+  return task
     .toLowerCase()
     .replace(/[^a-z0-9 ]/g, "")
     .trim()
@@ -83,7 +135,109 @@ export async function generateSkill(task: string): Promise<string> {
     .map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1)))
     .join("")
     .slice(0, 40);
+}
+
+function cleanCode(content: string): string {
+  return content
+    .trim()
+    .replace(/^```[a-z]*\n?/i, "")
+    .replace(/\n?```$/i, "")
+    .trim();
+}
+
+function inventoryDelta(before: { name: string; count: number }[], after: { name: string; count: number }[]) {
+  const delta: Record<string, number> = {};
+  for (const i of after) delta[i.name] = (delta[i.name] ?? 0) + i.count;
+  for (const i of before) delta[i.name] = (delta[i.name] ?? 0) - i.count;
+  for (const name of Object.keys(delta)) if (delta[name] === 0) delete delta[name];
+  return delta;
+}
 
+function isPostcondition(c: GenerationCheck): c is SkillPostcondition {
+  // block_nearby reads the same either way, so it's checked as a precondition
+  return ["item_gained", "block_placed", "structure_recorded", "any"].includes(c.type);
+}
+
+/** Syntax-check, run and verify one draft. Fills in the attempt's error, chat and inventory delta. */
+async function tryDraft(name: string, attempt: GenerationAttempt, opts: GenerateOptions): Promise<void> {
+  if (!new RegExp(`(async\\s+)?function\\s+${name}\\b`).test(attempt.code)) {
+    attempt.error = `the code does not define async function ${name}(bot)`;
+    return;
+  }
+  try {
+    new vm.Script(attempt.code, { filename: `${name}.js` });
+  } catch (err: any) {
+    attempt.error = `syntax error: ${err.message}`;
+    attempt.stack = err.stack;
+    return;
+  }
+
+  const bot = opts.bot;
+  if (!bot) {
+    attempt.error = UNVERIFIED;
+    return;
+  }
+
+  const verify = opts.verify ?? [];
+  const postconditions = verify.filter(isPostcondition);
+  const before = takeSnapshot(bot, { postconditions });
+  const chat = bot.chat;
+  bot.chat = (message: string) => {
+    attempt.chat.push(message);
+    chat.call(bot, message);
+  };
+  try {
+    await runDynamicCode(bot, name, attempt.code, `${name}.js`);
+  } catch (err: any) {
+    attempt.error = `runtime error: ${err?.message ?? String(err)}`;
+    attempt.stack = err?.stack;
+  } finally {
+    bot.chat = chat;
+    before.release();
+    attempt.inventoryDelta = inventoryDelta(before.items, takeSnapshot(bot).items);
+  }
+  if (attempt.error) return;
+
+  const unmet = [
+    ...unmetPostconditions(bot, { postconditions }, before),
+    ...unmetPreconditions(bot, { preconditions: verify.filter((c) => !isPostcondition(c)) as SkillPrecondition[] }),
+  ];
+  // Nothing specific to check: running without an error isn't enough, it has to have done something
+  if (verify.length === 0 && Object.keys(attempt.inventoryDelta).length === 0) {
+    unmet.push("nothing in the inventory changed");
+  }
+  if (unmet.length) attempt.error = `ran without errors but verification failed: ${unmet.join("; ")}`;
+}
+
+function feedback(attempt: GenerationAttempt): string {
+  const delta = Object.entries(attempt.inventoryDelta)
+    .map(([item, n]) => `${n > 0 ? "+" : ""}${n} ${item}`)
+    .join(", ");
+  return [
+    `That attempt failed — ${attempt.error}.`,
+    attempt.chat.length ? `Bot chat while running: ${attempt.chat.join(" | ")}` : "",
+    `Inventory change while running: ${delta || "none"}`,
+    "Fix the function and reply with ONLY the complete corrected JavaScript function.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function saveFailedAttempts(name: string, task: string, attempts: GenerationAttempt[]): Promise<string> {
+  await mkdir(FAILED_DIR, { recursive: true });
+  const file = path.join(FAILED_DIR, `${name}-${Date.now()}.json`);
+  await writeFile(file, JSON.stringify({ name, task, attempts }, null, 2), "utf-8");
+  console.log(`[Generator] '${name}' failed ${attempts.length} attempt(s) — saved to ${file}`);
+  return file;
+}
+
+export async function generateSkill(task: string, opts: GenerateOptions = {}): Promise<GenerationResult> {
+  const trimmedTask = task.trim();
+  if (!trimmedTask) {
+    throw new Error("Task description cannot be empty");
+  }
+
+  const skillName = skillNameFor(trimmedTask);
   if (!skillName) {
     throw new Error("Task description produced an empty skill name (try using letters/numbers)");
   }
@@ -91,25 +245,38 @@ export async function generateSkill(task: string): Promise<string> {
   console.log(`[Generator] Writing '${skillName}' for: ${trimmedTask}`);
 
   const prompt = GENERATION_PROMPT.replaceAll("SKILL_NAME", skillName).replace("TASK_DESCRIPTION", trimmedTask);
+  const messages: LLMChatRequest["messages"] = [{ role: "user", content: prompt }];
+  const attempts: GenerationAttempt[] = [];
+  const maxAttempts = Math.max(1, opts.maxAttempts ?? MAX_ATTEMPTS);
+  const verify = opts.verify?.length ? opts.verify : inferPostconditions(skillName);
 
-  const response = await ollama.chat({
-    model: config.ollama.model,
-    think: false, // Disable thinking mode — all tokens go to code output
-    messages: [{ role: "user", content: prompt }],
-    options: { temperature: 0.3, num_predict: 4096 },
-  });
+  for (let n = 1; n <= maxAttempts; n++) {
+    // Code generation needs the strong model — share the strategic tier's backend
+    const response = await getProvider("strategic").chat({
+      model: getModel("strategic"),
+      think: false, // Disable thinking mode — all tokens go to code output
+      messages,
+      temperature: 0.3,
+      maxTokens: 4096,
+    });
 
-  let code = response.message.content
-    .trim()
-    .replace(/^```[a-z]*\n?/i, "")
-    .replace(/\n?```$/i, "")
-    .trim();
+    const attempt: GenerationAttempt = { attempt: n, code: cleanCode(response.content), chat: [], inventoryDelta: {} };
+    attempts.push(attempt);
+    await tryDraft(skillName, attempt, { ...opts, verify });
+
+    if (!attempt.error) {
+      console.log(`[Generator] '${skillName}' passed on attempt ${n}/${maxAttempts}`);
+      await saveGeneratedSkill(skillName, attempt.code, trimmedTask);
+      loadDynamicSkills();
+      return { ok: true, name: skillName, attempts };
+    }
 
-  if (!code.includes(`async function ${skillName}`)) {
-    code = `async function ${skillName}(bot) {\n  bot.chat("I tried ${skillName} but the code didn't generate cleanly!");\n}`;
+    console.log(`[Generator] '${skillName}' attempt ${n}/${maxAttempts}: ${attempt.error}`);
+    // A revision can't get past that
+    if (attempt.error === UNVERIFIED) break;
+    messages.push({ role: "assistant", content: attempt.code }, { role: "user", content: feedback(attempt) });
   }
 
-  await saveGeneratedSkill(skillName, code);
-  loadDynamicSkills();
-  return skillName;
+  const failedLog = await saveFailedAttempts(skillName, trimmedTask, attempts);
+  return { ok: false, name: skillName, attempts, failedLog };
 }
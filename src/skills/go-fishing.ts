@@ -5,20 +5,54 @@ import pkg from "mineflayer-pathfinder";
 const { goals, Movements } = pkg;
 import mcDataLoader from "minecraft-data";
 
-const FISH_ATTEMPTS = 5;
+const DEFAULT_CATCHES = 3;
+/** Casts allowed per requested catch — not every cast gets a bite. */
+const CASTS_PER_CATCH = 2;
 const BITE_TIMEOUT_MS = 35000;
+/**
+ * What a line can bring up. A rod crafted on the way uses up sticks and string,
+ * so those (and the rod itself) are left out rather than netted against the catch.
+ */
+const CATCHES = [
+  "cod",
+  "salmon",
+  "tropical_fish",
+  "pufferfish",
+  "bow",
+  "enchanted_book",
+  "name_tag",
+  "nautilus_shell",
+  "saddle",
+  "lily_pad",
+  "bowl",
+  "leather",
+  "leather_boots",
+  "rotten_flesh",
+  "potion",
+  "bone",
+  "ink_sac",
+  "tripwire_hook",
+  "bamboo",
+];
 
 export const goFishingSkill: Skill = {
   name: "go_fishing",
   description:
-    "Fish at nearby water for food and loot. Crafts a fishing rod if possible (needs 3 sticks + 2 string). Catches ~3-5 items.",
-  params: {},
+    "Fish at nearby water for food and loot until the requested number of catches. Crafts a fishing rod if possible (needs 3 sticks + 2 string).",
+  preconditions: [{ type: "block_nearby", name: "water", maxDistance: 48, hint: "explore to find a lake or river" }],
+  postconditions: [{ type: "item_gained", name: CATCHES }],
+  params: {
+    count: { type: "number", description: "Catches to land", min: 1, max: 20, default: DEFAULT_CATCHES },
+  },
 
   estimateMaterials(_bot, _params) {
     return {};
   },
 
-  async execute(bot, _params, signal, onProgress): Promise<SkillResult> {
+  async execute(bot, params, signal, onProgress): Promise<SkillResult> {
+    const wanted = Math.floor(Number(params.count) || DEFAULT_CATCHES);
+    const maxCasts = wanted * CASTS_PER_CATCH;
+
     // --- Step 1: Get or craft a fishing rod ---
     onProgress({
       skillName: "go_fishing",
@@ -37,6 +71,7 @@ export const goFishingSkill: Skill = {
           success: false,
           message:
             "Can't fish without a fishing rod! Need 3 sticks + 2 string. String comes from killing spiders or finding cobwebs.",
+          failureKind: "precondition",
         };
       }
     }
@@ -55,7 +90,11 @@ export const goFishingSkill: Skill = {
       maxDistance: 48,
     });
     if (!water) {
-      return { success: false, message: "No water nearby! Explore to find a lake or river." };
+      return {
+        success: false,
+        message: "No water nearby! Explore to find a lake or river.",
+        failureKind: "precondition",
+      };
     }
 
     // Navigate to water's edge (stand on the bank, not in the water)
@@ -70,12 +109,13 @@ export const goFishingSkill: Skill = {
     let caught = 0;
     const catches: string[] = [];
 
-    for (let attempt = 0; attempt < FISH_ATTEMPTS && !signal.aborted; attempt++) {
+    let casts = 0;
+    for (; casts < maxCasts && caught < wanted && !signal.aborted; casts++) {
       onProgress({
         skillName: "go_fishing",
         phase: "Fishing",
-        progress: 0.1 + (attempt / FISH_ATTEMPTS) * 0.85,
-        message: `Cast ${attempt + 1}/${FISH_ATTEMPTS} | Caught: ${caught}`,
+        progress: 0.1 + (caught / wanted) * 0.85,
+        message: `Cast ${casts + 1}/${maxCasts} | Caught: ${caught}/${wanted}`,
         active: true,
       });
 
@@ -119,7 +159,7 @@ export const goFishingSkill: Skill = {
 
     return {
       success: true,
-      message: `Fishing trip done! Caught ${caught} items in ${FISH_ATTEMPTS} casts. Fresh fish dinner!`,
+      message: `Fishing trip done! Caught ${caught}/${wanted} items in ${casts} casts. Fresh fish dinner!`,
       stats: { fishCaught: caught },
     };
   },
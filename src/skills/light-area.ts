@@ -7,30 +7,38 @@ const { goals, Movements } = pkg;
 export const lightAreaSkill: Skill = {
   name: "light_area",
   description:
-    "Place torches in a grid pattern around the bot (every 5 blocks, 15-block radius). Uses torches from inventory.",
-  params: {},
+    "Place torches in a grid pattern around the bot (every 5 blocks out to the given radius). Uses torches from inventory.",
+  preconditions: [{ type: "item", name: "torch", hint: "craft torches from coal + sticks" }],
+  postconditions: [{ type: "block_placed", name: ["torch", "wall_torch"] }],
+  params: {
+    radius: { type: "number", description: "How far out to light, in blocks", min: 5, max: 32, default: 15 },
+  },
 
   estimateMaterials(_bot, _params) {
     // Uses whatever torches are in inventory, no gathering
     return {};
   },
 
-  async execute(bot, _params, signal, onProgress): Promise<SkillResult> {
+  async execute(bot, params, signal, onProgress): Promise<SkillResult> {
     const torches = bot.inventory.items().filter((i) => i.name === "torch");
     const torchCount = torches.reduce((s, i) => s + i.count, 0);
 
     if (torchCount === 0) {
-      return { success: false, message: "No torches in inventory! Craft some first (coal + sticks)." };
+      return {
+        success: false,
+        message: "No torches in inventory! Craft some first (coal + sticks).",
+        failureKind: "precondition",
+      };
     }
 
     const center = bot.entity.position.floored();
     const SPACING = 5;
-    const RADIUS = 15;
+    const radius = Math.floor(Number(params.radius) || 15);
     const positions: Vec3[] = [];
 
     // Generate torch grid positions
-    for (let dx = -RADIUS; dx <= RADIUS; dx += SPACING) {
-      for (let dz = -RADIUS; dz <= RADIUS; dz += SPACING) {
+    for (let dx = -radius; dx <= radius; dx += SPACING) {
+      for (let dz = -radius; dz <= radius; dz += SPACING) {
         if (dx === 0 && dz === 0) continue;
         const x = center.x + dx;
         const z = center.z + dz;
@@ -0,0 +1,168 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Bot } from "mineflayer";
+import { DEFAULT_MACRO_DIR, buildMacroSkill, isMacroSkill, loadMacroSkills, parseMacro } from "./macros.js";
+import { skillRegistry } from "./registry.js";
+import type { Skill, SkillProgress, SkillResult } from "./types.js";
+
+const bot = {
+  inventory: { items: () => [] },
+  time: { isDay: true },
+  entity: { position: { x: 0, y: 64, z: 0 } },
+} as unknown as Bot;
+
+/** Register a throwaway skill that records its calls and returns the queued results in turn. */
+function fakeSkill(name: string, results: SkillResult[] = [{ success: true, message: "ok" }]) {
+  const calls: Record<string, any>[] = [];
+  const skill: Skill = {
+    name,
+    description: name,
+    params: { n: { type: "number", description: "n", default: 1 } },
+    estimateMaterials: () => ({}),
+    async execute(_bot, params, _signal, onProgress) {
+      calls.push(params);
+      onProgress({ skillName: name, phase: "Working", progress: 0.5, message: "", active: true });
+      return results[Math.min(calls.length - 1, results.length - 1)];
+    },
+  };
+  skillRegistry.set(name, skill);
+  return calls;
+}
+
+test("parseMacro: steps default to file order, `after` reorders, cycles are rejected", () => {
+  const macro = parseMacro(
+    {
+      steps: [
+        { id: "c", skill: "third", after: ["b"] },
+        { id: "a", skill: "first", after: [] },
+        { id: "b", skill: "second", after: ["a"] },
+        { skill: "fourth" },
+      ],
+    },
+    "ordered",
+  );
+  assert.equal(macro.name, "ordered");
+  assert.deepEqual(
+    macro.steps.map((s) => s.id),
+    ["a", "b", "c", "fourth"],
+  );
+  assert.deepEqual(macro.steps[3].after, ["b"]); // the previous step in the file, not in run order
+
+  assert.throws(
+    () =>
+      parseMacro(
+        {
+          steps: [
+            { id: "a", skill: "x", after: ["b"] },
+            { id: "b", skill: "y" },
+          ],
+        },
+        "loop",
+      ),
+    /cycle/,
+  );
+  assert.throws(() => parseMacro({ steps: [{ skill: "x" }, { skill: "x" }] }, "dupe"), /duplicate step id/);
+  assert.throws(() => parseMacro({ steps: [{ skill: "x", action: "sleep" }] }, "both"), /exactly one/);
+});
+
+test("macro: runs steps in order with $params, skips gated steps, aggregates progress", async () => {
+  const first = fakeSkill("macro_test_first");
+  const second = fakeSkill("macro_test_second");
+  const macro = buildMacroSkill(
+    parseMacro(
+      {
+        params: { size: { type: "number", description: "size", default: 4 } },
+        steps: [
+          { skill: "macro_test_first", params: { n: "$size" } },
+          { skill: "macro_test_second", when: { type: "time", period: "night" } },
+        ],
+      },
+      "macro_test",
+    ),
+  );
+
+  const progress: SkillProgress[] = [];
+  const result = await macro.execute(bot, { size: 7, stashPos: "here" }, new AbortController().signal, (p) =>
+    progress.push(p),
+  );
+
+  assert.ok(result.success);
+  assert.deepEqual(first, [{ n: 7, stashPos: "here" }]);
+  assert.equal(second.length, 0);
+  assert.match(result.message, /macro_test_second skipped \(not night\)/);
+  assert.deepEqual(result.stats, { stepsDone: 1, stepsSkipped: 1, stepsFailed: 0 });
+  assert.ok(progress.some((p) => p.progress > 0 && p.progress < 0.5 && p.phase.startsWith("Step 1/2")));
+  assert.equal(progress[progress.length - 1].progress, 1);
+
+  skillRegistry.delete("macro_test_first");
+  skillRegistry.delete("macro_test_second");
+});
+
+test("macro: retries errors, an optional failure only skips its dependents, a required one stops", async () => {
+  const flaky = fakeSkill("macro_test_flaky", [
+    { success: false, message: "boom" },
+    { success: true, message: "ok" },
+  ]);
+  fakeSkill("macro_test_broken", [{ success: false, message: "no water", failureKind: "precondition" }]);
+  const after = fakeSkill("macro_test_after");
+  const last = fakeSkill("macro_test_last");
+
+  const optional = buildMacroSkill(
+    parseMacro(
+      {
+        steps: [
+          { skill: "macro_test_flaky", retries: 2 },
+          { id: "broken", skill: "macro_test_broken", retries: 3, optional: true },
+          { skill: "macro_test_after", after: ["broken"] },
+          { skill: "macro_test_last", after: ["macro_test_flaky"] },
+        ],
+      },
+      "macro_test_optional",
+    ),
+  );
+  const result = await optional.execute(bot, {}, new AbortController().signal, () => {});
+  assert.ok(result.success);
+  assert.equal(flaky.length, 2);
+  assert.equal(after.length, 0);
+  assert.equal(last.length, 1);
+  assert.deepEqual(result.stats, { stepsDone: 2, stepsSkipped: 1, stepsFailed: 1 });
+
+  const required = buildMacroSkill(
+    parseMacro({ steps: [{ skill: "macro_test_broken" }, { skill: "macro_test_last" }] }, "macro_test_required"),
+  );
+  const failed = await required.execute(bot, {}, new AbortController().signal, () => {});
+  assert.equal(failed.success, false);
+  assert.equal(failed.failureKind, "precondition");
+  assert.match(failed.message, /stopped at step 1\/2 — macro_test_broken failed: no water/);
+  assert.equal(last.length, 1);
+
+  for (const name of ["flaky", "broken", "after", "last"]) skillRegistry.delete(`macro_test_${name}`);
+});
+
+test("loadMacroSkills: registers macro files, never replaces a built-in skill", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "macros-"));
+  fs.writeFileSync(path.join(dir, "macro_test_file.json"), JSON.stringify({ steps: [{ skill: "craft_gear" }] }));
+  fs.writeFileSync(path.join(dir, "clash.json"), JSON.stringify({ name: "craft_gear", steps: [{ action: "idle" }] }));
+
+  const builtin = skillRegistry.get("craft_gear");
+  loadMacroSkills(dir);
+  assert.ok(isMacroSkill("macro_test_file"));
+  assert.equal(skillRegistry.get("macro_test_file")!.description, "Macro: craft_gear");
+  assert.equal(skillRegistry.get("craft_gear"), builtin);
+  assert.ok(!isMacroSkill("craft_gear"));
+
+  skillRegistry.delete("macro_test_file");
+  fs.rmSync(dir, { recursive: true });
+});
+
+test("prepare_for_night.json is a valid macro", () => {
+  const file = path.join(DEFAULT_MACRO_DIR, "prepare_for_night.json");
+  const macro = parseMacro(JSON.parse(fs.readFileSync(file, "utf-8")), "prepare_for_night");
+  assert.deepEqual(
+    macro.steps.map((s) => s.skill ?? s.action),
+    ["craft_gear", "light_area", "build_house", "sleep"],
+  );
+});
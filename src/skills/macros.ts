@@ -0,0 +1,360 @@
+/**
+ * Macro skills — declarative chains of existing skills and actions, loaded
+ * from JSON files in skills/macros/ and registered like any other skill.
+ *
+ * A macro is a list of steps. Each step runs a skill or a built-in action with
+ * fixed params (or "$param" references to the macro's own params), can retry,
+ * can be gated on a `when` condition, and can be `optional`. Steps run in file
+ * order unless `after` names other step ids, which turns the list into a DAG:
+ * a step waits for everything it's after, and is skipped when one of those
+ * failed.
+ *
+ * runSkill runs the macro as one skill — one abort signal for every step, one
+ * progress bar split evenly across the steps, one recorded attempt. Steps
+ * call skills directly rather than through runSkill (which would refuse with
+ * "Already running"), but get the same param checks, preconditions, material
+ * gathering and postconditions.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Bot } from "mineflayer";
+import type {
+  Skill,
+  SkillFailureKind,
+  SkillParam,
+  SkillPostcondition,
+  SkillPrecondition,
+  SkillResult,
+} from "./types.js";
+import type { Structure } from "../bot/memory.js";
+import { skillRegistry } from "./registry.js";
+import { validateSkillParams } from "./params.js";
+import { gatherMaterials } from "./materials.js";
+import {
+  preconditionHolds,
+  structureNearby,
+  takeSnapshot,
+  unmetPostconditions,
+  unmetPreconditions,
+} from "./conditions.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/** Default macro directory (repo root /skills/macros). */
+export const DEFAULT_MACRO_DIR = path.join(__dirname, "../../skills/macros");
+
+const MAX_RETRIES = 5;
+
+/** A step gate: any skill precondition, or a structure in memory. `not` inverts it. */
+export type MacroCondition = (
+  | SkillPrecondition
+  | { type: "structure_nearby"; structureType: Structure["type"] | Structure["type"][]; radius?: number }
+) & { not?: boolean };
+
+export interface MacroStep {
+  /** Referenced by other steps' `after`. Defaults to the skill/action name. */
+  id: string;
+  skill?: string;
+  action?: string;
+  /** Literal values, or "$name" to pass through one of the macro's params. */
+  params?: Record<string, any>;
+  /** Extra attempts after an error. Precondition failures and interrupts aren't retried. */
+  retries?: number;
+  /** Every condition must hold, else the step is skipped (not failed). */
+  when?: MacroCondition[];
+  /** Step ids that must finish first. Defaults to the previous step. */
+  after: string[];
+  /** A failed optional step doesn't fail the macro — only the steps after it. */
+  optional?: boolean;
+}
+
+export interface MacroDefinition {
+  name: string;
+  description: string;
+  params: Record<string, SkillParam>;
+  preconditions?: SkillPrecondition[];
+  postconditions?: SkillPostcondition[];
+  steps: MacroStep[];
+}
+
+type StepOutcome =
+  | { status: "ok"; message: string }
+  | { status: "skipped"; message: string }
+  | { status: "failed"; message: string; failureKind: SkillFailureKind };
+
+/** Names of every loaded macro, so they're listed as first-class skills rather than dynamic ones. */
+const macroNames = new Set<string>();
+
+export function isMacroSkill(name: string): boolean {
+  return macroNames.has(name);
+}
+
+/** Validate a parsed macro file. Steps come back in execution order. Throws on anything malformed. */
+export function parseMacro(data: any, fallbackName: string): MacroDefinition {
+  const name = String(data.name ?? fallbackName);
+  if (!/^[a-z][a-z0-9_]*$/.test(name)) throw new Error(`Macro name "${name}" must be snake_case`);
+  if (!Array.isArray(data.steps) || data.steps.length === 0) throw new Error(`Macro "${name}" has no steps`);
+
+  const steps: MacroStep[] = [];
+  const ids = new Set<string>();
+  for (const raw of data.steps) {
+    if (!raw.skill === !raw.action) throw new Error(`Macro "${name}": each step needs exactly one of skill or action`);
+    const id = String(raw.id ?? raw.skill ?? raw.action);
+    if (ids.has(id)) throw new Error(`Macro "${name}": duplicate step id "${id}" — give repeated steps an id`);
+    if (raw.skill === name) throw new Error(`Macro "${name}" can't run itself`);
+    const previous = steps.length > 0 ? [steps[steps.length - 1].id] : [];
+    steps.push({
+      id,
+      skill: raw.skill,
+      action: raw.action,
+      params: raw.params ?? {},
+      retries: Math.max(0, Math.min(MAX_RETRIES, Math.floor(Number(raw.retries) || 0))),
+      when: raw.when === undefined ? undefined : Array.isArray(raw.when) ? raw.when : [raw.when],
+      after: Array.isArray(raw.after) ? raw.after.map(String) : previous,
+      optional: raw.optional === true,
+    });
+    ids.add(id);
+  }
+  for (const step of steps) {
+    const unknown = step.after.find((a) => !ids.has(a));
+    if (unknown) throw new Error(`Macro "${name}": step "${step.id}" is after unknown step "${unknown}"`);
+  }
+
+  return {
+    name,
+    description: String(data.description ?? `Macro: ${steps.map((s) => s.skill ?? s.action).join(" → ")}`),
+    params: data.params ?? {},
+    preconditions: data.preconditions,
+    postconditions: data.postconditions,
+    steps: executionOrder(name, steps),
+  };
+}
+
+/** Topological order, keeping file order among steps that are ready together. */
+function executionOrder(name: string, steps: MacroStep[]): MacroStep[] {
+  const ordered: MacroStep[] = [];
+  const done = new Set<string>();
+  while (ordered.length < steps.length) {
+    const next = steps.find((s) => !done.has(s.id) && s.after.every((a) => done.has(a)));
+    if (!next) throw new Error(`Macro "${name}" has a cycle in its "after" steps`);
+    ordered.push(next);
+    done.add(next.id);
+  }
+  return ordered;
+}
+
+function conditionHolds(bot: Bot, c: MacroCondition): boolean {
+  const holds =
+    c.type === "structure_nearby" ? structureNearby(bot, c.structureType, c.radius) : preconditionHolds(bot, c);
+  return c.not ? !holds : holds;
+}
+
+function describeCondition(c: MacroCondition): string {
+  const text =
+    c.type === "structure_nearby"
+      ? `${[c.structureType].flat().join(" or ")} nearby`
+      : c.type === "time"
+        ? `${c.period}`
+        : c.type === "dimension"
+          ? `in the ${c.name}`
+          : `${[c.name].flat().join(" or ")}${c.type === "block_nearby" ? " nearby" : ""}`;
+  return c.not ? `no ${text}` : text;
+}
+
+/** Replace "$name" values with the macro's params. */
+function resolveParams(stepParams: Record<string, any>, macroParams: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(stepParams)) {
+    out[key] = typeof value === "string" && value.startsWith("$") ? macroParams[value.slice(1)] : value;
+  }
+  return out;
+}
+
+// Plain actions only return text — these are the shapes their failures take.
+const ACTION_FAILURE = /^(action failed|unknown|can't|couldn't|no |what |that's .* too far)|failed:|disappeared/i;
+const ACTION_PRECONDITION = /^(no |can't)/i;
+
+/** One attempt at a skill step: the same checks runSkill makes, under the macro's signal. */
+async function runSkillStep(
+  bot: Bot,
+  skill: Skill,
+  rawParams: Record<string, any>,
+  signal: AbortSignal,
+  onProgress: (progress: number, phase: string, message: string) => void,
+): Promise<SkillResult> {
+  const checked = validateSkillParams(skill, rawParams);
+  if (!checked.ok) return { success: false, message: `bad params: ${checked.error}`, failureKind: "error" };
+  const params = checked.params;
+
+  const unmet = unmetPreconditions(bot, skill);
+  if (unmet.length > 0) return { success: false, message: unmet.join("; "), failureKind: "precondition" };
+
+  const materials = skill.estimateMaterials(bot, params);
+  if (Object.keys(materials).length > 0) {
+    const gathered = await gatherMaterials(bot, materials, signal, (msg, pct) =>
+      onProgress(pct * 0.3, "Gathering materials", msg),
+    );
+    if (!gathered.success) return { success: false, message: gathered.message, failureKind: "precondition" };
+  }
+  if (signal.aborted) return { success: false, message: "interrupted", failureKind: "interrupted" };
+
+  const before = takeSnapshot(bot, skill);
+  try {
+    const result = await skill.execute(bot, params, signal, (p) =>
+      onProgress(0.3 + p.progress * 0.7, p.phase, p.message),
+    );
+    if (!result.success) return result;
+    const missed = unmetPostconditions(bot, skill, before);
+    if (missed.length > 0) {
+      return { success: false, message: `${result.message} (but ${missed.join("; ")})`, failureKind: "postcondition" };
+    }
+    return result;
+  } finally {
+    before.release();
+  }
+}
+
+async function runActionStep(bot: Bot, action: string, params: Record<string, any>): Promise<SkillResult> {
+  // Lazy: actions.ts imports the skill registry, which this module is loaded into
+  const { executeActionWithResult } = await import("../bot/actions.js");
+  const result = await executeActionWithResult(bot, action, params);
+  if (result.success !== undefined) return { ...result, success: result.success };
+  const { message } = result;
+  if (!ACTION_FAILURE.test(message)) return { success: true, message };
+  return { success: false, message, failureKind: ACTION_PRECONDITION.test(message) ? "precondition" : "error" };
+}
+
+// Macros running on each bot, innermost last — stops macros that include each other from recursing.
+const runningMacros = new Map<Bot, string[]>();
+
+/** Wrap a macro definition as a Skill for the registry. */
+export function buildMacroSkill(macro: MacroDefinition): Skill {
+  const total = macro.steps.length;
+
+  return {
+    name: macro.name,
+    description: macro.description,
+    params: macro.params,
+    preconditions: macro.preconditions,
+    postconditions: macro.postconditions,
+    estimateMaterials: () => ({}), // each step gathers its own
+
+    async execute(bot, params, signal, onProgress): Promise<SkillResult> {
+      const stack = runningMacros.get(bot) ?? [];
+      if (stack.includes(macro.name)) {
+        return { success: false, message: `${macro.name} can't include itself`, failureKind: "error" };
+      }
+      runningMacros.set(bot, [...stack, macro.name]);
+
+      // Context the caller injected (stashPos, taskRole...) flows into every step
+      const context = Object.fromEntries(Object.entries(params).filter(([k]) => !(k in macro.params)));
+      const outcomes = new Map<string, StepOutcome>();
+      const report = (i: number, progress: number, phase: string, message: string) =>
+        onProgress({
+          skillName: macro.name,
+          phase: `Step ${i + 1}/${total}: ${phase}`,
+          progress: (i + progress) / total,
+          message,
+          active: true,
+        });
+
+      try {
+        for (const [i, step] of macro.steps.entries()) {
+          if (signal.aborted) break;
+          const label = step.skill ?? step.action!;
+
+          const blocked = step.after.find((a) => outcomes.get(a)?.status === "failed");
+          if (blocked) {
+            outcomes.set(step.id, { status: "skipped", message: `${label} skipped (${blocked} failed)` });
+            continue;
+          }
+          const gate = (step.when ?? []).find((c) => !conditionHolds(bot, c));
+          if (gate) {
+            outcomes.set(step.id, { status: "skipped", message: `${label} skipped (not ${describeCondition(gate)})` });
+            continue;
+          }
+
+          const stepParams = { ...context, ...resolveParams(step.params ?? {}, params) };
+          let result: SkillResult = { success: false, message: "not run" };
+          for (let attempt = 0; attempt <= (step.retries ?? 0) && !signal.aborted; attempt++) {
+            report(i, 0, label, attempt > 0 ? `Retrying (${attempt}/${step.retries})` : `Starting ${label}`);
+            if (step.skill) {
+              const skill = skillRegistry.get(step.skill);
+              result = skill
+                ? await runSkillStep(bot, skill, stepParams, signal, (p, phase, msg) => report(i, p, phase, msg))
+                : { success: false, message: `unknown skill "${step.skill}"`, failureKind: "error" };
+            } else {
+              result = await runActionStep(bot, step.action!, stepParams);
+            }
+            if (result.success || result.failureKind === "precondition" || result.failureKind === "interrupted") break;
+          }
+
+          if (result.success) {
+            outcomes.set(step.id, { status: "ok", message: `${label} done` });
+            continue;
+          }
+          const failureKind = signal.aborted ? "interrupted" : (result.failureKind ?? "error");
+          outcomes.set(step.id, { status: "failed", message: `${label} failed: ${result.message}`, failureKind });
+          if (!step.optional) {
+            return {
+              success: false,
+              message: `${macro.name} stopped at step ${i + 1}/${total} — ${summarize(outcomes)}`,
+              failureKind,
+              stats: tally(outcomes),
+            };
+          }
+        }
+
+        if (signal.aborted) {
+          return {
+            success: false,
+            message: `${macro.name} interrupted — ${summarize(outcomes)}`,
+            failureKind: "interrupted",
+            stats: tally(outcomes),
+          };
+        }
+        onProgress({ skillName: macro.name, phase: "Done", progress: 1, message: macro.name, active: false });
+        return { success: true, message: `${macro.name} complete — ${summarize(outcomes)}`, stats: tally(outcomes) };
+      } finally {
+        if (stack.length > 0) runningMacros.set(bot, stack);
+        else runningMacros.delete(bot);
+      }
+    },
+  };
+}
+
+function summarize(outcomes: Map<string, StepOutcome>): string {
+  return [...outcomes.values()].map((o) => o.message).join("; ");
+}
+
+function tally(outcomes: Map<string, StepOutcome>): Record<string, number> {
+  const all = [...outcomes.values()];
+  return {
+    stepsDone: all.filter((o) => o.status === "ok").length,
+    stepsSkipped: all.filter((o) => o.status === "skipped").length,
+    stepsFailed: all.filter((o) => o.status === "failed").length,
+  };
+}
+
+/** Load every macro file in a directory into the skill registry. Bad files are logged and skipped. */
+export function loadMacroSkills(dir = DEFAULT_MACRO_DIR): void {
+  if (!fs.existsSync(dir)) return;
+  let loaded = 0;
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const macro = parseMacro(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")), path.parse(file).name);
+      if (skillRegistry.has(macro.name) && !macroNames.has(macro.name)) {
+        throw new Error(`"${macro.name}" is already a skill`);
+      }
+      skillRegistry.set(macro.name, buildMacroSkill(macro));
+      macroNames.add(macro.name);
+      loaded++;
+    } catch (err: any) {
+      console.warn(`[Macro] Skipped ${file}: ${err.message}`);
+    }
+  }
+  if (loaded > 0) console.log(`[Macro] Loaded ${loaded} macro skills`);
+}
@@ -2,53 +2,22 @@ import type { Bot } from "mineflayer";
 import pkg from "mineflayer-pathfinder";
 const { goals, Movements } = pkg;
 import mcDataLoader from "minecraft-data";
-
-/** Crafting dependency tree: item → { inputs needed, yield per craft } */
-const CRAFT_TREE: Record<string, { inputs: Record<string, number>; yields: number }> = {
-  oak_planks: { inputs: { oak_log: 1 }, yields: 4 },
-  spruce_planks: { inputs: { spruce_log: 1 }, yields: 4 },
-  birch_planks: { inputs: { birch_log: 1 }, yields: 4 },
-  stick: { inputs: { oak_planks: 2 }, yields: 4 },
-  crafting_table: { inputs: { oak_planks: 4 }, yields: 1 },
-  torch: { inputs: { stick: 1, coal: 1 }, yields: 4 },
-  oak_door: { inputs: { oak_planks: 6 }, yields: 3 },
-  oak_fence: { inputs: { oak_planks: 4, stick: 2 }, yields: 3 },
-  wooden_pickaxe: { inputs: { oak_planks: 3, stick: 2 }, yields: 1 },
-  wooden_axe: { inputs: { oak_planks: 3, stick: 2 }, yields: 1 },
-  wooden_shovel: { inputs: { oak_planks: 1, stick: 2 }, yields: 1 },
-  wooden_sword: { inputs: { oak_planks: 2, stick: 1 }, yields: 1 },
-  stone_pickaxe: { inputs: { cobblestone: 3, stick: 2 }, yields: 1 },
-  stone_axe: { inputs: { cobblestone: 3, stick: 2 }, yields: 1 },
-  stone_sword: { inputs: { cobblestone: 2, stick: 1 }, yields: 1 },
-  stone_shovel: { inputs: { cobblestone: 1, stick: 2 }, yields: 1 },
-  furnace: { inputs: { cobblestone: 8 }, yields: 1 },
-  chest: { inputs: { oak_planks: 8 }, yields: 1 },
-};
-
-/** Wood type constants — any log can become planks, all planks are interchangeable for building */
-export const LOG_TYPES = [
-  "oak_log",
-  "spruce_log",
-  "birch_log",
-  "jungle_log",
-  "acacia_log",
-  "dark_oak_log",
-  "cherry_log",
-  "mangrove_log",
-  "pale_oak_log", // MC 1.21.4 Pale Garden biome
-] as const;
-
-export const PLANK_TYPES = [
-  "oak_planks",
-  "spruce_planks",
-  "birch_planks",
-  "jungle_planks",
-  "acacia_planks",
-  "dark_oak_planks",
-  "cherry_planks",
-  "mangrove_planks",
-  "pale_oak_planks", // MC 1.21.4 Pale Garden biome
-] as const;
+import { Vec3 } from "vec3";
+import {
+  ITEM_GROUPS,
+  LOG_TYPES,
+  PLANK_TYPES,
+  formatCraftPlan,
+  formatCraftStep,
+  inventoryCounts,
+  itemLabel,
+  planCrafting,
+  type CraftPlan,
+  type CraftStep,
+} from "./craft-planner.js";
+import { getStashInventory, getStashStore } from "./stash-inventory.js";
+
+export { LOG_TYPES, PLANK_TYPES };
 
 /** Count all logs (any type) in inventory */
 export function countAllLogs(bot: Bot): number {
@@ -66,32 +35,17 @@ export function countAllPlanks(bot: Bot): number {
     .reduce((sum, i) => sum + i.count, 0);
 }
 
-/** Block types that can be mined to obtain an item */
-const MINE_SOURCES: Record<string, string[]> = {
-  oak_log: ["oak_log"],
-  spruce_log: ["spruce_log"],
-  birch_log: ["birch_log"],
-  jungle_log: ["jungle_log"],
-  acacia_log: ["acacia_log"],
-  dark_oak_log: ["dark_oak_log"],
-  cherry_log: ["cherry_log"],
-  mangrove_log: ["mangrove_log"],
-  cobblestone: ["stone", "cobblestone"],
-  coal: ["coal_ore", "deepslate_coal_ore"],
-  sand: ["sand"],
-  dirt: ["dirt"],
-};
-
 export interface GatherResult {
   success: boolean;
   message: string;
 }
 
-/** Count how many of an item the bot currently has. */
+/** Count how many of an item (or any member of an item group like "#planks") the bot currently has. */
 function countItem(bot: Bot, itemName: string): number {
+  const names = ITEM_GROUPS[itemName] ?? [itemName];
   return bot.inventory
     .items()
-    .filter((i) => i.name === itemName)
+    .filter((i) => names.includes(i.name))
     .reduce((sum, i) => sum + i.count, 0);
 }
 
@@ -153,12 +107,22 @@ async function safeGotoWithSignal(bot: Bot, goal: any, signal: AbortSignal, time
   });
 }
 
+/** Plan against the bot's current inventory and the stations around it. */
+export function planForBot(bot: Bot, needed: Record<string, number>): CraftPlan {
+  return planCrafting(bot.version, needed, {
+    inventory: inventoryCounts(bot.inventory.items()),
+    stash: getStashInventory(),
+    craftingTableNearby: !!findStation(bot, "crafting_table", 32),
+    furnaceNearby: !!findStation(bot, "furnace", 32),
+  });
+}
+
 /**
  * Gather all materials needed for a skill.
  *
- * 1. Compute deficit (needed minus inventory)
- * 2. For mineable items, go mine them
- * 3. For craftable items, resolve dependencies recursively, then craft
+ * 1. Plan the deficit with the crafting planner (inventory first)
+ * 2. Run the plan: mine raw materials, smelt, craft intermediates in order
+ * 3. Check everything actually landed in the inventory
  */
 export async function gatherMaterials(
   bot: Bot,
@@ -166,122 +130,207 @@ export async function gatherMaterials(
   signal: AbortSignal,
   onProgress: (message: string, progressFraction: number) => void,
 ): Promise<GatherResult> {
-  const totalNeeded = Object.values(needed).reduce((a, b) => a + b, 0);
-  let gathered = 0;
+  const plan = planForBot(bot, needed);
+  if (plan.unknown.length > 0) return { success: false, message: formatCraftPlan(plan) };
 
-  function deficit(item: string): number {
-    return Math.max(0, (needed[item] || 0) - countItem(bot, item));
-  }
-
-  function setMoves() {
-    const moves = new Movements(bot);
-    moves.canDig = false;
-    moves.allow1by1towers = false;
-    moves.allowFreeMotion = false;
-    moves.scafoldingBlocks = [];
-    bot.pathfinder.setMovements(moves);
-  }
+  const result = await executeCraftPlan(bot, plan, signal, onProgress);
+  if (!result.success) return result;
 
-  // --- Phase 1: Mine raw materials ---
+  // Final check
   for (const [item, count] of Object.entries(needed)) {
-    if (signal.aborted) return { success: false, message: "Gathering interrupted." };
+    if (countItem(bot, item) < count) {
+      return { success: false, message: `Still missing ${item}: have ${countItem(bot, item)}, need ${count}.` };
+    }
+  }
 
-    const mineTargets = MINE_SOURCES[item];
-    if (!mineTargets) continue;
+  return { success: true, message: "All materials gathered!" };
+}
 
-    const remaining = deficit(item);
-    if (remaining <= 0) continue;
+/** Run a crafting plan's steps in order. Stops at the first step that can't be done. */
+export async function executeCraftPlan(
+  bot: Bot,
+  plan: CraftPlan,
+  signal: AbortSignal,
+  onProgress: (message: string, progressFraction: number) => void,
+): Promise<GatherResult> {
+  for (const [i, step] of plan.steps.entries()) {
+    if (signal.aborted) return { success: false, message: "Gathering interrupted." };
+    onProgress(`${formatCraftStep(step)}...`, i / plan.steps.length);
 
-    onProgress(`Mining ${remaining}x ${item}...`, gathered / totalNeeded);
+    const failure = await runStep(bot, step, signal);
+    if (failure) return { success: false, message: failure };
+  }
+  return { success: true, message: "All materials gathered!" };
+}
 
-    for (let i = 0; i < remaining + 5 && deficit(item) > 0 && !signal.aborted; i++) {
-      const block = bot.findBlock({
-        matching: (b) => mineTargets.includes(b.name),
-        maxDistance: 64,
-      });
-      if (!block) {
-        return { success: false, message: `Can't find ${item} to mine nearby.` };
-      }
+/** Run one plan step; returns a failure message or null. */
+async function runStep(bot: Bot, step: CraftStep, signal: AbortSignal): Promise<string | null> {
+  const label = itemLabel(step.item);
+  switch (step.kind) {
+    case "withdraw": {
+      const ok = await withdrawFromStash(bot, step.item, step.count);
+      return ok ? null : `Couldn't withdraw ${step.count} ${label} from the stash.`;
+    }
 
-      try {
-        setMoves();
-        await safeGotoWithSignal(
-          bot,
-          new goals.GoalNear(block.position.x, block.position.y, block.position.z, 2),
-          signal,
-        );
-        await bot.dig(block);
-        gathered++;
-        onProgress(`Mined ${item} (${countItem(bot, item)}/${needed[item]})`, gathered / totalNeeded);
-      } catch {
-        // Failed to reach or mine, try next block
-        continue;
+    case "gather": {
+      if (step.action !== "mine_block" && step.action !== "gather_wood") {
+        const from = step.sources.length ? ` from ${step.sources.join("/")}` : "";
+        return `Need ${step.count} ${label}${from}${step.action ? ` — try ${step.action}` : ""}.`;
       }
+      const target = countItem(bot, step.item) + step.count;
+      const ok = await mineItem(bot, step.item, step.sources, target, signal);
+      return ok ? null : `Could only get ${countItem(bot, step.item)}/${target} ${label}.`;
     }
 
-    if (deficit(item) > 0) {
-      return { success: false, message: `Could only get ${countItem(bot, item)}/${needed[item]} ${item}.` };
+    case "smelt": {
+      const ok = await smeltItem(bot, step.input, step.item, step.count, signal);
+      return ok ? null : `Failed to smelt ${label}. Need ${itemLabel(step.input)}, fuel and a furnace.`;
     }
-  }
-
-  // --- Phase 2: Craft items in dependency order ---
-  // Build a crafting plan: resolve dependencies bottom-up
-  const craftOrder = resolveCraftOrder(needed, bot);
-
-  for (const { item, craftCount } of craftOrder) {
-    if (signal.aborted) return { success: false, message: "Gathering interrupted." };
-    if (countItem(bot, item) >= (needed[item] || 0)) continue;
-
-    onProgress(`Crafting ${item}...`, gathered / totalNeeded);
 
-    const ok = await craftItem(bot, item, craftCount, signal);
-    if (!ok) {
-      return { success: false, message: `Failed to craft ${item}. Missing materials or no crafting table.` };
+    case "craft": {
+      const ok =
+        step.item === "#planks"
+          ? await craftPlanks(bot, step.crafts, signal)
+          : await craftItem(bot, step.item, step.crafts, signal);
+      return ok ? null : `Failed to craft ${label}. Missing materials or no crafting table.`;
     }
-    gathered += craftCount;
-    onProgress(`Crafted ${item}`, gathered / totalNeeded);
   }
+}
 
-  // Final check
-  for (const [item, count] of Object.entries(needed)) {
-    if (countItem(bot, item) < count) {
-      return { success: false, message: `Still missing ${item}: have ${countItem(bot, item)}, need ${count}.` };
+/** Walk to the chests the snapshots say hold the item and take it out. */
+async function withdrawFromStash(bot: Bot, item: string, count: number): Promise<boolean> {
+  const store = getStashStore();
+  const stock = store.totals();
+  // For "#planks" & co. take whichever member the stash has most of
+  const names = [...(ITEM_GROUPS[item] ?? [item])].sort((a, b) => (stock[b] ?? 0) - (stock[a] ?? 0));
+  const target = countItem(bot, item) + count;
+  // Imported lazily — stash.ts depends on the action layer, which depends on this module
+  const { withdrawFromChest } = await import("./stash.js");
+  for (const name of names) {
+    for (const chest of store.chestsWith(name)) {
+      const left = target - countItem(bot, item);
+      if (left <= 0) break;
+      await withdrawFromChest(bot, chest, name, left);
     }
   }
+  return countItem(bot, item) >= target;
+}
 
-  return { success: true, message: "All materials gathered!" };
+function setMoves(bot: Bot): void {
+  const moves = new Movements(bot);
+  moves.canDig = false;
+  moves.allow1by1towers = false;
+  moves.allowFreeMotion = false;
+  moves.scafoldingBlocks = [];
+  bot.pathfinder.setMovements(moves);
 }
 
-/** Determine crafting order with dependencies resolved bottom-up. */
-function resolveCraftOrder(needed: Record<string, number>, bot: Bot): Array<{ item: string; craftCount: number }> {
-  const order: Array<{ item: string; craftCount: number }> = [];
-  const visited = new Set<string>();
+/** Mine source blocks until the bot holds `target` of the item. */
+async function mineItem(
+  bot: Bot,
+  item: string,
+  sources: string[],
+  target: number,
+  signal: AbortSignal,
+): Promise<boolean> {
+  const remaining = target - countItem(bot, item);
+  for (let i = 0; i < remaining + 5 && countItem(bot, item) < target && !signal.aborted; i++) {
+    const block = bot.findBlock({
+      matching: (b) => sources.includes(b.name),
+      maxDistance: 64,
+    });
+    if (!block) return false;
 
-  function resolve(item: string, count: number) {
-    if (visited.has(item)) return;
-    const recipe = CRAFT_TREE[item];
-    if (!recipe) return; // Raw material, not craftable
+    try {
+      setMoves(bot);
+      await safeGotoWithSignal(
+        bot,
+        new goals.GoalNear(block.position.x, block.position.y, block.position.z, 2),
+        signal,
+      );
+      await bot.dig(block);
+    } catch {
+      // Failed to reach or mine, try next block
+      continue;
+    }
+  }
+  return countItem(bot, item) >= target;
+}
 
-    const have = countItem(bot, item);
-    const deficit = Math.max(0, count - have);
-    if (deficit <= 0) return;
+function findStation(bot: Bot, name: string, maxDistance: number) {
+  return bot.findBlock({
+    matching: (b) => b.name === name,
+    maxDistance,
+  });
+}
 
-    const craftTimes = Math.ceil(deficit / recipe.yields);
+/** Place a crafting table / furnace from the inventory next to the bot. */
+async function placeStation(bot: Bot, name: string) {
+  const stationItem = bot.inventory.items().find((i) => i.name === name);
+  const placePos = findAdjacentAir(bot);
+  if (!stationItem || !placePos) return null;
+  try {
+    await bot.equip(stationItem, "hand");
+    await bot.lookAt(placePos.ref.position.offset(0.5, 0.5, 0.5));
+    await bot.placeBlock(placePos.ref, placePos.face);
+  } catch {
+    // Placement failed
+  }
+  return findStation(bot, name, 8);
+}
 
-    // Resolve inputs first (deeper dependencies)
-    for (const [input, inputPer] of Object.entries(recipe.inputs)) {
-      resolve(input, inputPer * craftTimes);
+/**
+ * Find an air block near the bot where we can place something.
+ * Returns the reference (solid) block and face vector for bot.placeBlock().
+ * placeBlock(ref, face) creates a new block at ref.position + face.
+ */
+function findAdjacentAir(bot: Bot): { ref: any; face: Vec3 } | null {
+  const pos = bot.entity.position.floored();
+  const faces = [
+    new Vec3(1, 0, 0),
+    new Vec3(-1, 0, 0),
+    new Vec3(0, 0, 1),
+    new Vec3(0, 0, -1),
+    new Vec3(0, 1, 0),
+    new Vec3(0, -1, 0),
+  ];
+
+  // Scan air blocks around the bot (within 2 blocks, at foot and ground level)
+  for (let dx = -2; dx <= 2; dx++) {
+    for (let dz = -2; dz <= 2; dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const airPos = pos.offset(dx, dy, dz);
+        const airBlock = bot.blockAt(airPos);
+        if (!airBlock || airBlock.name !== "air") continue;
+        // Don't place where the bot is standing or at head height
+        if (airPos.equals(pos) || airPos.equals(pos.offset(0, 1, 0))) continue;
+
+        // Find a solid neighbor to use as reference
+        for (const face of faces) {
+          const refPos = airPos.minus(face);
+          const refBlock = bot.blockAt(refPos);
+          if (refBlock && refBlock.name !== "air" && !refBlock.name.includes("leaves")) {
+            return { ref: refBlock, face };
+          }
+        }
+      }
     }
-
-    visited.add(item);
-    order.push({ item, craftCount: craftTimes });
   }
+  return null;
+}
 
-  for (const [item, count] of Object.entries(needed)) {
-    resolve(item, count);
+/** Craft planks from whatever logs are in the inventory. */
+async function craftPlanks(bot: Bot, crafts: number, signal: AbortSignal): Promise<boolean> {
+  let left = crafts;
+  for (const log of LOG_TYPES) {
+    if (left <= 0 || signal.aborted) break;
+    const have = countItem(bot, log);
+    if (have === 0) continue;
+    const n = Math.min(have, left);
+    if (!(await craftItem(bot, log.replace("_log", "_planks"), n, signal))) return false;
+    left -= n;
   }
-
-  return order;
+  return left <= 0;
 }
 
 /** Craft an item, handling crafting table placement. */
@@ -291,10 +340,7 @@ async function craftItem(bot: Bot, itemName: string, count: number, signal: Abor
   if (!mcItem) return false;
 
   // Find or place crafting table
-  let table = bot.findBlock({
-    matching: (b) => b.name === "crafting_table",
-    maxDistance: 32,
-  });
+  let table = findStation(bot, "crafting_table", 32);
 
   // Try recipe with table first, fall back to hand crafting
   let recipe = table ? bot.recipesFor(mcItem.id, null, 1, table)[0] : null;
@@ -305,29 +351,9 @@ async function craftItem(bot: Bot, itemName: string, count: number, signal: Abor
 
   // If no recipe found with or without table, try placing a crafting table from inventory
   if (!recipe) {
-    const tableItem = bot.inventory.items().find((i) => i.name === "crafting_table");
-    if (tableItem) {
-      await bot.equip(tableItem, "hand");
-      const pos = bot.entity.position.floored();
-      const below = bot.blockAt(pos.offset(1, -1, 0));
-      if (below && below.name !== "air") {
-        const aboveRef = bot.blockAt(pos.offset(1, 0, 0));
-        if (aboveRef && aboveRef.name === "air") {
-          try {
-            const { Vec3 } = await import("vec3");
-            await bot.placeBlock(below, new Vec3(0, 1, 0));
-          } catch {
-            /* placement failed */
-          }
-        }
-      }
-      table = bot.findBlock({
-        matching: (b) => b.name === "crafting_table",
-        maxDistance: 8,
-      });
-      if (table) {
-        recipe = bot.recipesFor(mcItem.id, null, 1, table)[0];
-      }
+    table = await placeStation(bot, "crafting_table");
+    if (table) {
+      recipe = bot.recipesFor(mcItem.id, null, 1, table)[0];
     }
   }
 
@@ -356,3 +382,42 @@ async function craftItem(bot: Bot, itemName: string, count: number, signal: Abor
     return false;
   }
 }
+
+/** Smelt `count` of an input in the nearest (or a freshly placed) furnace. */
+async function smeltItem(
+  bot: Bot,
+  input: string,
+  output: string,
+  count: number,
+  signal: AbortSignal,
+): Promise<boolean> {
+  const inputNames = ITEM_GROUPS[input] ?? [input];
+  const inputItem = bot.inventory.items().find((i) => inputNames.includes(i.name) && i.count >= count);
+  const fuel = bot.inventory.items().find((i) => ITEM_GROUPS["#coal"].includes(i.name));
+  if (!inputItem || !fuel) return false;
+
+  const block = findStation(bot, "furnace", 32) ?? (await placeStation(bot, "furnace"));
+  if (!block) return false;
+
+  const target = countItem(bot, output) + count;
+  try {
+    setMoves(bot);
+    await safeGotoWithSignal(bot, new goals.GoalNear(block.position.x, block.position.y, block.position.z, 2), signal);
+    const furnace = await bot.openFurnace(block);
+    try {
+      await furnace.putFuel(fuel.type, null, Math.min(fuel.count, Math.ceil(count / 8)));
+      await furnace.putInput(inputItem.type, null, count);
+      // ~10s per item in a normal furnace
+      const deadline = Date.now() + count * 10_000 + 5_000;
+      while (countItem(bot, output) < target && Date.now() < deadline && !signal.aborted) {
+        await new Promise((r) => setTimeout(r, 1000));
+        if (furnace.outputItem()) await furnace.takeOutput();
+      }
+    } finally {
+      furnace.close();
+    }
+  } catch {
+    return false;
+  }
+  return countItem(bot, output) >= target;
+}
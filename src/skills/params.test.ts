@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { describeSkillParam, validateSkillParams } from "./params.js";
+import { stripMineSkill } from "./strip-mine.js";
+import type { SkillParam } from "./types.js";
+
+const stashParams: Record<string, SkillParam> = {
+  x: { type: "number", description: "Stash X coordinate", required: true },
+  y: { type: "number", description: "Stash Y coordinate", required: true },
+  z: { type: "number", description: "Stash Z coordinate", required: true },
+};
+
+test("validateSkillParams: coerces, matches enums loosely, and fills defaults", () => {
+  const result = validateSkillParams(stripMineSkill, { ore: "Diamonds", y: "-58", direction: "EAST", thought: "dig" });
+  assert.ok(result.ok);
+  assert.deepEqual(result.params, { ore: "diamond", y: -58, direction: "east", length: 30, thought: "dig" });
+});
+
+test("validateSkillParams: rejects out-of-range values and unknown enum options", () => {
+  const result = validateSkillParams(stripMineSkill, { ore: "netherite", length: 500 });
+  assert.ok(!result.ok);
+  assert.match(result.error, /"ore" must be one of any, diamond/);
+  assert.match(result.error, /"length" must be between 5 and 128 \(got 500\)/);
+
+  const bad = validateSkillParams(stripMineSkill, { y: "deep" });
+  assert.ok(!bad.ok && bad.error.includes('"y" must be a number'));
+});
+
+test("validateSkillParams: required params must be present", () => {
+  const result = validateSkillParams({ params: stashParams }, { x: 10, y: "" });
+  assert.ok(!result.ok);
+  assert.equal(result.error, 'missing "y" (Stash Y coordinate); missing "z" (Stash Z coordinate)');
+});
+
+test("describeSkillParam: shows enum, range, and default", () => {
+  assert.equal(
+    describeSkillParam("ore", stripMineSkill.params.ore),
+    '"ore": any|diamond|redstone|gold|lapis|iron|copper|coal|emerald (default any)',
+  );
+  assert.equal(describeSkillParam("length", stripMineSkill.params.length), '"length": number 5..128 (default 30)');
+  assert.equal(describeSkillParam("x", stashParams.x), '"x": number (required)');
+});
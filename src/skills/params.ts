@@ -0,0 +1,89 @@
+/**
+ * Skill parameter checking — coerces what the LLM (or a viewer command) sent
+ * into the types a skill declares, fills in defaults, and rejects values
+ * outside the declared enum or range before the skill starts.
+ *
+ * Params a skill doesn't declare (injected context like stashPos, or the
+ * LLM's meta fields) pass through untouched.
+ */
+
+import type { Skill, SkillParam } from "./types.js";
+
+export type SkillParamsResult = { ok: true; params: Record<string, any> } | { ok: false; error: string };
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/** Match an enum option case-insensitively, tolerating plurals ("diamonds" → "diamond"). */
+function matchEnum(value: string, options: (string | number)[]): string | number | undefined {
+  const v = value.trim().toLowerCase();
+  return options.find((o) => {
+    const opt = String(o).toLowerCase();
+    return v === opt || v === `${opt}s` || v === `${opt}es`;
+  });
+}
+
+function coerce(
+  key: string,
+  spec: SkillParam,
+  value: unknown,
+): { ok: true; value: any } | { ok: false; error: string } {
+  if (spec.type === "number") {
+    const n = typeof value === "number" ? value : Number(String(value).trim());
+    if (!Number.isFinite(n)) return { ok: false, error: `"${key}" must be a number (got ${JSON.stringify(value)})` };
+    if ((spec.min !== undefined && n < spec.min) || (spec.max !== undefined && n > spec.max)) {
+      return { ok: false, error: `"${key}" must be between ${spec.min ?? "-∞"} and ${spec.max ?? "∞"} (got ${n})` };
+    }
+    if (spec.enum && !spec.enum.includes(n)) {
+      return { ok: false, error: `"${key}" must be one of ${spec.enum.join(", ")} (got ${n})` };
+    }
+    return { ok: true, value: n };
+  }
+
+  if (spec.type === "boolean") {
+    if (typeof value === "boolean") return { ok: true, value };
+    const s = String(value).trim().toLowerCase();
+    if (s === "true" || s === "yes") return { ok: true, value: true };
+    if (s === "false" || s === "no") return { ok: true, value: false };
+    return { ok: false, error: `"${key}" must be true or false (got ${JSON.stringify(value)})` };
+  }
+
+  const s = String(value).trim();
+  if (spec.enum) {
+    const match = matchEnum(s, spec.enum);
+    if (match === undefined) {
+      return { ok: false, error: `"${key}" must be one of ${spec.enum.join(", ")} (got "${s}")` };
+    }
+    return { ok: true, value: match };
+  }
+  return { ok: true, value: s };
+}
+
+/** Check params against a skill's declared schema. Returns the coerced params, defaults filled in. */
+export function validateSkillParams(skill: Pick<Skill, "params">, params: Record<string, any>): SkillParamsResult {
+  const out: Record<string, any> = { ...params };
+  const errors: string[] = [];
+  for (const [key, spec] of Object.entries(skill.params)) {
+    const value = params[key];
+    if (isMissing(value)) {
+      delete out[key];
+      if (spec.default !== undefined) out[key] = spec.default;
+      else if (spec.required) errors.push(`missing "${key}" (${spec.description})`);
+      continue;
+    }
+    const result = coerce(key, spec, value);
+    if (result.ok) out[key] = result.value;
+    else errors.push(result.error);
+  }
+  return errors.length > 0 ? { ok: false, error: errors.join("; ") } : { ok: true, params: out };
+}
+
+/** Compact one-param summary for prompts: `"ore": diamond|iron|any (default any)`. */
+export function describeSkillParam(key: string, spec: SkillParam): string {
+  let type: string = spec.type;
+  if (spec.enum) type = spec.enum.join("|");
+  else if (spec.min !== undefined && spec.max !== undefined) type = `${spec.type} ${spec.min}..${spec.max}`;
+  const extra = spec.default !== undefined ? ` (default ${spec.default})` : spec.required ? " (required)" : "";
+  return `"${key}": ${type}${extra}`;
+}
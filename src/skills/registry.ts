@@ -1,4 +1,5 @@
 import type { Skill } from "./types.js";
+import { describeSkillParam } from "./params.js";
 import { buildHouseSkill } from "./build-house.js";
 import { craftGearSkill } from "./craft-gear.js";
 import { lightAreaSkill } from "./light-area.js";
@@ -8,6 +9,7 @@ import { smeltOresSkill } from "./smelt-ores.js";
 import { goFishingSkill } from "./go-fishing.js";
 import { buildBridgeSkill } from "./build-bridge.js";
 import { setupStashSkill } from "./setup-stash.js";
+import { buildStructureSkill } from "./build-structure.js";
 
 export const skillRegistry = new Map<string, Skill>();
 
@@ -24,23 +26,30 @@ register(smeltOresSkill);
 register(goFishingSkill);
 register(buildBridgeSkill);
 register(setupStashSkill);
+register(buildStructureSkill);
 
 // Dynamic skills are loaded lazily by calling loadDynamicSkills() from dynamic-loader.ts.
 // The import is intentionally kept out of this file to avoid circular module evaluation:
 // dynamic-loader.ts imports skillRegistry from this file, so registry.ts must not
 // import dynamic-loader.ts at module load time (TDZ / circular ref issue with tsx/Node ESM).
 
-/** Generate the SKILLS section for the LLM system prompt. */
-export function getSkillPromptLines(): string {
+/**
+ * Generate the SKILLS section for the LLM system prompt.
+ * Skills listed in `unmet` (name → reason) are marked as not ready; skills in
+ * `exclude` are left out.
+ */
+export function getSkillPromptLines(unmet: Record<string, string> = {}, exclude = new Set<string>()): string {
   const lines: string[] = [];
   for (const skill of skillRegistry.values()) {
+    if (exclude.has(skill.name)) continue;
     const paramStr =
       Object.keys(skill.params).length > 0
         ? `params: { ${Object.entries(skill.params)
-            .map(([k, v]) => `"${k}": ${v.type}`)
+            .map(([k, v]) => describeSkillParam(k, v))
             .join(", ")} }`
         : "params: {}";
-    lines.push(`- ${skill.name}: [SKILL] ${skill.description} ${paramStr}`);
+    const notReady = unmet[skill.name] ? ` NOT READY: ${unmet[skill.name]}` : "";
+    lines.push(`- ${skill.name}: [SKILL] ${skill.description} ${paramStr}${notReady}`);
   }
   return lines.join("\n");
 }
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { loadDynamicSkills } from "./dynamic-loader.js";
+import { rankSkills, retrieveSkills, tokenize } from "./retrieval.js";
+import { buildStrategicPrompt } from "../llm/prompts.js";
+
+test("tokenize: splits camelCase and snake_case, drops stopwords and plurals", () => {
+  assert.deepEqual(tokenize("mineFiveIronOres with the iron_pickaxe"), [
+    "mine",
+    "five",
+    "iron",
+    "ore",
+    "iron",
+    "pickaxe",
+  ]);
+});
+
+test("rankSkills: BM25 puts the best match first and drops skills with no shared terms", () => {
+  const docs = [
+    { name: "collectBamboo", description: "Collect bamboo — equip the iron sword" },
+    { name: "smeltRawIron", description: "Smelt raw iron into iron ingots in a furnace" },
+    { name: "mineFiveIronOres", description: "Mine five iron ores" },
+    { name: "catchFish", description: "Fish with a rod" },
+  ];
+  assert.deepEqual(
+    rankSkills(docs, "I need iron ingots for armor", 3).map((d) => d.name),
+    ["smeltRawIron", "mineFiveIronOres", "collectBamboo"],
+  );
+  assert.deepEqual(rankSkills(docs, "build a house", 3), []);
+});
+
+test("strategic prompt: lists the library skills relevant to the goal", () => {
+  loadDynamicSkills();
+  assert.ok(retrieveSkills("smelt iron", 8).some((s) => s.name === "smeltFiveRawIron"));
+
+  const prompt = buildStrategicPrompt({
+    name: "Atlas",
+    personality: "",
+    skillQuery: "Goal: smelt the raw iron into ingots",
+  });
+  assert.match(
+    prompt,
+    /SKILL LIBRARY — most relevant of \d+ \(use invoke_skill\):\n(- .*\n)*- smeltFiveRawIron: Smelt five raw iron/,
+  );
+  assert.ok(!prompt.includes("smeltFiveRawIron: [SKILL]"), "library skills stay out of the built-in SKILLS list");
+});
@@ -0,0 +1,72 @@
+/**
+ * Skill retrieval — a BM25 index over the dynamic skill library (names and
+ * descriptions), so the strategic prompt lists the few Voyager/generated
+ * skills that match the bot's goal and surroundings instead of the first
+ * few by load order. The library is small, so the index is rebuilt per query.
+ */
+
+import { skillRegistry } from "./registry.js";
+import { getDynamicSkillNames } from "./dynamic-loader.js";
+
+export interface SkillDoc {
+  name: string;
+  description: string;
+}
+
+export interface ScoredSkill extends SkillDoc {
+  score: number;
+}
+
+// BM25 tuning — the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in into is it its of on or that the then this to up use using with you your".split(
+    " ",
+  ),
+);
+
+/** Lowercase word stems: splits camelCase and snake_case, drops stopwords and plural -s. */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+    .map((w) => (w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+}
+
+/** Rank `docs` against `query` with BM25; only skills sharing a term with the query are returned. */
+export function rankSkills(docs: SkillDoc[], query: string, k: number): ScoredSkill[] {
+  // The name counts twice — "mineFiveIronOres" says more than its description
+  const terms = docs.map((d) => tokenize(`${d.name} ${d.name} ${d.description}`));
+  const avgLength = terms.reduce((n, t) => n + t.length, 0) / Math.max(terms.length, 1);
+  const docFreq = new Map<string, number>();
+  for (const t of terms) for (const term of new Set(t)) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+
+  const queryTerms = new Set(tokenize(query));
+  return docs
+    .map((doc, i) => {
+      const counts = new Map<string, number>();
+      for (const term of terms[i]) counts.set(term, (counts.get(term) ?? 0) + 1);
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = counts.get(term);
+        if (!tf) continue;
+        const df = docFreq.get(term)!;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * terms[i].length) / avgLength));
+      }
+      return { ...doc, score };
+    })
+    .filter((d) => d.score > 0)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, k);
+}
+
+/** The k dynamic skills most relevant to `query` (a goal, chat request, surroundings…). */
+export function retrieveSkills(query: string, k: number): ScoredSkill[] {
+  const docs = getDynamicSkillNames().map((name) => ({ name, description: skillRegistry.get(name)!.description }));
+  return rankSkills(docs, query, k);
+}
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Bot } from "mineflayer";
+import { SandboxViolation, runInSandbox } from "./sandbox.js";
+
+/** Chat, an inventory and a position — the bot calls these tests make. */
+function fakeBot() {
+  const said: string[] = [];
+  const bot = {
+    username: "Tester",
+    chat: (message: string) => said.push(message),
+    inventory: { items: () => [{ name: "dirt", type: 28, count: 3, slot: 36 }] },
+    entity: { position: { x: 1, y: 64, z: 2 } },
+  } as unknown as Bot;
+  return { bot, said };
+}
+
+test("runInSandbox: skills reach the bot through the proxy, with Vec3 and timers", async () => {
+  const { bot, said } = fakeBot();
+  await runInSandbox(
+    bot,
+    "report",
+    `async function report(bot) {
+       await new Promise((r) => setTimeout(r, 10));
+       const dirt = bot.inventory.items().find((i) => i.name === "dirt");
+       bot.chat(dirt.count + " dirt at " + bot.entity.position.offset(0, 1, 0));
+     }`,
+    "report.js",
+  );
+  assert.deepEqual(said, ["3 dirt at (1, 65, 2)"]);
+});
+
+test("runInSandbox: no host objects, modules, commands or unlisted bot members", async () => {
+  const { bot, said } = fakeBot();
+  const run = (body: string) => runInSandbox(bot, "probe", `async function probe(bot) { ${body} }`, "probe.js");
+
+  await assert.rejects(run(`bot.chat.constructor("return process")();`), /Code generation from strings disallowed/);
+  await assert.rejects(run(`this.constructor.constructor("return process")();`), /Code generation/);
+  await assert.rejects(
+    run(`require("fs");`),
+    (err) => err instanceof SandboxViolation && /require\('fs'\)/.test(err.message),
+  );
+  await assert.rejects(run(`bot._client.write("chat", {});`), /bot\._client is not available/);
+  // Catching the violation inside the skill doesn't save it
+  await assert.rejects(
+    run(`try { bot.chat("/op Tester"); } catch {} bot.chat("after");`),
+    /cannot send commands \(\/op\)/,
+  );
+  assert.deepEqual(said, []);
+});
+
+test("runInSandbox: abort, wall-time and CPU limits end the skill", async () => {
+  const { bot } = fakeBot();
+  const sleeper = `async function sleeper(bot) { await new Promise((r) => setTimeout(r, 60000)); }`;
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 50);
+  await assert.rejects(runInSandbox(bot, "sleeper", sleeper, "sleeper.js", { signal: controller.signal }), /aborted/);
+  await assert.rejects(runInSandbox(bot, "sleeper", sleeper, "sleeper.js", { wallTimeMs: 100 }), /timed out/);
+
+  const spinner = `async function spinner(bot) { await null; while (true) {} }`;
+  await assert.rejects(
+    runInSandbox(bot, "spinner", spinner, "spinner.js", { cpuTimeMs: 300 }),
+    /more than 0.3s of CPU/,
+  );
+});
@@ -0,0 +1,715 @@
+/**
+ * Skill sandbox — dynamic and generated skills run in a worker thread, never
+ * in the bot's own process state. Inside the worker the code gets a fresh vm
+ * realm with code generation disabled and no host objects: `bot` is a proxy
+ * whose allow-listed methods and state reads are synchronous RPCs back to the
+ * real bot (SharedArrayBuffer + Atomics.wait), `require` only knows vec3,
+ * minecraft-data (a plain-data copy) and mineflayer-pathfinder goals, and
+ * there is no filesystem, network or process.
+ *
+ * Anything outside the allow-list — an unknown bot property, a slash command
+ * in chat, another module — is a SandboxViolation and ends the skill. So does
+ * running past the wall-time or CPU budget, or the skill's AbortSignal.
+ */
+
+import { Worker } from "node:worker_threads";
+import type { Bot } from "mineflayer";
+import { Vec3 } from "vec3";
+import mcDataLoader from "minecraft-data";
+import pkg from "mineflayer-pathfinder";
+const { goals, Movements } = pkg;
+
+/** Wall-clock limit for one skill run. */
+export const SANDBOX_WALL_TIME_MS = 120_000;
+/** CPU the skill's own code may burn — time spent waiting on the bot doesn't count. */
+export const SANDBOX_CPU_TIME_MS = 20_000;
+/** Limit for each synchronous stretch of skill code (definitions, the first tick of the run). */
+const SYNC_TIMEOUT_MS = 5_000;
+const RPC_BUFFER_BYTES = 1 << 20;
+const CPU_CHECK_INTERVAL_MS = 500;
+
+/** A dynamic skill tried something the sandbox doesn't allow. */
+export class SandboxViolation extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SandboxViolation";
+  }
+}
+
+export interface SandboxOptions {
+  /** Scripts run before the skill, e.g. the Voyager primitives — [filename, source]. */
+  prelude?: [string, string][];
+  signal?: AbortSignal;
+  wallTimeMs?: number;
+  cpuTimeMs?: number;
+}
+
+// ─── Wire format ────────────────────────────────────────────────────────────
+// Everything crossing the worker boundary is JSON. Blocks, items and entities
+// travel as plain data and are looked up again (by position, slot or id) when
+// passed back; recipes and open windows stay on this side behind a ref.
+
+interface RpcScope {
+  bot: Bot;
+  refs: Map<number, unknown>;
+  nextRef: number;
+}
+
+type XYZ = { x: number; y: number; z: number };
+
+function xyz(v: XYZ | null | undefined): XYZ | null {
+  return v ? { x: v.x, y: v.y, z: v.z } : null;
+}
+
+function vec(w: any): Vec3 {
+  if (!w || typeof w.x !== "number" || typeof w.y !== "number" || typeof w.z !== "number") {
+    throw new Error("expected a position {x, y, z}");
+  }
+  return new Vec3(w.x, w.y, w.z);
+}
+
+function blockData(b: any) {
+  if (!b) return null;
+  return {
+    __kind: "block",
+    name: b.name,
+    type: b.type,
+    metadata: b.metadata,
+    displayName: b.displayName,
+    boundingBox: b.boundingBox,
+    position: xyz(b.position),
+  };
+}
+
+function itemData(i: any) {
+  if (!i) return null;
+  return {
+    __kind: "item",
+    name: i.name,
+    type: i.type,
+    count: i.count,
+    slot: i.slot,
+    metadata: i.metadata,
+    displayName: i.displayName,
+    stackSize: i.stackSize,
+  };
+}
+
+function entityData(e: any) {
+  if (!e) return null;
+  return {
+    __kind: "entity",
+    id: e.id,
+    name: e.name,
+    type: e.type,
+    username: e.username,
+    displayName: e.displayName,
+    position: xyz(e.position),
+    health: e.health,
+  };
+}
+
+function blockFrom(s: RpcScope, w: any) {
+  const block = w ? s.bot.blockAt(vec(w.position ?? w)) : null;
+  if (!block) throw new Error("no block at that position");
+  return block;
+}
+
+function itemFrom(s: RpcScope, w: any) {
+  const slotItem = typeof w?.slot === "number" ? s.bot.inventory.slots[w.slot] : null;
+  const item = slotItem?.name === w?.name ? slotItem : s.bot.inventory.items().find((i) => i.name === w?.name);
+  if (!item) throw new Error(`no ${w?.name ?? "such item"} in inventory`);
+  return item;
+}
+
+function entityFrom(s: RpcScope, w: any) {
+  const entity = w ? s.bot.entities[w.id] : null;
+  if (!entity) throw new Error("that entity is no longer around");
+  return entity;
+}
+
+function keep(s: RpcScope, value: unknown): number {
+  const id = s.nextRef++;
+  s.refs.set(id, value);
+  return id;
+}
+
+function fromRef(s: RpcScope, w: any, kind: string): any {
+  const value = w ? s.refs.get(w.ref) : undefined;
+  if (!value) throw new Error(`that ${kind} is no longer valid`);
+  return value;
+}
+
+const GOALS = ["GoalBlock", "GoalNear", "GoalXZ", "GoalNearXZ", "GoalY", "GoalGetToBlock", "GoalFollow"];
+
+function goalFrom(s: RpcScope, w: any) {
+  if (w == null) return null;
+  if (w.__kind !== "goal" || !GOALS.includes(w.goal)) throw new SandboxViolation(`unknown pathfinder goal ${w.goal}`);
+  const args = w.goal === "GoalFollow" ? [entityFrom(s, w.args[0]), w.args[1]] : w.args;
+  return new (goals as any)[w.goal](...args);
+}
+
+const MOVEMENT_SETTINGS = [
+  "canDig",
+  "allowFreeMotion",
+  "allowParkour",
+  "allowSprinting",
+  "canOpenDoors",
+  "allow1by1towers",
+  "maxDropDown",
+];
+
+const WINDOW_METHODS = new Set([
+  "putFuel",
+  "putInput",
+  "takeOutput",
+  "takeInput",
+  "takeFuel",
+  "outputItem",
+  "inputItem",
+  "fuelItem",
+  "containerItems",
+  "deposit",
+  "withdraw",
+  "close",
+]);
+
+/** Bot state a skill may read — `bot.<key>` inside the sandbox. */
+const READABLE: Record<string, (bot: Bot) => unknown> = {
+  entity: (bot) => ({
+    ...entityData(bot.entity),
+    velocity: xyz(bot.entity.velocity),
+    yaw: bot.entity.yaw,
+    pitch: bot.entity.pitch,
+    onGround: bot.entity.onGround,
+    height: bot.entity.height,
+  }),
+  entities: (bot) => Object.fromEntries(Object.values(bot.entities).map((e) => [e.id, entityData(e)])),
+  players: (bot) =>
+    Object.fromEntries(
+      Object.entries(bot.players).map(([u, p]) => [u, { username: u, ping: p.ping, entity: entityData(p.entity) }]),
+    ),
+  health: (bot) => bot.health,
+  food: (bot) => bot.food,
+  foodSaturation: (bot) => bot.foodSaturation,
+  oxygenLevel: (bot) => bot.oxygenLevel,
+  quickBarSlot: (bot) => bot.quickBarSlot,
+  heldItem: (bot) => itemData(bot.heldItem),
+  time: (bot) => ({ timeOfDay: bot.time.timeOfDay, day: bot.time.day, isDay: bot.time.isDay, age: bot.time.age }),
+  game: (bot) => ({ dimension: bot.game.dimension, gameMode: bot.game.gameMode, difficulty: bot.game.difficulty }),
+  experience: (bot) => ({
+    level: bot.experience.level,
+    points: bot.experience.points,
+    progress: bot.experience.progress,
+  }),
+};
+
+/** Every call a skill can make on the bot. Anything not listed is a violation. */
+const CALLS: Record<string, (s: RpcScope, ...args: any[]) => unknown> = {
+  get(s, key: string) {
+    const read = READABLE[key];
+    if (!read) throw new SandboxViolation(`bot.${key} is not available to dynamic skills`);
+    return read(s.bot);
+  },
+  items: (s) => s.bot.inventory.items().map(itemData),
+  emptySlotCount: (s) => s.bot.inventory.emptySlotCount(),
+  chat(s, message: string) {
+    if (String(message).trimStart().startsWith("/")) {
+      throw new SandboxViolation(`bot.chat cannot send commands (${String(message).trim().split(" ")[0]})`);
+    }
+    s.bot.chat(String(message));
+  },
+  findBlock: (s, o) =>
+    blockData(
+      s.bot.findBlock({
+        matching: o.matching,
+        maxDistance: o.maxDistance,
+        point: o.point ? vec(o.point) : undefined,
+      }),
+    ),
+  findBlocks: (s, o) =>
+    s.bot
+      .findBlocks({
+        matching: o.matching,
+        maxDistance: o.maxDistance,
+        count: o.count,
+        point: o.point ? vec(o.point) : undefined,
+      })
+      .map(xyz),
+  blockAt: (s, p) => blockData(s.bot.blockAt(vec(p))),
+  dig: (s, block, forceLook) => s.bot.dig(blockFrom(s, block), forceLook ?? true),
+  placeBlock: (s, block, face) => s.bot.placeBlock(blockFrom(s, block), vec(face)),
+  equip: (s, item, destination) =>
+    s.bot.equip(typeof item === "number" ? item : itemFrom(s, item), destination ?? "hand"),
+  unequip: (s, destination) => s.bot.unequip(destination ?? "hand"),
+  toss: (s, type, metadata, count) => s.bot.toss(type, metadata ?? null, count ?? null),
+  tossStack: (s, item) => s.bot.tossStack(itemFrom(s, item)),
+  recipesFor: (s, type, metadata, minResultCount, table) =>
+    s.bot
+      .recipesFor(type, metadata ?? null, minResultCount ?? null, table ? blockFrom(s, table) : null)
+      .map((r) => ({ __kind: "recipe", ref: keep(s, r), result: r.result, requiresTable: r.requiresTable })),
+  craft: (s, recipe, count, table) =>
+    s.bot.craft(fromRef(s, recipe, "recipe"), count ?? 1, table ? blockFrom(s, table) : undefined),
+  consume: (s) => s.bot.consume(),
+  activateItem: (s, offhand) => s.bot.activateItem(!!offhand),
+  deactivateItem: (s) => s.bot.deactivateItem(),
+  activateBlock: (s, block) => s.bot.activateBlock(blockFrom(s, block)),
+  lookAt: (s, p, force) => s.bot.lookAt(vec(p), force),
+  attack: (s, entity) => s.bot.attack(entityFrom(s, entity)),
+  setControlState: (s, control, state) => s.bot.setControlState(control, !!state),
+  clearControlStates: (s) => s.bot.clearControlStates(),
+  waitForTicks: (s, ticks) => s.bot.waitForTicks(Math.min(Number(ticks) || 1, 20 * 60)),
+  openFurnace: async (s, block) => ({ __kind: "window", ref: keep(s, await s.bot.openFurnace(blockFrom(s, block))) }),
+  openContainer: async (s, block) => ({
+    __kind: "window",
+    ref: keep(s, await s.bot.openContainer(blockFrom(s, block))),
+  }),
+  async window(s, handle, method: string, ...args) {
+    if (!WINDOW_METHODS.has(method)) throw new SandboxViolation(`window.${method} is not available to dynamic skills`);
+    const result = await fromRef(s, handle, "window")[method](...args);
+    return Array.isArray(result)
+      ? result.map(itemData)
+      : result && typeof result === "object"
+        ? itemData(result)
+        : result;
+  },
+  goto: (s, goal) => s.bot.pathfinder.goto(goalFrom(s, goal)),
+  setGoal: (s, goal, dynamic) => s.bot.pathfinder.setGoal(goalFrom(s, goal), !!dynamic),
+  stopPathing: (s) => s.bot.pathfinder.stop(),
+  isMoving: (s) => s.bot.pathfinder.isMoving(),
+  setMovements(s, settings) {
+    const movements = new Movements(s.bot) as any;
+    for (const key of MOVEMENT_SETTINGS) if (key in (settings ?? {})) movements[key] = settings[key];
+    s.bot.pathfinder.setMovements(movements);
+  },
+};
+
+async function handleCall(s: RpcScope, method: string, args: unknown[]): Promise<unknown> {
+  const call = Object.hasOwn(CALLS, method) ? CALLS[method] : null;
+  if (!call) throw new SandboxViolation(`bot call '${method}' is not allowed`);
+  return await call(s, ...args);
+}
+
+// minecraft-data as plain JSON, built once per version — the sandbox parses its own copy
+const mcDataJsonCache = new Map<string, string>();
+
+function pick(o: any, keys: string[]) {
+  return Object.fromEntries(keys.filter((k) => o[k] !== undefined).map((k) => [k, o[k]]));
+}
+
+function mcDataJson(version: string | undefined): string {
+  const key = version ?? "";
+  let json = mcDataJsonCache.get(key);
+  if (json === undefined) {
+    try {
+      const md = mcDataLoader(key);
+      json = JSON.stringify({
+        version: md.version.minecraftVersion,
+        items: md.itemsArray.map((i) => pick(i, ["id", "name", "displayName", "stackSize"])),
+        blocks: md.blocksArray.map((b) =>
+          pick(b, [
+            "id",
+            "name",
+            "displayName",
+            "hardness",
+            "resistance",
+            "diggable",
+            "material",
+            "harvestTools",
+            "transparent",
+            "boundingBox",
+            "drops",
+            "stackSize",
+          ]),
+        ),
+        entities: md.entitiesArray.map((e) => pick(e, ["id", "name", "displayName", "type"])),
+        foods: md.foodsArray.map((f) => pick(f, ["id", "name", "displayName", "foodPoints", "saturation"])),
+      });
+    } catch {
+      json = "{}";
+    }
+    mcDataJsonCache.set(key, json);
+  }
+  return json;
+}
+
+// ─── Worker side ────────────────────────────────────────────────────────────
+
+/**
+ * Runs inside the skill's vm realm before anything else. Builds Vec3, mcData,
+ * pathfinder goals and the bot proxy out of the realm's own intrinsics, then
+ * drops the one host function (`__host`) from the global scope so skill code
+ * can only reach it through these wrappers.
+ */
+const CONTEXT_BOOTSTRAP = `
+(function (host, mcDataJson, infoJson) {
+  "use strict";
+  const info = JSON.parse(infoJson);
+
+  class Vec3 {
+    constructor(x, y, z) { this.x = x; this.y = y; this.z = z; }
+    offset(dx, dy, dz) { return new Vec3(this.x + dx, this.y + dy, this.z + dz); }
+    plus(v) { return this.offset(v.x, v.y, v.z); }
+    minus(v) { return this.offset(-v.x, -v.y, -v.z); }
+    scaled(s) { return new Vec3(this.x * s, this.y * s, this.z * s); }
+    floored() { return new Vec3(Math.floor(this.x), Math.floor(this.y), Math.floor(this.z)); }
+    distanceSquared(v) { const dx = v.x - this.x, dy = v.y - this.y, dz = v.z - this.z; return dx * dx + dy * dy + dz * dz; }
+    distanceTo(v) { return Math.sqrt(this.distanceSquared(v)); }
+    manhattanDistanceTo(v) { return Math.abs(v.x - this.x) + Math.abs(v.y - this.y) + Math.abs(v.z - this.z); }
+    equals(v) { return !!v && this.x === v.x && this.y === v.y && this.z === v.z; }
+    clone() { return new Vec3(this.x, this.y, this.z); }
+    toString() { return "(" + this.x + ", " + this.y + ", " + this.z + ")"; }
+  }
+  const vec3 = (x, y, z) => new Vec3(x, y, z);
+  vec3.Vec3 = Vec3;
+
+  const raw = JSON.parse(mcDataJson);
+  const byKey = (list, key) => { const out = {}; for (const x of list || []) out[x[key]] = x; return out; };
+  const mcData = {
+    version: { minecraftVersion: raw.version },
+    itemsArray: raw.items || [], items: byKey(raw.items, "id"), itemsByName: byKey(raw.items, "name"),
+    blocksArray: raw.blocks || [], blocks: byKey(raw.blocks, "id"), blocksByName: byKey(raw.blocks, "name"),
+    entitiesArray: raw.entities || [], entities: byKey(raw.entities, "id"), entitiesByName: byKey(raw.entities, "name"),
+    foodsArray: raw.foods || [], foods: byKey(raw.foods, "id"), foodsByName: byKey(raw.foods, "name"),
+  };
+
+  function violation(message) {
+    host("violation", message);
+    const err = new Error("Sandbox violation: " + message);
+    err.name = "SandboxViolation";
+    throw err;
+  }
+
+  const WINDOW_METHODS = ["putFuel", "putInput", "takeOutput", "takeInput", "takeFuel", "deposit", "withdraw"];
+  const WINDOW_SYNC = ["outputItem", "inputItem", "fuelItem", "containerItems", "close"];
+  function revive(key, value) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const keys = Object.keys(value);
+      if (keys.length === 3 && typeof value.x === "number" && typeof value.y === "number" && typeof value.z === "number") {
+        return new Vec3(value.x, value.y, value.z);
+      }
+      if (value.__kind === "window") {
+        const handle = { __kind: "window", ref: value.ref };
+        for (const m of WINDOW_METHODS) handle[m] = async (...args) => call("window", value, m, ...args);
+        for (const m of WINDOW_SYNC) handle[m] = (...args) => call("window", value, m, ...args);
+        return handle;
+      }
+    }
+    return value;
+  }
+  function call(method, ...args) {
+    const res = JSON.parse(host("rpc", method, JSON.stringify(args)), revive);
+    if (!res.ok) throw new Error(res.error);
+    return res.value;
+  }
+
+  globalThis.setTimeout = (fn, ms, ...args) => host("setTimeout", () => fn(...args), ms);
+  globalThis.setInterval = (fn, ms, ...args) => host("setInterval", () => fn(...args), ms);
+  globalThis.clearTimeout = globalThis.clearInterval = (id) => host("clearTimer", id);
+  const show = (a) => { if (typeof a === "string") return a; try { return JSON.stringify(a); } catch { return String(a); } };
+  const log = (...args) => host("log", args.map(show).join(" "));
+  globalThis.console = { log, info: log, warn: log, error: log, debug: log };
+
+  const goals = {};
+  for (const goal of ["GoalBlock", "GoalNear", "GoalXZ", "GoalNearXZ", "GoalY", "GoalGetToBlock", "GoalFollow"]) {
+    goals[goal] = class { constructor(...args) { this.__kind = "goal"; this.goal = goal; this.args = args; } };
+  }
+  // Only the settings travel; the bot side applies them to a fresh Movements
+  class Movements { constructor() { this.canDig = true; } }
+
+  const blockIds = (matching) => {
+    if (typeof matching !== "function") return Array.isArray(matching) ? matching : [matching];
+    return mcData.blocksArray.filter((b) => {
+      try { return matching(Object.assign({}, b, { type: b.id, position: null })); } catch { return false; }
+    }).map((b) => b.id);
+  };
+
+  const inventory = {
+    items: () => call("items"),
+    count: (type) => inventory.items().filter((i) => i.type === type || i.name === type).reduce((n, i) => n + i.count, 0),
+    findInventoryItem: (type) => inventory.items().find((i) => i.type === type || i.name === type) || null,
+    emptySlotCount: () => call("emptySlotCount"),
+  };
+
+  const pathfinder = {
+    goto: async (goal) => call("goto", goal),
+    setGoal: (goal, dynamic) => call("setGoal", goal, dynamic),
+    setMovements: (movements) => call("setMovements", movements),
+    stop: () => call("stopPathing"),
+    isMoving: () => call("isMoving"),
+    // Old pathfinder API that generated skills still reach for — a timed wait
+    waitForGoal: (timeout) => new Promise((r) => setTimeout(r, typeof timeout === "number" ? timeout : 4000)),
+  };
+
+  const target = {
+    username: info.username,
+    version: info.version,
+    registry: mcData,
+    inventory,
+    pathfinder,
+    chat(message) {
+      message = String(message);
+      if (message.trimStart().startsWith("/")) violation("bot.chat cannot send commands (" + message.trim().split(" ")[0] + ")");
+      call("chat", message);
+    },
+    findBlock: (o) => call("findBlock", Object.assign({}, o, { matching: blockIds(o.matching) })),
+    findBlocks: (o) => call("findBlocks", Object.assign({}, o, { matching: blockIds(o.matching) })),
+    blockAt: (p) => call("blockAt", p),
+    nearestEntity(match) {
+      const me = target.entity;
+      return Object.values(target.entities)
+        .filter((e) => e && e.id !== me.id && (!match || match(e)))
+        .sort((a, b) => a.position.distanceTo(me.position) - b.position.distanceTo(me.position))[0] || null;
+    },
+    dig: async (block, forceLook) => call("dig", block, forceLook),
+    placeBlock: async (block, face) => call("placeBlock", block, face),
+    // Null-safe: Voyager skills often equip the result of an inventory lookup without checking it
+    equip: async (item, destination) => { if (item) return call("equip", item, destination); },
+    unequip: async (destination) => call("unequip", destination),
+    toss: async (type, metadata, count) => call("toss", type, metadata, count),
+    tossStack: async (item) => call("tossStack", item),
+    recipesFor: (type, metadata, minResultCount, table) => call("recipesFor", type, metadata, minResultCount, table),
+    craft: async (recipe, count, table) => call("craft", recipe, count, table),
+    consume: async () => call("consume"),
+    activateItem: (offhand) => call("activateItem", offhand),
+    deactivateItem: () => call("deactivateItem"),
+    activateBlock: async (block) => call("activateBlock", block),
+    lookAt: async (p, force) => call("lookAt", p, force),
+    attack: (entity) => call("attack", entity),
+    setControlState: (control, state) => call("setControlState", control, state),
+    clearControlStates: () => call("clearControlStates"),
+    waitForTicks: async (ticks) => call("waitForTicks", ticks),
+    openFurnace: async (block) => call("openFurnace", block),
+    openContainer: async (block) => call("openContainer", block),
+    openChest: async (block) => call("openContainer", block),
+  };
+  for (const key of ["entity", "entities", "players", "health", "food", "foodSaturation", "oxygenLevel",
+                     "quickBarSlot", "heldItem", "time", "game", "experience"]) {
+    Object.defineProperty(target, key, { get: () => call("get", key), enumerable: true });
+  }
+  const bot = new Proxy(target, {
+    get(t, key) {
+      if (typeof key === "symbol" || key in t) return t[key];
+      if (key === "then" || key === "toJSON") return undefined;
+      violation("bot." + key + " is not available to dynamic skills");
+    },
+  });
+
+  const modules = { vec3, "minecraft-data": () => mcData, "mineflayer-pathfinder": { goals, Movements } };
+  globalThis.require = (id) =>
+    Object.prototype.hasOwnProperty.call(modules, id) ? modules[id] : violation("require('" + id + "') is not available to dynamic skills");
+  globalThis.bot = bot;
+  globalThis.Vec3 = Vec3;
+  globalThis.mcData = mcData;
+  globalThis.__run = async (fn) => { await fn(bot); };
+})(__host, __mcData, __info);
+delete globalThis.__host;
+delete globalThis.__mcData;
+delete globalThis.__info;
+`;
+
+/** The worker's entry point (CommonJS, run with eval). Only talks to the parent through messages and the RPC buffer. */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+const { name, filename, code, prelude, bootstrap, mcData, info, shared, syncTimeoutMs } = workerData;
+const signal = new Int32Array(shared, 0, 2);
+const buffer = new Uint8Array(shared, 8);
+const decoder = new TextDecoder();
+const timers = new Map();
+let nextTimer = 1;
+
+function rpc(method, args) {
+  Atomics.store(signal, 0, 0);
+  parentPort.postMessage({ type: "call", method, args });
+  Atomics.wait(signal, 0, 0);
+  return decoder.decode(buffer.slice(0, Atomics.load(signal, 1)));
+}
+
+// The only host function the skill realm ever holds. Returns primitives only.
+function host(op, a, b) {
+  try {
+    switch (op) {
+      case "rpc":
+        return rpc(String(a), String(b));
+      case "setTimeout":
+      case "setInterval": {
+        const id = nextTimer++;
+        const once = op === "setTimeout";
+        const fn = () => { if (once) timers.delete(id); a(); };
+        timers.set(id, once ? setTimeout(fn, Number(b) || 0) : setInterval(fn, Number(b) || 0));
+        return id;
+      }
+      case "clearTimer":
+        clearTimeout(timers.get(a));
+        timers.delete(a);
+        return undefined;
+      case "log":
+        parentPort.postMessage({ type: "log", text: String(a) });
+        return undefined;
+      case "violation":
+        parentPort.postMessage({ type: "violation", message: String(a) });
+        return undefined;
+    }
+  } catch (err) {
+    return JSON.stringify({ ok: false, error: String((err && err.message) || err) });
+  }
+}
+
+const context = vm.createContext(Object.create(null), {
+  name: "skill:" + name,
+  codeGeneration: { strings: false, wasm: false },
+});
+context.__host = host;
+context.__mcData = mcData;
+context.__info = info;
+vm.runInContext(bootstrap, context, { filename: "sandbox-bootstrap" });
+for (const [file, source] of prelude) {
+  try {
+    vm.runInContext(source, context, { filename: file, timeout: syncTimeoutMs });
+  } catch {
+    /* a broken helper only matters if the skill calls it */
+  }
+}
+
+(async () => {
+  vm.runInContext(code, context, { filename, timeout: syncTimeoutMs });
+  const kind = vm.runInContext("typeof " + name, context);
+  if (kind !== "function") throw new Error("file must define a function named '" + name + "' (found: " + kind + ")");
+  await vm.runInContext("__run(" + name + ")", context, { filename, timeout: syncTimeoutMs });
+})().then(
+  () => parentPort.postMessage({ type: "done" }),
+  (err) =>
+    parentPort.postMessage({
+      type: err && err.name === "SandboxViolation" ? "violation" : "error",
+      message: String((err && err.message) || err).replace(/^Sandbox violation: /, ""),
+      stack: err && err.stack ? String(err.stack) : undefined,
+    }),
+);
+`;
+
+// ─── Host side ──────────────────────────────────────────────────────────────
+
+const encoder = new TextEncoder();
+
+function respond(shared: SharedArrayBuffer, json: string): void {
+  let bytes = encoder.encode(json);
+  if (bytes.length > RPC_BUFFER_BYTES) bytes = encoder.encode(JSON.stringify({ ok: false, error: "result too large" }));
+  const signal = new Int32Array(shared, 0, 2);
+  new Uint8Array(shared, 8).set(bytes);
+  Atomics.store(signal, 1, bytes.length);
+  Atomics.store(signal, 0, 1);
+  Atomics.notify(signal, 0);
+}
+
+/** Leave the bot standing still after a skill is cut off mid-move. */
+function haltBot(bot: Bot): void {
+  try {
+    bot.pathfinder?.stop();
+    bot.clearControlStates?.();
+  } catch {
+    /* bot may already be gone */
+  }
+}
+
+/**
+ * Run `name` from `code` against the bot in a fresh sandbox worker. Resolves
+ * when the skill function returns; rejects with the skill's own error, a
+ * SandboxViolation, or a timeout / CPU / abort error.
+ */
+export function runInSandbox(
+  bot: Bot,
+  name: string,
+  code: string,
+  filename: string,
+  opts: SandboxOptions = {},
+): Promise<void> {
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) return Promise.reject(new Error(`'${name}' is not a valid function name`));
+  if (opts.signal?.aborted) return Promise.reject(new Error(`${name} aborted`));
+
+  const wallTimeMs = opts.wallTimeMs ?? SANDBOX_WALL_TIME_MS;
+  const cpuTimeMs = opts.cpuTimeMs ?? SANDBOX_CPU_TIME_MS;
+  const shared = new SharedArrayBuffer(8 + RPC_BUFFER_BYTES);
+  const scope: RpcScope = { bot, refs: new Map(), nextRef: 1 };
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    env: {},
+    resourceLimits: { maxOldGenerationSizeMb: 256, maxYoungGenerationSizeMb: 32, stackSizeMb: 4 },
+    workerData: {
+      name,
+      filename,
+      code,
+      prelude: opts.prelude ?? [],
+      bootstrap: CONTEXT_BOOTSTRAP,
+      mcData: mcDataJson(bot.version),
+      info: JSON.stringify({ username: bot.username, version: bot.version }),
+      shared,
+      syncTimeoutMs: SYNC_TIMEOUT_MS,
+    },
+  });
+
+  return new Promise<void>((resolve, reject) => {
+    let settled = false;
+    // Time the worker spent blocked on bot calls — active on its event loop, but not its CPU
+    let rpcMs = 0;
+    let rpcStarted = 0;
+
+    const finish = (err?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(wallTimer);
+      clearInterval(cpuTimer);
+      opts.signal?.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      if (err) {
+        haltBot(bot);
+        reject(err);
+      } else {
+        resolve();
+      }
+    };
+    const onAbort = () => finish(new Error(`${name} aborted`));
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const wallTimer = setTimeout(() => finish(new Error(`${name} timed out after ${wallTimeMs / 1000}s`)), wallTimeMs);
+    const cpuTimer = setInterval(() => {
+      const waiting = rpcMs + (rpcStarted ? Date.now() - rpcStarted : 0);
+      if (worker.performance.eventLoopUtilization().active - waiting > cpuTimeMs) {
+        finish(new Error(`${name} used more than ${cpuTimeMs / 1000}s of CPU`));
+      }
+    }, CPU_CHECK_INTERVAL_MS);
+
+    worker.on("message", async (msg: any) => {
+      switch (msg.type) {
+        case "call": {
+          rpcStarted = Date.now();
+          let out: string;
+          try {
+            out = JSON.stringify({ ok: true, value: await handleCall(scope, msg.method, JSON.parse(msg.args)) });
+          } catch (err: any) {
+            if (err instanceof SandboxViolation) return finish(err);
+            out = JSON.stringify({ ok: false, error: err?.message ?? String(err) });
+          }
+          rpcMs += Date.now() - rpcStarted;
+          rpcStarted = 0;
+          if (!settled) respond(shared, out);
+          return;
+        }
+        case "log":
+          console.log(`[DynamicSkill] ${name}: ${msg.text}`);
+          return;
+        case "violation":
+          return finish(new SandboxViolation(msg.message));
+        case "done":
+          return finish();
+        case "error": {
+          const err = new Error(msg.message);
+          if (msg.stack) err.stack = msg.stack;
+          return finish(err);
+        }
+      }
+    });
+    worker.on("error", (err) => finish(err));
+    worker.on("exit", (code) => finish(new Error(`${name} sandbox exited unexpectedly (code ${code})`)));
+  });
+}
@@ -14,10 +14,12 @@ export const setupStashSkill: Skill = {
   name: "setup_stash",
   description:
     "Bootstrap the shared stash: walk to the stash position, craft 2 chests if needed, and place them as a double chest. Requires logs or planks in inventory.",
+  // Already having a stash chest there counts too
+  postconditions: [{ type: "block_nearby", name: ["chest", "trapped_chest"], maxDistance: 8 }],
   params: {
-    x: { type: "number", description: "Stash X coordinate" },
-    y: { type: "number", description: "Stash Y coordinate" },
-    z: { type: "number", description: "Stash Z coordinate" },
+    x: { type: "number", description: "Stash X coordinate", required: true },
+    y: { type: "number", description: "Stash Y coordinate", required: true },
+    z: { type: "number", description: "Stash Z coordinate", required: true },
   },
 
   estimateMaterials(_bot, _params) {
@@ -112,6 +114,7 @@ export const setupStashSkill: Skill = {
           return {
             success: false,
             message: `Not enough materials for chests. Need ${planksNeeded} planks (have ${planksHave}) or ${logsNeeded} logs (have ${logsHave}). Gather wood first!`,
+            failureKind: "precondition",
           };
         }
 
@@ -187,6 +190,7 @@ export const setupStashSkill: Skill = {
             return {
               success: false,
               message: "Need a crafting table to craft chests (3x3 recipe). Place one nearby.",
+              failureKind: "precondition",
             };
           }
           try {
@@ -207,6 +211,7 @@ export const setupStashSkill: Skill = {
         return {
           success: false,
           message: `Only crafted ${chestCount} chests — needed 2. Not enough planks.`,
+          failureKind: "precondition",
         };
       }
     }
@@ -6,7 +6,7 @@ const { goals, Movements } = pkg;
 import mcDataLoader from "minecraft-data";
 
 /** Items that can be smelted: input → output name. */
-const SMELT_RECIPES: Record<string, string> = {
+export const SMELT_RECIPES: Record<string, string> = {
   raw_iron: "iron_ingot",
   iron_ore: "iron_ingot",
   raw_gold: "gold_ingot",
@@ -45,6 +45,11 @@ export const smeltOresSkill: Skill = {
   description:
     "Smelt raw ores into ingots using a furnace. Crafts and places a furnace if needed (8 cobblestone). Uses coal or wood as fuel.",
   params: {},
+  preconditions: [
+    { type: "item", name: Object.keys(SMELT_RECIPES), hint: "mine some ore first" },
+    { type: "item", name: FUEL_ITEMS, hint: "coal, charcoal or wood for fuel" },
+  ],
+  postconditions: [{ type: "item_gained", name: [...new Set(Object.values(SMELT_RECIPES))] }],
 
   estimateMaterials(_bot, _params) {
     return {};
@@ -66,13 +71,21 @@ export const smeltOresSkill: Skill = {
     }
 
     if (toSmelt.length === 0) {
-      return { success: false, message: "Nothing to smelt! Mine some ore first (strip_mine for iron, gold, copper)." };
+      return {
+        success: false,
+        message: "Nothing to smelt! Mine some ore first (strip_mine for iron, gold, copper).",
+        failureKind: "precondition",
+      };
     }
 
     // --- Step 2: Check fuel ---
     const fuel = bot.inventory.items().find((i) => FUEL_ITEMS.includes(i.name));
     if (!fuel) {
-      return { success: false, message: "No fuel! Need coal, charcoal, or wood to power the furnace." };
+      return {
+        success: false,
+        message: "No fuel! Need coal, charcoal, or wood to power the furnace.",
+        failureKind: "precondition",
+      };
     }
 
     const totalItems = toSmelt.reduce((s, t) => s + t.count, 0);
@@ -96,6 +109,7 @@ export const smeltOresSkill: Skill = {
         return {
           success: false,
           message: "No furnace nearby and need 8 cobblestone to craft one. Mine some stone first!",
+          failureKind: "precondition",
         };
       }
 
@@ -133,7 +147,11 @@ export const smeltOresSkill: Skill = {
       // Place furnace
       const fItem = bot.inventory.items().find((i) => i.name === "furnace");
       if (!fItem) {
-        return { success: false, message: "Couldn't craft a furnace. Need 8 cobblestone and a crafting table." };
+        return {
+          success: false,
+          message: "Couldn't craft a furnace. Need 8 cobblestone and a crafting table.",
+          failureKind: "precondition",
+        };
       }
 
       await bot.equip(fItem, "hand");
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { StashInventory, chestKeyPos } from "./stash-inventory.js";
+
+function tmpStore(): StashInventory {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "stash-"));
+  return new StashInventory(path.join(dir, "stash-test.json"));
+}
+
+test("chestKeyPos: both halves of a double chest share one key", () => {
+  // Facing north: the left half connects to the east (+x)
+  const left = chestKeyPos({ x: 10, y: 64, z: 5 }, { facing: "north", type: "left" });
+  const right = chestKeyPos({ x: 11, y: 64, z: 5 }, { facing: "north", type: "right" });
+  assert.deepEqual(left, { x: 10, y: 64, z: 5 });
+  assert.deepEqual(right, left);
+
+  const south = chestKeyPos({ x: 3, y: 64, z: 8 }, { facing: "east", type: "left" });
+  assert.deepEqual(south, { x: 3, y: 64, z: 8 });
+  assert.deepEqual(chestKeyPos({ x: 3, y: 64, z: 9 }, { facing: "east", type: "right" }), south);
+
+  assert.deepEqual(chestKeyPos({ x: 1, y: 2, z: 3 }, { facing: "north", type: "single" }), { x: 1, y: 2, z: 3 });
+});
+
+test("StashInventory: snapshots replace, totals add up, and persist", () => {
+  const store = tmpStore();
+  store.record({ x: 0, y: 64, z: 0 }, [{ name: "iron_ingot", count: 20 }], "Forge");
+  store.record(
+    { x: 2, y: 64, z: 0 },
+    [
+      { name: "iron_ingot", count: 30 },
+      { name: "cobblestone", count: 64 },
+      { name: "cobblestone", count: 10 },
+    ],
+    "Mason",
+  );
+  store.record({ x: 0, y: 64, z: 0 }, [{ name: "iron_ingot", count: 10 }], "Atlas"); // reopened after a withdrawal
+
+  assert.deepEqual(store.totals(), { iron_ingot: 40, cobblestone: 74 });
+  const reloaded = new StashInventory(store.file);
+  assert.equal(reloaded.getChests().length, 2);
+  assert.equal(reloaded.getChests().find((c) => c.x === 0)?.by, "Atlas");
+});
+
+test("StashInventory: chestsWith prefers exact names and fuller chests", () => {
+  const store = tmpStore();
+  store.record({ x: 0, y: 64, z: 0 }, [{ name: "iron_ingot", count: 5 }], "Forge");
+  store.record({ x: 2, y: 64, z: 0 }, [{ name: "iron_ingot", count: 30 }], "Forge");
+  store.record({ x: 4, y: 64, z: 0 }, [{ name: "raw_iron", count: 50 }], "Forge");
+
+  assert.deepEqual(
+    store.chestsWith("iron_ingot").map((c) => c.x),
+    [2, 0],
+  );
+  assert.deepEqual(
+    store.chestsWith("iron").map((c) => c.x),
+    [4, 2, 0],
+  );
+  assert.deepEqual(store.chestsWith("diamond"), []);
+});
+
+test("StashInventory: format lists the biggest stacks first", () => {
+  const store = tmpStore();
+  assert.equal(store.format(), "");
+  store.record(
+    { x: 0, y: 64, z: 0 },
+    [
+      { name: "bread", count: 3 },
+      { name: "iron_ingot", count: 40 },
+      { name: "coal", count: 12 },
+    ],
+    "Flora",
+  );
+  assert.equal(store.format(2), "STASH CONTENTS (1 chests, checked 0m ago): iron_ingot x40, coal x12, +1 more");
+});
@@ -0,0 +1,151 @@
+// src/skills/stash-inventory.ts
+// What's actually in The Stash — chest snapshots taken whenever a bot opens one,
+// shared by every bot and persisted per world (stash-<world>.json).
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Bot } from "mineflayer";
+import { defaultWorldId } from "../bot/world-index.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export interface ChestSnapshot {
+  x: number;
+  y: number;
+  z: number;
+  /** Item name → count at the time of the snapshot. */
+  items: Record<string, number>;
+  updatedAt: string;
+  /** Bot that last opened the chest. */
+  by: string;
+}
+
+type Pos = { x: number; y: number; z: number };
+
+/** Clockwise turn of a horizontal facing (Minecraft's Direction.getClockWise). */
+const CLOCKWISE: Record<string, Pos> = {
+  north: { x: 1, y: 0, z: 0 },
+  east: { x: 0, y: 0, z: 1 },
+  south: { x: -1, y: 0, z: 0 },
+  west: { x: 0, y: 0, z: -1 },
+};
+
+/**
+ * Position a chest's snapshot is filed under. Both halves of a double chest
+ * open the same container, so they share the key of the lower-coordinate half.
+ */
+export function chestKeyPos(pos: Pos, props: Record<string, unknown> = {}): Pos {
+  const facing = CLOCKWISE[String(props.facing)];
+  if (!facing || (props.type !== "left" && props.type !== "right")) return pos;
+  // A left half connects clockwise of its facing, a right half counter-clockwise
+  const sign = props.type === "left" ? 1 : -1;
+  const partner = { x: pos.x + facing.x * sign, y: pos.y, z: pos.z + facing.z * sign };
+  return partner.x < pos.x || (partner.x === pos.x && partner.z < pos.z) ? partner : pos;
+}
+
+export class StashInventory {
+  private chests: ChestSnapshot[] = [];
+  readonly file: string;
+
+  constructor(file: string) {
+    this.file = file;
+    try {
+      if (fs.existsSync(file)) this.chests = JSON.parse(fs.readFileSync(file, "utf-8")).chests ?? [];
+    } catch (err) {
+      console.error("[Stash] Failed to load inventory:", err);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.file, JSON.stringify({ chests: this.chests }, null, 2));
+    } catch (err) {
+      console.error("[Stash] Failed to save inventory:", err);
+    }
+  }
+
+  /** Replace a chest's snapshot with what a bot just saw inside it. */
+  record(pos: Pos, items: { name: string; count: number }[], by: string): ChestSnapshot {
+    const counts: Record<string, number> = {};
+    for (const i of items) counts[i.name] = (counts[i.name] ?? 0) + i.count;
+    const snapshot: ChestSnapshot = {
+      x: pos.x,
+      y: pos.y,
+      z: pos.z,
+      items: counts,
+      updatedAt: new Date().toISOString(),
+      by,
+    };
+    this.chests = this.chests.filter((c) => c.x !== pos.x || c.y !== pos.y || c.z !== pos.z);
+    this.chests.push(snapshot);
+    this.save();
+    return snapshot;
+  }
+
+  getChests(): ChestSnapshot[] {
+    return this.chests;
+  }
+
+  /** Item name → total count across every known chest. */
+  totals(): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const c of this.chests) {
+      for (const [name, n] of Object.entries(c.items)) totals[name] = (totals[name] ?? 0) + n;
+    }
+    return totals;
+  }
+
+  /** Chests holding an item (exact name first, then partial matches), fullest first. */
+  chestsWith(itemName: string): ChestSnapshot[] {
+    const held = (c: ChestSnapshot, exact: boolean) =>
+      Object.entries(c.items)
+        .filter(([name]) => (exact ? name === itemName : name.includes(itemName)))
+        .reduce((sum, [, n]) => sum + n, 0);
+    const exact = this.chests.filter((c) => held(c, true) > 0).sort((a, b) => held(b, true) - held(a, true));
+    if (exact.length > 0) return exact;
+    return this.chests.filter((c) => held(c, false) > 0).sort((a, b) => held(b, false) - held(a, false));
+  }
+
+  /** One-line summary for the LLM, biggest stacks first. */
+  format(maxItems = 15): string {
+    const entries = Object.entries(this.totals())
+      .filter(([, n]) => n > 0)
+      .sort((a, b) => b[1] - a[1]);
+    if (entries.length === 0) return "";
+    const shown = entries.slice(0, maxItems).map(([name, n]) => `${name} x${n}`);
+    const more = entries.length > maxItems ? `, +${entries.length - maxItems} more` : "";
+    const newest = Math.max(...this.chests.map((c) => Date.parse(c.updatedAt)));
+    const age = Math.round((Date.now() - newest) / 60_000);
+    return `STASH CONTENTS (${this.chests.length} chests, checked ${age}m ago): ${shown.join(", ")}${more}`;
+  }
+}
+
+let store: StashInventory | null = null;
+
+/** The stash inventory every bot on this world shares. */
+export function getStashStore(): StashInventory {
+  store ??= new StashInventory(path.join(__dirname, "../../", `stash-${defaultWorldId()}.json`));
+  return store;
+}
+
+/** Swap in another store (the offline skill harness keeps its chests out of the real file); null resets. */
+export function setStashStore(next: StashInventory | null): void {
+  store = next;
+}
+
+/** Item name → count across all known stash chests. */
+export function getStashInventory(): Record<string, number> {
+  return getStashStore().totals();
+}
+
+/** Snapshot an open chest's contents. Call right before closing the container. */
+export function snapshotChest(
+  bot: Bot,
+  chest: { position: Pos; getProperties?: () => Record<string, unknown> },
+  container: { containerItems(): { name: string; count: number }[] },
+): void {
+  const { x, y, z } = chest.position;
+  const key = chestKeyPos({ x, y, z }, chest.getProperties?.() ?? {});
+  getStashStore().record(key, container.containerItems(), bot.username);
+}
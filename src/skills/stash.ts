@@ -2,10 +2,14 @@
 // Shared stash management — deposit/withdraw from categorised chests.
 
 import type { Bot } from "mineflayer";
+import type { Block } from "prismarine-block";
 import { Vec3 } from "vec3";
 import pkg from "mineflayer-pathfinder";
 const { goals } = pkg;
 import { safeGoto } from "../bot/actions.js";
+import { getStashStore, snapshotChest } from "./stash-inventory.js";
+
+export { getStashInventory } from "./stash-inventory.js";
 
 /** Stash row categories and their item patterns. Order matches physical chest rows. */
 const STASH_ROWS: { category: string; patterns: string[] }[] = [
@@ -204,6 +208,7 @@ export async function depositStash(
             // Chest might be full
           }
         }
+        snapshotChest(bot, fallback, container);
         container.close();
       } catch {
         noChest += items.length;
@@ -222,6 +227,7 @@ export async function depositStash(
           // Chest full — this will trigger expansion request
         }
       }
+      snapshotChest(bot, chest, container);
       container.close();
     } catch {
       noChest += items.length;
@@ -252,15 +258,21 @@ export async function withdrawStash(
   const rowOffset = getRowOffset(category);
   const chestPos = new Vec3(stashPos.x + rowOffset, stashPos.y, stashPos.z);
 
-  // Try category chest first, then scan all nearby chests
+  // Chests the snapshots say hold the item come first, then the category chest, then anything nearby
   const chestsToTry: any[] = [];
+  for (const known of getStashStore().chestsWith(itemName)) {
+    const block = bot.blockAt(new Vec3(known.x, known.y, known.z));
+    if (block && (block.name === "chest" || block.name === "trapped_chest")) chestsToTry.push(block);
+  }
 
   const categoryChest = bot.findBlock({
     matching: (b) => b.name === "chest" || b.name === "trapped_chest",
     maxDistance: 6,
     point: chestPos,
   });
-  if (categoryChest) chestsToTry.push(categoryChest);
+  if (categoryChest && !chestsToTry.some((c) => c.position.equals(categoryChest.position))) {
+    chestsToTry.push(categoryChest);
+  }
 
   // Also check all nearby chests in case the item was overflow-deposited
   const allChests = bot.findBlocks({
@@ -270,7 +282,7 @@ export async function withdrawStash(
   });
   for (const pos of allChests) {
     const block = bot.blockAt(pos);
-    if (block && !chestsToTry.includes(block)) chestsToTry.push(block);
+    if (block && !chestsToTry.some((c) => c.position.equals(block.position))) chestsToTry.push(block);
   }
 
   let withdrawn = 0;
@@ -278,29 +290,53 @@ export async function withdrawStash(
 
   for (const chest of chestsToTry) {
     if (withdrawn >= needed) break;
-    try {
-      await safeGoto(bot, new goals.GoalNear(chest.position.x, chest.position.y, chest.position.z, 2), 10000);
-      const container = await bot.openContainer(chest);
-
-      for (const slot of container.containerItems()) {
-        if (withdrawn >= needed) break;
-        if (slot.name.includes(itemName)) {
-          const take = Math.min(slot.count, needed - withdrawn);
-          try {
-            await container.withdraw(slot.type, null, take);
-            withdrawn += take;
-          } catch {
-            /* slot empty or race */
-          }
-        }
-      }
-      container.close();
-    } catch {
-      /* can't open chest */
-    }
+    withdrawn += await takeFromChest(bot, chest, itemName, needed - withdrawn);
   }
 
   if (withdrawn === 0) return `No ${itemName} found in any stash chest.`;
   if (withdrawn < needed) return `Withdrew ${withdrawn}x ${itemName} (wanted ${needed} — stash doesn't have enough).`;
   return `Withdrew ${withdrawn}x ${itemName} from stash.`;
 }
+
+/**
+ * Take up to `count` of an item from the chest at `pos` — one the stash
+ * snapshots point to. Returns how many were taken.
+ */
+export async function withdrawFromChest(
+  bot: Bot,
+  pos: { x: number; y: number; z: number },
+  itemName: string,
+  count: number,
+): Promise<number> {
+  await safeGoto(bot, new goals.GoalNear(pos.x, pos.y, pos.z, 2), 30000);
+  const chest = bot.blockAt(new Vec3(pos.x, pos.y, pos.z));
+  if (!chest || (chest.name !== "chest" && chest.name !== "trapped_chest")) return 0;
+  return takeFromChest(bot, chest, itemName, count);
+}
+
+/** Walk to a chest, take up to `wanted` of an item, and refresh its snapshot. Returns how many were taken. */
+async function takeFromChest(bot: Bot, chest: Block, itemName: string, wanted: number): Promise<number> {
+  let withdrawn = 0;
+  try {
+    await safeGoto(bot, new goals.GoalNear(chest.position.x, chest.position.y, chest.position.z, 2), 10000);
+    const container = await bot.openContainer(chest);
+
+    for (const slot of container.containerItems()) {
+      if (withdrawn >= wanted) break;
+      if (slot.name.includes(itemName)) {
+        const take = Math.min(slot.count, wanted - withdrawn);
+        try {
+          await container.withdraw(slot.type, null, take);
+          withdrawn += take;
+        } catch {
+          /* slot empty or race */
+        }
+      }
+    }
+    snapshotChest(bot, chest, container);
+    container.close();
+  } catch {
+    /* can't open chest */
+  }
+  return withdrawn;
+}
@@ -3,47 +3,168 @@ import type { Skill, SkillResult } from "./types.js";
 import { Vec3 } from "vec3";
 import pkg from "mineflayer-pathfinder";
 const { goals, Movements } = pkg;
+import { getWorldIndex } from "../bot/world-index.js";
+import { RESUME_PARAM, clearCheckpoint, findCheckpoint, saveCheckpoint } from "./checkpoints.js";
 
 const TUNNEL_LENGTH = 30;
 const TORCH_INTERVAL = 6;
 const TARGET_Y = 11; // Classic diamond level, also good for iron/gold/redstone
+const VEIN_SEARCH_RADIUS = 64;
+const CHECKPOINT_INTERVAL = 5;
+const WALK_BACK_TIMEOUT_MS = 60_000;
+const VALUABLE_ORES = [
+  "diamond_ore",
+  "deepslate_diamond_ore",
+  "iron_ore",
+  "deepslate_iron_ore",
+  "gold_ore",
+  "deepslate_gold_ore",
+  "redstone_ore",
+  "deepslate_redstone_ore",
+  "lapis_ore",
+  "deepslate_lapis_ore",
+];
+
+/** Best Y level per ore in 1.18+ terrain (peak of each ore's distribution). */
+const ORE_LEVELS: Record<string, number> = {
+  diamond: -58,
+  redstone: -58,
+  gold: -16,
+  lapis: 0,
+  iron: 16,
+  copper: 48,
+  coal: 48,
+  emerald: 100,
+};
+
+/** What the ores drop when mined with a plain pickaxe. */
+const ORE_DROPS = ["diamond", "redstone", "raw_gold", "lapis_lazuli", "raw_iron", "raw_copper", "coal", "emerald"];
+
+const DIRECTIONS: Record<string, Vec3> = {
+  north: new Vec3(0, 0, -1),
+  south: new Vec3(0, 0, 1),
+  east: new Vec3(1, 0, 0),
+  west: new Vec3(-1, 0, 0),
+};
 
 export const stripMineSkill: Skill = {
   name: "strip_mine",
   description:
-    "Dig a mining tunnel for ores. Staircases down to Y=11 if needed, then mines 30 blocks horizontally with torch lighting. Requires a pickaxe.",
-  params: {},
+    "Dig a mining tunnel for ores. Heads toward the nearest known vein of the target ore (else that ore's best Y level straight ahead), staircasing down if needed, then mines a horizontal tunnel with torch lighting. Requires a pickaxe.",
+  preconditions: [
+    { type: "item", name: "*_pickaxe", hint: "craft_gear first" },
+    { type: "dimension", name: "overworld" },
+  ],
+  // Ore, or at least the stone the tunnel went through — torches placed on the way aren't netted against it
+  postconditions: [{ type: "item_gained", name: [...ORE_DROPS, "cobblestone", "cobbled_deepslate"] }],
+  params: {
+    ore: {
+      type: "string",
+      description: "Ore to look for",
+      enum: ["any", ...Object.keys(ORE_LEVELS)],
+      default: "any",
+    },
+    y: { type: "number", description: "Tunnel Y level (default: the ore's best level)", min: -63, max: 319 },
+    length: { type: "number", description: "Tunnel length in blocks", min: 5, max: 128, default: TUNNEL_LENGTH },
+    direction: {
+      type: "string",
+      description: "Tunnel heading (default: toward a known vein, else facing)",
+      enum: Object.keys(DIRECTIONS),
+    },
+    resume: RESUME_PARAM,
+  },
 
   estimateMaterials(_bot, _params) {
     return {};
   },
 
-  async execute(bot, _params, signal, onProgress): Promise<SkillResult> {
+  async execute(bot, params, signal, onProgress): Promise<SkillResult> {
+    const ore = String(params.ore ?? "any");
+    const tunnelLength = Math.floor(Number(params.length) || TUNNEL_LENGTH);
+
     // Verify pickaxe
     const pickaxe = bot.inventory.items().find((i) => i.name.endsWith("_pickaxe"));
     if (!pickaxe) {
-      return { success: false, message: "Need a pickaxe! Use craft_gear first, then strip_mine." };
+      return {
+        success: false,
+        message: "Need a pickaxe! Use craft_gear first, then strip_mine.",
+        failureKind: "precondition",
+      };
     }
 
     let mined = 0;
     const oresFound: string[] = [];
 
+    // An interrupted tunnel carries on from its face, if the bot can walk back to it —
+    // unless the caller asked for another level or heading, which starts a new one
+    let resumed = findCheckpoint(bot, "strip_mine");
+    const otherTunnel =
+      (params.y !== undefined && Math.floor(params.y) !== Number(resumed?.state.targetY)) ||
+      (params.direction !== undefined && params.direction !== resumed?.state.direction);
+    if (resumed && otherTunnel) {
+      console.log(`[Skill] Asked for a different tunnel than the interrupted ${resumed.summary} — starting a new one`);
+      clearCheckpoint(bot, "strip_mine");
+      resumed = null;
+    }
+    if (resumed && !(await walkBack(bot, resumed.pos, signal))) {
+      if (signal.aborted) {
+        return { success: false, message: "Interrupted on the way back to the unfinished tunnel." };
+      }
+      console.log("[Skill] Couldn't get back to the interrupted tunnel — starting a new one");
+      clearCheckpoint(bot, "strip_mine");
+      resumed = null;
+    }
+
+    // Tunnel toward the nearest unmined vein any bot has spotted; otherwise straight ahead at the ore's level.
+    // Explicit y/direction params win over both.
+    const start = bot.entity.position;
+    const vein = getWorldIndex().nearest("ore", start.x, start.y, start.z, {
+      name: ore === "any" ? VALUABLE_ORES : [`${ore}_ore`, `deepslate_${ore}_ore`],
+      maxDistance: VEIN_SEARCH_RADIUS,
+    });
+    const targetY = resumed
+      ? Number(resumed.state.targetY)
+      : params.y !== undefined
+        ? Math.floor(params.y)
+        : vein
+          ? vein.y
+          : (ORE_LEVELS[ore] ?? TARGET_Y);
+
     // Snap to nearest cardinal direction
-    const forward = getCardinalDirection(bot.entity.yaw);
-    console.log(`[Skill] Strip mine direction: ${dirName(forward)}, starting Y=${bot.entity.position.y.toFixed(0)}`);
+    const forward = resumed
+      ? DIRECTIONS[resumed.state.direction]
+      : params.direction
+        ? DIRECTIONS[params.direction]
+        : vein
+          ? directionToward(start, vein)
+          : getCardinalDirection(bot.entity.yaw);
+    console.log(
+      `[Skill] Strip mine direction: ${dirName(forward)}, starting Y=${start.y.toFixed(0)}${resumed ? ` (resuming at step ${resumed.state.step})` : vein ? ` (toward known ${vein.name} at ${vein.x}, ${vein.y}, ${vein.z})` : ""}`,
+    );
+
+    const checkpoint = (step: number) => {
+      const pos = bot.entity.position.floored();
+      saveCheckpoint(bot, {
+        skill: "strip_mine",
+        params: { ore, length: tunnelLength },
+        pos: { x: pos.x, y: pos.y, z: pos.z },
+        state: { direction: dirName(forward), targetY, step },
+        summary: `${dirName(forward)} tunnel at Y=${targetY}, ${step}/${tunnelLength} blocks`,
+      });
+    };
 
-    // --- Phase 1: Staircase down to TARGET_Y if needed ---
+    // --- Phase 1: Staircase down to the target Y if needed ---
     const currentY = Math.floor(bot.entity.position.y);
-    if (currentY > TARGET_Y + 5) {
+    if (currentY > targetY + 5) {
       onProgress({
         skillName: "strip_mine",
         phase: "Digging staircase",
         progress: 0,
-        message: `Digging down to Y=${TARGET_Y}...`,
+        message: `Digging down to Y=${targetY}...`,
         active: true,
       });
 
-      const stepsDown = currentY - TARGET_Y;
+      const stepsDown = currentY - targetY;
       for (let step = 0; step < stepsDown && !signal.aborted; step++) {
         const pos = bot.entity.position.floored();
 
@@ -58,6 +179,7 @@ export const stripMineSkill: Skill = {
           const b = bot.blockAt(t);
           if (!b || b.name === "air" || b.name === "water" || b.name === "bedrock") continue;
           if (b.name === "lava") {
+            clearCheckpoint(bot, "strip_mine");
             return {
               success: mined > 0,
               message: `Hit lava! Retreated. Mined ${mined} blocks. ${formatOres(oresFound)}`,
@@ -84,17 +206,18 @@ export const stripMineSkill: Skill = {
           await placeTorchOnWall(bot, forward);
         }
 
-        if (step % 5 === 0) {
+        if (step % CHECKPOINT_INTERVAL === 0) {
+          checkpoint(0);
           onProgress({
             skillName: "strip_mine",
             phase: "Digging staircase",
             progress: (step / stepsDown) * 0.3,
-            message: `Y=${bot.entity.position.y.toFixed(0)} → ${TARGET_Y}`,
+            message: `Y=${bot.entity.position.y.toFixed(0)} → ${targetY}`,
             active: true,
           });
         }
 
-        if (bot.entity.position.y <= TARGET_Y + 1) break;
+        if (bot.entity.position.y <= targetY + 1) break;
       }
     }
 
@@ -107,7 +230,8 @@ export const stripMineSkill: Skill = {
       active: true,
     });
 
-    for (let step = 0; step < TUNNEL_LENGTH && !signal.aborted; step++) {
+    let step = resumed ? Number(resumed.state.step) : 0;
+    for (; step < tunnelLength && !signal.aborted; step++) {
       const pos = bot.entity.position.floored();
 
       // Dig 2 blocks ahead: foot level and head level
@@ -117,6 +241,7 @@ export const stripMineSkill: Skill = {
         const b = bot.blockAt(t);
         if (!b || b.name === "air") continue;
         if (b.name === "bedrock") {
+          clearCheckpoint(bot, "strip_mine");
           return {
             success: true,
             message: `Hit bedrock at step ${step}! Mined ${mined} blocks. ${formatOres(oresFound)}`,
@@ -144,24 +269,35 @@ export const stripMineSkill: Skill = {
         await placeTorchOnWall(bot, forward);
       }
 
-      if (step % 5 === 0) {
+      if (step % CHECKPOINT_INTERVAL === 0) {
+        checkpoint(step);
         onProgress({
           skillName: "strip_mine",
           phase: "Mining tunnel",
-          progress: 0.3 + (step / TUNNEL_LENGTH) * 0.7,
-          message: `${step}/${TUNNEL_LENGTH} blocks | Mined: ${mined} | Ores: ${oresFound.length}`,
+          progress: 0.3 + (step / tunnelLength) * 0.7,
+          message: `${step}/${tunnelLength} blocks | Mined: ${mined} | Ores: ${oresFound.length}`,
           active: true,
         });
       }
     }
 
+    if (signal.aborted) {
+      checkpoint(step);
+      return {
+        success: false,
+        message: `Strip mine interrupted at ${step}/${tunnelLength} blocks. Run strip_mine again to keep digging. ${formatOres(oresFound)}`,
+        stats: { blocksMined: mined, oresFound: oresFound.length },
+      };
+    }
+    clearCheckpoint(bot, "strip_mine");
+
     if (mined === 0) {
       return { success: false, message: "Couldn't mine anything. Pickaxe might have broken." };
     }
 
     return {
       success: true,
-      message: `Strip mine complete! Dug ${TUNNEL_LENGTH}-block tunnel, mined ${mined} blocks total. ${formatOres(oresFound)}`,
+      message: `Strip mine complete! Dug ${tunnelLength}-block ${dirName(forward)} tunnel at Y=${targetY}, mined ${mined} blocks total. ${formatOres(oresFound)}`,
       stats: { blocksMined: mined, oresFound: oresFound.length },
     };
   },
@@ -174,6 +310,34 @@ async function equipBestPickaxe(bot: Bot): Promise<void> {
   if (pick) await bot.equip(pick, "hand");
 }
 
+/** Walk back to a saved tunnel face (e.g. after respawning). False if it can't be reached in time. */
+async function walkBack(bot: Bot, pos: { x: number; y: number; z: number }, signal: AbortSignal): Promise<boolean> {
+  const target = new Vec3(pos.x, pos.y, pos.z);
+  if (bot.entity.position.distanceTo(target) < 2) return true;
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort = () => {};
+  try {
+    const moves = new Movements(bot);
+    moves.canDig = false;
+    bot.pathfinder.setMovements(moves);
+    await Promise.race([
+      bot.pathfinder.goto(new goals.GoalNear(pos.x, pos.y, pos.z, 1)),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("timeout")), WALK_BACK_TIMEOUT_MS);
+        onAbort = () => reject(new Error("aborted"));
+        if (signal.aborted) onAbort();
+        else signal.addEventListener("abort", onAbort, { once: true });
+      }),
+    ]);
+  } catch {
+    bot.pathfinder.stop();
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+  }
+  return !signal.aborted && bot.entity.position.distanceTo(target) < 3;
+}
+
 async function moveToPosition(bot: Bot, targetPos: Vec3): Promise<void> {
   try {
     const moves = new Movements(bot);
@@ -233,6 +397,14 @@ function getCardinalDirection(yaw: number): Vec3 {
   return new Vec3(0, 0, 1); // south
 }
 
+/** Cardinal direction along the longer horizontal axis toward a point. */
+function directionToward(from: Vec3, to: { x: number; z: number }): Vec3 {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  if (Math.abs(dx) >= Math.abs(dz)) return new Vec3(Math.sign(dx) || 1, 0, 0);
+  return new Vec3(0, 0, Math.sign(dz) || 1);
+}
+
 function dirName(dir: Vec3): string {
   if (dir.z === -1) return "north";
   if (dir.z === 1) return "south";
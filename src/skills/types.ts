@@ -1,9 +1,12 @@
 import type { Bot } from "mineflayer";
+import type { Structure } from "../bot/memory.js";
 
 /** A single block placement in a blueprint, relative to origin (0,0,0). */
 export interface BlueprintBlock {
   pos: [number, number, number];
   block: string;
+  /** Block states, e.g. { facing: "north", half: "top" } for stairs. */
+  properties?: Record<string, string>;
   /** "structure" blocks (walls, floor, roof) are placed first, then "interior" (bed, torches). */
   phase: "structure" | "interior";
 }
@@ -27,18 +30,94 @@ export interface SkillProgress {
   active: boolean;
 }
 
+/**
+ * Why a skill failed. "precondition" and "interrupted" failures say nothing
+ * about whether the skill works, so they never count toward marking it broken.
+ */
+export type SkillFailureKind = "precondition" | "postcondition" | "interrupted" | "error";
+
 /** Result returned when a skill finishes. */
 export interface SkillResult {
   success: boolean;
   message: string;
   stats?: Record<string, number>;
+  /** Set on failures the world caused (no water nearby, nothing to smelt). runSkill fills in the rest. */
+  failureKind?: SkillFailureKind;
+}
+
+/**
+ * Where an interrupted skill got to, saved per bot in memory so a later run —
+ * after a death, a kick or a restart — picks up there instead of starting over.
+ */
+export interface SkillCheckpoint {
+  skill: string;
+  /** The params of the interrupted run; a resumed run reuses them unless overridden. */
+  params: Record<string, any>;
+  /** Where the work is (build site, tunnel end). Checkpoints far from the bot are ignored. */
+  pos: { x: number; y: number; z: number };
+  /** Skill-specific progress: completed block indices, tunnel steps... */
+  state: Record<string, any>;
+  /** Short progress note for the prompt, e.g. "Watchtower 40/120 blocks". */
+  summary: string;
+  updatedAt: string;
+}
+
+/**
+ * Item names: exact ("torch") or "*_suffix" patterns ("*_pickaxe" = any pickaxe).
+ * A list matches any of its entries.
+ */
+export type ItemPattern = string | string[];
+
+/** Something that must hold before a skill can start. Checked by runSkill and shown in the prompt. */
+export type SkillPrecondition = (
+  | { type: "item"; name: ItemPattern; count?: number }
+  | { type: "block_nearby"; name: string | string[]; maxDistance: number }
+  | { type: "time"; period: "day" | "night" }
+  | { type: "dimension"; name: "overworld" | "the_nether" | "the_end" }
+) & {
+  /** How to satisfy it, e.g. "craft_gear first". */
+  hint?: string;
+};
+
+/**
+ * Something a successful run must leave behind. A success that doesn't is
+ * reported as a failure — runSkill checks these, so attempt history and evals
+ * judge a skill by what it did rather than what it said.
+ */
+export type SkillPostcondition =
+  | { type: "item_gained"; name?: ItemPattern; count?: number }
+  /** Blocks of this kind put into the world while the skill ran (torches, bridge blocks). */
+  | { type: "block_placed"; name: ItemPattern; count?: number }
+  | { type: "block_nearby"; name: string | string[]; maxDistance: number }
+  | {
+      type: "structure_recorded";
+      structureType: Structure["type"] | Structure["type"][];
+      /** How close to the bot the record must be (default 48). */
+      radius?: number;
+    }
+  /** Holds when any of `of` does — for skills with more than one way to succeed. */
+  | { type: "any"; of: SkillPostcondition[] };
+
+/** One declared skill parameter. Checked and defaulted by the executor before execute(). */
+export interface SkillParam {
+  type: "string" | "number" | "boolean";
+  description: string;
+  /** Allowed values (strings match case-insensitively). */
+  enum?: (string | number)[];
+  min?: number;
+  max?: number;
+  /** Filled in when the caller leaves the param out. */
+  default?: string | number | boolean;
+  required?: boolean;
 }
 
 /** Core skill interface. Every skill implements this. */
 export interface Skill {
   name: string;
   description: string;
-  params: Record<string, { type: string; description: string }>;
+  params: Record<string, SkillParam>;
+  preconditions?: SkillPrecondition[];
+  postconditions?: SkillPostcondition[];
 
   /** Estimate raw materials needed. Called before execution for the gathering phase. */
   estimateMaterials(bot: Bot, params: Record<string, any>): Record<string, number>;
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ChatRouter, DEFAULT_CHAT_LIMITS, type RoutedChatMessage } from "./chat-router.js";
+
+function setup(limits = DEFAULT_CHAT_LIMITS) {
+  const router = new ChatRouter(limits);
+  const inbox: Record<string, string[]> = { Atlas: [], Flora: [], Mason: [] };
+  const bot = (name: string, role: string, topics: string[]) =>
+    router.register(name, { role, topics, deliver: (msg) => inbox[name].push(`${msg.username}: ${msg.message}`) });
+  bot("Atlas", "Explorer / Miner", ["explor", "cave", "mine"]);
+  bot("Flora", "Farmer / Crafter", ["farm", "plant", "carrot"]);
+  bot("Mason", "Builder", ["build", "house"]);
+  return { router, inbox };
+}
+
+function msg(username: string, message: string, extra: Partial<RoutedChatMessage> = {}): RoutedChatMessage {
+  return { source: "twitch", username, message, timestamp: 0, tier: "free", ...extra };
+}
+
+test("ChatRouter addresses a message by mention, role or topic", () => {
+  const { router } = setup();
+  assert.equal(router.addressee("@Flora plant carrots"), "Flora");
+  assert.equal(router.addressee("hey @mason what's up"), "Mason");
+  assert.equal(router.addressee("Flora, how are you?"), "Flora");
+  assert.equal(router.addressee("@builder make a tower"), "Mason");
+  assert.equal(router.addressee("you should start farming carrots"), "Flora");
+  assert.equal(router.addressee("build a house near the cave"), "Mason");
+  assert.equal(router.addressee("hello everyone"), "Atlas", "nobody in particular goes to the first bot");
+  assert.equal(router.addressee("@someviewer lol"), "Atlas");
+  assert.equal(new ChatRouter().addressee("hi"), null);
+});
+
+test("ChatRouter drops duplicates and rate-limits each user, but never paid messages", () => {
+  const { router, inbox } = setup();
+  assert.deepEqual(router.route(msg("alice", "go mining"), 0), { ok: true, bot: "Atlas" });
+  assert.deepEqual(router.route(msg("alice", "GO   MINING!!!"), 1000), { ok: false, reason: "duplicate" });
+  assert.ok(router.route(msg("bob", "go mining"), 1000).ok, "short text is only a repeat from the same user");
+  assert.ok(router.route(msg("bob", "everyone spam the pickaxe emote"), 2000).ok);
+  assert.deepEqual(router.route(msg("dave", "EVERYONE spam the pickaxe emote!!"), 3000), {
+    ok: false,
+    reason: "duplicate",
+  });
+  assert.ok(router.route(msg("alice", "go mining"), 61_000).ok, "duplicates expire");
+
+  for (let i = 0; i < 4; i++) assert.ok(router.route(msg("carol", `@Flora question ${i}`), 62_000 + i).ok);
+  assert.deepEqual(router.route(msg("carol", "@Flora question 4"), 62_010), { ok: false, reason: "rate_limited" });
+  assert.ok(router.route(msg("carol", "@Mason question 4", { source: "youtube" }), 62_010).ok, "per source");
+  assert.ok(router.route(msg("carol", "@Flora question 0", { tier: "paid" }), 62_020).ok, "paid skips the limits");
+  assert.ok(router.route(msg("carol", "@Flora question 5"), 93_000).ok, "the window slides");
+
+  assert.equal(inbox.Atlas.length, 4);
+  const metrics = router.metrics();
+  assert.equal(metrics.received, 14);
+  assert.equal(metrics.served, 11);
+  assert.deepEqual(metrics.dropped, { duplicate: 2, rate_limited: 1, unfair: 0, no_bot: 0 });
+  assert.deepEqual(metrics.bySource.youtube, { received: 1, served: 1 });
+  assert.deepEqual(metrics.byBot, { Atlas: 4, Flora: 6, Mason: 1 });
+});
+
+test("ChatRouter keeps one chatter from monopolising a bot while others are talking to it", () => {
+  const { router, inbox } = setup({ ...DEFAULT_CHAT_LIMITS, userLimit: 100 });
+  // Alone in chat, a viewer is only held to the rate limit
+  for (let i = 0; i < 3; i++) assert.ok(router.route(msg("spammer", `@Mason idea ${i}`), i).ok);
+  assert.ok(router.route(msg("dave", "@Mason build a wall"), 10).ok);
+  assert.deepEqual(router.route(msg("spammer", "@Mason idea 3"), 20), { ok: false, reason: "unfair" });
+  assert.ok(router.route(msg("spammer", "@Flora idea 3"), 30).ok, "other bots are still open");
+  assert.ok(router.route(msg("spammer", "@Mason idea 4"), 61_000).ok, "fair again once the window passes");
+  assert.deepEqual(
+    inbox.Mason.map((m) => m.split(":")[0]),
+    ["spammer", "spammer", "spammer", "dave", "spammer"],
+  );
+  assert.equal(router.metrics().dropped.unfair, 1);
+});
+
+test("ChatRouter lets chatters take turns, and holds each to an even split of a busy bot", () => {
+  const { router } = setup({ ...DEFAULT_CHAT_LIMITS, userLimit: 100 });
+  // Two viewers going back and forth each hold half — that's fair
+  for (let i = 0; i < 6; i++) {
+    assert.ok(router.route(msg(i % 2 ? "bob" : "alice", `@Mason idea ${i}`), i).ok, `turn ${i}`);
+  }
+
+  // With four talking to Flora, two of five is more than anyone's share
+  for (const [i, user] of ["alice", "bob", "carol", "dave", "alice"].entries()) {
+    assert.ok(router.route(msg(user, `@Flora plan ${i}`), 100 + i).ok);
+  }
+  assert.deepEqual(router.route(msg("alice", "@Flora plan 5"), 200), { ok: false, reason: "unfair" });
+  assert.ok(router.route(msg("erin", "@Flora plan 6"), 210).ok);
+});
@@ -0,0 +1,208 @@
+/**
+ * One chat router for every source — Minecraft, Twitch and YouTube — and
+ * every bot. A viewer message is dropped when:
+ * - its sender said the same thing recently, or anyone did for longer text
+ *   (copypasta) — short replies like "yes" are fine from everyone
+ * - its sender is over the per-user rate limit
+ * - its sender already holds more than an even split of the bot's recent
+ *   messages (or more than maxShare) while others are waiting too
+ *
+ * Otherwise it goes to exactly one bot: the one it @mentions (by name or
+ * role, "@Flora plant carrots", "@builder ..."), else the one whose chat
+ * topics it matches best, else the first bot registered. Paid messages skip
+ * every drop. Bots register with registerChatBot(); counts of served and
+ * dropped messages are in getChatMetrics().
+ */
+
+import type { ChatMessage } from "../bot/brain.js";
+import type { ChatTier } from "./twitch.js";
+
+export type RoutedChatMessage = ChatMessage & { tier?: ChatTier; text?: string };
+
+/** How a bot receives chat and what it should be asked about. */
+export interface ChatBotRoute {
+  role: string;
+  /** Word stems that make a message relevant to this bot. */
+  topics: string[];
+  deliver(msg: RoutedChatMessage): void;
+}
+
+export type ChatDropReason = "duplicate" | "rate_limited" | "unfair" | "no_bot";
+
+export type ChatRouteResult = { ok: true; bot: string } | { ok: false; reason: ChatDropReason };
+
+export interface ChatMetrics {
+  received: number;
+  served: number;
+  dropped: Record<ChatDropReason, number>;
+  bySource: Record<string, { received: number; served: number }>;
+  /** Messages served to each bot. */
+  byBot: Record<string, number>;
+}
+
+export interface ChatRouterLimits {
+  /** The same text within this long is a duplicate. */
+  dedupeMs: number;
+  /** Text at least this long is a duplicate whoever sent it first; shorter only from the same user. */
+  copypastaLength: number;
+  /** At most `userLimit` messages per user per `userWindowMs`. */
+  userLimit: number;
+  userWindowMs: number;
+  /** A bot's served messages count toward fairness for this long. */
+  fairWindowMs: number;
+  /**
+   * Most of a bot's recent messages one user may hold while others are talking
+   * to it. With more chatters the cap is their even split (1 / chatters).
+   */
+  maxShare: number;
+}
+
+export const DEFAULT_CHAT_LIMITS: ChatRouterLimits = {
+  dedupeMs: 60_000,
+  copypastaLength: 20,
+  userLimit: 4,
+  userWindowMs: 30_000,
+  fairWindowMs: 60_000,
+  maxShare: 0.5,
+};
+
+/** "Hello   THERE!!!" → "hello there" — spam rarely repeats byte for byte. */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/(.)\1{2,}/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export class ChatRouter {
+  private limits: ChatRouterLimits;
+  private bots = new Map<string, ChatBotRoute>();
+  private recentTexts = new Map<string, number>();
+  private userTimes = new Map<string, number[]>();
+  private served = new Map<string, { user: string; at: number }[]>();
+  private counts: ChatMetrics = ChatRouter.emptyMetrics();
+
+  constructor(limits: ChatRouterLimits = DEFAULT_CHAT_LIMITS) {
+    this.limits = limits;
+  }
+
+  private static emptyMetrics(): ChatMetrics {
+    return {
+      received: 0,
+      served: 0,
+      dropped: { duplicate: 0, rate_limited: 0, unfair: 0, no_bot: 0 },
+      bySource: {},
+      byBot: {},
+    };
+  }
+
+  /** A restarted bot registers again, replacing the old route. */
+  register(name: string, route: ChatBotRoute): void {
+    this.bots.set(name, route);
+  }
+
+  /** Remove `name` — only if it's still `route`, so a stale bot can't unregister its replacement. */
+  unregister(name: string, route?: ChatBotRoute): void {
+    if (!route || this.bots.get(name) === route) this.bots.delete(name);
+  }
+
+  /** Which bot a message is for: an @mention of a name or role, else the best topic match, else the first bot. */
+  addressee(text: string): string | null {
+    const names = [...this.bots.keys()];
+    if (names.length === 0) return null;
+    const lower = text.toLowerCase();
+    for (const mention of lower.matchAll(/@(\w+)/g)) {
+      const wanted = mention[1];
+      const byName = names.find((n) => n.toLowerCase() === wanted);
+      if (byName) return byName;
+      const byRole =
+        wanted.length >= 3 ? names.find((n) => this.bots.get(n)!.role.toLowerCase().includes(wanted)) : undefined;
+      if (byRole) return byRole;
+    }
+    // "Flora, plant carrots"
+    const lead = /^(\w+)[,:]/.exec(lower)?.[1];
+    const led = names.find((n) => n.toLowerCase() === lead);
+    if (led) return led;
+
+    const words = lower.match(/[a-z]+/g) ?? [];
+    let best: string | null = null;
+    let bestScore = 0;
+    for (const name of names) {
+      const topics = this.bots.get(name)!.topics;
+      const score = words.filter((w) => topics.some((t) => w.startsWith(t))).length;
+      if (score > bestScore) [best, bestScore] = [name, score];
+    }
+    return best ?? names[0];
+  }
+
+  route(msg: RoutedChatMessage, now = Date.now()): ChatRouteResult {
+    const source = (this.counts.bySource[msg.source] ??= { received: 0, served: 0 });
+    this.counts.received++;
+    source.received++;
+    const drop = (reason: ChatDropReason): ChatRouteResult => {
+      this.counts.dropped[reason]++;
+      return { ok: false, reason };
+    };
+
+    const text = msg.text ?? msg.message;
+    const bot = this.addressee(text);
+    if (!bot) return drop("no_bot");
+    const paid = msg.tier === "paid";
+    const user = `${msg.source}:${msg.username.toLowerCase()}`;
+    const recent = (this.served.get(bot) ?? []).filter((s) => now - s.at < this.limits.fairWindowMs);
+    this.served.set(bot, recent);
+
+    if (!paid) {
+      for (const [key, at] of this.recentTexts) if (now - at > this.limits.dedupeMs) this.recentTexts.delete(key);
+      const norm = normalize(text);
+      const keys = !norm ? [] : norm.length >= this.limits.copypastaLength ? [norm] : [`${user}\n${norm}`];
+      if (keys.some((k) => this.recentTexts.has(k))) return drop("duplicate");
+
+      const times = (this.userTimes.get(user) ?? []).filter((t) => now - t < this.limits.userWindowMs);
+      this.userTimes.set(user, times);
+      if (times.length >= this.limits.userLimit) return drop("rate_limited");
+
+      const mine = recent.filter((s) => s.user === user).length;
+      const chatters = new Set([user, ...recent.map((s) => s.user)]).size;
+      const cap = Math.min(this.limits.maxShare, 1 / chatters);
+      if (chatters > 1 && mine >= 2 && mine / recent.length > cap) return drop("unfair");
+
+      for (const k of keys) this.recentTexts.set(k, now);
+      times.push(now);
+    }
+
+    recent.push({ user, at: now });
+    this.counts.served++;
+    source.served++;
+    this.counts.byBot[bot] = (this.counts.byBot[bot] ?? 0) + 1;
+    this.bots.get(bot)!.deliver(msg);
+    return { ok: true, bot };
+  }
+
+  metrics(): ChatMetrics {
+    return structuredClone(this.counts);
+  }
+}
+
+// ─── The stream's router ────────────────────────────────────────────────────
+
+const router = new ChatRouter();
+
+export function registerChatBot(name: string, route: ChatBotRoute): void {
+  router.register(name, route);
+}
+
+export function unregisterChatBot(name: string, route?: ChatBotRoute): void {
+  router.unregister(name, route);
+}
+
+/** Send a message from any chat source to the bot it's for (or drop it). */
+export function routeChat(msg: RoutedChatMessage): ChatRouteResult {
+  return router.route(msg);
+}
+
+export function getChatMetrics(): ChatMetrics {
+  return router.metrics();
+}
@@ -6,6 +6,8 @@ import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
 import type { BotRoleConfig } from "../bot/role.js";
+import { listRequests } from "../bot/transfers.js";
+import { getChatMetrics } from "./chat-router.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -30,6 +32,29 @@ export function startDashboard(roster: BotRoleConfig[]) {
     );
   });
 
+  // API endpoint: item requests between bots, newest first
+  app.get("/api/transfers", (_req, res) => {
+    res.json(
+      listRequests()
+        .slice(-20)
+        .reverse()
+        .map((r) => ({
+          id: r.id,
+          item: r.item,
+          count: r.count,
+          delivered: r.delivered,
+          requestedBy: r.requestedBy,
+          acceptedBy: r.acceptedBy ?? null,
+          status: r.status,
+        })),
+    );
+  });
+
+  // API endpoint: chat router counts — served and dropped messages by reason, source and bot
+  app.get("/api/chat", (_req, res) => {
+    res.json(getChatMetrics());
+  });
+
   http.on("error", (err: NodeJS.ErrnoException) => {
     if (err.code === "EADDRINUSE") {
       console.log(`[Dashboard] Port ${DASHBOARD_PORT} in use — dashboard disabled.`);
@@ -3,6 +3,8 @@ import { createServer } from "http";
 import { Server as SocketIO } from "socket.io";
 import path from "path";
 import { fileURLToPath } from "url";
+import type { PollSnapshot } from "./polls.js";
+import type { RedemptionSnapshot } from "./redemptions.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -18,6 +20,8 @@ export interface OverlayState {
   chatMessages: { username: string; message: string; tier: string }[];
   skillProgress?: { skillName: string; phase: string; progress: number; message: string; active: boolean };
   seasonGoal?: string;
+  poll?: PollSnapshot | null;
+  redemptions?: RedemptionSnapshot[];
 }
 
 export interface OverlayInstance {
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ViewerPoll,
+  castVote,
+  closePoll,
+  openPoll,
+  parsePollCommand,
+  parseVote,
+  registerPollTarget,
+  type PollSnapshot,
+  type PollSpec,
+} from "./polls.js";
+
+function spec(overrides: Partial<PollSpec> = {}): PollSpec {
+  return {
+    question: "Next mission?",
+    options: ["nether", "castle", "diamonds"],
+    kind: "mission",
+    durationMs: 60_000,
+    target: "Atlas",
+    openedBy: "streamer",
+    ...overrides,
+  };
+}
+
+test("ViewerPoll: one vote per viewer, weighted by tier", () => {
+  const poll = new ViewerPoll(spec());
+  poll.vote("alice", "free", 1);
+  poll.vote("Alice", "free", 2); // changed her mind — still one vote
+  poll.vote("bob", "free", 1);
+  poll.vote("carol", "sub", 3);
+  assert.deepEqual(
+    poll.tally().map((t) => [t.label, t.voters, t.weight]),
+    [
+      ["nether", 1, 1],
+      ["castle", 1, 1],
+      ["diamonds", 1, 2],
+    ],
+  );
+  assert.equal(poll.winner(), "diamonds");
+
+  poll.vote("dave", "paid", 1);
+  assert.equal(poll.winner(), "nether");
+  assert.equal(poll.vote("erin", "free", 4).ok, false);
+  assert.equal(new ViewerPoll(spec()).winner(), null);
+});
+
+test("parsePollCommand and parseVote", () => {
+  const parsed = parsePollCommand(" @Flora mission 120 nether | castle | diamonds", {
+    target: "Atlas",
+    openedBy: "streamer",
+  });
+  assert.ok(parsed.ok);
+  assert.deepEqual(parsed.spec, spec({ durationMs: 120_000, target: "Flora" }));
+
+  const directive = parsePollCommand("build a tower | go fishing", { target: "Atlas", openedBy: "streamer" });
+  assert.ok(directive.ok);
+  assert.equal(directive.spec.kind, "directive");
+  assert.equal(directive.spec.question, "What should Atlas do next?");
+  assert.equal(parsePollCommand("just one", { target: "Atlas", openedBy: "streamer" }).ok, false);
+
+  assert.equal(parseVote("!vote 2"), 2);
+  assert.equal(parseVote("!VOTE 1 "), 1);
+  assert.equal(parseVote("I vote 2"), null);
+  assert.equal(parseVote("!vote two"), null);
+});
+
+test("openPoll → castVote → closePoll applies the winner to the target bot", () => {
+  const shown: (PollSnapshot | null)[] = [];
+  const applied: string[] = [];
+  registerPollTarget("Atlas", {
+    setSeasonGoal: (goal) => applied.push(`goal:${goal}`),
+    direct: (directive) => applied.push(`do:${directive}`),
+    show: (poll) => shown.push(poll),
+    announce: () => {},
+  });
+
+  assert.equal(openPoll(spec({ target: "Nobody" })).ok, false);
+  assert.ok(openPoll(spec()).ok);
+  assert.equal(openPoll(spec()).ok, false, "one poll at a time");
+
+  assert.equal(castVote("alice", "free", "hello"), null, "ordinary chat isn't a vote");
+  assert.ok(castVote("alice", "sub", "!vote 2")?.ok);
+  assert.ok(castVote("bob", "free", "!vote 3")?.ok);
+  assert.equal(shown.at(-1)?.options[1].weight, 2);
+
+  const final = closePoll();
+  assert.equal(final?.winner, "castle");
+  assert.deepEqual(applied, ["goal:castle"]);
+  assert.equal(shown.at(-1)?.closed, true);
+  assert.equal(castVote("carol", "free", "!vote 1")?.ok, false, "closed");
+
+  openPoll(spec({ kind: "directive", options: ["build a tower", "go fishing"] }));
+  castVote("alice", "free", "!vote 2");
+  closePoll();
+  assert.deepEqual(applied, ["goal:castle", "do:go fishing"]);
+});
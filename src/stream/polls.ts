@@ -0,0 +1,229 @@
+/**
+ * Viewer polls — the streamer (`!poll` in chat) or a bot (the start_poll
+ * action) opens a poll, viewers vote with `!vote N` until it closes, and the
+ * winner goes to the bot the poll is for: a "mission" poll sets its season
+ * goal, any other poll becomes a one-off directive for its next decision.
+ *
+ * One poll runs at a time for the whole stream. Each viewer has one vote
+ * (voting again changes it), weighted by chat tier. Bots register how to
+ * apply a result and show the tally on their overlay with registerPollTarget().
+ */
+
+import type { ChatTier } from "./twitch.js";
+
+export type PollKind = "mission" | "directive";
+
+export interface PollSpec {
+  question: string;
+  options: string[];
+  kind: PollKind;
+  durationMs: number;
+  /** Bot name the result is applied to. */
+  target: string;
+  /** Who opened it: a viewer's name or the bot's. */
+  openedBy: string;
+}
+
+export interface PollOptionTally {
+  label: string;
+  voters: number;
+  /** Sum of the voters' tier weights — what decides the winner. */
+  weight: number;
+}
+
+/** What the overlay shows and what a closed poll reports. */
+export interface PollSnapshot {
+  question: string;
+  kind: PollKind;
+  target: string;
+  options: PollOptionTally[];
+  endsAt: number;
+  closed: boolean;
+  /** Set once closed; null when nobody voted. */
+  winner: string | null;
+}
+
+/** How a bot takes a poll result and shows the tally. */
+export interface PollTarget {
+  setSeasonGoal(goal: string): void;
+  direct(directive: string): void;
+  /** Show the poll on the overlay; null takes it down. */
+  show(poll: PollSnapshot | null): void;
+  announce(message: string): void;
+}
+
+export type PollResult = { ok: true; poll: PollSnapshot } | { ok: false; error: string };
+
+/** Subs count double and paying viewers triple. */
+export const VOTE_WEIGHTS: Record<ChatTier, number> = { free: 1, sub: 2, paid: 3 };
+
+/** Actions every bot may use regardless of allowedActions. */
+export const POLL_ACTIONS = ["start_poll"];
+
+export const DEFAULT_POLL_MS = 90_000;
+const MIN_POLL_MS = 15_000;
+const MAX_POLL_MS = 10 * 60_000;
+const MAX_OPTIONS = 6;
+/** How long the result stays on the overlay after closing. */
+const RESULT_SHOWN_MS = 15_000;
+
+/** One poll's options and votes. */
+export class ViewerPoll {
+  readonly spec: PollSpec;
+  readonly endsAt: number;
+  private votes = new Map<string, { choice: number; weight: number }>();
+
+  constructor(spec: PollSpec, now = Date.now()) {
+    this.spec = spec;
+    this.endsAt = now + spec.durationMs;
+  }
+
+  /** Record `voter`'s vote for option `choice` (1-based), replacing an earlier one. */
+  vote(voter: string, tier: ChatTier, choice: number): PollResult {
+    if (!Number.isInteger(choice) || choice < 1 || choice > this.spec.options.length) {
+      return { ok: false, error: `Vote 1-${this.spec.options.length}.` };
+    }
+    this.votes.set(voter.toLowerCase(), { choice: choice - 1, weight: VOTE_WEIGHTS[tier] ?? 1 });
+    return { ok: true, poll: this.snapshot(false) };
+  }
+
+  tally(): PollOptionTally[] {
+    const tallies = this.spec.options.map((label) => ({ label, voters: 0, weight: 0 }));
+    for (const { choice, weight } of this.votes.values()) {
+      tallies[choice].voters++;
+      tallies[choice].weight += weight;
+    }
+    return tallies;
+  }
+
+  /** Most weight wins; ties go to more voters, then the earlier option. */
+  winner(): string | null {
+    let best: PollOptionTally | null = null;
+    for (const t of this.tally()) {
+      if (t.weight === 0) continue;
+      if (!best || t.weight > best.weight || (t.weight === best.weight && t.voters > best.voters)) best = t;
+    }
+    return best?.label ?? null;
+  }
+
+  snapshot(closed: boolean): PollSnapshot {
+    return {
+      question: this.spec.question,
+      kind: this.spec.kind,
+      target: this.spec.target,
+      options: this.tally(),
+      endsAt: this.endsAt,
+      closed,
+      winner: closed ? this.winner() : null,
+    };
+  }
+}
+
+/**
+ * Parse the part of a `!poll` command after "!poll":
+ * `[@Bot] [mission] [seconds] option | option | ...`, e.g.
+ * "mission 120 nether | castle | diamonds".
+ */
+export function parsePollCommand(
+  args: string,
+  defaults: { target: string; openedBy: string },
+): { ok: true; spec: PollSpec } | { ok: false; error: string } {
+  const words = args.trim().split(/\s+/);
+  let target = defaults.target;
+  let kind: PollKind = "directive";
+  let durationMs = DEFAULT_POLL_MS;
+  if (words[0]?.startsWith("@")) target = words.shift()!.slice(1);
+  if (words[0]?.toLowerCase() === "mission") {
+    kind = "mission";
+    words.shift();
+  }
+  if (/^\d+s?$/i.test(words[0] ?? "")) durationMs = parseInt(words.shift()!) * 1000;
+
+  const options = words
+    .join(" ")
+    .split("|")
+    .map((o) => o.trim())
+    .filter(Boolean);
+  if (options.length < 2) return { ok: false, error: "A poll needs at least 2 options split by |" };
+  const question = kind === "mission" ? "Next mission?" : `What should ${target} do next?`;
+  return { ok: true, spec: { question, options, kind, durationMs, target, openedBy: defaults.openedBy } };
+}
+
+/** "!vote 2" → 2; anything else → null. */
+export function parseVote(text: string): number | null {
+  const match = /^!vote\s+(\d+)\s*$/i.exec(text.trim());
+  return match ? parseInt(match[1]) : null;
+}
+
+// ─── The stream's poll ──────────────────────────────────────────────────────
+
+const targets = new Map<string, PollTarget>();
+let active: ViewerPoll | null = null;
+let closeTimer: NodeJS.Timeout | null = null;
+let clearTimer: NodeJS.Timeout | null = null;
+
+/** Let polls for `botName` reach it. A restarted bot registers again, replacing the old one. */
+export function registerPollTarget(botName: string, target: PollTarget): void {
+  targets.set(botName.toLowerCase(), target);
+}
+
+export function getActivePoll(): PollSnapshot | null {
+  return active?.snapshot(false) ?? null;
+}
+
+export function openPoll(spec: PollSpec): PollResult {
+  if (active) return { ok: false, error: `A poll is already running: "${active.spec.question}"` };
+  const target = targets.get(spec.target.toLowerCase());
+  if (!target) return { ok: false, error: `No bot called ${spec.target} to run a poll for.` };
+  const options = [...new Set(spec.options.map((o) => o.trim()).filter(Boolean))];
+  if (options.length < 2) return { ok: false, error: "A poll needs at least 2 different options." };
+  if (options.length > MAX_OPTIONS) return { ok: false, error: `At most ${MAX_OPTIONS} options.` };
+
+  const durationMs = Math.min(MAX_POLL_MS, Math.max(MIN_POLL_MS, spec.durationMs));
+  active = new ViewerPoll({ ...spec, options, durationMs });
+  if (clearTimer) clearTimeout(clearTimer);
+  closeTimer = setTimeout(() => closePoll(), durationMs);
+
+  const poll = active.snapshot(false);
+  target.show(poll);
+  const choices = options.map((o, i) => `${i + 1}) ${o}`).join("  ");
+  target.announce(`POLL: ${spec.question} ${choices} — type !vote N (${Math.round(durationMs / 1000)}s)`);
+  return { ok: true, poll };
+}
+
+/**
+ * Count a chat message as a vote in the running poll. Returns null when the
+ * message isn't a vote, so the caller passes it on as ordinary chat.
+ */
+export function castVote(voter: string, tier: ChatTier, text: string): PollResult | null {
+  const choice = parseVote(text);
+  if (choice === null) return null;
+  if (!active) return { ok: false, error: "No poll is running." };
+  const result = active.vote(voter, tier, choice);
+  if (result.ok) targets.get(active.spec.target.toLowerCase())?.show(result.poll);
+  return result;
+}
+
+/** Close the running poll now and apply its winner. Returns the final tally. */
+export function closePoll(): PollSnapshot | null {
+  if (!active) return null;
+  const poll = active.snapshot(true);
+  active = null;
+  if (closeTimer) clearTimeout(closeTimer);
+  closeTimer = null;
+
+  const target = targets.get(poll.target.toLowerCase());
+  if (!target) return poll;
+  target.show(poll);
+  clearTimer = setTimeout(() => target.show(null), RESULT_SHOWN_MS);
+  if (!poll.winner) {
+    target.announce(`Poll closed: nobody voted on "${poll.question}"`);
+  } else if (poll.kind === "mission") {
+    target.setSeasonGoal(poll.winner);
+    target.announce(`Chat has spoken! New mission: "${poll.winner}"`);
+  } else {
+    target.direct(poll.winner);
+    target.announce(`Chat has spoken: ${poll.winner}!`);
+  }
+  return poll;
+}
@@ -0,0 +1,171 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  checkSafety,
+  fillPlaceholders,
+  getRedemptionQueue,
+  matchRedemption,
+  parseRedemptionEntry,
+  processRedemptions,
+  rconCommandRoot,
+  redeem,
+  registerRedemptionTarget,
+  setRedemptionCatalogue,
+  type RedemptionBotStatus,
+  type RedemptionEntry,
+} from "./redemptions.js";
+import { getVoice, setVoice } from "./tts.js";
+
+function entry(raw: Record<string, any>): RedemptionEntry {
+  const parsed = parseRedemptionEntry(raw, "Atlas");
+  assert.ok(parsed.ok, parsed.ok ? "" : parsed.error);
+  return parsed.entry;
+}
+
+test("parseRedemptionEntry keeps RCON effects to allowed commands", () => {
+  assert.equal(rconCommandRoot("execute at Atlas run summon zombie ~ ~ ~"), "summon");
+  assert.equal(rconCommandRoot("/op viewer"), "op");
+
+  const wave = entry({
+    id: "wave",
+    rewardId: "r1",
+    effect: { type: "rcon", commands: ["execute at {bot} run summon zombie ~5 ~ ~"] },
+  });
+  assert.equal(wave.bot, "Atlas");
+  assert.equal(wave.cooldownSeconds, 0);
+
+  const op = parseRedemptionEntry({ id: "op", rewardId: "r2", effect: { type: "rcon", commands: ["op {user}"] } });
+  assert.equal(op.ok, false);
+  const sneaky = parseRedemptionEntry({
+    id: "sneaky",
+    bits: 100,
+    effect: { type: "rcon", commands: ["execute as @a run stop"] },
+  });
+  assert.equal(sneaky.ok, false);
+  assert.equal(parseRedemptionEntry({ id: "free", effect: { type: "directive", text: "dance" } }).ok, false);
+  assert.equal(parseRedemptionEntry({ id: "long", bits: 1, effect: { type: "combat", seconds: 9999 } }).ok, false);
+
+  assert.equal(fillPlaceholders("say {user} summoned {bot}", "Atlas", "x; stop"), "say xstop summoned Atlas");
+});
+
+test("matchRedemption: reward id, else the highest bits threshold reached", () => {
+  const catalogue = [
+    entry({ id: "house", rewardId: "r1", effect: { type: "action", action: "build_house" } }),
+    entry({ id: "small", bits: 100, effect: { type: "directive", text: "dance" } }),
+    entry({ id: "big", bits: 500, effect: { type: "combat", seconds: 60 } }),
+  ];
+  assert.equal(matchRedemption(catalogue, { rewardId: "r1" })?.id, "house");
+  assert.equal(matchRedemption(catalogue, { rewardId: "nope" }), null);
+  assert.equal(matchRedemption(catalogue, { bits: 50 }), null);
+  assert.equal(matchRedemption(catalogue, { bits: 300 })?.id, "small");
+  assert.equal(matchRedemption(catalogue, { bits: 1000 })?.id, "big");
+});
+
+test("checkSafety", () => {
+  const status: RedemptionBotStatus = { health: 8, hostiles: 3, isDay: false, busy: true };
+  assert.equal(checkSafety({}, status), null);
+  assert.match(checkSafety({ minHealth: 10 }, status)!, /health/);
+  assert.match(checkSafety({ maxHostiles: 2 }, status)!, /hostiles/);
+  assert.match(checkSafety({ daytimeOnly: true }, status)!, /daytime/);
+  assert.match(checkSafety({ idleOnly: true }, status)!, /finish/);
+});
+
+test("redeem queues effects, runs them in order and holds them on cooldown or failed checks", async () => {
+  const status: RedemptionBotStatus = { health: 20, hostiles: 0, isDay: true, busy: false };
+  const ran: string[] = [];
+  const announced: string[] = [];
+  registerRedemptionTarget("Atlas", {
+    status: () => status,
+    act: async (action, _params, reason) => {
+      ran.push(`act:${action} (${reason})`);
+      return "built";
+    },
+    combat: async (seconds) => {
+      ran.push(`combat:${seconds}`);
+      return "fought";
+    },
+    direct: (directive) => ran.push(`do:${directive}`),
+    show: () => {},
+    announce: (message) => announced.push(message),
+  });
+  setRedemptionCatalogue(
+    [
+      entry({ id: "house", rewardId: "r1", cooldownSeconds: 600, effect: { type: "action", action: "build_house" } }),
+      entry({ id: "wave", bits: 100, effect: { type: "rcon", commands: ["execute at {bot} run summon zombie"] } }),
+      entry({ id: "fight", bits: 500, safety: { minHealth: 10 }, effect: { type: "combat", seconds: 60 } }),
+    ],
+    async (commands) => {
+      ran.push(`rcon:${commands.join(",")}`);
+      return "Summoned new Zombie";
+    },
+  );
+
+  assert.equal(redeem("alice", { rewardId: "unknown" }).ok, false);
+  assert.ok(redeem("alice", { rewardId: "r1" }).ok);
+  assert.ok(redeem("bob", { bits: 150 }).ok);
+  await processRedemptions();
+  assert.deepEqual(ran, ['act:build_house (alice redeemed "house")', "rcon:execute at Atlas run summon zombie"]);
+  assert.ok(announced.includes('alice redeemed "house"!'));
+
+  // Still cooling down: the second house waits, but a later redemption can run past it
+  status.health = 5;
+  assert.ok(redeem("carol", { rewardId: "r1" }).ok);
+  assert.ok(redeem("dave", { bits: 500 }).ok);
+  await processRedemptions();
+  assert.equal(ran.length, 2);
+  const waiting = getRedemptionQueue("Atlas").filter((r) => r.status === "queued");
+  assert.deepEqual(
+    waiting.map((r) => [r.user, r.detail.split(" ")[0]]),
+    [
+      ["carol", "cooldown"],
+      ["dave", "health"],
+    ],
+  );
+
+  status.health = 20;
+  await processRedemptions();
+  assert.equal(ran.at(-1), "combat:60");
+  assert.deepEqual(
+    getRedemptionQueue("Atlas").map((r) => [r.user, r.status]),
+    [
+      ["alice", "done"],
+      ["bob", "done"],
+      ["dave", "done"],
+      ["carol", "queued"],
+    ],
+  );
+  setRedemptionCatalogue([]);
+});
+
+test("overlapping voice redemptions go back to the stream's own voice once the last one ends", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const original = getVoice();
+  t.after(() => setVoice(original));
+  registerRedemptionTarget("Atlas", {
+    status: () => ({ health: 20, hostiles: 0, isDay: true, busy: false }),
+    act: async () => "",
+    combat: async () => "",
+    direct: () => {},
+    show: () => {},
+    announce: () => {},
+  });
+  setRedemptionCatalogue([
+    entry({ id: "pirate", rewardId: "r1", effect: { type: "voice", voice: "en-GB-RyanNeural", seconds: 60 } }),
+    entry({ id: "robot", rewardId: "r2", effect: { type: "voice", voice: "en-US-AriaNeural", seconds: 60 } }),
+  ]);
+
+  redeem("alice", { rewardId: "r1" });
+  await processRedemptions();
+  t.mock.timers.tick(30_000);
+  redeem("bob", { rewardId: "r2" });
+  await processRedemptions();
+  assert.equal(getVoice(), "en-US-AriaNeural");
+
+  // The first effect's timer no longer fires...
+  t.mock.timers.tick(40_000);
+  assert.equal(getVoice(), "en-US-AriaNeural");
+  // ...and the second's restores the voice from before either, not the first effect's
+  t.mock.timers.tick(20_000);
+  assert.equal(getVoice(), original);
+  setRedemptionCatalogue([]);
+});
@@ -0,0 +1,429 @@
+/**
+ * Channel-point rewards and bits cheers that do something in the game.
+ *
+ * The catalogue (redemptions.json, or REDEMPTIONS_FILE) maps a Twitch custom
+ * reward id or a bits threshold to an effect on one bot. The effect can be:
+ * - RCON commands, e.g. summoning a zombie wave
+ * - an action the bot runs right away, e.g. build_house
+ * - a burst of neural combat
+ * - a directive for its next decision
+ * - a TTS voice switch
+ *
+ * Redemptions run one at a time from a queue that shows on the target bot's
+ * overlay. An entry waits in the queue while it's on cooldown or its safety
+ * checks fail (say the bot is nearly dead). It is skipped after MAX_WAIT_MS.
+ * Bots register how to run effects and show the queue with
+ * registerRedemptionTarget().
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Rcon } from "rcon-client";
+import { config } from "../config.js";
+import { setVoice } from "./tts.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_REDEMPTIONS_FILE = path.join(__dirname, "../../redemptions.json");
+
+export type RedemptionEffect =
+  /** Run on the server; {bot} and {user} are filled in. */
+  | { type: "rcon"; commands: string[] }
+  /** Run a bot action now, interrupting whatever skill is running. */
+  | { type: "action"; action: string; params?: Record<string, any> }
+  | { type: "combat"; seconds: number }
+  | { type: "directive"; text: string }
+  /** Switch the TTS voice, back to the previous one after `seconds` if given. */
+  | { type: "voice"; voice: string; seconds?: number };
+
+/** Checks that must hold when an effect starts — it waits in the queue until they do. */
+export interface RedemptionSafety {
+  minHealth?: number;
+  /** Most hostile mobs allowed within 16 blocks. */
+  maxHostiles?: number;
+  daytimeOnly?: boolean;
+  /** Only while no skill is running. */
+  idleOnly?: boolean;
+}
+
+export interface RedemptionEntry {
+  id: string;
+  title: string;
+  /** Twitch custom reward id (a channel-points reward). */
+  rewardId?: string;
+  /** Cheers of at least this many bits (the highest threshold reached wins). */
+  bits?: number;
+  /** Bot name the effect applies to. */
+  bot: string;
+  effect: RedemptionEffect;
+  cooldownSeconds: number;
+  safety: RedemptionSafety;
+}
+
+/** What a bot reports for the safety checks. */
+export interface RedemptionBotStatus {
+  health: number;
+  hostiles: number;
+  isDay: boolean;
+  busy: boolean;
+}
+
+export type RedemptionStatus = "queued" | "running" | "done" | "failed" | "skipped";
+
+/** One queue entry as the overlay shows it. */
+export interface RedemptionSnapshot {
+  title: string;
+  user: string;
+  status: RedemptionStatus;
+  /** Why it's waiting, or the effect's result. */
+  detail: string;
+}
+
+/** How a bot runs redemption effects and shows the queue. */
+export interface RedemptionTarget {
+  status(): RedemptionBotStatus;
+  /** Run `action` ahead of the bot's own plans. Resolves with its result. */
+  act(action: string, params: Record<string, any>, reason: string): Promise<string>;
+  combat(seconds: number, reason: string): Promise<string>;
+  direct(directive: string): void;
+  /** Show the queue on the overlay; empty takes it down. */
+  show(queue: RedemptionSnapshot[]): void;
+  announce(message: string): void;
+}
+
+export type RconSender = (commands: string[]) => Promise<string>;
+
+export type RedemptionResult = { ok: true; entry: RedemptionEntry } | { ok: false; error: string };
+
+/**
+ * Commands an RCON effect may run. Each command's root, and the command after
+ * `execute ... run`, must be on this list, so a catalogue can't op anyone or
+ * stop the server.
+ */
+export const RCON_ALLOWED_COMMANDS = [
+  "summon",
+  "effect",
+  "give",
+  "time",
+  "weather",
+  "title",
+  "tellraw",
+  "say",
+  "playsound",
+  "particle",
+  "execute",
+];
+
+const MAX_WAIT_MS = 10 * 60_000;
+const RETRY_MS = 5000;
+const MAX_COMBAT_SECONDS = 120;
+/** Finished entries kept on the overlay. */
+const RECENT_SHOWN = 3;
+
+/** The command an RCON line ends up running: "execute at X run summon ..." → "summon". */
+export function rconCommandRoot(command: string): string {
+  const words = command.trim().replace(/^\//, "").split(/\s+/);
+  if (words[0] !== "execute") return words[0] ?? "";
+  const run = words.indexOf("run");
+  return run === -1 ? "execute" : rconCommandRoot(words.slice(run + 1).join(" "));
+}
+
+/** Check one raw catalogue entry, filling in defaults. */
+export function parseRedemptionEntry(
+  raw: any,
+  defaultBot = config.bot.name,
+): { ok: true; entry: RedemptionEntry } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const id = String(raw.id ?? "");
+  if (!id) return { ok: false, error: "missing id" };
+  const fail = (error: string) => ({ ok: false as const, error: `${id}: ${error}` });
+  if (!raw.rewardId && !(raw.bits > 0)) return fail("needs a rewardId or a bits threshold");
+
+  const effect = raw.effect as RedemptionEffect | undefined;
+  switch (effect?.type) {
+    case "rcon": {
+      if (!Array.isArray(effect.commands) || effect.commands.length === 0) return fail("rcon effect has no commands");
+      const banned = effect.commands.find((c) => !RCON_ALLOWED_COMMANDS.includes(rconCommandRoot(c)));
+      if (banned !== undefined) return fail(`RCON command not allowed: "${banned}"`);
+      break;
+    }
+    case "action":
+      if (!effect.action) return fail("action effect has no action");
+      break;
+    case "combat":
+      if (!(effect.seconds > 0) || effect.seconds > MAX_COMBAT_SECONDS) {
+        return fail(`combat lasts 1-${MAX_COMBAT_SECONDS} seconds`);
+      }
+      break;
+    case "directive":
+      if (!effect.text) return fail("directive effect has no text");
+      break;
+    case "voice":
+      if (!effect.voice) return fail("voice effect has no voice");
+      break;
+    default:
+      return fail(`unknown effect type "${(effect as any)?.type}"`);
+  }
+
+  return {
+    ok: true,
+    entry: {
+      id,
+      title: String(raw.title ?? id),
+      rewardId: raw.rewardId ? String(raw.rewardId) : undefined,
+      bits: raw.bits > 0 ? Number(raw.bits) : undefined,
+      bot: String(raw.bot ?? defaultBot),
+      effect,
+      cooldownSeconds: Math.max(0, Number(raw.cooldownSeconds ?? 0)),
+      safety: raw.safety ?? {},
+    },
+  };
+}
+
+/** Read a catalogue file, skipping (and logging) bad entries. A missing file is an empty catalogue. */
+export function loadRedemptionCatalogue(file = DEFAULT_REDEMPTIONS_FILE): RedemptionEntry[] {
+  if (!fs.existsSync(file)) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: any) {
+    console.warn(`[Redemptions] Couldn't read ${file}: ${err.message}`);
+    return [];
+  }
+  const entries: RedemptionEntry[] = [];
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const parsed = parseRedemptionEntry(item);
+    if (parsed.ok) entries.push(parsed.entry);
+    else console.warn(`[Redemptions] Skipping entry — ${parsed.error}`);
+  }
+  return entries;
+}
+
+/** The entry a reward or cheer triggers: an exact reward id, else the highest bits threshold reached. */
+export function matchRedemption(
+  catalogue: RedemptionEntry[],
+  trigger: { rewardId?: string; bits?: number },
+): RedemptionEntry | null {
+  if (trigger.rewardId) return catalogue.find((e) => e.rewardId === trigger.rewardId) ?? null;
+  const bits = trigger.bits ?? 0;
+  let best: RedemptionEntry | null = null;
+  for (const e of catalogue) {
+    if (e.bits !== undefined && e.bits <= bits && (!best || e.bits > best.bits!)) best = e;
+  }
+  return best;
+}
+
+/** Why the effect can't start yet, or null when every check passes. */
+export function checkSafety(safety: RedemptionSafety, status: RedemptionBotStatus): string | null {
+  if (safety.minHealth !== undefined && status.health < safety.minHealth) {
+    return `health ${status.health} < ${safety.minHealth}`;
+  }
+  if (safety.maxHostiles !== undefined && status.hostiles > safety.maxHostiles) {
+    return `${status.hostiles} hostiles nearby`;
+  }
+  if (safety.daytimeOnly && !status.isDay) return "waiting for daytime";
+  if (safety.idleOnly && status.busy) return "waiting for the bot to finish";
+  return null;
+}
+
+/** Fill {bot} and {user} in an RCON command — the user name is cut to characters that are safe in one. */
+export function fillPlaceholders(command: string, bot: string, user: string): string {
+  const safeUser = user.replace(/[^A-Za-z0-9_]/g, "").slice(0, 25) || "viewer";
+  return command.replaceAll("{bot}", bot).replaceAll("{user}", safeUser);
+}
+
+/** Send commands over one RCON connection, returning the server's replies. */
+export const sendRcon: RconSender = async (commands) => {
+  if (!config.rcon.password) throw new Error("RCON isn't configured (set RCON_PASSWORD)");
+  const rcon = await Rcon.connect({ host: config.rcon.host, port: config.rcon.port, password: config.rcon.password });
+  try {
+    const replies: string[] = [];
+    for (const command of commands) replies.push(await rcon.send(command));
+    return replies.filter(Boolean).join("; ") || "done";
+  } finally {
+    await rcon.end();
+  }
+};
+
+// ─── The stream's redemption queue ──────────────────────────────────────────
+
+interface QueueItem {
+  entry: RedemptionEntry;
+  user: string;
+  queuedAt: number;
+  status: RedemptionStatus;
+  detail: string;
+}
+
+const targets = new Map<string, RedemptionTarget>();
+let catalogue: RedemptionEntry[] = [];
+let rconSender: RconSender = sendRcon;
+const queue: QueueItem[] = [];
+const recent: QueueItem[] = [];
+const lastRun = new Map<string, number>();
+let draining: Promise<void> | null = null;
+let drainAgain = false;
+let retryTimer: NodeJS.Timeout | null = null;
+/** A timed voice effect's way back: the voice from before the first of any overlapping ones. */
+let voiceRevert: { voice: string; timer: NodeJS.Timeout } | null = null;
+
+/** Let redemptions for `botName` reach it. A restarted bot registers again, replacing the old one. */
+export function registerRedemptionTarget(botName: string, target: RedemptionTarget): void {
+  targets.set(botName.toLowerCase(), target);
+}
+
+/** Replace the catalogue (and, for tests, how RCON commands are sent). Clears the queue. */
+export function setRedemptionCatalogue(entries: RedemptionEntry[], rcon: RconSender = sendRcon): void {
+  catalogue = entries;
+  rconSender = rcon;
+  queue.length = 0;
+  recent.length = 0;
+  lastRun.clear();
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+}
+
+export function getRedemptionCatalogue(): RedemptionEntry[] {
+  return catalogue;
+}
+
+/**
+ * Queue whatever a reward redemption or cheer triggers. Returns an error when
+ * nothing in the catalogue matches or its bot isn't running.
+ */
+export function redeem(user: string, trigger: { rewardId?: string; bits?: number }): RedemptionResult {
+  const entry = matchRedemption(catalogue, trigger);
+  if (!entry) return { ok: false, error: "No redemption matches." };
+  const target = targets.get(entry.bot.toLowerCase());
+  if (!target) return { ok: false, error: `No bot called ${entry.bot} to redeem "${entry.title}" on.` };
+
+  queue.push({ entry, user, queuedAt: Date.now(), status: "queued", detail: "" });
+  target.announce(`${user} redeemed "${entry.title}"!`);
+  showQueue(entry.bot);
+  void processRedemptions();
+  return { ok: true, entry };
+}
+
+/** The queue plus the last few finished entries, for `botName`'s overlay. */
+export function getRedemptionQueue(botName: string): RedemptionSnapshot[] {
+  const bot = botName.toLowerCase();
+  return [...recent, ...queue]
+    .filter((item) => item.entry.bot.toLowerCase() === bot)
+    .map((item) => ({ title: item.entry.title, user: item.user, status: item.status, detail: item.detail }));
+}
+
+function showQueue(botName: string): void {
+  targets.get(botName.toLowerCase())?.show(getRedemptionQueue(botName));
+}
+
+/** Why `item` can't run now, or null when it can. */
+function blockedBy(item: QueueItem, target: RedemptionTarget, now: number): string | null {
+  const cooldownMs = item.entry.cooldownSeconds * 1000;
+  const last = lastRun.get(item.entry.id);
+  if (last !== undefined && now - last < cooldownMs) {
+    return `cooldown ${Math.ceil((cooldownMs - (now - last)) / 1000)}s`;
+  }
+  return checkSafety(item.entry.safety, target.status());
+}
+
+async function runEffect(item: QueueItem, target: RedemptionTarget): Promise<string> {
+  const { entry, user } = item;
+  const reason = `${user} redeemed "${entry.title}"`;
+  const effect = entry.effect;
+  switch (effect.type) {
+    case "rcon":
+      return rconSender(effect.commands.map((c) => fillPlaceholders(c, entry.bot, user)));
+    case "action":
+      return target.act(effect.action, effect.params ?? {}, reason);
+    case "combat":
+      return target.combat(effect.seconds, reason);
+    case "directive":
+      target.direct(effect.text);
+      return "Directive queued";
+    case "voice": {
+      const previous = setVoice(effect.voice);
+      // A newer effect replaces the pending revert — and still goes back to the stream's own voice
+      const original = voiceRevert?.voice ?? previous;
+      if (voiceRevert) clearTimeout(voiceRevert.timer);
+      voiceRevert = null;
+      if (effect.seconds) {
+        const timer = setTimeout(() => {
+          voiceRevert = null;
+          setVoice(original);
+        }, effect.seconds * 1000);
+        voiceRevert = { voice: original, timer };
+      }
+      return `Voice is now ${effect.voice}`;
+    }
+  }
+}
+
+function finish(item: QueueItem, status: RedemptionStatus, detail: string): void {
+  item.status = status;
+  item.detail = detail;
+  queue.splice(queue.indexOf(item), 1);
+  recent.push(item);
+  if (recent.length > RECENT_SHOWN) recent.shift();
+}
+
+/**
+ * Run queued redemptions one at a time until none can start, then check
+ * again in a few seconds while any are waiting. Resolves once idle; calls
+ * while it's running share the same run.
+ */
+export function processRedemptions(): Promise<void> {
+  if (draining) {
+    // Something may have been queued after the run's last look — look again before it ends
+    drainAgain = true;
+    return draining;
+  }
+  draining = (async () => {
+    do {
+      drainAgain = false;
+      await drain();
+    } while (drainAgain);
+  })().finally(() => {
+    draining = null;
+    if (queue.length > 0) retryTimer = setTimeout(() => void processRedemptions(), RETRY_MS);
+  });
+  return draining;
+}
+
+async function drain(): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  for (;;) {
+    const now = Date.now();
+    let next: QueueItem | null = null;
+    for (const item of [...queue]) {
+      const target = targets.get(item.entry.bot.toLowerCase());
+      const reason = target ? blockedBy(item, target, now) : `${item.entry.bot} isn't running`;
+      if (reason === null) {
+        next = item;
+        break;
+      }
+      if (now - item.queuedAt > MAX_WAIT_MS) {
+        finish(item, "skipped", reason);
+        target?.announce(`Skipped "${item.entry.title}" for ${item.user}: ${reason}`);
+      } else {
+        item.detail = reason;
+      }
+      showQueue(item.entry.bot);
+    }
+    if (!next) break;
+
+    const target = targets.get(next.entry.bot.toLowerCase())!;
+    next.status = "running";
+    next.detail = "";
+    lastRun.set(next.entry.id, now);
+    showQueue(next.entry.bot);
+    try {
+      finish(next, "done", await runEffect(next, target));
+    } catch (err: any) {
+      finish(next, "failed", err.message);
+      console.warn(`[Redemptions] "${next.entry.title}" failed: ${err.message}`);
+    }
+    showQueue(next.entry.bot);
+  }
+}
@@ -17,12 +17,26 @@ let ttsReady = false;
 // Voice options — pick one that sounds good for a chaotic game character
 // en-US-GuyNeural is a male voice with good range
 // en-US-ChristopherNeural is another solid male option
-const VOICE = "en-US-GuyNeural";
+let voice = "en-US-GuyNeural";
+
+/** The voice speech is generated with now. */
+export function getVoice(): string {
+  return voice;
+}
+
+/** Switch the voice for speech generated from now on. Returns the previous voice. */
+export function setVoice(next: string): string {
+  const previous = voice;
+  voice = next;
+  ttsInstance = null;
+  ttsReady = false;
+  return previous;
+}
 
 async function getTTS(): Promise<MsEdgeTTS> {
   if (!ttsInstance) {
     ttsInstance = new MsEdgeTTS();
-    await ttsInstance.setMetadata(VOICE, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3);
+    await ttsInstance.setMetadata(voice, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3);
     ttsReady = true;
   }
   return ttsInstance;
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TwitchOutbox, splitForTwitch } from "./twitch-outbox.js";
+
+test("splitForTwitch splits at words and keeps every message under the limit", () => {
+  assert.deepEqual(splitForTwitch("hello there viewer", "@bob ", 16), ["@bob hello there", "@bob viewer"]);
+  assert.deepEqual(splitForTwitch("abcdefghij", "> ", 6), ["> abcd", "> efgh", "> ij"]);
+  assert.deepEqual(splitForTwitch("one two three four", "", 8, 2), ["one two", "three"]);
+  assert.deepEqual(splitForTwitch("   ", "@bob "), []);
+  for (const part of splitForTwitch("word ".repeat(300), "[Atlas] @someone ")) assert.ok(part.length <= 500);
+});
+
+test("TwitchOutbox mentions the viewer, filters, and throttles bots round-robin under the cap", () => {
+  let now = 0;
+  const sent: string[] = [];
+  const outbox = new TwitchOutbox((msg) => sent.push(msg), { limit: 3, windowMs: 30_000, now: () => now });
+  try {
+    assert.equal(outbox.reply("Atlas", "alice", "hi alice!"), 1);
+    assert.deepEqual(sent, ["[Atlas] @alice hi alice!"]);
+
+    outbox.reply("Atlas", "bob", "one");
+    outbox.reply("Atlas", "carol", "two");
+    outbox.reply("Atlas", "dave", "three");
+    outbox.reply("Flora", "erin", "hello from the farm");
+    assert.equal(sent.length, 3, "capped at 3 per window");
+    assert.equal(outbox.pending(), 2);
+
+    now = 30_000;
+    assert.equal(outbox.flush(), 2);
+    assert.deepEqual(
+      sent.slice(3),
+      ["[Flora] @erin hello from the farm", "[Atlas] @dave three"],
+      "Flora isn't starved",
+    );
+
+    // The content filter runs before anything is posted
+    outbox.reply("Atlas", "frank", "x".repeat(300));
+    now = 60_000;
+    outbox.flush();
+    assert.equal(sent.at(-1), `[Atlas] @frank ${"x".repeat(200)}`);
+  } finally {
+    outbox.stop();
+  }
+});
@@ -0,0 +1,133 @@
+/**
+ * Bot replies going out to Twitch chat. Every bot posts through the one
+ * Twitch account, so each bot has its own queue and a shared limiter keeps the
+ * account under Twitch's cap (20 messages per 30s, 100 for a moderator).
+ * Queues are drained round-robin, so a chatty bot can't starve the others.
+ *
+ * Replies are run through filterChatMessage, tagged with the bot's name,
+ * @-mention the viewer and are split to Twitch's 500-character limit.
+ */
+
+import { filterChatMessage } from "../safety/filter.js";
+
+export const TWITCH_MAX_MESSAGE_LENGTH = 500;
+
+export interface TwitchOutboxOptions {
+  /** Messages allowed per window. */
+  limit: number;
+  windowMs: number;
+  maxLength: number;
+  /** A reply longer than this many messages is cut short. */
+  maxParts: number;
+  /** Messages a bot may have waiting; the oldest go first when it's over. */
+  maxQueue: number;
+  now: () => number;
+}
+
+export const DEFAULT_OUTBOX_OPTIONS: TwitchOutboxOptions = {
+  limit: 20,
+  windowMs: 30_000,
+  maxLength: TWITCH_MAX_MESSAGE_LENGTH,
+  maxParts: 3,
+  maxQueue: 10,
+  now: () => Date.now(),
+};
+
+/** Split `text` at word boundaries into messages of at most `maxLength`, each starting with `prefix`. */
+export function splitForTwitch(
+  text: string,
+  prefix: string,
+  maxLength = TWITCH_MAX_MESSAGE_LENGTH,
+  maxParts = Infinity,
+): string[] {
+  const room = maxLength - prefix.length;
+  const parts: string[] = [];
+  let current = "";
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    // A single word too long for a message is cut into pieces
+    for (let i = 0; i < word.length; i += room) {
+      const piece = word.slice(i, i + room);
+      if (!current) current = piece;
+      else if (current.length + 1 + piece.length <= room) current += ` ${piece}`;
+      else {
+        parts.push(current);
+        current = piece;
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts.slice(0, maxParts).map((p) => prefix + p);
+}
+
+export class TwitchOutbox {
+  private send: (msg: string) => void;
+  private options: TwitchOutboxOptions;
+  private queues = new Map<string, string[]>();
+  /** When each message in the current window went out. */
+  private sentAt: number[] = [];
+  /** Bot that sent last — the next flush starts after it. */
+  private lastBot = "";
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(send: (msg: string) => void, options: Partial<TwitchOutboxOptions> = {}) {
+    this.send = send;
+    this.options = { ...DEFAULT_OUTBOX_OPTIONS, ...options };
+  }
+
+  /** Queue `bot`'s reply to `username`. Returns how many messages it became. */
+  reply(bot: string, username: string, text: string): number {
+    const filtered = filterChatMessage(text);
+    const safe = filtered.safe ? text : filtered.cleaned;
+    const parts = splitForTwitch(safe, `[${bot}] @${username} `, this.options.maxLength, this.options.maxParts);
+    if (parts.length === 0) return 0;
+    const queue = this.queues.get(bot) ?? [];
+    queue.push(...parts);
+    queue.splice(0, Math.max(0, queue.length - this.options.maxQueue));
+    this.queues.set(bot, queue);
+    this.flush();
+    return parts.length;
+  }
+
+  /** Messages waiting, for one bot or all of them. */
+  pending(bot?: string): number {
+    if (bot) return this.queues.get(bot)?.length ?? 0;
+    return [...this.queues.values()].reduce((n, q) => n + q.length, 0);
+  }
+
+  /** Send what the limit allows now, one message per bot in turn; wait for the window for the rest. */
+  flush(): number {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const now = this.options.now();
+    this.sentAt = this.sentAt.filter((t) => now - t < this.options.windowMs);
+
+    let sent = 0;
+    while (this.sentAt.length < this.options.limit) {
+      const bot = this.nextBot();
+      if (!bot) break;
+      this.send(this.queues.get(bot)!.shift()!);
+      this.sentAt.push(now);
+      this.lastBot = bot;
+      sent++;
+    }
+
+    if (this.pending() > 0) {
+      const wait = this.sentAt[0] + this.options.windowMs - now;
+      this.timer = setTimeout(() => this.flush(), Math.max(wait, 100));
+    }
+    return sent;
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** The first bot after the last sender with something queued. */
+  private nextBot(): string | null {
+    const bots = [...this.queues.keys()].filter((b) => this.queues.get(b)!.length > 0).sort();
+    if (bots.length === 0) return null;
+    const after = bots.find((b) => b > this.lastBot);
+    return after ?? bots[0];
+  }
+}
@@ -7,6 +7,16 @@ export type ChatTier = "paid" | "sub" | "free";
 export interface TieredChatMessage extends ChatMessage {
   tier: ChatTier;
   bits?: number;
+  /** What the viewer typed, without the tier tag and name added for the LLM. */
+  text: string;
+}
+
+/** A channel-points reward redeemed or bits cheered — what the redemption catalogue matches. */
+export interface TwitchRedemption {
+  username: string;
+  /** Custom reward id (only rewards that ask for text reach chat). */
+  rewardId?: string;
+  bits?: number;
 }
 
 function getTier(tags: tmi.ChatUserstate): ChatTier {
@@ -19,13 +29,15 @@ function getTier(tags: tmi.ChatUserstate): ChatTier {
   return "free";
 }
 
-function formatForLLM(username: string, message: string, tier: ChatTier): string {
+/** "[SUB] name: message" — the chat line the LLM sees. */
+export function formatForLLM(username: string, message: string, tier: ChatTier): string {
   const tag = tier === "paid" ? "[PAID]" : tier === "sub" ? "[SUB]" : "[FREE]";
   return `${tag} ${username}: ${message}`;
 }
 
 export function createTwitchChat(
   onMessage: (msg: TieredChatMessage) => void,
+  onRedemption?: (redemption: TwitchRedemption) => void,
 ): { client: tmi.Client; sendMessage: (msg: string) => void } | null {
   if (!config.twitch.enabled) {
     console.log("[Twitch] Not configured, skipping.");
@@ -58,6 +70,7 @@ export function createTwitchChat(
       timestamp: Date.now(),
       tier,
       bits,
+      text: message,
     });
   });
 
@@ -74,7 +87,16 @@ export function createTwitchChat(
       timestamp: Date.now(),
       tier: "paid",
       bits,
+      text: message,
     });
+    if (bits > 0) onRedemption?.({ username, bits });
+  });
+
+  // Handle channel-points rewards
+  client.on("redeem", (_channel, username, rewardType, tags) => {
+    const name = tags["display-name"] || username;
+    console.log(`[Twitch] REDEEM ${rewardType} by ${name}`);
+    onRedemption?.({ username: name, rewardId: rewardType });
   });
 
   // Handle subscription events
@@ -86,6 +108,7 @@ export function createTwitchChat(
       message: formatForLLM(username, "just subscribed! Welcome them!", "paid"),
       timestamp: Date.now(),
       tier: "paid",
+      text: "",
     });
   });
 
@@ -0,0 +1,187 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { createYouTubeChat, toChatMessage, youtubeTier } from "./youtube.js";
+import type { TieredChatMessage } from "./twitch.js";
+
+function chatItem(id: string, name: string, text: string, author: Record<string, boolean> = {}): any {
+  return {
+    id,
+    snippet: {
+      type: "textMessageEvent",
+      publishedAt: "2026-01-01T00:00:00Z",
+      textMessageDetails: { messageText: text },
+    },
+    authorDetails: { displayName: name, ...author },
+  };
+}
+
+const superChat = {
+  id: "sc1",
+  snippet: {
+    type: "superChatEvent",
+    superChatDetails: { amountDisplayString: "$5.00", userComment: "build a castle!" },
+  },
+  authorDetails: { displayName: "Whale" },
+};
+
+test("YouTube messages map to chat tiers", () => {
+  assert.equal(youtubeTier(chatItem("1", "a", "hi")), "free");
+  assert.equal(youtubeTier(chatItem("1", "a", "hi", { isChatSponsor: true })), "sub");
+  assert.equal(youtubeTier(chatItem("1", "a", "hi", { isChatModerator: true })), "sub");
+  assert.equal(youtubeTier(superChat), "paid");
+  assert.equal(youtubeTier({ snippet: { type: "newSponsorEvent" } }), "paid");
+
+  const msg = toChatMessage(superChat)!;
+  assert.equal(msg.source, "youtube");
+  assert.equal(msg.message, "[PAID] Whale: [SUPER CHAT $5.00] build a castle!");
+  assert.equal(msg.text, "build a castle!");
+  assert.equal(toChatMessage({ snippet: { type: "messageDeletedEvent" } }), null);
+});
+
+/** A local stand-in for the Data API's live chat endpoints. */
+function startMockYouTube(): Promise<{
+  server: http.Server;
+  url: string;
+  /** Served on the next poll. */
+  pending: any[];
+  posts: { auth?: string; body: any }[];
+  polls: string[];
+  /** Polls left to answer with a server error. */
+  failures: { left: number };
+}> {
+  const pending: any[] = [chatItem("old", "Earlier", "from before we connected")];
+  const posts: { auth?: string; body: any }[] = [];
+  const polls: string[] = [];
+  const failures = { left: 0 };
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? "", "http://mock");
+      res.setHeader("Content-Type", "application/json");
+      if (url.pathname === "/videos") {
+        res.end(JSON.stringify({ items: [{ liveStreamingDetails: { activeLiveChatId: "chat-1" } }] }));
+        return;
+      }
+      if (url.pathname === "/liveChat/messages" && req.method === "GET") {
+        polls.push(url.searchParams.get("pageToken") ?? "");
+        if (failures.left > 0) {
+          failures.left--;
+          res.statusCode = 503;
+          res.end(JSON.stringify({ error: { message: "try later", errors: [{ reason: "backendError" }] } }));
+          return;
+        }
+        const items = pending.splice(0);
+        res.end(JSON.stringify({ items, nextPageToken: `page-${polls.length}`, pollingIntervalMillis: 10 }));
+        return;
+      }
+      if (url.pathname === "/liveChat/messages" && req.method === "POST") {
+        let raw = "";
+        req.on("data", (c) => (raw += c));
+        req.on("end", () => {
+          const body = JSON.parse(raw);
+          posts.push({ auth: req.headers.authorization, body });
+          res.end(JSON.stringify({ id: `posted-${posts.length}` }));
+        });
+        return;
+      }
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: { message: "not found", errors: [{ reason: "notFound" }] } }));
+    });
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, pending, posts, polls, failures });
+    });
+  });
+}
+
+async function until(check: () => boolean, what: string): Promise<void> {
+  const deadline = Date.now() + 3000;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`timed out waiting for ${what}`);
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+test("createYouTubeChat polls a mock chat, skips the backlog and its own posts, and posts replies", async () => {
+  const mock = await startMockYouTube();
+  const received: TieredChatMessage[] = [];
+  const chat = createYouTubeChat((msg) => received.push(msg), {
+    videoId: "video-1",
+    liveChatId: "",
+    apiKey: "",
+    oauthToken: "token-1",
+    apiBase: mock.url,
+  })!;
+  try {
+    assert.equal(await chat.ready, "chat-1");
+    await until(() => mock.polls.length >= 1, "the first poll");
+
+    mock.pending.push(chatItem("m1", "alice", "hi Atlas"), chatItem("m2", "bob", "go mining", { isChatSponsor: true }));
+    mock.pending.push(superChat);
+    await until(() => received.length >= 3, "three messages");
+    assert.deepEqual(
+      received.map((m) => [m.username, m.tier, m.text]),
+      [
+        ["alice", "free", "hi Atlas"],
+        ["bob", "sub", "go mining"],
+        ["Whale", "paid", "build a castle!"],
+      ],
+    );
+    assert.ok(
+      mock.polls.slice(1).every((token) => token.startsWith("page-")),
+      "follows nextPageToken",
+    );
+
+    await chat.sendMessage("@alice hello!");
+    assert.equal(mock.posts[0].auth, "Bearer token-1");
+    assert.equal(mock.posts[0].body.snippet.liveChatId, "chat-1");
+    assert.equal(mock.posts[0].body.snippet.textMessageDetails.messageText, "@alice hello!");
+
+    // The bot's own message comes back in the chat like anyone else's
+    mock.pending.push(chatItem("posted-1", "Atlas", "@alice hello!"), chatItem("m3", "carol", "nice"));
+    await until(() => received.length >= 4, "the next message");
+    assert.deepEqual(
+      received.map((m) => m.username),
+      ["alice", "bob", "Whale", "carol"],
+      "skips the backlog and the bot's own message",
+    );
+  } finally {
+    chat.stop();
+    mock.server.close();
+  }
+});
+
+test("createYouTubeChat still skips the backlog when the first poll fails", async (t) => {
+  const mock = await startMockYouTube();
+  mock.failures.left = 1;
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  // Let the requests through on the real event loop, moving the mocked clock on a second at a time
+  const runUntil = async (check: () => boolean) => {
+    for (let i = 0; i < 2000 && !check(); i++) {
+      await new Promise((r) => setImmediate(r));
+      t.mock.timers.tick(1000);
+    }
+  };
+  const received: TieredChatMessage[] = [];
+  const chat = createYouTubeChat((msg) => received.push(msg), {
+    videoId: "video-1",
+    liveChatId: "",
+    apiKey: "key-1",
+    oauthToken: "",
+    apiBase: mock.url,
+  })!;
+  try {
+    // The error, then the retry that gets the backlog
+    await runUntil(() => mock.polls.length >= 2);
+    mock.pending.push(chatItem("m1", "alice", "hi Atlas"));
+    await runUntil(() => received.length >= 1);
+    assert.deepEqual(
+      received.map((m) => m.username),
+      ["alice"],
+    );
+  } finally {
+    chat.stop();
+    mock.server.close();
+  }
+});
@@ -0,0 +1,201 @@
+/**
+ * YouTube Live chat through the Data API — polls the stream's live chat and
+ * hands each message on as a TieredChatMessage like Twitch chat, and posts
+ * replies back when an OAuth token is set.
+ *
+ * Super Chats, Super Stickers, new members and milestones are "paid"; chat
+ * from members, moderators and the channel owner is "sub"; everyone else is
+ * "free". Messages already in the chat when it connects are skipped.
+ */
+
+import { config } from "../config.js";
+import { formatForLLM, type ChatTier, type TieredChatMessage } from "./twitch.js";
+
+export type YouTubeSettings = Omit<typeof config.youtube, "enabled">;
+
+export interface YouTubeChat {
+  /** Post to the live chat (needs the OAuth token). */
+  sendMessage(msg: string): Promise<void>;
+  stop(): void;
+  /** Resolves with the live chat id once found, or null when there's none. */
+  ready: Promise<string | null>;
+}
+
+const DEFAULT_POLL_MS = 5000;
+const ERROR_RETRY_MS = 15_000;
+/** The API rejects longer messages. */
+const MAX_MESSAGE_LENGTH = 200;
+/** Errors that mean the chat is gone — stop polling instead of retrying. */
+const FATAL_REASONS = ["liveChatEnded", "liveChatNotFound", "liveChatDisabled", "forbidden"];
+
+/** The chat tier for one liveChatMessage resource. */
+export function youtubeTier(item: any): ChatTier {
+  const type = item?.snippet?.type;
+  if (
+    type === "superChatEvent" ||
+    type === "superStickerEvent" ||
+    type === "newSponsorEvent" ||
+    type === "memberMilestoneChatEvent"
+  ) {
+    return "paid";
+  }
+  const author = item?.authorDetails ?? {};
+  if (author.isChatSponsor || author.isChatModerator || author.isChatOwner) return "sub";
+  return "free";
+}
+
+/** What the viewer said, with paid events spelled out for the LLM. Null for events that aren't chat. */
+function describeItem(item: any): string | null {
+  const snippet = item?.snippet ?? {};
+  switch (snippet.type) {
+    case "textMessageEvent":
+      return snippet.textMessageDetails?.messageText ?? snippet.displayMessage ?? "";
+    case "superChatEvent": {
+      const d = snippet.superChatDetails ?? {};
+      return `[SUPER CHAT ${d.amountDisplayString ?? ""}] ${d.userComment ?? ""}`.trim();
+    }
+    case "superStickerEvent":
+      return `[SUPER STICKER ${snippet.superStickerDetails?.amountDisplayString ?? ""}]`;
+    case "newSponsorEvent":
+      return "just became a member! Welcome them!";
+    case "memberMilestoneChatEvent": {
+      const d = snippet.memberMilestoneChatDetails ?? {};
+      return `[MEMBER ${d.memberMonth ?? "?"} MONTHS] ${d.userComment ?? ""}`.trim();
+    }
+    default:
+      return null;
+  }
+}
+
+/** Map one liveChatMessage resource to a chat message, or null when it isn't one. */
+export function toChatMessage(item: any): TieredChatMessage | null {
+  const text = describeItem(item);
+  if (text === null) return null;
+  const username = item.authorDetails?.displayName || "viewer";
+  const tier = youtubeTier(item);
+  const published = Date.parse(item.snippet?.publishedAt ?? "");
+  return {
+    source: "youtube",
+    username,
+    message: formatForLLM(username, text, tier),
+    timestamp: Number.isNaN(published) ? Date.now() : published,
+    tier,
+    text: item.snippet?.type === "textMessageEvent" ? text : (item.snippet?.superChatDetails?.userComment ?? ""),
+  };
+}
+
+async function callApi(settings: YouTubeSettings, path: string, init: RequestInit = {}): Promise<any> {
+  const url = new URL(`${settings.apiBase.replace(/\/$/, "")}/${path}`);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.oauthToken) headers.Authorization = `Bearer ${settings.oauthToken}`;
+  else if (settings.apiKey) url.searchParams.set("key", settings.apiKey);
+  const res = await fetch(url, { ...init, headers });
+  const data: any = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const reason = data?.error?.errors?.[0]?.reason ?? "";
+    const err = new Error(`YouTube API ${res.status}${reason ? ` (${reason})` : ""}: ${data?.error?.message ?? ""}`);
+    (err as any).reason = reason;
+    throw err;
+  }
+  return data;
+}
+
+export function createYouTubeChat(
+  onMessage: (msg: TieredChatMessage) => void,
+  settings: YouTubeSettings & { enabled?: boolean } = config.youtube,
+): YouTubeChat | null {
+  if (settings.enabled === false) {
+    console.log("[YouTube] Not configured, skipping.");
+    return null;
+  }
+
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let pageToken: string | undefined;
+  /** Ids of messages this bot posted — skipped when they come back in the poll. */
+  const sent = new Set<string>();
+
+  const ready = (async (): Promise<string | null> => {
+    if (settings.liveChatId) return settings.liveChatId;
+    try {
+      const data = await callApi(
+        settings,
+        `videos?part=liveStreamingDetails&id=${encodeURIComponent(settings.videoId)}`,
+      );
+      const id = data?.items?.[0]?.liveStreamingDetails?.activeLiveChatId;
+      if (!id) console.warn(`[YouTube] Video ${settings.videoId} has no active live chat.`);
+      return id ?? null;
+    } catch (err: any) {
+      console.error("[YouTube] Couldn't look up the live chat:", err.message);
+      return null;
+    }
+  })();
+
+  async function poll(liveChatId: string, first: boolean): Promise<void> {
+    if (stopped) return;
+    let delay = DEFAULT_POLL_MS;
+    let received = false;
+    try {
+      const query = new URLSearchParams({ liveChatId, part: "snippet,authorDetails" });
+      if (pageToken) query.set("pageToken", pageToken);
+      const data = await callApi(settings, `liveChat/messages?${query}`);
+      received = true;
+      pageToken = data.nextPageToken ?? pageToken;
+      delay = data.pollingIntervalMillis ?? DEFAULT_POLL_MS;
+      // The first page is the chat's recent backlog — don't answer old messages
+      if (!first && !stopped) {
+        for (const item of data.items ?? []) {
+          if (sent.delete(item.id)) continue;
+          const msg = toChatMessage(item);
+          if (!msg) continue;
+          console.log(`[YouTube] [${msg.tier.toUpperCase()}] ${msg.username}: ${msg.text}`);
+          onMessage(msg);
+        }
+      }
+    } catch (err: any) {
+      if (FATAL_REASONS.includes(err.reason)) {
+        console.log(`[YouTube] Chat closed: ${err.message}`);
+        stopped = true;
+        return;
+      }
+      console.error("[YouTube] Poll error:", err.message);
+      delay = ERROR_RETRY_MS;
+    }
+    // Until a page comes through, the next one is still the backlog
+    if (!stopped) timer = setTimeout(() => void poll(liveChatId, first && !received), delay);
+  }
+
+  void ready.then((liveChatId) => {
+    if (!liveChatId || stopped) return;
+    console.log(`[YouTube] Connected to live chat ${liveChatId}`);
+    void poll(liveChatId, true);
+  });
+
+  async function sendMessage(msg: string): Promise<void> {
+    if (!settings.oauthToken) return;
+    const liveChatId = await ready;
+    if (!liveChatId) return;
+    try {
+      const posted = await callApi(settings, "liveChat/messages?part=snippet", {
+        method: "POST",
+        body: JSON.stringify({
+          snippet: {
+            liveChatId,
+            type: "textMessageEvent",
+            textMessageDetails: { messageText: msg.slice(0, MAX_MESSAGE_LENGTH) },
+          },
+        }),
+      });
+      if (posted?.id) sent.add(posted.id);
+    } catch (err: any) {
+      console.error("[YouTube] Couldn't post:", err.message);
+    }
+  }
+
+  function stop(): void {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  }
+
+  return { sendMessage, stop, ready };
+}